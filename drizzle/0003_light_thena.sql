@@ -0,0 +1,3 @@
+ALTER TABLE "items" ADD COLUMN "price" real;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "currency" varchar(3) DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "hide_prices" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "weight_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"list_id" uuid NOT NULL,
+	"base_weight" real NOT NULL,
+	"worn_weight" real NOT NULL,
+	"consumable_weight" real NOT NULL,
+	"total_weight" real NOT NULL,
+	"item_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "weight_snapshots" ADD CONSTRAINT "weight_snapshots_list_id_lists_id_fk" FOREIGN KEY ("list_id") REFERENCES "public"."lists"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
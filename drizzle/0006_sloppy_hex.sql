@@ -0,0 +1,2 @@
+ALTER TABLE "lists" ADD COLUMN "forked_from_list_id" uuid;--> statement-breakpoint
+ALTER TABLE "lists" ADD CONSTRAINT "lists_forked_from_list_id_lists_id_fk" FOREIGN KEY ("forked_from_list_id") REFERENCES "public"."lists"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
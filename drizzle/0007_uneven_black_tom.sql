@@ -0,0 +1,5 @@
+ALTER TABLE "anonymous_sessions" ADD COLUMN "display_unit" varchar(10) DEFAULT 'g' NOT NULL;--> statement-breakpoint
+ALTER TABLE "anonymous_sessions" ADD COLUMN "default_weight_unit" varchar(10) DEFAULT 'g' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "display_unit" varchar(10);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "display_unit" varchar(10) DEFAULT 'g' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "default_weight_unit" varchar(10) DEFAULT 'g' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "items" ADD COLUMN "per_day" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "trip_days" integer;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "resupply_days" integer[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "items" ADD COLUMN "calories" real;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "protein" real;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "fat" real;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "carbs" real;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "serving_weight" real;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "calories_per_day" integer;
\ No newline at end of file
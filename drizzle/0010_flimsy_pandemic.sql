@@ -0,0 +1,2 @@
+ALTER TABLE "lists" ADD COLUMN "water_carry_amount" real;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "water_carry_unit" varchar(10) DEFAULT 'l' NOT NULL;
\ No newline at end of file
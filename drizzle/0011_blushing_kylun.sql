@@ -0,0 +1,4 @@
+ALTER TABLE "anonymous_sessions" ADD COLUMN "weight_class_thresholds" real[];--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "base_weight_target" real;--> statement-breakpoint
+ALTER TABLE "lists" ADD COLUMN "base_weight_target" real;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "weight_class_thresholds" real[];
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "items" ADD COLUMN "packed_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
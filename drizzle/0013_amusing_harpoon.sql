@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "bio" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "avatar_url" text;
\ No newline at end of file
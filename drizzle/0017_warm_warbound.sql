@@ -0,0 +1 @@
+CREATE INDEX "weight_snapshots_list_id_created_at_idx" ON "weight_snapshots" USING btree ("list_id","created_at");
\ No newline at end of file
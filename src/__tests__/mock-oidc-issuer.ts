@@ -0,0 +1,147 @@
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * A local OpenID Connect issuer for tests: serves discovery, JWKS and a token
+ * endpoint that checks PKCE, and signs RS256 ID tokens with a throwaway key.
+ */
+export interface MockOidcIssuer {
+  issuer: string;
+  // Stand-in for the user logging in at the provider; returns the code
+  authorize(authorizationUrl: string, claims: Record<string, unknown>): string;
+  signIdToken(claims: Record<string, unknown>): Promise<string>;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+const KEY_ID = "test-key";
+
+function base64Url(value: string | ArrayBuffer): string {
+  return Buffer.from(
+    typeof value === "string" ? value : new Uint8Array(value)
+  ).toString("base64url");
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+export async function startMockOidcIssuer(): Promise<MockOidcIssuer> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"]
+  );
+  const publicJwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+  const codes = new Map<string, PendingCode>();
+  let issuer = "";
+
+  const signIdToken = async (claims: Record<string, unknown>) => {
+    const header = base64Url(
+      JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID })
+    );
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = await crypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      keyPair.privateKey,
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    return `${header}.${payload}.${base64Url(signature)}`;
+  };
+
+  const server = createServer(async (request, response) => {
+    const sendJson = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.url === "/.well-known/openid-configuration") {
+      return sendJson(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+
+    if (request.url === "/jwks") {
+      return sendJson(200, { keys: [{ ...publicJwk, kid: KEY_ID, use: "sig" }] });
+    }
+
+    if (request.url === "/token" && request.method === "POST") {
+      const body = new URLSearchParams(await readBody(request));
+      const code = body.get("code") ?? "";
+      const pending = codes.get(code);
+      codes.delete(code);
+
+      const verifier = body.get("code_verifier") ?? "";
+      const challenge = createHash("sha256").update(verifier).digest("base64url");
+      if (
+        body.get("grant_type") !== "authorization_code" ||
+        !pending ||
+        pending.clientId !== body.get("client_id") ||
+        pending.redirectUri !== body.get("redirect_uri") ||
+        pending.codeChallenge !== challenge
+      ) {
+        return sendJson(400, { error: "invalid_grant" });
+      }
+
+      const idToken = await signIdToken({
+        iss: issuer,
+        aud: pending.clientId,
+        exp: Math.floor(Date.now() / 1000) + 300,
+        iat: Math.floor(Date.now() / 1000),
+        nonce: pending.nonce,
+        ...pending.claims,
+      });
+      return sendJson(200, {
+        access_token: "mock-access-token",
+        token_type: "Bearer",
+        id_token: idToken,
+      });
+    }
+
+    sendJson(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    authorize(authorizationUrl, claims) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = randomBytes(16).toString("hex");
+      codes.set(code, {
+        clientId: params.get("client_id") ?? "",
+        redirectUri: params.get("redirect_uri") ?? "",
+        codeChallenge: params.get("code_challenge") ?? "",
+        nonce: params.get("nonce") ?? "",
+        claims,
+      });
+      return code;
+    },
+    signIdToken,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,172 @@
+import { vi } from "vitest";
+import { getTableName, is, SQL } from "drizzle-orm";
+import { PgDialect, type PgTable } from "drizzle-orm/pg-core";
+
+/**
+ * In-memory stand-in for the tables two-factor authentication touches
+ * (users, recovery_codes and two_factor_challenges), for mocking `@/db`.
+ * Where clauses are rendered with the Postgres dialect so records are matched
+ * by the values the query actually filters on.
+ */
+export interface MockTwoFactorUser {
+  id: string;
+  username: string;
+  email: string;
+  totpSecret: string | null;
+  totpPendingSecret: string | null;
+  totpLastUsedStep: number | null;
+}
+
+export interface MockRecoveryCode {
+  id: string;
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+}
+
+export interface MockChallenge {
+  id: string;
+  userId: string;
+  token: string;
+  attempts: number;
+  expiresAt: Date;
+}
+
+export const twoFactorStore = {
+  users: [] as MockTwoFactorUser[],
+  recoveryCodes: [] as MockRecoveryCode[],
+  challenges: [] as MockChallenge[],
+};
+
+export function resetTwoFactorStore() {
+  twoFactorStore.users = [];
+  twoFactorStore.recoveryCodes = [];
+  twoFactorStore.challenges = [];
+}
+
+const dialect = new PgDialect();
+
+function renderWhere(condition: SQL) {
+  return dialect.sqlToQuery(condition);
+}
+
+function matchUsers(condition: SQL) {
+  const { sql, params } = renderWhere(condition);
+  return twoFactorStore.users.filter((user) => {
+    if (!params.includes(user.id) && !params.includes(user.email)) {
+      return false;
+    }
+    // Recording a TOTP step only succeeds for a later step
+    if (sql.includes('"totp_last_used_step" <')) {
+      const step = params[params.length - 1] as number;
+      return user.totpLastUsedStep === null || user.totpLastUsedStep < step;
+    }
+    return true;
+  });
+}
+
+function matchRecoveryCodes(condition: SQL) {
+  const { sql, params } = renderWhere(condition);
+  return twoFactorStore.recoveryCodes.filter(
+    (code) =>
+      params.includes(code.userId) &&
+      (!sql.includes('"code_hash" =') || params.includes(code.codeHash)) &&
+      (!sql.includes('"used_at" is null') || code.usedAt === null)
+  );
+}
+
+function matchChallenges(condition: SQL) {
+  const { sql, params } = renderWhere(condition);
+  return twoFactorStore.challenges.filter(
+    (challenge) =>
+      (params.includes(challenge.id) || params.includes(challenge.token)) &&
+      (!sql.includes('"expires_at" >') || challenge.expiresAt > new Date()) &&
+      // The attempt limit is the last value filtered on
+      (!sql.includes('"attempts" <') ||
+        challenge.attempts < (params[params.length - 1] as number))
+  );
+}
+
+function match(table: PgTable, condition: SQL): object[] {
+  switch (getTableName(table)) {
+    case "users":
+      return matchUsers(condition);
+    case "recovery_codes":
+      return matchRecoveryCodes(condition);
+    case "two_factor_challenges":
+      return matchChallenges(condition);
+    default:
+      return [];
+  }
+}
+
+// Query results that can be awaited directly or through limit/returning
+function rows<T>(result: T[]) {
+  return Object.assign(Promise.resolve(result), {
+    limit: vi.fn().mockImplementation(() => Promise.resolve(result)),
+    returning: vi.fn().mockImplementation(() => Promise.resolve(result)),
+  });
+}
+
+export const mockTwoFactorDb = {
+  select: vi.fn().mockImplementation((fields?: Record<string, unknown>) => ({
+    from: vi.fn().mockImplementation((table: PgTable) => ({
+      where: vi.fn().mockImplementation((condition: SQL) => {
+        const matched = match(table, condition);
+        return rows(
+          fields && "count" in fields ? [{ count: matched.length }] : matched
+        );
+      }),
+    })),
+  })),
+  insert: vi.fn().mockImplementation((table: PgTable) => ({
+    values: vi.fn().mockImplementation((values: object | object[]) => {
+      const records = (Array.isArray(values) ? values : [values]).map(
+        (value) => ({ id: crypto.randomUUID(), ...value })
+      );
+      for (const record of records) {
+        switch (getTableName(table)) {
+          case "recovery_codes":
+            twoFactorStore.recoveryCodes.push({
+              usedAt: null,
+              ...(record as Omit<MockRecoveryCode, "usedAt">),
+            });
+            break;
+          case "two_factor_challenges":
+            twoFactorStore.challenges.push({
+              attempts: 0,
+              ...(record as Omit<MockChallenge, "attempts">),
+            });
+            break;
+        }
+      }
+      return rows(records);
+    }),
+  })),
+  update: vi.fn().mockImplementation((table: PgTable) => ({
+    set: vi.fn().mockImplementation((data: object) => ({
+      where: vi.fn().mockImplementation((condition: SQL) => {
+        const matched = match(table, condition);
+        for (const record of matched as Record<string, unknown>[]) {
+          for (const [key, value] of Object.entries(data)) {
+            // SQL values are `column + 1` counters
+            record[key] = is(value, SQL) ? (record[key] as number) + 1 : value;
+          }
+        }
+        return rows(matched);
+      }),
+    })),
+  })),
+  delete: vi.fn().mockImplementation((table: PgTable) => ({
+    where: vi.fn().mockImplementation((condition: SQL) => {
+      const matched = match(table, condition);
+      twoFactorStore.recoveryCodes = twoFactorStore.recoveryCodes.filter(
+        (code) => !matched.includes(code)
+      );
+      twoFactorStore.challenges = twoFactorStore.challenges.filter(
+        (challenge) => !matched.includes(challenge)
+      );
+      return rows(matched);
+    }),
+  })),
+};
@@ -0,0 +1,142 @@
+import { ImageResponse } from "next/og";
+import { calculateCategoryBar } from "@/lib/og";
+import { getPublicListData } from "@/lib/public-list";
+import {
+  calculateListWeightSummary,
+  formatWeight,
+  fromGrams,
+} from "@/lib/weight";
+
+type ImageProps = {
+  params: Promise<{ username: string; slug: string }>;
+};
+
+export const alt = "Gear list weight summary";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// Re-rendered at most hourly, like the public list data it is built from
+export const revalidate = 3600;
+
+/**
+ * Share image for a public list: name, owner, weight totals and a bar of
+ * each category's share of the pack weight. Built from the cached public
+ * list data, so it is refreshed when the list cache tag is revalidated.
+ */
+export default async function Image({ params }: ImageProps) {
+  const { username, slug } = await params;
+  const data = await getPublicListData(username, slug);
+
+  if (!data) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            display: "flex",
+            width: "100%",
+            height: "100%",
+            alignItems: "center",
+            justifyContent: "center",
+            background: "#fafafa",
+            color: "#18181b",
+            fontSize: 64,
+            fontWeight: 700,
+          }}
+        >
+          Ultralight
+        </div>
+      ),
+      size
+    );
+  }
+
+  const summary = calculateListWeightSummary(
+    data.categories,
+    data.trip,
+    data.water
+  );
+  const segments = calculateCategoryBar(summary);
+  const formatGrams = (grams: number) =>
+    formatWeight(fromGrams(grams, data.displayUnit), data.displayUnit);
+  const totals = [
+    { label: "Base", value: summary.totalBaseWeight },
+    { label: "Worn", value: summary.totalWornWeight },
+    { label: "Consumable", value: summary.totalConsumableWeight },
+    { label: "Total", value: summary.totalPackWeight },
+  ];
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          width: "100%",
+          height: "100%",
+          padding: 64,
+          background: "#fafafa",
+          color: "#18181b",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 28, color: "#71717a" }}>
+          Ultralight
+        </div>
+        <div
+          style={{
+            display: "flex",
+            marginTop: 24,
+            fontSize: 72,
+            fontWeight: 700,
+            lineHeight: 1.1,
+          }}
+        >
+          {data.list.name}
+        </div>
+        <div style={{ display: "flex", marginTop: 12, fontSize: 32, color: "#52525b" }}>
+          by {data.username}
+        </div>
+
+        <div style={{ display: "flex", marginTop: "auto", gap: 48 }}>
+          {totals.map((total) => (
+            <div
+              key={total.label}
+              style={{ display: "flex", flexDirection: "column" }}
+            >
+              <div style={{ display: "flex", fontSize: 24, color: "#71717a" }}>
+                {total.label}
+              </div>
+              <div style={{ display: "flex", fontSize: 44, fontWeight: 700 }}>
+                {formatGrams(total.value)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            marginTop: 32,
+            width: "100%",
+            height: 28,
+            borderRadius: 14,
+            overflow: "hidden",
+            background: "#e4e4e7",
+          }}
+        >
+          {segments.map((segment, index) => (
+            <div
+              key={index}
+              style={{
+                display: "flex",
+                width: `${segment.fraction * 100}%`,
+                height: "100%",
+                background: segment.color,
+              }}
+            />
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
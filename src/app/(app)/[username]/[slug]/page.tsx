@@ -0,0 +1,91 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { PublicListClient } from "./public-list-client";
+import { getOEmbedUrl } from "@/lib/embed";
+import { getPublicListData } from "@/lib/public-list";
+import {
+  calculateListWeightSummary,
+  formatWeight,
+  fromGrams,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { WEIGHT_CLASS_LABELS, getWeightClass } from "@/lib/weight-class";
+
+type PageProps = {
+  params: Promise<{ username: string; slug: string }>;
+  searchParams: Promise<{ unit?: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { username, slug } = await params;
+  const data = await getPublicListData(username, slug);
+
+  if (!data) {
+    return {
+      title: "List Not Found",
+    };
+  }
+
+  // Shared links advertise the pack's weight class
+  const { totalBaseWeight } = calculateListWeightSummary(data.categories);
+  const weightClass =
+    WEIGHT_CLASS_LABELS[
+      getWeightClass(totalBaseWeight, data.weightClassThresholds)
+    ];
+  const baseWeight = formatWeight(
+    fromGrams(totalBaseWeight, data.displayUnit),
+    data.displayUnit
+  );
+  const title = `${data.list.name} by ${data.username}`;
+  const description = `${weightClass} · ${baseWeight} base weight. ${
+    data.list.description || `Gear list by ${data.username}`
+  }`;
+
+  return {
+    title,
+    description,
+    // The image comes from opengraph-image.tsx next to this page
+    openGraph: { title, description },
+    twitter: { card: "summary_large_image", title, description },
+    // oEmbed auto-discovery for blogs embedding the list
+    alternates: {
+      types: {
+        "application/json+oembed": getOEmbedUrl({
+          username: data.username,
+          slug: data.list.slug,
+        }),
+      },
+    },
+  };
+}
+
+export default async function PublicListPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { username, slug } = await params;
+  // Viewers can override the owner's unit with ?unit=oz
+  const { unit } = await searchParams;
+  const data = await getPublicListData(username, slug);
+
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <PublicListClient
+      list={data.list}
+      categories={data.categories}
+      username={data.username}
+      forkedFrom={data.forkedFrom}
+      displayUnit={resolveDisplayUnit(unit, data.displayUnit)}
+      trip={data.trip}
+      water={data.water}
+      baseWeightTarget={data.baseWeightTarget}
+      weightClassThresholds={data.weightClassThresholds}
+      caloriesPerDay={data.caloriesPerDay}
+    />
+  );
+}
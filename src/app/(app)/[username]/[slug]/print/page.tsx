@@ -0,0 +1,85 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { db } from "@/db";
+import { users, lists } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import {
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { PrintableList } from "@/components/printable-list";
+
+type PageProps = {
+  params: Promise<{ username: string; slug: string }>;
+  searchParams: Promise<{ unit?: string }>;
+};
+
+async function getPrintData(username: string, slug: string) {
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.username, username))
+    .limit(1);
+
+  if (!user) {
+    return null;
+  }
+
+  const [list] = await db
+    .select()
+    .from(lists)
+    .where(and(eq(lists.userId, user.id), eq(lists.slug, slug)))
+    .limit(1);
+
+  // Only allow access to public lists via this route
+  if (!list || !list.isPublic) {
+    return null;
+  }
+
+  return {
+    list,
+    username: user.username,
+    categories: await getListCategoriesWithItems(list.id),
+    // The list's own unit wins over the owner's preferred unit
+    displayUnit: resolveDisplayUnit(list.displayUnit, user.displayUnit),
+  };
+}
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { username, slug } = await params;
+  const data = await getPrintData(username, slug);
+
+  return {
+    title: data ? `${data.list.name} by ${data.username}` : "List Not Found",
+  };
+}
+
+export default async function PrintPublicListPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { username, slug } = await params;
+  // Viewers can override the owner's unit with ?unit=oz
+  const { unit } = await searchParams;
+  const data = await getPrintData(username, slug);
+
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <PrintableList
+      list={{ name: data.list.name, description: data.list.description }}
+      categories={data.categories}
+      displayUnit={resolveDisplayUnit(unit, data.displayUnit)}
+      trip={getListTripSettings(data.list)}
+      water={getListWaterCarry(data.list)}
+      username={data.username}
+      backHref={`/${encodeURIComponent(data.username)}/${data.list.slug}`}
+    />
+  );
+}
@@ -0,0 +1,490 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { WeightSummary } from "@/components/weight-summary";
+import { FoodSummary } from "@/components/food-summary";
+import { ForkedFromLink } from "@/components/forked-from-link";
+import { useToast } from "@/components/ui/toast";
+import type { Category } from "@/db/schema";
+import { calculateItemCost, formatPrice } from "@/lib/cost";
+import type { ForkSource } from "@/lib/lists";
+import { buildOEmbedResponse } from "@/lib/embed";
+import { formatListBbcode, formatListMarkdown } from "@/lib/list-text";
+import type { ItemWithTags } from "@/lib/tags";
+import {
+  formatUnit,
+  type TripSettings,
+  type WaterCarry,
+  type WeightUnit,
+} from "@/lib/weight";
+import type { WeightClassThresholds } from "@/lib/weight-class";
+import { WEIGHT_UNIT_OPTIONS } from "@/components/ui/weight-unit-select";
+
+interface ListData {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  hidePrices: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CategoryWithItems extends Category {
+  items: ItemWithTags[];
+}
+
+interface PublicListClientProps {
+  list: ListData;
+  categories: CategoryWithItems[];
+  username: string;
+  forkedFrom?: ForkSource | null;
+  displayUnit?: WeightUnit;
+  trip?: TripSettings | null;
+  water?: WaterCarry | null;
+  caloriesPerDay?: number | null;
+  baseWeightTarget?: number | null;
+  weightClassThresholds?: WeightClassThresholds;
+  embed?: boolean; // minimal iframe version without actions
+}
+
+export function PublicListClient({
+  list,
+  categories,
+  username,
+  forkedFrom = null,
+  displayUnit = "g",
+  trip = null,
+  water = null,
+  caloriesPerDay = null,
+  baseWeightTarget = null,
+  weightClassThresholds,
+  embed = false,
+}: PublicListClientProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { showToast } = useToast();
+  const [isCopying, setIsCopying] = React.useState(false);
+  const exportPath = `/api/users/${encodeURIComponent(username)}/lists/${list.slug}/export`;
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    try {
+      const response = await fetch(`/api/lists/${list.id}/duplicate`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to copy list");
+      }
+
+      showToast("List copied to your lists", "success");
+      router.push(`/lists/${data.list.slug}`);
+      router.refresh();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to copy list",
+        "error"
+      );
+      setIsCopying(false);
+    }
+  };
+
+  // Tables for trip reports and forum posts, in the unit being viewed
+  const handleCopyAs = async (format: "markdown" | "bbcode") => {
+    const options = { displayUnit, trip, water };
+    const body =
+      format === "markdown"
+        ? formatListMarkdown(list, categories, options)
+        : formatListBbcode(list, categories, options);
+
+    try {
+      await navigator.clipboard.writeText(body);
+      showToast(
+        format === "markdown" ? "Copied as Markdown" : "Copied as BBCode",
+        "success"
+      );
+    } catch {
+      showToast("Failed to copy list", "error");
+    }
+  };
+
+  const handleCopyEmbed = async () => {
+    const { html } = buildOEmbedResponse({
+      username,
+      slug: list.slug,
+      name: list.name,
+    });
+
+    try {
+      await navigator.clipboard.writeText(html);
+      showToast("Embed code copied", "success");
+    } catch {
+      showToast("Failed to copy embed code", "error");
+    }
+  };
+
+  const listPath = `/${encodeURIComponent(username)}/${list.slug}`;
+
+  return (
+    <div
+      className={
+        embed ? "bg-zinc-50 dark:bg-black" : "min-h-screen bg-zinc-50 dark:bg-black"
+      }
+    >
+      <div
+        className={
+          embed
+            ? "px-3 py-4 sm:px-4"
+            : "mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8"
+        }
+      >
+        {/* List Header */}
+        <header className={embed ? "mb-4" : "mb-8"}>
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">
+                {list.name}
+              </h1>
+              {list.description && (
+                <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+                  {list.description}
+                </p>
+              )}
+              <div className="mt-2 flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-500">
+                <span>by</span>
+                {embed ? (
+                  <span className="font-medium text-zinc-700 dark:text-zinc-300">
+                    {username}
+                  </span>
+                ) : (
+                  <Link
+                    href={`/${encodeURIComponent(username)}`}
+                    className="font-medium text-zinc-700 hover:underline dark:text-zinc-300"
+                  >
+                    {username}
+                  </Link>
+                )}
+                <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
+                  Public
+                </span>
+              </div>
+              {forkedFrom && <ForkedFromLink source={forkedFrom} />}
+            </div>
+            {!embed && (
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  disabled={isCopying}
+                  className="inline-flex items-center gap-1.5 rounded-md bg-zinc-900 px-3 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+                >
+                  <CopyIcon className="h-4 w-4" />
+                  {isCopying ? "Copying..." : "Copy to my lists"}
+                </button>
+                <a
+                  href={`${exportPath}?format=csv`}
+                  download
+                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  <DownloadIcon className="h-4 w-4" />
+                  CSV
+                </a>
+                <a
+                  href={`${exportPath}?format=json`}
+                  download
+                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  <DownloadIcon className="h-4 w-4" />
+                  JSON
+                </a>
+                <button
+                  type="button"
+                  onClick={() => handleCopyAs("markdown")}
+                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  <CopyIcon className="h-4 w-4" />
+                  Markdown
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleCopyAs("bbcode")}
+                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  <CopyIcon className="h-4 w-4" />
+                  BBCode
+                </button>
+                <a
+                  href={`${listPath}/print?unit=${displayUnit}`}
+                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  Print
+                </a>
+                <button
+                  type="button"
+                  onClick={handleCopyEmbed}
+                  className="inline-flex items-center gap-1.5 rounded-md border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  <CopyIcon className="h-4 w-4" />
+                  Embed
+                </button>
+              </div>
+            )}
+          </div>
+        </header>
+
+        {/* Weight Summary */}
+        <div className={embed ? "mb-4" : "mb-8"}>
+          {/* Embeds take the unit from the embedding page's ?unit= */}
+          {!embed && (
+            <div className="mb-2 flex items-center justify-end gap-2 text-sm">
+              <label
+                htmlFor="displayUnit"
+                className="text-zinc-500 dark:text-zinc-500"
+              >
+                Show weights in
+              </label>
+              <select
+                id="displayUnit"
+                value={displayUnit}
+                onChange={(e) =>
+                  router.replace(`${pathname}?unit=${e.target.value}`, {
+                    scroll: false,
+                  })
+                }
+                className="rounded-md border border-zinc-200 bg-white px-2 py-1 text-sm text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+              >
+                {WEIGHT_UNIT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-4 sm:space-y-6">
+            <WeightSummary
+              categories={categories}
+              displayUnit={displayUnit}
+              showCost={!list.hidePrices}
+              trip={trip}
+              water={water}
+              baseWeightTarget={baseWeightTarget}
+              weightClassThresholds={weightClassThresholds}
+            />
+            <FoodSummary
+              categories={categories}
+              displayUnit={displayUnit}
+              trip={trip}
+              caloriesPerDay={caloriesPerDay}
+            />
+          </div>
+        </div>
+
+        {/* Categories Section */}
+        <div className="space-y-6">
+          {categories.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-zinc-300 bg-white p-8 text-center dark:border-zinc-700 dark:bg-zinc-900">
+              <p className="text-zinc-600 dark:text-zinc-400">
+                No categories in this list yet.
+              </p>
+            </div>
+          ) : (
+            categories.map((category) => (
+              <CategorySection key={category.id} category={category} />
+            ))
+          )}
+        </div>
+
+        {/* Back link */}
+        {embed ? (
+          <div className="mt-4 text-right">
+            <a
+              href={listPath}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              View on Ultralight →
+            </a>
+          </div>
+        ) : (
+          <div className="mt-8 pt-8 border-t border-zinc-200 dark:border-zinc-800">
+            <Link
+              href="/"
+              className="text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              ← Create your own gear list
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CategorySectionProps {
+  category: CategoryWithItems;
+}
+
+function CategorySection({ category }: CategorySectionProps) {
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+      {/* Category Header */}
+      <div className="border-b border-zinc-200 px-4 py-3 dark:border-zinc-800">
+        <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+          {category.name}
+        </h2>
+        {category.description && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-500">
+            {category.description}
+          </p>
+        )}
+      </div>
+
+      {/* Items List */}
+      <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+        {category.items.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-zinc-500 dark:text-zinc-500">
+            No items in this category
+          </div>
+        ) : (
+          category.items.map((item) => <ItemRow key={item.id} item={item} />)
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ItemRowProps {
+  item: ItemWithTags;
+}
+
+function ItemRow({ item }: ItemRowProps) {
+  const formatWeight = (amount: number, unit: string) => {
+    return `${amount} ${formatUnit(unit)}`;
+  };
+
+  const totalWeight = item.weightAmount * item.quantity;
+  const cost = calculateItemCost(item);
+
+  return (
+    <div className="flex items-center gap-4 px-4 py-3">
+      {/* Item Info */}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-zinc-900 dark:text-zinc-100">
+            {item.name}
+          </span>
+          {item.label && item.label !== "none" && (
+            <span
+              className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+                item.label === "worn"
+                  ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                  : "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+              }`}
+            >
+              {item.label}
+              {item.label === "consumable" && item.perDay && " / day"}
+            </span>
+          )}
+          {item.tags.map((tag) => (
+            <span
+              key={tag.id}
+              className="inline-flex items-center rounded-full bg-violet-100 px-2 py-0.5 text-xs font-medium text-violet-800 dark:bg-violet-900 dark:text-violet-200"
+            >
+              {tag.name}
+            </span>
+          ))}
+          {item.url && (
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+              aria-label="Open link"
+            >
+              <LinkIcon className="h-3.5 w-3.5" />
+            </a>
+          )}
+        </div>
+        {item.description && (
+          <p className="mt-0.5 text-sm text-zinc-500 dark:text-zinc-500 truncate">
+            {item.description}
+          </p>
+        )}
+      </div>
+
+      {/* Weight & Quantity */}
+      <div className="flex items-center gap-4 text-sm">
+        {item.quantity > 1 && (
+          <span className="text-zinc-500 dark:text-zinc-500">
+            x{item.quantity}
+          </span>
+        )}
+        {cost !== null && (
+          <span className="text-zinc-500 dark:text-zinc-500 tabular-nums">
+            {formatPrice(cost, item.currency)}
+          </span>
+        )}
+        <span className="text-zinc-700 dark:text-zinc-300 tabular-nums">
+          {formatWeight(totalWeight, item.weightUnit)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function LinkIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M4.25 5.5a.75.75 0 00-.75.75v8.5c0 .414.336.75.75.75h8.5a.75.75 0 00.75-.75v-4a.75.75 0 011.5 0v4A2.25 2.25 0 0112.75 17h-8.5A2.25 2.25 0 012 14.75v-8.5A2.25 2.25 0 014.25 4h5a.75.75 0 010 1.5h-5z"
+        clipRule="evenodd"
+      />
+      <path
+        fillRule="evenodd"
+        d="M6.194 12.753a.75.75 0 001.06.053L16.5 4.44v2.81a.75.75 0 001.5 0v-4.5a.75.75 0 00-.75-.75h-4.5a.75.75 0 000 1.5h2.553l-9.056 8.194a.75.75 0 00-.053 1.06z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.955 3.129V2.75z" />
+      <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+    </svg>
+  );
+}
+
+function CopyIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M7 3.5A1.5 1.5 0 018.5 2h3.879a1.5 1.5 0 011.06.44l3.122 3.12A1.5 1.5 0 0117 6.622V12.5a1.5 1.5 0 01-1.5 1.5h-1v-3.379a3 3 0 00-.879-2.121L10.5 5.379A3 3 0 008.379 4.5H7v-1z" />
+      <path d="M4.5 6A1.5 1.5 0 003 7.5v9A1.5 1.5 0 004.5 18h7a1.5 1.5 0 001.5-1.5v-5.879a1.5 1.5 0 00-.44-1.06L9.44 6.439A1.5 1.5 0 008.378 6H4.5z" />
+    </svg>
+  );
+}
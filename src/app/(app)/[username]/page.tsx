@@ -0,0 +1,122 @@
+import { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getPublicProfile } from "@/lib/profile";
+import { formatWeight, fromGrams } from "@/lib/weight";
+
+type PageProps = {
+  params: Promise<{ username: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { username } = await params;
+  const profile = await getPublicProfile(username);
+
+  if (!profile) {
+    return {
+      title: "Profile Not Found",
+    };
+  }
+
+  const title = `${profile.username}'s gear lists`;
+  const description =
+    profile.bio ||
+    `${profile.lists.length} public gear ${
+      profile.lists.length === 1 ? "list" : "lists"
+    } by ${profile.username}`;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+  };
+}
+
+export default async function ProfilePage({ params }: PageProps) {
+  const { username } = await params;
+  const profile = await getPublicProfile(username);
+
+  if (!profile) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <div className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+        <header className="mb-8 flex items-start gap-4">
+          {profile.avatarUrl && (
+            // Avatars are hosted anywhere, so skip the image optimizer
+            <Image
+              src={profile.avatarUrl}
+              alt=""
+              width={64}
+              height={64}
+              unoptimized
+              className="h-16 w-16 rounded-full object-cover"
+            />
+          )}
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">
+              {profile.username}
+            </h1>
+            {profile.bio && (
+              <p className="mt-2 whitespace-pre-line text-zinc-600 dark:text-zinc-400">
+                {profile.bio}
+              </p>
+            )}
+            <p className="mt-2 text-sm text-zinc-500">
+              Member since{" "}
+              {profile.createdAt.toLocaleDateString("en-US", {
+                month: "long",
+                year: "numeric",
+              })}
+            </p>
+          </div>
+        </header>
+
+        <ul className="divide-y divide-zinc-200 rounded-lg border border-zinc-200 bg-white dark:divide-zinc-800 dark:border-zinc-800 dark:bg-zinc-900">
+          {profile.lists.map((list) => (
+            <li key={list.id}>
+              <Link
+                href={`/${encodeURIComponent(profile.username)}/${encodeURIComponent(list.slug)}`}
+                className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium text-zinc-900 dark:text-zinc-100">
+                    {list.name}
+                  </p>
+                  {list.description && (
+                    <p className="truncate text-sm text-zinc-500">
+                      {list.description}
+                    </p>
+                  )}
+                </div>
+                <div className="shrink-0 text-right text-sm">
+                  <p className="font-medium text-zinc-900 dark:text-zinc-100">
+                    {formatWeight(
+                      fromGrams(list.baseWeight, profile.displayUnit),
+                      profile.displayUnit
+                    )}{" "}
+                    <span className="font-normal text-zinc-500">base</span>
+                  </p>
+                  <p className="text-zinc-500">
+                    {list.itemCount} {list.itemCount === 1 ? "item" : "items"} ·
+                    Updated{" "}
+                    {list.updatedAt.toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                    })}
+                  </p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { fromGrams, formatWeight, type WeightUnit } from "@/lib/weight";
+import type {
+  CategoryComparison,
+  ComparedItem,
+  ListComparison,
+} from "@/lib/compare";
+
+interface ComparedList {
+  id: string;
+  name: string;
+  slug: string;
+  isPublic: boolean;
+}
+
+interface CompareResponse {
+  a: ComparedList;
+  b: ComparedList;
+  comparison: ListComparison;
+}
+
+interface CompareClientProps {
+  listIdA: string;
+  listIdB: string;
+  displayUnit?: WeightUnit;
+}
+
+export function CompareClient({
+  listIdA,
+  listIdB,
+  displayUnit = "g",
+}: CompareClientProps) {
+  const router = useRouter();
+  const [ownLists, setOwnLists] = React.useState<ComparedList[]>([]);
+  const [result, setResult] = React.useState<CompareResponse | null>(null);
+  const [isLoading, setIsLoading] = React.useState(Boolean(listIdA && listIdB));
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetch("/api/lists")
+      .then((response) => (response.ok ? response.json() : { lists: [] }))
+      .then((data: { lists: ComparedList[] }) => setOwnLists(data.lists))
+      .catch(() => setOwnLists([]));
+  }, []);
+
+  React.useEffect(() => {
+    if (!listIdA || !listIdB) {
+      return;
+    }
+
+    async function fetchComparison() {
+      try {
+        const response = await fetch(
+          `/api/compare?a=${encodeURIComponent(listIdA)}&b=${encodeURIComponent(listIdB)}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || "Failed to compare lists");
+          return;
+        }
+
+        setResult(data);
+      } catch {
+        setError("Failed to compare lists");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchComparison();
+  }, [listIdA, listIdB]);
+
+  const selectList = (side: "a" | "b", id: string) => {
+    const params = new URLSearchParams();
+    const a = side === "a" ? id : listIdA;
+    const b = side === "b" ? id : listIdB;
+    if (a) params.set("a", a);
+    if (b) params.set("b", b);
+    router.push(`/compare?${params.toString()}`);
+  };
+
+  const format = (grams: number) =>
+    formatWeight(fromGrams(grams, displayUnit), displayUnit);
+
+  // Lists picked via URL that the user does not own (e.g. someone's public list)
+  const options = [...ownLists];
+  for (const list of [result?.a, result?.b]) {
+    if (list && !options.some((l) => l.id === list.id)) {
+      options.push(list);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <div className="mx-auto max-w-4xl px-3 py-4 sm:px-6 sm:py-8 lg:px-8">
+        <header className="mb-4 sm:mb-8">
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 sm:text-3xl">
+            Compare Lists
+          </h1>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 sm:mt-2 sm:text-base">
+            Categories are matched by name and items by name or closet gear.
+          </p>
+        </header>
+
+        <div className="mb-4 grid gap-3 sm:mb-8 sm:grid-cols-2">
+          <ListSelect
+            label="List A"
+            value={listIdA}
+            options={options}
+            onChange={(id) => selectList("a", id)}
+          />
+          <ListSelect
+            label="List B"
+            value={listIdB}
+            options={options}
+            onChange={(id) => selectList("b", id)}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="h-40 animate-pulse rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+        ) : error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        ) : result ? (
+          <ComparisonView result={result} format={format} />
+        ) : (
+          <div className="rounded-lg border border-dashed border-zinc-300 px-4 py-8 text-center text-sm text-zinc-500 dark:border-zinc-700 dark:text-zinc-400">
+            Choose two lists to compare.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ListSelectProps {
+  label: string;
+  value: string;
+  options: ComparedList[];
+  onChange: (id: string) => void;
+}
+
+function ListSelect({ label, value, options, onChange }: ListSelectProps) {
+  return (
+    <label className="block">
+      <span className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        {label}
+      </span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+      >
+        <option value="">Select a list…</option>
+        {options.map((list) => (
+          <option key={list.id} value={list.id}>
+            {list.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface ComparisonViewProps {
+  result: CompareResponse;
+  format: (grams: number) => string;
+}
+
+function ComparisonView({ result, format }: ComparisonViewProps) {
+  const { a, b, comparison } = result;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-2 rounded-lg border border-zinc-200 bg-white p-3 text-center dark:border-zinc-800 dark:bg-zinc-900 sm:p-4">
+        <div>
+          <div className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+            {a.name}
+          </div>
+          <div className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            {format(comparison.baseWeightA)}
+          </div>
+        </div>
+        <div>
+          <div className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+            {b.name}
+          </div>
+          <div className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            {format(comparison.baseWeightB)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">
+            Base weight difference
+          </div>
+          <Delta grams={comparison.baseWeightDelta} format={format} large />
+        </div>
+      </div>
+
+      {/* Per-category breakdown */}
+      <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+        <div className="border-b border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4 sm:py-3">
+          <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+            By Category
+          </h2>
+        </div>
+        <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {comparison.categories.map((category) => (
+            <CategoryDiff
+              key={category.name}
+              category={category}
+              format={format}
+            />
+          ))}
+          {/* Water carry is not an item, so it gets its own row */}
+          {(comparison.waterWeightA > 0 || comparison.waterWeightB > 0) && (
+            <div className="flex items-center justify-between px-3 py-2 text-sm sm:px-4">
+              <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                Water
+              </span>
+              <span className="flex items-center gap-3">
+                <span className="text-zinc-500 dark:text-zinc-400">
+                  {format(comparison.waterWeightA)} →{" "}
+                  {format(comparison.waterWeightB)}
+                </span>
+                <Delta
+                  grams={comparison.waterWeightB - comparison.waterWeightA}
+                  format={format}
+                />
+              </span>
+            </div>
+          )}
+          <div className="flex items-center justify-between px-3 py-2 text-sm font-semibold text-zinc-900 dark:text-zinc-100 sm:px-4">
+            <span>Total pack weight</span>
+            <span className="flex items-center gap-3">
+              <span className="text-zinc-500 dark:text-zinc-400">
+                {format(comparison.totalWeightA)} → {format(comparison.totalWeightB)}
+              </span>
+              <Delta grams={comparison.totalWeightDelta} format={format} />
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-4 text-sm">
+        {[a, b].map((list) =>
+          list.isPublic ? null : (
+            <Link
+              key={list.id}
+              href={`/lists/${list.slug}`}
+              className="text-zinc-600 underline hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+            >
+              Open {list.name}
+            </Link>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CategoryDiffProps {
+  category: CategoryComparison;
+  format: (grams: number) => string;
+}
+
+function CategoryDiff({ category, format }: CategoryDiffProps) {
+  const hasItemChanges =
+    category.addedItems.length > 0 ||
+    category.removedItems.length > 0 ||
+    category.changedItems.length > 0;
+
+  return (
+    <div className="px-3 py-2 text-sm sm:px-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-zinc-900 dark:text-zinc-100">
+          {category.name}
+          {!category.a && (
+            <span className="ml-2 text-xs font-normal text-green-600 dark:text-green-400">
+              only in B
+            </span>
+          )}
+          {!category.b && (
+            <span className="ml-2 text-xs font-normal text-red-600 dark:text-red-400">
+              only in A
+            </span>
+          )}
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="text-zinc-500 dark:text-zinc-400">
+            {format(category.a?.totalWeight ?? 0)} →{" "}
+            {format(category.b?.totalWeight ?? 0)}
+          </span>
+          <Delta grams={category.totalWeightDelta} format={format} />
+        </span>
+      </div>
+      {hasItemChanges && (
+        <ul className="mt-1 space-y-0.5 pl-3 text-xs">
+          {category.removedItems.map((item, index) => (
+            <ItemLine key={`removed-${index}`} item={item} sign="−" format={format} />
+          ))}
+          {category.addedItems.map((item, index) => (
+            <ItemLine key={`added-${index}`} item={item} sign="+" format={format} />
+          ))}
+          {category.changedItems.map((item, index) => (
+            <li
+              key={`changed-${index}`}
+              className="flex justify-between text-zinc-600 dark:text-zinc-400"
+            >
+              <span>~ {item.name}</span>
+              <span>
+                {format(item.weightA)} → {format(item.weightB)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface ItemLineProps {
+  item: ComparedItem;
+  sign: "+" | "−";
+  format: (grams: number) => string;
+}
+
+function ItemLine({ item, sign, format }: ItemLineProps) {
+  const color =
+    sign === "+"
+      ? "text-green-700 dark:text-green-400"
+      : "text-red-700 dark:text-red-400";
+
+  return (
+    <li className={`flex justify-between ${color}`}>
+      <span>
+        {sign} {item.name}
+        {item.quantity > 1 && ` ×${item.quantity}`}
+      </span>
+      <span>{format(item.weight)}</span>
+    </li>
+  );
+}
+
+interface DeltaProps {
+  grams: number;
+  format: (grams: number) => string;
+  large?: boolean;
+}
+
+// Lighter is better, so weight savings are shown in green
+function Delta({ grams, format, large = false }: DeltaProps) {
+  const size = large ? "text-lg font-semibold" : "font-medium";
+
+  if (Math.abs(grams) < 0.5) {
+    return <span className={`${size} text-zinc-500 dark:text-zinc-400`}>±0</span>;
+  }
+
+  const color =
+    grams < 0
+      ? "text-green-700 dark:text-green-400"
+      : "text-red-700 dark:text-red-400";
+
+  return (
+    <span className={`${size} ${color}`}>
+      {grams > 0 ? "+" : "−"}
+      {format(Math.abs(grams))}
+    </span>
+  );
+}
@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { CompareClient } from "./compare-client";
+
+type PageProps = {
+  searchParams: Promise<{ a?: string; b?: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Compare Lists",
+};
+
+export default async function ComparePage({ searchParams }: PageProps) {
+  const { a, b } = await searchParams;
+
+  // Key on the selected lists so changing either one reloads the comparison
+  return (
+    <CompareClient key={`${a}:${b}`} listIdA={a ?? ""} listIdB={b ?? ""} />
+  );
+}
@@ -0,0 +1,81 @@
+import { cookies } from "next/headers";
+import { ThemeProvider } from "@/components/theme-provider";
+import { ToastProvider } from "@/components/ui/toast";
+import {
+  SidebarProvider,
+  Sidebar,
+  SidebarHeader,
+  SidebarContent,
+  SidebarFooter,
+  SidebarLayout,
+  SidebarTrigger,
+  ListsSidebarContent,
+} from "@/components/sidebar";
+import { NewListButtonClient } from "@/components/new-list-button";
+import { ImportListButton } from "@/components/import-list-button";
+import { AccountBackup } from "@/components/account-backup";
+import { UnitPreferences } from "@/components/unit-preferences";
+import { ProfileSettings } from "@/components/profile-settings";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { AuthButtons } from "@/components/auth-buttons";
+import { getSessionUser } from "@/lib/session";
+
+/**
+ * App chrome (sidebar, header and providers) for every page except embeds
+ */
+export default async function AppLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const cookieStore = await cookies();
+  const sidebarCookie = cookieStore.get("sidebar-open");
+  const defaultOpen = sidebarCookie?.value === "true";
+
+  return (
+    <ThemeProvider>
+      <ToastProvider>
+        <SidebarProvider defaultOpen={defaultOpen}>
+          <Sidebar>
+            <SidebarHeader>
+              <span className="font-semibold text-zinc-900 dark:text-zinc-100">
+                Ultralight
+              </span>
+            </SidebarHeader>
+            <SidebarContent>
+              <ListsSidebarContent />
+            </SidebarContent>
+            <SidebarFooter>
+              <UnitPreferences />
+              <ProfileSettings />
+              <AccountBackup />
+            </SidebarFooter>
+          </Sidebar>
+          <SidebarLayout>
+            <AppHeader />
+            {children}
+          </SidebarLayout>
+        </SidebarProvider>
+      </ToastProvider>
+    </ThemeProvider>
+  );
+}
+
+async function AppHeader() {
+  const user = await getSessionUser();
+
+  return (
+    <header className="sticky top-0 z-30 flex h-14 print:hidden items-center gap-4 border-b border-zinc-200 bg-white/80 px-4 backdrop-blur-sm dark:border-zinc-800 dark:bg-zinc-950/80">
+      <SidebarTrigger />
+      <div className="flex-1" />
+      <AuthButtons user={user} />
+      <ThemeToggle />
+      <ImportListButton />
+      <NewListButton />
+    </header>
+  );
+}
+
+function NewListButton() {
+  return <NewListButtonClient />;
+}
@@ -0,0 +1,1383 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { ListForm } from "@/components/list-form";
+import { CategoryForm } from "@/components/category-form";
+import { ItemForm } from "@/components/item-form";
+import { WeightSummary } from "@/components/weight-summary";
+import { FoodSummary } from "@/components/food-summary";
+import { WeightHistoryChart } from "@/components/weight-history-chart";
+import { ListEditPopover } from "@/components/list-edit-popover";
+import { ForkedFromLink } from "@/components/forked-from-link";
+import { DeleteConfirmDialog } from "@/components/delete-confirm-dialog";
+import { SortableCategoryList, type DragHandleProps } from "@/components/sortable-category-list";
+import { SortableItemList, ItemDndProvider, type ItemDragHandleProps } from "@/components/sortable-item-list";
+import { useToast } from "@/components/ui/toast";
+import type { Category, Item } from "@/db/schema";
+import {
+  calculateChecklistProgress,
+  getPackedCount,
+  isItemPacked,
+  type ChecklistProgress,
+} from "@/lib/checklist";
+import { calculateItemCost, formatPrice } from "@/lib/cost";
+import type { ForkSource } from "@/lib/lists";
+import type { UnitPreferences } from "@/lib/preferences";
+import {
+  formatUnit,
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+  type VolumeUnit,
+  type WeightUnit,
+} from "@/lib/weight";
+import {
+  VOLUME_UNIT_OPTIONS,
+  WEIGHT_UNIT_OPTIONS,
+} from "@/components/ui/weight-unit-select";
+import type { TagSummary } from "@/lib/tags";
+
+interface ListData {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  hidePrices: boolean;
+  displayUnit: string | null;
+  tripDays: number | null;
+  resupplyDays: number[];
+  caloriesPerDay: number | null;
+  waterCarryAmount: number | null;
+  waterCarryUnit: string;
+  baseWeightTarget: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type ListItem = Item & { tags?: TagSummary[] };
+
+interface CategoryWithItems extends Category {
+  items: ListItem[];
+}
+
+export interface ListPageData {
+  list: {
+    id: string;
+    name: string;
+    slug: string;
+    description: string | null;
+    isPublic: boolean;
+    hidePrices: boolean;
+    displayUnit: string | null;
+    tripDays: number | null;
+    resupplyDays: number[];
+    caloriesPerDay: number | null;
+    waterCarryAmount: number | null;
+    waterCarryUnit: string;
+    baseWeightTarget: number | null;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  categories: CategoryWithItems[];
+  forkedFrom: ForkSource | null;
+  preferences: UnitPreferences;
+  isOwner: boolean;
+  isAuthenticated: boolean;
+}
+
+interface ListDetailClientProps {
+  listId: string;
+  initialData: ListPageData;
+}
+
+export function ListDetailClient({ listId, initialData }: ListDetailClientProps) {
+  const [list, setList] = React.useState<ListData>(initialData.list);
+  const [categories, setCategories] = React.useState<CategoryWithItems[]>(initialData.categories);
+  const [isOwner] = React.useState(initialData.isOwner);
+  const [isAuthenticated] = React.useState(initialData.isAuthenticated);
+  // The list's own unit wins over the owner's preferred unit
+  const displayUnit = resolveDisplayUnit(
+    list.displayUnit,
+    initialData.preferences.displayUnit
+  );
+  const trip = React.useMemo(
+    () =>
+      getListTripSettings({
+        tripDays: list.tripDays,
+        resupplyDays: list.resupplyDays,
+      }),
+    [list.tripDays, list.resupplyDays]
+  );
+  const water = React.useMemo(
+    () =>
+      getListWaterCarry({
+        waterCarryAmount: list.waterCarryAmount,
+        waterCarryUnit: list.waterCarryUnit,
+      }),
+    [list.waterCarryAmount, list.waterCarryUnit]
+  );
+  // Draft of the water carry amount, saved when the input loses focus
+  const [waterAmount, setWaterAmount] = React.useState(
+    list.waterCarryAmount?.toString() ?? ""
+  );
+  const { showToast } = useToast();
+  const router = useRouter();
+
+  // Form dialogs state
+  const [isListFormOpen, setIsListFormOpen] = React.useState(false);
+  const [isCategoryFormOpen, setIsCategoryFormOpen] = React.useState(false);
+  const [editingCategory, setEditingCategory] = React.useState<Category | undefined>();
+  const [isItemFormOpen, setIsItemFormOpen] = React.useState(false);
+  const [editingItem, setEditingItem] = React.useState<ListItem | undefined>();
+  const [selectedCategoryId, setSelectedCategoryId] = React.useState<string>("");
+  const [isUpdatingList, setIsUpdatingList] = React.useState(false);
+  const [activeTagIds, setActiveTagIds] = React.useState<string[]>([]);
+  const [isChecklistMode, setIsChecklistMode] = React.useState(false);
+  const [isResettingChecklist, setIsResettingChecklist] = React.useState(false);
+
+  // Delete confirmation dialogs state
+  const [isListDeleteOpen, setIsListDeleteOpen] = React.useState(false);
+  const [isDeletingList, setIsDeletingList] = React.useState(false);
+  const [categoryToDelete, setCategoryToDelete] = React.useState<string | null>(null);
+  const [isDeletingCategory, setIsDeletingCategory] = React.useState(false);
+  const [itemToDelete, setItemToDelete] = React.useState<{ itemId: string; categoryId: string } | null>(null);
+  const [isDeletingItem, setIsDeletingItem] = React.useState(false);
+
+  const handleListUpdate = (updatedList: { id: string; name: string; slug: string; description: string | null; isPublic: boolean; createdAt: Date; updatedAt: Date }) => {
+    // If the slug changed, update the URL to match
+    if (updatedList.slug !== list.slug) {
+      router.replace(`/lists/${updatedList.slug}`);
+    }
+    setList((prev) => ({ ...prev, ...updatedList }));
+  };
+
+  const openListDeleteDialog = () => {
+    setIsListDeleteOpen(true);
+  };
+
+  const handleListDelete = async () => {
+    setIsDeletingList(true);
+    try {
+      const response = await fetch(`/api/lists/${listId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        showToast("List deleted", "success");
+        // Redirect to home after successful deletion
+        window.location.href = "/";
+      } else {
+        showToast("Failed to delete list", "error");
+      }
+    } catch {
+      showToast("Failed to delete list", "error");
+    } finally {
+      setIsDeletingList(false);
+    }
+  };
+
+  const handleTogglePublic = async () => {
+    if (!list) return;
+
+    setIsUpdatingList(true);
+
+    try {
+      const response = await fetch(`/api/lists/${listId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ isPublic: !list.isPublic }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const apiList = data.list;
+        setList({
+          ...apiList,
+          createdAt: new Date(apiList.createdAt),
+          updatedAt: new Date(apiList.updatedAt),
+        });
+        showToast(apiList.isPublic ? "List is now public" : "List is now private", "success");
+      } else {
+        const result = await response.json().catch(() => ({}));
+        if (response.status === 403 && result.error) {
+          showToast(`${result.error}. You can resend the verification email from Settings.`, "error");
+        } else {
+          showToast(result.error || "Failed to update visibility", "error");
+        }
+      }
+    } catch {
+      showToast("Failed to update visibility", "error");
+    } finally {
+      setIsUpdatingList(false);
+    }
+  };
+
+  const handleToggleHidePrices = async () => {
+    if (!list) return;
+
+    setIsUpdatingList(true);
+
+    try {
+      const response = await fetch(`/api/lists/${listId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ hidePrices: !list.hidePrices }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const apiList = data.list;
+        setList({
+          ...apiList,
+          createdAt: new Date(apiList.createdAt),
+          updatedAt: new Date(apiList.updatedAt),
+        });
+        showToast(apiList.hidePrices ? "Prices are now hidden" : "Prices are now visible", "success");
+      } else {
+        showToast("Failed to update price visibility", "error");
+      }
+    } catch {
+      showToast("Failed to update price visibility", "error");
+    } finally {
+      setIsUpdatingList(false);
+    }
+  };
+
+  const handleDisplayUnitChange = async (displayUnit: WeightUnit | null) => {
+    setIsUpdatingList(true);
+
+    try {
+      const response = await fetch(`/api/lists/${listId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ displayUnit }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const apiList = data.list;
+        setList({
+          ...apiList,
+          createdAt: new Date(apiList.createdAt),
+          updatedAt: new Date(apiList.updatedAt),
+        });
+      } else {
+        showToast("Failed to update display unit", "error");
+      }
+    } catch {
+      showToast("Failed to update display unit", "error");
+    } finally {
+      setIsUpdatingList(false);
+    }
+  };
+
+  const handleWaterCarryChange = async (
+    waterCarryAmount: number | null,
+    waterCarryUnit: VolumeUnit
+  ) => {
+    setIsUpdatingList(true);
+
+    try {
+      const response = await fetch(`/api/lists/${listId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ waterCarryAmount, waterCarryUnit }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const apiList = data.list;
+        setList({
+          ...apiList,
+          createdAt: new Date(apiList.createdAt),
+          updatedAt: new Date(apiList.updatedAt),
+        });
+        setWaterAmount(apiList.waterCarryAmount?.toString() ?? "");
+      } else {
+        showToast("Failed to update water carry", "error");
+        setWaterAmount(list.waterCarryAmount?.toString() ?? "");
+      }
+    } catch {
+      showToast("Failed to update water carry", "error");
+      setWaterAmount(list.waterCarryAmount?.toString() ?? "");
+    } finally {
+      setIsUpdatingList(false);
+    }
+  };
+
+  const commitWaterAmount = () => {
+    const amount = waterAmount.trim() === "" ? null : Number(waterAmount);
+    if (amount === list.waterCarryAmount) {
+      return;
+    }
+    if (amount !== null && !(amount > 0)) {
+      setWaterAmount(list.waterCarryAmount?.toString() ?? "");
+      return;
+    }
+    handleWaterCarryChange(amount, list.waterCarryUnit as VolumeUnit);
+  };
+
+  const handleDuplicate = async () => {
+    setIsUpdatingList(true);
+
+    try {
+      const response = await fetch(`/api/lists/${listId}/duplicate`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        showToast("List duplicated", "success");
+        router.push(`/lists/${data.list.slug}`);
+        router.refresh();
+      } else {
+        showToast("Failed to duplicate list", "error");
+      }
+    } catch {
+      showToast("Failed to duplicate list", "error");
+    } finally {
+      setIsUpdatingList(false);
+    }
+  };
+
+  const handleCategoryCreated = (newCategory: Category) => {
+    setCategories((prev) => [...prev, { ...newCategory, items: [] }]);
+  };
+
+  const handleCategoryUpdated = (updatedCategory: Category) => {
+    setCategories((prev) =>
+      prev.map((c) =>
+        c.id === updatedCategory.id ? { ...updatedCategory, items: c.items } : c
+      )
+    );
+  };
+
+  const openCategoryDeleteDialog = (categoryId: string) => {
+    setCategoryToDelete(categoryId);
+  };
+
+  const handleCategoryDelete = async () => {
+    if (!categoryToDelete) return;
+
+    setIsDeletingCategory(true);
+    try {
+      const response = await fetch(`/api/categories/${categoryToDelete}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setCategories((prev) => prev.filter((c) => c.id !== categoryToDelete));
+        showToast("Category deleted", "success");
+      } else {
+        showToast("Failed to delete category", "error");
+      }
+    } catch {
+      showToast("Failed to delete category", "error");
+    } finally {
+      setIsDeletingCategory(false);
+    }
+  };
+
+  const handleItemCreated = (newItem: ListItem) => {
+    setCategories((prev) =>
+      prev.map((c) =>
+        c.id === newItem.categoryId
+          ? { ...c, items: [...c.items, newItem] }
+          : c
+      )
+    );
+  };
+
+  const handleItemUpdated = (updatedItem: ListItem) => {
+    setCategories((prev) =>
+      prev.map((c) => ({
+        ...c,
+        items: c.items.map((i) => {
+          if (i.id === updatedItem.id) {
+            return updatedItem;
+          }
+          // Other items backed by the same closet gear share its fields
+          if (updatedItem.gearId && i.gearId === updatedItem.gearId) {
+            return {
+              ...i,
+              name: updatedItem.name,
+              description: updatedItem.description,
+              url: updatedItem.url,
+              weightAmount: updatedItem.weightAmount,
+              weightUnit: updatedItem.weightUnit,
+            };
+          }
+          return i;
+        }),
+      }))
+    );
+  };
+
+  const openItemDeleteDialog = (itemId: string, categoryId: string) => {
+    setItemToDelete({ itemId, categoryId });
+  };
+
+  const handleItemDelete = async () => {
+    if (!itemToDelete) return;
+
+    setIsDeletingItem(true);
+    try {
+      const response = await fetch(`/api/items/${itemToDelete.itemId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setCategories((prev) =>
+          prev.map((c) =>
+            c.id === itemToDelete.categoryId
+              ? { ...c, items: c.items.filter((i) => i.id !== itemToDelete.itemId) }
+              : c
+          )
+        );
+        showToast("Item deleted", "success");
+      } else {
+        showToast("Failed to delete item", "error");
+      }
+    } catch {
+      showToast("Failed to delete item", "error");
+    } finally {
+      setIsDeletingItem(false);
+    }
+  };
+
+  const setPackedCount = (itemId: string, packedCount: number) => {
+    setCategories((prev) =>
+      prev.map((c) => ({
+        ...c,
+        items: c.items.map((i) => (i.id === itemId ? { ...i, packedCount } : i)),
+      }))
+    );
+  };
+
+  const handlePackedChange = async (item: ListItem, packedCount: number) => {
+    const previous = item.packedCount;
+    // Tick off optimistically, the checklist should feel instant while packing
+    setPackedCount(item.id, packedCount);
+
+    try {
+      const response = await fetch(`/api/lists/${listId}/checklist`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ itemId: item.id, packedCount }),
+      });
+
+      if (!response.ok) {
+        setPackedCount(item.id, previous);
+        showToast("Failed to update checklist", "error");
+      }
+    } catch {
+      setPackedCount(item.id, previous);
+      showToast("Failed to update checklist", "error");
+    }
+  };
+
+  const handleResetChecklist = async () => {
+    setIsResettingChecklist(true);
+    try {
+      const response = await fetch(`/api/lists/${listId}/checklist`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setCategories((prev) =>
+          prev.map((c) => ({
+            ...c,
+            items: c.items.map((i) => ({ ...i, packedCount: 0 })),
+          }))
+        );
+        showToast("Checklist reset", "success");
+      } else {
+        showToast("Failed to reset checklist", "error");
+      }
+    } catch {
+      showToast("Failed to reset checklist", "error");
+    } finally {
+      setIsResettingChecklist(false);
+    }
+  };
+
+  const openAddCategory = () => {
+    setEditingCategory(undefined);
+    setIsCategoryFormOpen(true);
+  };
+
+  const openEditCategory = (category: Category) => {
+    setEditingCategory(category);
+    setIsCategoryFormOpen(true);
+  };
+
+  const openAddItem = (categoryId: string) => {
+    setSelectedCategoryId(categoryId);
+    setEditingItem(undefined);
+    setIsItemFormOpen(true);
+  };
+
+  const openEditItem = (item: ListItem) => {
+    setSelectedCategoryId(item.categoryId);
+    setEditingItem(item);
+    setIsItemFormOpen(true);
+  };
+
+  // Tags used anywhere in this list, for the filter bar
+  const listTags = React.useMemo(() => {
+    const byId = new Map<string, TagSummary>();
+    for (const category of categories) {
+      for (const item of category.items) {
+        for (const tag of item.tags ?? []) {
+          byId.set(tag.id, tag);
+        }
+      }
+    }
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [categories]);
+
+  const selectedTagIds = React.useMemo(
+    () => activeTagIds.filter((id) => listTags.some((t) => t.id === id)),
+    [activeTagIds, listTags]
+  );
+  const isFiltering = selectedTagIds.length > 0;
+
+  // While filtering, only categories with matching items are shown and
+  // drag-and-drop is disabled so partial item lists are never persisted
+  const visibleCategories = React.useMemo(() => {
+    if (selectedTagIds.length === 0) return categories;
+    return categories
+      .map((c) => ({
+        ...c,
+        items: c.items.filter((i) =>
+          i.tags?.some((t) => selectedTagIds.includes(t.id))
+        ),
+      }))
+      .filter((c) => c.items.length > 0);
+  }, [categories, selectedTagIds]);
+
+  const checklistProgress = React.useMemo(
+    () => calculateChecklistProgress(categories.flatMap((c) => c.items)),
+    [categories]
+  );
+
+  // Checklist mode is for packing, so editing and reordering are disabled
+  const canEdit = isOwner && !isChecklistMode;
+  const canReorder = !isFiltering && !isChecklistMode;
+
+  const toggleTagFilter = (tagId: string) => {
+    setActiveTagIds((prev) =>
+      prev.includes(tagId)
+        ? prev.filter((id) => id !== tagId)
+        : [...prev, tagId]
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <div className="mx-auto max-w-4xl px-3 py-4 sm:px-6 sm:py-8 lg:px-8">
+        {/* List Header */}
+        <header className="mb-4 sm:mb-8">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 sm:text-3xl break-words">
+                {list.name}
+              </h1>
+              {list.description && (
+                <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 sm:mt-2 sm:text-base">
+                  {list.description}
+                </p>
+              )}
+              <div className="mt-1.5 flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-500 sm:mt-2">
+                {list.isPublic ? (
+                  <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">
+                    Public
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
+                    Private
+                  </span>
+                )}
+              </div>
+              {initialData.forkedFrom && (
+                <ForkedFromLink source={initialData.forkedFrom} />
+              )}
+            </div>
+            {isOwner && (
+              <ListEditPopover
+                list={list}
+                onEdit={() => setIsListFormOpen(true)}
+                onDelete={openListDeleteDialog}
+                onTogglePublic={handleTogglePublic}
+                onToggleHidePrices={handleToggleHidePrices}
+                onDuplicate={handleDuplicate}
+                isUpdating={isUpdatingList}
+                canShare={isAuthenticated}
+              />
+            )}
+          </div>
+        </header>
+
+        {/* Weight Summary */}
+        <div className="mb-4 sm:mb-8">
+          {isOwner && (
+            <div className="mb-2 flex flex-wrap items-center justify-end gap-2 text-sm">
+              <label
+                htmlFor="waterCarryAmount"
+                className="text-zinc-500 dark:text-zinc-500"
+              >
+                Water carry
+              </label>
+              <input
+                id="waterCarryAmount"
+                type="number"
+                min="0"
+                step="any"
+                inputMode="decimal"
+                placeholder="None"
+                value={waterAmount}
+                onChange={(e) => setWaterAmount(e.target.value)}
+                onBlur={commitWaterAmount}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.currentTarget.blur();
+                  }
+                }}
+                disabled={isUpdatingList}
+                className="w-20 rounded-md border border-zinc-200 bg-white px-2 py-1 text-sm text-zinc-700 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+              />
+              <select
+                aria-label="Water carry unit"
+                value={list.waterCarryUnit}
+                onChange={(e) =>
+                  handleWaterCarryChange(
+                    list.waterCarryAmount,
+                    e.target.value as VolumeUnit
+                  )
+                }
+                disabled={isUpdatingList}
+                className="rounded-md border border-zinc-200 bg-white px-2 py-1 text-sm text-zinc-700 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+              >
+                {VOLUME_UNIT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.shortLabel}
+                  </option>
+                ))}
+              </select>
+              <label
+                htmlFor="displayUnit"
+                className="ml-2 text-zinc-500 dark:text-zinc-500"
+              >
+                Show weights in
+              </label>
+              <select
+                id="displayUnit"
+                value={list.displayUnit ?? ""}
+                onChange={(e) =>
+                  handleDisplayUnitChange(
+                    e.target.value ? (e.target.value as WeightUnit) : null
+                  )
+                }
+                disabled={isUpdatingList}
+                className="rounded-md border border-zinc-200 bg-white px-2 py-1 text-sm text-zinc-700 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+              >
+                <option value="">
+                  My default ({initialData.preferences.displayUnit})
+                </option>
+                {WEIGHT_UNIT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-4 sm:space-y-6">
+            <WeightSummary
+              categories={categories}
+              displayUnit={displayUnit}
+              trip={trip}
+              water={water}
+              baseWeightTarget={list.baseWeightTarget}
+              weightClassThresholds={initialData.preferences.weightClassThresholds}
+            />
+            <FoodSummary
+              categories={categories}
+              displayUnit={displayUnit}
+              trip={trip}
+              caloriesPerDay={list.caloriesPerDay}
+            />
+          </div>
+        </div>
+
+        {/* Weight History */}
+        {isOwner && (
+          <div className="mb-4 sm:mb-8">
+            <WeightHistoryChart
+              listId={listId}
+              refreshKey={categories}
+              displayUnit={displayUnit}
+            />
+          </div>
+        )}
+
+        {/* Tag Filter */}
+        {listTags.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-1.5 sm:mb-6">
+            <span className="mr-1 text-sm text-zinc-500 dark:text-zinc-500">
+              Filter by tag:
+            </span>
+            {listTags.map((tag) => {
+              const selected = selectedTagIds.includes(tag.id);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleTagFilter(tag.id)}
+                  aria-pressed={selected}
+                  className={`rounded-full border px-2.5 py-0.5 text-xs font-medium ${
+                    selected
+                      ? "border-violet-300 bg-violet-100 text-violet-800 dark:border-violet-700 dark:bg-violet-900 dark:text-violet-200"
+                      : "border-zinc-200 bg-white text-zinc-600 hover:bg-zinc-100 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  {tag.name}
+                </button>
+              );
+            })}
+            {isFiltering && (
+              <button
+                type="button"
+                onClick={() => setActiveTagIds([])}
+                className="ml-1 text-xs text-zinc-500 underline hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Pack Checklist */}
+        {isOwner && categories.length > 0 && (
+          <div className="mb-4 rounded-lg border border-zinc-200 bg-white px-3 py-2 dark:border-zinc-800 dark:bg-zinc-900 sm:mb-6 sm:px-4 sm:py-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => setIsChecklistMode((prev) => !prev)}
+                aria-pressed={isChecklistMode}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium ${
+                  isChecklistMode
+                    ? "bg-zinc-900 text-white hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+                    : "border border-zinc-200 text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                }`}
+              >
+                {isChecklistMode ? "Done packing" : "Pack checklist"}
+              </button>
+              {isChecklistMode && (
+                <button
+                  type="button"
+                  onClick={handleResetChecklist}
+                  disabled={isResettingChecklist || checklistProgress.packed === 0}
+                  className="text-sm text-zinc-500 underline hover:text-zinc-700 disabled:opacity-50 dark:text-zinc-400 dark:hover:text-zinc-200"
+                >
+                  {isResettingChecklist ? "Resetting..." : "Reset checklist"}
+                </button>
+              )}
+            </div>
+            {isChecklistMode && (
+              <ChecklistProgressBar
+                progress={checklistProgress}
+                className="mt-2"
+              />
+            )}
+          </div>
+        )}
+
+        {/* Categories Section */}
+        <div>
+          {categories.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-zinc-300 bg-white p-4 text-center dark:border-zinc-700 dark:bg-zinc-900 sm:p-8">
+              <p className="text-sm text-zinc-600 dark:text-zinc-400 sm:text-base">
+                No categories yet.{" "}
+                {isOwner && "Add a category to start organizing your gear."}
+              </p>
+              {isOwner && (
+                <button
+                  onClick={openAddCategory}
+                  className="mt-3 inline-flex items-center rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200 sm:mt-4"
+                >
+                  Add Category
+                </button>
+              )}
+            </div>
+          ) : (
+            <>
+              <ItemDndProvider
+                categories={visibleCategories}
+                listId={listId}
+                isOwner={isOwner && canReorder}
+                onCategoriesChange={setCategories}
+                renderOverlayItem={(item) => (
+                  <div className="rounded-lg border border-zinc-200 bg-white shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+                    <ItemRow
+                      item={item}
+                      isOwner={false}
+                      onEdit={() => {}}
+                      onDelete={() => {}}
+                    />
+                  </div>
+                )}
+              >
+                <SortableCategoryList
+                  categories={visibleCategories}
+                  listId={listId}
+                  isOwner={isOwner && canReorder}
+                  onReorder={setCategories}
+                  renderCategory={(category, dragHandleProps) => (
+                    <CategorySection
+                      category={category}
+                      isOwner={canEdit}
+                      canReorder={canReorder}
+                      checklistProgress={
+                        isChecklistMode
+                          ? calculateChecklistProgress(category.items)
+                          : undefined
+                      }
+                      dragHandleProps={dragHandleProps}
+                      onEditCategory={() => openEditCategory(category)}
+                      onDeleteCategory={() => openCategoryDeleteDialog(category.id)}
+                      onAddItem={() => openAddItem(category.id)}
+                      renderItemRow={(item, itemDragHandleProps) => (
+                        <ItemRow
+                          key={item.id}
+                          item={item}
+                          isOwner={canEdit}
+                          onEdit={() => openEditItem(item)}
+                          onDelete={() => openItemDeleteDialog(item.id, category.id)}
+                          dragHandleProps={canReorder ? itemDragHandleProps : undefined}
+                          packing={
+                            isChecklistMode
+                              ? {
+                                  packedCount: getPackedCount(item),
+                                  onChange: (packedCount) =>
+                                    handlePackedChange(item, packedCount),
+                                }
+                              : undefined
+                          }
+                        />
+                      )}
+                    />
+                  )}
+                />
+              </ItemDndProvider>
+              {canEdit && (
+                <button
+                  onClick={openAddCategory}
+                  className="mt-4 w-full rounded-lg border border-dashed border-zinc-300 bg-white py-3 text-sm font-medium text-zinc-600 hover:border-zinc-400 hover:text-zinc-900 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-400 dark:hover:border-zinc-600 dark:hover:text-zinc-200 sm:mt-6 sm:py-4"
+                >
+                  + Add Category
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Forms */}
+      {isOwner && (
+        <>
+          <ListForm
+            open={isListFormOpen}
+            onOpenChange={setIsListFormOpen}
+            list={list || undefined}
+            onSuccess={handleListUpdate}
+            displayUnit={displayUnit}
+          />
+
+          <CategoryForm
+            open={isCategoryFormOpen}
+            onOpenChange={setIsCategoryFormOpen}
+            listId={listId}
+            category={editingCategory}
+            onSuccess={editingCategory ? handleCategoryUpdated : handleCategoryCreated}
+            displayUnit={displayUnit}
+          />
+
+          {selectedCategoryId && (
+            <ItemForm
+              open={isItemFormOpen}
+              onOpenChange={setIsItemFormOpen}
+              categoryId={selectedCategoryId}
+              item={editingItem}
+              onSuccess={editingItem ? handleItemUpdated : handleItemCreated}
+              defaultWeightUnit={initialData.preferences.defaultWeightUnit}
+            />
+          )}
+
+          {/* Delete Confirmation Dialogs */}
+          <DeleteConfirmDialog
+            open={isListDeleteOpen}
+            onOpenChange={setIsListDeleteOpen}
+            title="Delete List"
+            description={`Are you sure you want to delete "${list.name}"? This will also delete all categories and items in this list.`}
+            onConfirm={handleListDelete}
+            isDeleting={isDeletingList}
+          />
+
+          <DeleteConfirmDialog
+            open={categoryToDelete !== null}
+            onOpenChange={(open) => !open && setCategoryToDelete(null)}
+            title="Delete Category"
+            description="Are you sure you want to delete this category? All items in it will also be deleted."
+            onConfirm={handleCategoryDelete}
+            isDeleting={isDeletingCategory}
+          />
+
+          <DeleteConfirmDialog
+            open={itemToDelete !== null}
+            onOpenChange={(open) => !open && setItemToDelete(null)}
+            title="Delete Item"
+            description="Are you sure you want to delete this item?"
+            onConfirm={handleItemDelete}
+            isDeleting={isDeletingItem}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+interface CategorySectionProps {
+  category: CategoryWithItems;
+  isOwner: boolean;
+  canReorder: boolean;
+  checklistProgress?: ChecklistProgress;
+  dragHandleProps: DragHandleProps;
+  onEditCategory: () => void;
+  onDeleteCategory: () => void;
+  onAddItem: () => void;
+  renderItemRow: (item: ListItem, itemDragHandleProps: ItemDragHandleProps) => React.ReactNode;
+}
+
+function CategorySection({
+  category,
+  isOwner,
+  canReorder,
+  checklistProgress,
+  dragHandleProps,
+  onEditCategory,
+  onDeleteCategory,
+  onAddItem,
+  renderItemRow,
+}: CategorySectionProps) {
+  const { attributes, listeners, isDragging } = dragHandleProps;
+
+  return (
+    <div
+      className={`rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900 ${
+        isDragging ? "opacity-50 shadow-lg" : ""
+      }`}
+    >
+      {/* Category Header */}
+      <div className="flex items-center justify-between gap-2 border-b border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:gap-3 sm:px-4 sm:py-3">
+        <div className="flex items-center gap-2 min-w-0 flex-1 sm:gap-3">
+          {isOwner && canReorder && (
+            <button
+              className="cursor-grab touch-none rounded p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300 active:cursor-grabbing shrink-0"
+              aria-label="Drag to reorder category"
+              {...attributes}
+              {...listeners}
+            >
+              <DragHandleIcon className="h-4 w-4" />
+            </button>
+          )}
+          <div className="min-w-0 flex-1">
+            <h2 className="font-semibold text-zinc-900 dark:text-zinc-100 truncate">
+              {category.name}
+            </h2>
+            {category.description && (
+              <p className="text-sm text-zinc-500 dark:text-zinc-500 truncate">
+                {category.description}
+              </p>
+            )}
+            {checklistProgress && (
+              <ChecklistProgressBar progress={checklistProgress} className="mt-1.5" />
+            )}
+          </div>
+        </div>
+        {isOwner && (
+          <div className="flex items-center gap-1 shrink-0 sm:gap-2">
+            <button
+              onClick={onEditCategory}
+              className="rounded p-1.5 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300 sm:p-1"
+              aria-label="Edit category"
+            >
+              <EditIcon className="h-4 w-4" />
+            </button>
+            <button
+              onClick={onDeleteCategory}
+              className="rounded p-1.5 text-zinc-400 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-400 sm:p-1"
+              aria-label="Delete category"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Items List */}
+      <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+        {category.items.length === 0 ? (
+          <div className="px-3 py-4 text-center text-sm text-zinc-500 dark:text-zinc-500 sm:px-4 sm:py-6">
+            No items in this category
+          </div>
+        ) : (
+          <SortableItemList
+            items={category.items}
+            categoryId={category.id}
+            isOwner={isOwner && canReorder}
+            renderItem={(item, itemDragHandleProps) => renderItemRow(item, itemDragHandleProps)}
+          />
+        )}
+      </div>
+
+      {/* Add Item Button */}
+      {isOwner && (
+        <div className="border-t border-zinc-200 px-3 py-1.5 dark:border-zinc-800 sm:px-4 sm:py-2">
+          <button
+            onClick={onAddItem}
+            className="w-full rounded py-2 text-sm text-zinc-500 hover:bg-zinc-50 hover:text-zinc-700 dark:text-zinc-500 dark:hover:bg-zinc-800 dark:hover:text-zinc-300"
+          >
+            + Add Item
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ItemRowProps {
+  item: ListItem;
+  isOwner: boolean;
+  onEdit: () => void;
+  onDelete: () => void;
+  dragHandleProps?: ItemDragHandleProps;
+  packing?: {
+    packedCount: number;
+    onChange: (packedCount: number) => void;
+  };
+}
+
+function ItemRow({ item, isOwner, onEdit, onDelete, dragHandleProps, packing }: ItemRowProps) {
+  const formatWeight = (amount: number, unit: string) => {
+    return `${amount} ${formatUnit(unit)}`;
+  };
+
+  const totalWeight = item.weightAmount * item.quantity;
+  const cost = calculateItemCost(item);
+  const isPacked = packing !== undefined && isItemPacked(item);
+
+  return (
+    <div className="group flex items-start gap-2 px-3 py-2 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 sm:items-center sm:gap-4 sm:px-4 sm:py-3">
+      {/* Drag Handle */}
+      {isOwner && dragHandleProps && (
+        <button
+          className="cursor-grab touch-none rounded p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300 active:cursor-grabbing shrink-0 mt-0.5 sm:mt-0"
+          aria-label="Drag to reorder item"
+          {...dragHandleProps.attributes}
+          {...dragHandleProps.listeners}
+        >
+          <DragHandleIcon className="h-4 w-4" />
+        </button>
+      )}
+      {/* Packing Checkboxes */}
+      {packing && (
+        <PackControl
+          itemName={item.name}
+          quantity={item.quantity}
+          packedCount={packing.packedCount}
+          onChange={packing.onChange}
+        />
+      )}
+      {/* Item Info */}
+      <div className={`flex-1 min-w-0 ${isPacked ? "opacity-50" : ""}`}>
+        <div className="flex items-start gap-1.5 sm:items-center sm:gap-2 flex-wrap">
+          <span
+            className={`font-medium text-zinc-900 dark:text-zinc-100 break-words ${
+              isPacked ? "line-through" : ""
+            }`}
+          >
+            {item.name}
+          </span>
+          {item.label && item.label !== "none" && (
+            <span
+              className={`inline-flex items-center rounded-full px-1.5 py-0.5 text-xs font-medium sm:px-2 ${
+                item.label === "worn"
+                  ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                  : "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+              }`}
+            >
+              {item.label}
+              {item.label === "consumable" && item.perDay && " / day"}
+            </span>
+          )}
+          {item.tags?.map((tag) => (
+            <span
+              key={tag.id}
+              className="inline-flex items-center rounded-full bg-violet-100 px-1.5 py-0.5 text-xs font-medium text-violet-800 dark:bg-violet-900 dark:text-violet-200 sm:px-2"
+            >
+              {tag.name}
+            </span>
+          ))}
+          {item.url && (
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 shrink-0"
+              aria-label="Open link"
+            >
+              <LinkIcon className="h-3.5 w-3.5" />
+            </a>
+          )}
+        </div>
+        {item.description && (
+          <p className="mt-0.5 text-sm text-zinc-500 dark:text-zinc-500 line-clamp-2 sm:truncate">
+            {item.description}
+          </p>
+        )}
+        {/* Weight & Quantity - inline on mobile for better layout */}
+        <div className="mt-1 flex items-center gap-2 text-sm sm:hidden">
+          {item.quantity > 1 && (
+            <span className="text-zinc-500 dark:text-zinc-500">
+              x{item.quantity}
+            </span>
+          )}
+          {cost !== null && (
+            <span className="text-zinc-500 dark:text-zinc-500 tabular-nums">
+              {formatPrice(cost, item.currency)}
+            </span>
+          )}
+          <span className="text-zinc-700 dark:text-zinc-300 tabular-nums">
+            {formatWeight(totalWeight, item.weightUnit)}
+          </span>
+        </div>
+      </div>
+
+      {/* Weight & Quantity - hidden on mobile, shown on desktop */}
+      <div className={`hidden sm:flex items-center gap-2 text-sm shrink-0 sm:gap-4 ${isPacked ? "opacity-50" : ""}`}>
+        {item.quantity > 1 && (
+          <span className="text-zinc-500 dark:text-zinc-500">
+            x{item.quantity}
+          </span>
+        )}
+        {cost !== null && (
+          <span className="text-zinc-500 dark:text-zinc-500 tabular-nums whitespace-nowrap">
+            {formatPrice(cost, item.currency)}
+          </span>
+        )}
+        <span className="text-zinc-700 dark:text-zinc-300 tabular-nums whitespace-nowrap">
+          {formatWeight(totalWeight, item.weightUnit)}
+        </span>
+      </div>
+
+      {/* Actions - visible on mobile, hover on desktop */}
+      {isOwner && (
+        <div className="flex items-center gap-1 shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={onEdit}
+            className="rounded p-1.5 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-700 dark:hover:text-zinc-300 sm:p-1"
+            aria-label="Edit item"
+          >
+            <EditIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="rounded p-1.5 text-zinc-400 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 dark:hover:text-red-400 sm:p-1"
+            aria-label="Delete item"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Beyond this many units a stepper replaces the per-unit checkboxes
+const MAX_UNIT_CHECKBOXES = 6;
+
+interface PackControlProps {
+  itemName: string;
+  quantity: number;
+  packedCount: number;
+  onChange: (packedCount: number) => void;
+}
+
+function PackControl({ itemName, quantity, packedCount, onChange }: PackControlProps) {
+  const buttonClassName =
+    "flex h-7 w-7 items-center justify-center rounded-md border border-zinc-300 text-zinc-600 hover:bg-zinc-100 disabled:opacity-40 dark:border-zinc-600 dark:text-zinc-300 dark:hover:bg-zinc-800";
+
+  if (quantity > MAX_UNIT_CHECKBOXES) {
+    return (
+      <div className="flex items-center gap-1.5 shrink-0 text-sm">
+        <button
+          type="button"
+          onClick={() => onChange(packedCount - 1)}
+          disabled={packedCount <= 0}
+          className={buttonClassName}
+          aria-label={`Unpack one ${itemName}`}
+        >
+          -
+        </button>
+        <span className="min-w-[3.5rem] text-center tabular-nums text-zinc-700 dark:text-zinc-300">
+          {packedCount} / {quantity}
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(packedCount + 1)}
+          disabled={packedCount >= quantity}
+          className={buttonClassName}
+          aria-label={`Pack one ${itemName}`}
+        >
+          +
+        </button>
+      </div>
+    );
+  }
+
+  // One checkbox per unit; ticking a unit packs every unit before it
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 shrink-0 max-w-[7.5rem] sm:max-w-none">
+      {Array.from({ length: quantity }, (_, i) => (
+        <input
+          key={i}
+          type="checkbox"
+          checked={i < packedCount}
+          onChange={() => onChange(i < packedCount ? i : i + 1)}
+          aria-label={
+            quantity === 1 ? `Packed ${itemName}` : `Packed ${itemName} ${i + 1} of ${quantity}`
+          }
+          className="h-5 w-5 rounded border-zinc-300 accent-zinc-900 dark:border-zinc-600 dark:accent-zinc-100"
+        />
+      ))}
+    </div>
+  );
+}
+
+function ChecklistProgressBar({
+  progress,
+  className,
+}: {
+  progress: ChecklistProgress;
+  className?: string;
+}) {
+  const percent =
+    progress.total > 0 ? Math.round((progress.packed / progress.total) * 100) : 0;
+  const isComplete = progress.total > 0 && progress.packed === progress.total;
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ""}`}>
+      <div
+        className="h-2 flex-1 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.packed}
+        aria-label="Packed"
+      >
+        <div
+          className={`h-full rounded-full ${
+            isComplete ? "bg-green-500" : "bg-zinc-900 dark:bg-zinc-100"
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="shrink-0 text-xs tabular-nums text-zinc-500 dark:text-zinc-500">
+        {progress.packed} / {progress.total} packed
+      </span>
+    </div>
+  );
+}
+
+// Icons
+function EditIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M2.695 14.763l-1.262 3.154a.5.5 0 00.65.65l3.155-1.262a4 4 0 001.343-.885L17.5 5.5a2.121 2.121 0 00-3-3L3.58 13.42a4 4 0 00-.885 1.343z" />
+    </svg>
+  );
+}
+
+function TrashIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M8.75 1A2.75 2.75 0 006 3.75v.443c-.795.077-1.584.176-2.365.298a.75.75 0 10.23 1.482l.149-.022.841 10.518A2.75 2.75 0 007.596 19h4.807a2.75 2.75 0 002.742-2.53l.841-10.519.149.023a.75.75 0 00.23-1.482A41.03 41.03 0 0014 4.193V3.75A2.75 2.75 0 0011.25 1h-2.5zM10 4c.84 0 1.673.025 2.5.075V3.75c0-.69-.56-1.25-1.25-1.25h-2.5c-.69 0-1.25.56-1.25 1.25v.325C8.327 4.025 9.16 4 10 4zM8.58 7.72a.75.75 0 00-1.5.06l.3 7.5a.75.75 0 101.5-.06l-.3-7.5zm4.34.06a.75.75 0 10-1.5-.06l-.3 7.5a.75.75 0 101.5.06l.3-7.5z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function LinkIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M4.25 5.5a.75.75 0 00-.75.75v8.5c0 .414.336.75.75.75h8.5a.75.75 0 00.75-.75v-4a.75.75 0 011.5 0v4A2.25 2.25 0 0112.75 17h-8.5A2.25 2.25 0 012 14.75v-8.5A2.25 2.25 0 014.25 4h5a.75.75 0 010 1.5h-5z"
+        clipRule="evenodd"
+      />
+      <path
+        fillRule="evenodd"
+        d="M6.194 12.753a.75.75 0 001.06.053L16.5 4.44v2.81a.75.75 0 001.5 0v-4.5a.75.75 0 00-.75-.75h-4.5a.75.75 0 000 1.5h2.553l-9.056 8.194a.75.75 0 00-.053 1.06z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function DragHandleIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M3 7a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 13a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
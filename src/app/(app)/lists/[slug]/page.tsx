@@ -1,8 +1,11 @@
 import { notFound } from "next/navigation";
 import { db } from "@/db";
 import { lists, categories, items } from "@/db/schema";
-import { eq, asc, inArray, and, or } from "drizzle-orm";
+import { eq, asc, inArray, and } from "drizzle-orm";
 import { getCurrentSession } from "@/lib/session";
+import { withItemTags } from "@/lib/tags";
+import { getForkSource } from "@/lib/lists";
+import { getUnitPreferences } from "@/lib/preferences";
 import { ListDetailClient, type ListPageData } from "./list-detail-client";
 
 type PageProps = {
@@ -26,7 +29,7 @@ async function getListData(slug: string): Promise<ListPageData | null> {
 
   // Find the list by slug where user owns it, or it's public and user can access
   // First, try to find a list the user owns with this slug
-  let [list] = await db
+  const [list] = await db
     .select()
     .from(lists)
     .where(and(eq(lists.slug, slug), ownershipCondition))
@@ -61,13 +64,15 @@ async function getListData(slug: string): Promise<ListPageData | null> {
       .orderBy(asc(items.position));
   }
 
-  // Group items by category
-  const categoriesWithItems = listCategories.map((category) => ({
-    ...category,
-    items: listItems
-      .filter((item) => item.categoryId === category.id)
-      .sort((a, b) => a.position - b.position),
-  }));
+  // Group items by category and attach each item's tags
+  const categoriesWithItems = await withItemTags(
+    listCategories.map((category) => ({
+      ...category,
+      items: listItems
+        .filter((item) => item.categoryId === category.id)
+        .sort((a, b) => a.position - b.position),
+    }))
+  );
 
   return {
     list: {
@@ -76,10 +81,20 @@ async function getListData(slug: string): Promise<ListPageData | null> {
       slug: list.slug,
       description: list.description,
       isPublic: list.isPublic,
+      hidePrices: list.hidePrices,
+      displayUnit: list.displayUnit,
+      tripDays: list.tripDays,
+      resupplyDays: list.resupplyDays,
+      caloriesPerDay: list.caloriesPerDay,
+      waterCarryAmount: list.waterCarryAmount,
+      waterCarryUnit: list.waterCarryUnit,
+      baseWeightTarget: list.baseWeightTarget,
       createdAt: list.createdAt,
       updatedAt: list.updatedAt,
     },
     categories: categoriesWithItems,
+    forkedFrom: await getForkSource(list.forkedFromListId),
+    preferences: await getUnitPreferences(session),
     isOwner: isOwner,
     isAuthenticated: session.type === "authenticated",
   };
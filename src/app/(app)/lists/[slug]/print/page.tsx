@@ -0,0 +1,75 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { db } from "@/db";
+import { lists } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getCurrentSession } from "@/lib/session";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import { getUnitPreferences } from "@/lib/preferences";
+import {
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { PrintableList } from "@/components/printable-list";
+
+type PageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Print List",
+};
+
+async function getPrintData(slug: string) {
+  const session = await getCurrentSession();
+
+  if (!session) {
+    return null;
+  }
+
+  // Only the owner can print a list through this route
+  const ownershipCondition =
+    session.type === "authenticated"
+      ? eq(lists.userId, session.userId)
+      : eq(lists.anonymousSessionId, session.anonymousSessionId);
+
+  const [list] = await db
+    .select()
+    .from(lists)
+    .where(and(eq(lists.slug, slug), ownershipCondition))
+    .limit(1);
+
+  if (!list) {
+    return null;
+  }
+
+  const preferences = await getUnitPreferences(session);
+
+  return {
+    list,
+    categories: await getListCategoriesWithItems(list.id),
+    // The list's own unit wins over the owner's preferred unit
+    displayUnit: resolveDisplayUnit(list.displayUnit, preferences.displayUnit),
+  };
+}
+
+export default async function PrintListPage({ params }: PageProps) {
+  const { slug } = await params;
+  const data = await getPrintData(slug);
+
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <PrintableList
+      list={{ name: data.list.name, description: data.list.description }}
+      categories={data.categories}
+      displayUnit={data.displayUnit}
+      trip={getListTripSettings(data.list)}
+      water={getListWaterCarry(data.list)}
+      backHref={`/lists/${data.list.slug}`}
+    />
+  );
+}
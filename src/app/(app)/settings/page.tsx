@@ -0,0 +1,41 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { EmailVerificationSettings } from "@/components/email-verification-settings";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { isEmailVerified } from "@/lib/email-verification";
+import { getSessionUser } from "@/lib/session";
+
+export const metadata: Metadata = {
+  title: "Account Settings",
+};
+
+export default async function SettingsPage() {
+  // Security settings only exist for accounts
+  const user = await getSessionUser();
+  if (!user) {
+    redirect("/signin");
+  }
+  const emailVerified = await isEmailVerified(user.id);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black">
+      <div className="mx-auto max-w-2xl px-3 py-4 sm:px-6 sm:py-8 lg:px-8">
+        <header className="mb-4 sm:mb-8">
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 sm:text-3xl">
+            Account Settings
+          </h1>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 sm:mt-2 sm:text-base">
+            Signed in as {user.email}
+          </p>
+        </header>
+        <div className="space-y-4 sm:space-y-6">
+          <EmailVerificationSettings
+            email={user.email}
+            verified={emailVerified}
+          />
+          <TwoFactorSettings />
+        </div>
+      </div>
+    </div>
+  );
+}
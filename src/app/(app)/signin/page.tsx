@@ -0,0 +1,385 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useToast } from "@/components/ui/toast";
+import type { AnonymousMigrationSummary } from "@/lib/anonymous-data";
+import { signInSchema } from "@/lib/validations/auth";
+
+interface FieldErrors {
+  email?: string[];
+  password?: string[];
+}
+
+interface TwoFactorFieldErrors {
+  code?: string[];
+}
+
+interface OAuthProviderOption {
+  id: string;
+  name: string;
+}
+
+// Reasons the identity provider callback sends back in ?error=
+const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  oauth: "Signing in with your identity provider failed. Please try again.",
+  oauth_email:
+    "Your identity provider didn't confirm an email address that can be used for this account.",
+  oauth_unverified:
+    "An account with this email exists but its address hasn't been verified. Sign in with your password and verify your email first.",
+};
+
+/**
+ * Toast text for lists moved over from before signing in, or null if none were
+ */
+function getMigrationMessage({
+  migratedLists,
+  renamedLists,
+}: AnonymousMigrationSummary): string | null {
+  if (migratedLists === 0) {
+    return null;
+  }
+
+  const moved = `Moved ${migratedLists} ${
+    migratedLists === 1 ? "list" : "lists"
+  } into your account`;
+  if (renamedLists.length === 0) {
+    return moved;
+  }
+
+  const renamed = renamedLists
+    .map((list) => `${list.name} is now at /lists/${list.to}`)
+    .join(", ");
+  return `${moved}. ${renamed}`;
+}
+
+export default function SignInPage() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [email, setEmail] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const searchParams = useSearchParams();
+  const [error, setError] = React.useState<string | null>(
+    () => OAUTH_ERROR_MESSAGES[searchParams.get("error") ?? ""] ?? null
+  );
+  const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
+  const [providers, setProviders] = React.useState<OAuthProviderOption[]>([]);
+  // Set once the password (or identity provider, through ?challenge=) is
+  // accepted for an account with two-factor on
+  const [challengeToken, setChallengeToken] = React.useState<string | null>(
+    () => searchParams.get("challenge")
+  );
+  const [code, setCode] = React.useState("");
+  const [codeErrors, setCodeErrors] = React.useState<TwoFactorFieldErrors>({});
+
+  React.useEffect(() => {
+    fetch("/api/auth/oauth")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setProviders(data?.providers ?? []))
+      .catch(() => setProviders([]));
+  }, []);
+
+  const finishSignIn = (result: AnonymousMigrationSummary) => {
+    const migrationMessage = getMigrationMessage(result);
+    if (migrationMessage) {
+      showToast(migrationMessage, "success");
+    }
+
+    // Redirect to home page on success
+    router.push("/");
+    router.refresh();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+
+    const validationResult = signInSchema.safeParse({ email, password });
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten().fieldErrors;
+      setFieldErrors({
+        email: errors.email,
+        password: errors.password,
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/signin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          setFieldErrors(result.details);
+        } else {
+          setError(result.error || "An error occurred");
+        }
+        return;
+      }
+
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
+
+      finishSignIn(result);
+    } catch {
+      setError("Failed to sign in. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setCodeErrors({});
+
+    if (!code.trim()) {
+      setCodeErrors({ code: ["Code is required"] });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/signin/two-factor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.details) {
+          setCodeErrors(result.details);
+        } else {
+          setError(result.error || "An error occurred");
+        }
+        // Too many wrong codes end the challenge; start over from the password
+        if (response.status === 401 && result.error !== "Invalid code") {
+          setChallengeToken(null);
+          setCode("");
+        }
+        return;
+      }
+
+      finishSignIn(result);
+    } catch {
+      setError("Failed to sign in. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 dark:bg-neutral-950">
+        <div className="w-full max-w-md space-y-6">
+          <div className="space-y-2 text-center">
+            <h1 className="text-2xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100">
+              Two-factor authentication
+            </h1>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              Enter the code from your authenticator app, or one of your
+              recovery codes
+            </p>
+          </div>
+
+          <form onSubmit={handleCodeSubmit} className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label
+                htmlFor="code"
+                className="text-sm font-medium leading-none text-neutral-900 dark:text-neutral-100"
+              >
+                Code
+              </label>
+              <input
+                id="code"
+                type="text"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                disabled={isSubmitting}
+                className={`flex h-10 w-full rounded-md border bg-white px-3 py-2 font-mono text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
+                  codeErrors.code
+                    ? "border-red-500 dark:border-red-500"
+                    : "border-neutral-200 dark:border-neutral-800"
+                }`}
+              />
+              {codeErrors.code && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {codeErrors.code[0]}
+                </p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex h-10 w-full items-center justify-center rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-neutral-50 ring-offset-white transition-colors hover:bg-neutral-900/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 dark:bg-neutral-50 dark:text-neutral-900 dark:ring-offset-neutral-950 dark:hover:bg-neutral-50/90 dark:focus-visible:ring-neutral-300"
+            >
+              {isSubmitting ? "Verifying..." : "Verify"}
+            </button>
+          </form>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken(null);
+                setCode("");
+                setError(null);
+              }}
+              className="text-sm text-neutral-600 underline-offset-4 hover:underline dark:text-neutral-400"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 dark:bg-neutral-950">
+      <div className="w-full max-w-md space-y-6">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100">
+            Welcome back
+          </h1>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">
+            Sign in to your account to continue
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label
+              htmlFor="email"
+              className="text-sm font-medium leading-none text-neutral-900 dark:text-neutral-100"
+            >
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              disabled={isSubmitting}
+              className={`flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
+                fieldErrors.email
+                  ? "border-red-500 dark:border-red-500"
+                  : "border-neutral-200 dark:border-neutral-800"
+              }`}
+            />
+            {fieldErrors.email && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {fieldErrors.email[0]}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="password"
+              className="text-sm font-medium leading-none text-neutral-900 dark:text-neutral-100"
+            >
+              Password
+            </label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter your password"
+              disabled={isSubmitting}
+              className={`flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
+                fieldErrors.password
+                  ? "border-red-500 dark:border-red-500"
+                  : "border-neutral-200 dark:border-neutral-800"
+              }`}
+            />
+            {fieldErrors.password && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {fieldErrors.password[0]}
+              </p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="inline-flex h-10 w-full items-center justify-center rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-neutral-50 ring-offset-white transition-colors hover:bg-neutral-900/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 dark:bg-neutral-50 dark:text-neutral-900 dark:ring-offset-neutral-950 dark:hover:bg-neutral-50/90 dark:focus-visible:ring-neutral-300"
+          >
+            {isSubmitting ? "Signing in..." : "Sign in"}
+          </button>
+        </form>
+
+        {providers.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-3 text-xs uppercase text-neutral-500 dark:text-neutral-400">
+              <span className="h-px flex-1 bg-neutral-200 dark:bg-neutral-800" />
+              or
+              <span className="h-px flex-1 bg-neutral-200 dark:bg-neutral-800" />
+            </div>
+            {providers.map((provider) => (
+              <a
+                key={provider.id}
+                href={`/api/auth/oauth/${provider.id}`}
+                className="inline-flex h-10 w-full items-center justify-center rounded-md border border-neutral-200 bg-white px-4 py-2 text-sm font-medium text-neutral-900 transition-colors hover:bg-neutral-100 dark:border-neutral-800 dark:bg-neutral-950 dark:text-neutral-100 dark:hover:bg-neutral-900"
+              >
+                Continue with {provider.name}
+              </a>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 text-center">
+          <Link
+            href="/forgot-password"
+            className="text-sm text-neutral-600 underline-offset-4 hover:underline dark:text-neutral-400"
+          >
+            Forgot your password?
+          </Link>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">
+            Don&apos;t have an account?{" "}
+            <Link
+              href="/signup"
+              className="text-neutral-900 underline-offset-4 hover:underline dark:text-neutral-100"
+            >
+              Sign up
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
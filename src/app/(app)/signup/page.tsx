@@ -3,6 +3,7 @@
 import * as React from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { useToast } from "@/components/ui/toast";
 import { signUpSchema } from "@/lib/validations/auth";
 
 interface FieldErrors {
@@ -13,6 +14,7 @@ interface FieldErrors {
 
 export default function SignUpPage() {
   const router = useRouter();
+  const { showToast } = useToast();
   const [username, setUsername] = React.useState("");
   const [email, setEmail] = React.useState("");
   const [password, setPassword] = React.useState("");
@@ -57,6 +59,8 @@ export default function SignUpPage() {
         return;
       }
 
+      showToast(`Check ${email} for a link to verify your address`, "success");
+
       // Redirect to home page on success
       router.push("/");
       router.refresh();
@@ -0,0 +1,110 @@
+"use client";
+
+import * as React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+
+type VerifyStatus = "verifying" | "success" | "error";
+
+export default function VerifyEmailPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [status, setStatus] = React.useState<VerifyStatus>(
+    token ? "verifying" : "error"
+  );
+  const [error, setError] = React.useState<string | null>(null);
+  // The token is single-use, so only send it once even if the effect re-runs
+  const hasSubmitted = React.useRef(false);
+
+  React.useEffect(() => {
+    if (!token || hasSubmitted.current) {
+      return;
+    }
+    hasSubmitted.current = true;
+
+    fetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          const result = await response.json();
+          setError(result.error || "An error occurred");
+          setStatus("error");
+          return;
+        }
+        setStatus("success");
+        router.refresh();
+      })
+      .catch(() => {
+        setError("Failed to verify email. Please try again.");
+        setStatus("error");
+      });
+  }, [token, router]);
+
+  if (status === "verifying") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 dark:bg-neutral-950">
+        <div className="w-full max-w-md space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100">
+            Verifying your email...
+          </h1>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === "success") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 dark:bg-neutral-950">
+        <div className="w-full max-w-md space-y-6">
+          <div className="space-y-2 text-center">
+            <h1 className="text-2xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100">
+              Email verified
+            </h1>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              Thanks for confirming your address. You can now share lists and
+              reset your password by email.
+            </p>
+          </div>
+          <div className="text-center">
+            <Link
+              href="/"
+              className="inline-flex h-10 items-center justify-center rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-neutral-50 ring-offset-white transition-colors hover:bg-neutral-900/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 dark:bg-neutral-50 dark:text-neutral-900 dark:ring-offset-neutral-950 dark:hover:bg-neutral-50/90 dark:focus-visible:ring-neutral-300"
+            >
+              Go to your lists
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 dark:bg-neutral-950">
+      <div className="w-full max-w-md space-y-6">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100">
+            Invalid verification link
+          </h1>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">
+            {error ||
+              "This verification link is invalid or has expired."}{" "}
+            You can request a new one from your account settings.
+          </p>
+        </div>
+        <div className="text-center">
+          <Link
+            href="/settings"
+            className="text-sm text-neutral-600 underline-offset-4 hover:underline dark:text-neutral-400"
+          >
+            Go to account settings
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let mockItemTags = new Map<string, { id: string; name: string }[]>();
+
+// Rows returned per table; the route filters by owner in SQL, so the mock
+// returns whatever the test puts here
+let mockRows: Record<string, Array<Record<string, unknown>>> = {};
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+vi.mock("@/lib/tags", () => ({
+  getItemTags: vi.fn().mockImplementation(() => Promise.resolve(mockItemTags)),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation((table: PgTable) => {
+        const rows = Promise.resolve(mockRows[getTableName(table)] ?? []);
+        return {
+          where: vi.fn().mockImplementation(() =>
+            Object.assign(rows, {
+              orderBy: vi.fn().mockImplementation(() => rows),
+            })
+          ),
+        };
+      }),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { db } from "@/db";
+import { getItemTags } from "@/lib/tags";
+
+describe("GET /api/account/backup", () => {
+  beforeEach(() => {
+    currentSession = null;
+    mockRows = {};
+    mockItemTags = new Map();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 without a session", async () => {
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(data.error).toBe("Unauthorized");
+  });
+
+  it("returns an empty backup when the user has no lists", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.version).toBe(1);
+    expect(data.lists).toEqual([]);
+    // Categories and items are not queried without lists
+    expect(db.select).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns every list with categories and items as an attachment", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    mockRows = {
+      lists: [
+        {
+          id: "l1",
+          userId,
+          anonymousSessionId: null,
+          name: "PCT",
+          slug: "pct",
+          description: null,
+          isPublic: true,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ],
+      categories: [
+        {
+          id: "c1",
+          listId: "l1",
+          name: "Shelter",
+          description: null,
+          position: 0,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ],
+      items: [
+        {
+          id: "i1",
+          categoryId: "c1",
+          gearId: null,
+          name: "Tent",
+          description: null,
+          url: null,
+          weightAmount: 500,
+          weightUnit: "g",
+          label: "none",
+          quantity: 1,
+          position: 0,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ],
+    };
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toMatch(
+      /^attachment; filename="ultralight-backup-\d{4}-\d{2}-\d{2}\.json"$/
+    );
+    expect(data.lists).toHaveLength(1);
+    expect(data.lists[0]).toMatchObject({ name: "PCT", slug: "pct", isPublic: true });
+    expect(data.lists[0].categories[0].name).toBe("Shelter");
+    expect(data.lists[0].categories[0].items[0].name).toBe("Tent");
+    expect(data.lists[0].categories[0].items[0].tags).toEqual([]);
+  });
+
+  it("includes item tags by name", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    mockRows = {
+      lists: [{ id: "l1", name: "PCT", slug: "pct", createdAt: now, updatedAt: now }],
+      categories: [{ id: "c1", listId: "l1", name: "Shelter", position: 0 }],
+      items: [{ id: "i1", categoryId: "c1", name: "Tent", position: 0 }],
+    };
+    mockItemTags = new Map([["i1", [{ id: "t1", name: "shared" }]]]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(getItemTags).toHaveBeenCalledWith(["i1"]);
+    expect(data.lists[0].categories[0].items[0].tags).toEqual(["shared"]);
+  });
+
+  it("returns 500 when the database fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { lists, categories, items } from "@/db/schema";
+import type { Category, Item } from "@/db/schema";
+import { getCurrentSession } from "@/lib/session";
+import { buildAccountBackup, getBackupFilename } from "@/lib/backup";
+import { getItemTags } from "@/lib/tags";
+import { eq, asc, inArray } from "drizzle-orm";
+
+export async function GET() {
+  try {
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch every list owned by this user/session
+    const ownedLists = await db
+      .select()
+      .from(lists)
+      .where(
+        session.type === "authenticated"
+          ? eq(lists.userId, session.userId)
+          : eq(lists.anonymousSessionId, session.anonymousSessionId)
+      )
+      .orderBy(asc(lists.createdAt));
+
+    const listIds = ownedLists.map((l) => l.id);
+    let listCategories: Category[] = [];
+    let listItems: Item[] = [];
+
+    if (listIds.length > 0) {
+      listCategories = await db
+        .select()
+        .from(categories)
+        .where(inArray(categories.listId, listIds));
+    }
+
+    const categoryIds = listCategories.map((c) => c.id);
+    if (categoryIds.length > 0) {
+      listItems = await db
+        .select()
+        .from(items)
+        .where(inArray(items.categoryId, categoryIds));
+    }
+
+    const tagsByItem = await getItemTags(listItems.map((i) => i.id));
+
+    const backup = buildAccountBackup(
+      ownedLists,
+      listCategories,
+      listItems,
+      tagsByItem
+    );
+
+    return new NextResponse(JSON.stringify(backup, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${getBackupFilename(backup.exportedAt)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Account backup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
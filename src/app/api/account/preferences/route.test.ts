@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let storedPreferences = { displayUnit: "g", defaultWeightUnit: "g" };
+let updatedTable: "users" | "anonymous_sessions" | null = null;
+let ownedListIds: string[] = [];
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock preference lookup
+vi.mock("@/lib/preferences", () => ({
+  getUnitPreferences: vi.fn().mockImplementation((session: MockSession) => {
+    return Promise.resolve(
+      session ? { ...storedPreferences } : { displayUnit: "g", defaultWeightUnit: "g" }
+    );
+  }),
+}));
+
+vi.mock("@/lib/cache", () => ({
+  revalidateListCache: vi.fn(),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    update: vi.fn().mockImplementation((table: Record<string, unknown>) => ({
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        where: vi.fn().mockImplementation(() => {
+          updatedTable = "passwordHash" in table ? "users" : "anonymous_sessions";
+          const { displayUnit, defaultWeightUnit } = data as {
+            displayUnit?: string;
+            defaultWeightUnit?: string;
+          };
+          storedPreferences = {
+            displayUnit: displayUnit ?? storedPreferences.displayUnit,
+            defaultWeightUnit:
+              defaultWeightUnit ?? storedPreferences.defaultWeightUnit,
+          };
+          return Promise.resolve();
+        }),
+      })),
+    })),
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() =>
+          Promise.resolve(ownedListIds.map((id) => ({ id })))
+        ),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET, PATCH } from "./route";
+import { db } from "@/db";
+import { revalidateListCache } from "@/lib/cache";
+
+function createPatchRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/account/preferences", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+}
+
+const authenticatedSession = () => ({
+  type: "authenticated" as const,
+  userId: crypto.randomUUID(),
+  username: "hiker",
+  email: "hiker@example.com",
+});
+
+describe("/api/account/preferences", () => {
+  beforeEach(() => {
+    currentSession = null;
+    storedPreferences = { displayUnit: "g", defaultWeightUnit: "g" };
+    updatedTable = null;
+    ownedListIds = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("GET", () => {
+    it("returns defaults without a session", async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.preferences).toEqual({
+        displayUnit: "g",
+        defaultWeightUnit: "g",
+      });
+    });
+
+    it("returns the stored preferences", async () => {
+      currentSession = authenticatedSession();
+      storedPreferences = { displayUnit: "oz", defaultWeightUnit: "g" };
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.preferences.displayUnit).toBe("oz");
+    });
+  });
+
+  describe("PATCH", () => {
+    it("returns 400 for an unknown unit", async () => {
+      currentSession = authenticatedSession();
+
+      const response = await PATCH(createPatchRequest({ displayUnit: "stone" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation failed");
+      expect(data.details.displayUnit).toBeDefined();
+    });
+
+    it("returns 401 without a session", async () => {
+      const response = await PATCH(createPatchRequest({ displayUnit: "oz" }));
+
+      expect(response.status).toBe(401);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it("updates a user's preferences and refreshes their public lists", async () => {
+      currentSession = authenticatedSession();
+      ownedListIds = [crypto.randomUUID(), crypto.randomUUID()];
+
+      const response = await PATCH(
+        createPatchRequest({ displayUnit: "lbs", defaultWeightUnit: "oz" })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(updatedTable).toBe("users");
+      expect(data.preferences).toEqual({
+        displayUnit: "lbs",
+        defaultWeightUnit: "oz",
+      });
+      expect(revalidateListCache).toHaveBeenCalledTimes(2);
+      expect(revalidateListCache).toHaveBeenCalledWith(ownedListIds[0]);
+    });
+
+    it("does not refresh list caches when only the entry unit changes", async () => {
+      currentSession = authenticatedSession();
+      ownedListIds = [crypto.randomUUID()];
+
+      const response = await PATCH(createPatchRequest({ defaultWeightUnit: "kg" }));
+
+      expect(response.status).toBe(200);
+      expect(revalidateListCache).not.toHaveBeenCalled();
+    });
+
+    it("refreshes list caches when weight class limits change", async () => {
+      currentSession = authenticatedSession();
+      ownedListIds = [crypto.randomUUID()];
+
+      const response = await PATCH(
+        createPatchRequest({ weightClassThresholds: [2000, 4500, 9000] })
+      );
+
+      expect(response.status).toBe(200);
+      expect(revalidateListCache).toHaveBeenCalledWith(ownedListIds[0]);
+    });
+
+    it("returns 400 for weight class limits out of order", async () => {
+      currentSession = authenticatedSession();
+
+      const response = await PATCH(
+        createPatchRequest({ weightClassThresholds: [9000, 4500, 2000] })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details.weightClassThresholds).toBeDefined();
+    });
+
+    it("updates an anonymous session's preferences", async () => {
+      currentSession = {
+        type: "anonymous",
+        anonymousSessionId: crypto.randomUUID(),
+      };
+
+      const response = await PATCH(createPatchRequest({ displayUnit: "kg" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(updatedTable).toBe("anonymous_sessions");
+      expect(data.preferences.displayUnit).toBe("kg");
+    });
+
+    it("returns 500 when the update fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      currentSession = authenticatedSession();
+      vi.mocked(db.update).mockImplementationOnce(() => {
+        throw new Error("DB error");
+      });
+
+      const response = await PATCH(createPatchRequest({ displayUnit: "oz" }));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
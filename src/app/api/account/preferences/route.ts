@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { anonymousSessions, lists, users } from "@/db/schema";
+import { updatePreferencesSchema } from "@/lib/validations/preferences";
+import { getCurrentSession } from "@/lib/session";
+import { getUnitPreferences } from "@/lib/preferences";
+import { revalidateListCache } from "@/lib/cache";
+import { eq } from "drizzle-orm";
+
+export async function GET() {
+  try {
+    // Visitors without a session get the defaults
+    const session = await getCurrentSession();
+    const preferences = await getUnitPreferences(session);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Get preferences error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = updatePreferencesSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (Object.keys(result.data).length > 0) {
+      if (session.type === "authenticated") {
+        await db
+          .update(users)
+          .set({ ...result.data, updatedAt: new Date() })
+          .where(eq(users.id, session.userId));
+
+        // Public pages render in the owner's unit and weight classes,
+        // so refresh their caches
+        if (
+          result.data.displayUnit ||
+          result.data.weightClassThresholds !== undefined
+        ) {
+          const ownedLists = await db
+            .select({ id: lists.id })
+            .from(lists)
+            .where(eq(lists.userId, session.userId));
+          for (const list of ownedLists) {
+            revalidateListCache(list.id);
+          }
+        }
+      } else {
+        await db
+          .update(anonymousSessions)
+          .set(result.data)
+          .where(eq(anonymousSessions.id, session.anonymousSessionId));
+      }
+    }
+
+    const preferences = await getUnitPreferences(session);
+
+    return NextResponse.json({
+      message: "Preferences updated successfully",
+      preferences,
+    });
+  } catch (error) {
+    console.error("Update preferences error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let storedProfile: {
+  username: string;
+  bio: string | null;
+  avatarUrl: string | null;
+} = { username: "hiker", bio: null, avatarUrl: null };
+let lastUpdate: Record<string, unknown> | null = null;
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() =>
+            Promise.resolve([{ ...storedProfile }])
+          ),
+        })),
+      })),
+    })),
+    update: vi.fn().mockImplementation(() => ({
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        where: vi.fn().mockImplementation(() => ({
+          returning: vi.fn().mockImplementation(() => {
+            lastUpdate = data;
+            const { updatedAt: _updatedAt, ...fields } = data;
+            storedProfile = { ...storedProfile, ...fields };
+            return Promise.resolve([{ ...storedProfile }]);
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET, PATCH } from "./route";
+import { db } from "@/db";
+
+function createPatchRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/account/profile", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+}
+
+const authenticatedSession = () => ({
+  type: "authenticated" as const,
+  userId: crypto.randomUUID(),
+  username: "hiker",
+  email: "hiker@example.com",
+});
+
+describe("/api/account/profile", () => {
+  beforeEach(() => {
+    currentSession = null;
+    storedProfile = { username: "hiker", bio: null, avatarUrl: null };
+    lastUpdate = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("GET", () => {
+    it("returns 401 without an account", async () => {
+      currentSession = {
+        type: "anonymous",
+        anonymousSessionId: crypto.randomUUID(),
+      };
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+    });
+
+    it("returns the stored profile", async () => {
+      currentSession = authenticatedSession();
+      storedProfile = { username: "hiker", bio: "Thru-hiker", avatarUrl: null };
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.profile).toEqual(storedProfile);
+    });
+  });
+
+  describe("PATCH", () => {
+    it("returns 400 for an invalid avatar URL", async () => {
+      currentSession = authenticatedSession();
+
+      const response = await PATCH(createPatchRequest({ avatarUrl: "me.png" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation failed");
+      expect(data.details.avatarUrl).toBeDefined();
+    });
+
+    it("returns 401 for anonymous sessions", async () => {
+      currentSession = {
+        type: "anonymous",
+        anonymousSessionId: crypto.randomUUID(),
+      };
+
+      const response = await PATCH(createPatchRequest({ bio: "Hello" }));
+
+      expect(response.status).toBe(401);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it("updates the bio and avatar", async () => {
+      currentSession = authenticatedSession();
+
+      const response = await PATCH(
+        createPatchRequest({
+          bio: "  Tarp enthusiast  ",
+          avatarUrl: "https://example.com/me.png",
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.profile).toEqual({
+        username: "hiker",
+        bio: "Tarp enthusiast",
+        avatarUrl: "https://example.com/me.png",
+      });
+    });
+
+    it("stores a blank bio as null and leaves omitted fields alone", async () => {
+      currentSession = authenticatedSession();
+
+      await PATCH(createPatchRequest({ bio: "   " }));
+
+      expect(lastUpdate).toHaveProperty("bio", null);
+      expect(lastUpdate).not.toHaveProperty("avatarUrl");
+    });
+
+    it("returns 500 when the update fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      currentSession = authenticatedSession();
+      vi.mocked(db.update).mockImplementationOnce(() => {
+        throw new Error("DB error");
+      });
+
+      const response = await PATCH(createPatchRequest({ bio: "Hello" }));
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { updateProfileSchema } from "@/lib/validations/profile";
+import { getCurrentSession } from "@/lib/session";
+import { eq } from "drizzle-orm";
+
+const profileColumns = {
+  username: users.username,
+  bio: users.bio,
+  avatarUrl: users.avatarUrl,
+};
+
+export async function GET() {
+  try {
+    // Only accounts have a public profile
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [profile] = await db
+      .select(profileColumns)
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!profile) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Get profile error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = updateProfileSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // A blank bio is stored as null so the profile page skips it
+    const { bio, avatarUrl } = result.data;
+    const [profile] = await db
+      .update(users)
+      .set({
+        ...(bio !== undefined && { bio: bio?.trim() || null }),
+        ...(avatarUrl !== undefined && { avatarUrl }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, session.userId))
+      .returning(profileColumns);
+
+    if (!profile) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: "Profile updated successfully",
+      profile,
+    });
+  } catch (error) {
+    console.error("Update profile error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
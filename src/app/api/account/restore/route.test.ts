@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let emailVerified = true;
+
+let existingSlugs: string[] = [];
+let mockLists: Array<Record<string, unknown>> = [];
+let mockCategories: Array<Record<string, unknown>> = [];
+let mockItems: Array<Record<string, unknown>> = [];
+let mockTags: Array<Record<string, unknown>> = [];
+let mockItemTags: Array<Record<string, unknown>> = [];
+let existingTags: Array<{ id: string; name: string }> = [];
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+vi.mock("@/lib/email-verification", () => ({
+  isEmailVerified: vi.fn().mockImplementation(() =>
+    Promise.resolve(emailVerified)
+  ),
+}));
+
+// Mock weight history
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
+// Insert handler used inside the transaction, storing rows per table
+const mockInsert = vi.fn().mockImplementation((table: PgTable) => ({
+  values: vi.fn().mockImplementation(
+    (data: Record<string, unknown> | Array<Record<string, unknown>>) => {
+      const rows = (Array.isArray(data) ? data : [data]).map((row) => ({
+        id: crypto.randomUUID(),
+        ...row,
+      }));
+      const stored: Record<string, Array<Record<string, unknown>>> = {
+        lists: mockLists,
+        categories: mockCategories,
+        items: mockItems,
+        tags: mockTags,
+        item_tags: mockItemTags,
+      };
+      stored[getTableName(table)].push(...rows);
+
+      return Object.assign(Promise.resolve(), {
+        returning: vi.fn().mockImplementation(() => Promise.resolve(rows)),
+      });
+    }
+  ),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() =>
+          Promise.resolve(existingSlugs.map((slug) => ({ slug })))
+        ),
+      })),
+    })),
+    transaction: vi.fn().mockImplementation(
+      async (callback: (tx: unknown) => Promise<unknown>) => {
+        return callback({
+          // Only the owner's existing tags are selected inside the transaction
+          select: () => ({
+            from: () => ({ where: () => Promise.resolve(existingTags) }),
+          }),
+          insert: (...args: unknown[]) => mockInsert(...args),
+        });
+      }
+    ),
+  },
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+import { recordWeightSnapshot } from "@/lib/history";
+
+function createRestoreRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/account/restore", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+function createBackup(slugs: string[], isPublic = false) {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    lists: slugs.map((slug) => ({
+      name: slug.toUpperCase(),
+      slug,
+      description: null,
+      isPublic,
+      categories: [
+        {
+          name: "Shelter",
+          description: null,
+          items: [
+            {
+              name: "Tent",
+              description: null,
+              url: null,
+              weightAmount: 500,
+              weightUnit: "g",
+              label: "none",
+              quantity: 1,
+            },
+            {
+              name: "Stakes",
+              description: null,
+              url: null,
+              weightAmount: 6,
+              weightUnit: "g",
+              label: "none",
+              quantity: 8,
+            },
+          ],
+        },
+        { name: "Kitchen", description: "Cook kit", items: [] },
+      ],
+    })),
+  };
+}
+
+const authenticatedSession = () => ({
+  type: "authenticated" as const,
+  userId: crypto.randomUUID(),
+  username: "hiker",
+  email: "hiker@example.com",
+});
+
+describe("POST /api/account/restore", () => {
+  beforeEach(() => {
+    currentSession = null;
+    emailVerified = true;
+    existingSlugs = [];
+    mockLists = [];
+    mockCategories = [];
+    mockItems = [];
+    mockTags = [];
+    mockItemTags = [];
+    existingTags = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for an unsupported backup version", async () => {
+    currentSession = authenticatedSession();
+    const response = await POST(
+      createRestoreRequest({ ...createBackup(["pct"]), version: 99 })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+    expect(data.details.version).toBeDefined();
+  });
+
+  it("returns 400 for invalid list data", async () => {
+    currentSession = authenticatedSession();
+    const backup = createBackup(["pct"]);
+    backup.lists[0].name = "";
+
+    const response = await POST(createRestoreRequest(backup));
+
+    expect(response.status).toBe(400);
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 without a session", async () => {
+    const response = await POST(createRestoreRequest(createBackup(["pct"])));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("recreates lists, categories and items in order", async () => {
+    currentSession = authenticatedSession();
+
+    const response = await POST(createRestoreRequest(createBackup(["pct", "at"])));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.message).toBe("Backup restored successfully");
+    expect(data.lists.map((l: { slug: string }) => l.slug)).toEqual(["pct", "at"]);
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(recordWeightSnapshot).toHaveBeenCalledTimes(2);
+    for (const list of data.lists) {
+      expect(recordWeightSnapshot).toHaveBeenCalledWith(list.id);
+    }
+
+    expect(mockLists).toHaveLength(2);
+    expect(mockLists[0]).toMatchObject({
+      userId: currentSession.userId,
+      anonymousSessionId: null,
+    });
+    expect(mockCategories.slice(0, 2).map((c) => [c.name, c.position])).toEqual([
+      ["Shelter", 0],
+      ["Kitchen", 1],
+    ]);
+    expect(mockCategories[1].description).toBe("Cook kit");
+    expect(mockItems).toHaveLength(4);
+    expect(mockItems.slice(0, 2).map((i) => [i.name, i.position])).toEqual([
+      ["Tent", 0],
+      ["Stakes", 1],
+    ]);
+    expect(mockItems[0].categoryId).toBe(mockCategories[0].id);
+  });
+
+  it("links item tags to existing tags and creates missing ones", async () => {
+    currentSession = authenticatedSession();
+    existingTags = [{ id: "tag-shared", name: "Shared" }];
+    const backup = createBackup(["pct"]);
+    Object.assign(backup.lists[0].categories[0].items[0], {
+      tags: ["shared", "electronics", "SHARED"],
+    });
+    Object.assign(backup.lists[0].categories[0].items[1], {
+      tags: ["electronics"],
+    });
+
+    const response = await POST(createRestoreRequest(backup));
+
+    expect(response.status).toBe(201);
+    expect(mockTags).toHaveLength(1);
+    expect(mockTags[0]).toMatchObject({
+      userId: currentSession.userId,
+      anonymousSessionId: null,
+      name: "electronics",
+    });
+    expect(mockItemTags.map((link) => [link.itemId, link.tagId])).toEqual([
+      [mockItems[0].id, "tag-shared"],
+      [mockItems[0].id, mockTags[0].id],
+      [mockItems[1].id, mockTags[0].id],
+    ]);
+    expect(mockItems[0]).not.toHaveProperty("tags");
+  });
+
+  it("keeps each list's display unit", async () => {
+    currentSession = authenticatedSession();
+    const backup = createBackup(["pct", "at"]);
+    Object.assign(backup.lists[0], { displayUnit: "oz" });
+
+    await POST(createRestoreRequest(backup));
+
+    expect(mockLists.map((l) => l.displayUnit)).toEqual(["oz", null]);
+  });
+
+  it("re-uniquifies slugs against existing lists and each other", async () => {
+    currentSession = authenticatedSession();
+    existingSlugs = ["pct"];
+
+    const response = await POST(createRestoreRequest(createBackup(["pct", "pct"])));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.lists.map((l: { slug: string }) => l.slug)).toEqual([
+      "pct-1",
+      "pct-2",
+    ]);
+  });
+
+  it("keeps public lists public for registered users", async () => {
+    currentSession = authenticatedSession();
+
+    await POST(createRestoreRequest(createBackup(["pct"], true)));
+
+    expect(mockLists[0].isPublic).toBe(true);
+  });
+
+  it("restores lists as private until the email address is verified", async () => {
+    currentSession = authenticatedSession();
+    emailVerified = false;
+
+    const response = await POST(createRestoreRequest(createBackup(["pct"], true)));
+
+    expect(response.status).toBe(201);
+    expect(mockLists[0].isPublic).toBe(false);
+  });
+
+  it("restores lists as private for anonymous sessions", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+
+    const response = await POST(createRestoreRequest(createBackup(["pct"], true)));
+
+    expect(response.status).toBe(201);
+    expect(mockLists[0]).toMatchObject({
+      userId: null,
+      anonymousSessionId,
+      isPublic: false,
+    });
+  });
+
+  it("returns 500 when the transaction fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    currentSession = authenticatedSession();
+    vi.mocked(db.transaction).mockRejectedValueOnce(new Error("DB error"));
+
+    const response = await POST(createRestoreRequest(createBackup(["pct"])));
+
+    expect(response.status).toBe(500);
+    expect(recordWeightSnapshot).not.toHaveBeenCalled();
+  });
+});
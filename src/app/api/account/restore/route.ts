@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { lists, categories, items, tags, itemTags } from "@/db/schema";
+import { restoreBackupSchema } from "@/lib/validations/backup";
+import { getCurrentSession } from "@/lib/session";
+import { isEmailVerified } from "@/lib/email-verification";
+import { generateSlug, makeSlugUnique } from "@/lib/slug";
+import { recordWeightSnapshot } from "@/lib/history";
+import { eq } from "drizzle-orm";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = restoreBackupSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Determine user ownership
+    const userId =
+      session.type === "authenticated" ? session.userId : null;
+    const anonymousSessionId =
+      session.type === "anonymous" ? session.anonymousSessionId : null;
+
+    // Only registered users with a confirmed address can have public lists
+    const canShare =
+      session.type === "authenticated" &&
+      (await isEmailVerified(session.userId));
+
+    // Restored lists must not collide with existing slugs for this user/session
+    const existingLists = await db
+      .select({ slug: lists.slug })
+      .from(lists)
+      .where(
+        userId
+          ? eq(lists.userId, userId)
+          : eq(lists.anonymousSessionId, anonymousSessionId!)
+      );
+    const usedSlugs = existingLists.map((l) => l.slug);
+
+    // Recreate everything with fresh IDs; any failure rolls back the whole restore
+    const restoredLists = await db.transaction(async (tx) => {
+      const created: { id: string; name: string; slug: string }[] = [];
+
+      // Item tags link to the owner's tag of the same name (case-insensitive),
+      // creating it the first time a name is missing
+      const ownedTags = await tx
+        .select({ id: tags.id, name: tags.name })
+        .from(tags)
+        .where(
+          userId
+            ? eq(tags.userId, userId)
+            : eq(tags.anonymousSessionId, anonymousSessionId!)
+        );
+      const tagIdsByName = new Map(
+        ownedTags.map((tag) => [tag.name.toLowerCase(), tag.id])
+      );
+      const resolveTagId = async (name: string) => {
+        const existingId = tagIdsByName.get(name.toLowerCase());
+        if (existingId) {
+          return existingId;
+        }
+        const [createdTag] = await tx
+          .insert(tags)
+          .values({ userId, anonymousSessionId, name })
+          .returning({ id: tags.id });
+        tagIdsByName.set(name.toLowerCase(), createdTag.id);
+        return createdTag.id;
+      };
+
+      for (const list of result.data.lists) {
+        const slug = makeSlugUnique(
+          generateSlug(list.slug) || generateSlug(list.name),
+          usedSlugs
+        );
+        usedSlugs.push(slug);
+
+        const [createdList] = await tx
+          .insert(lists)
+          .values({
+            userId,
+            anonymousSessionId,
+            name: list.name,
+            slug,
+            description: list.description ?? null,
+            isPublic: canShare && list.isPublic,
+            hidePrices: list.hidePrices,
+            displayUnit: list.displayUnit ?? null,
+            tripDays: list.tripDays ?? null,
+            resupplyDays: list.resupplyDays,
+            caloriesPerDay: list.caloriesPerDay ?? null,
+            waterCarryAmount: list.waterCarryAmount ?? null,
+            waterCarryUnit: list.waterCarryUnit,
+            baseWeightTarget: list.baseWeightTarget ?? null,
+          })
+          .returning({ id: lists.id, name: lists.name, slug: lists.slug });
+
+        for (const [categoryIndex, category] of list.categories.entries()) {
+          const [createdCategory] = await tx
+            .insert(categories)
+            .values({
+              listId: createdList.id,
+              name: category.name,
+              description: category.description ?? null,
+              position: categoryIndex,
+              baseWeightTarget: category.baseWeightTarget ?? null,
+            })
+            .returning({ id: categories.id });
+
+          if (category.items.length === 0) {
+            continue;
+          }
+
+          const createdItems = await tx
+            .insert(items)
+            .values(
+              category.items.map(({ tags: _tags, ...item }, itemIndex) => ({
+                ...item,
+                categoryId: createdCategory.id,
+                position: itemIndex,
+              }))
+            )
+            .returning({ id: items.id });
+
+          const links: { itemId: string; tagId: string }[] = [];
+          for (const [itemIndex, item] of category.items.entries()) {
+            const tagIds = new Set<string>();
+            for (const name of item.tags) {
+              tagIds.add(await resolveTagId(name));
+            }
+            for (const tagId of tagIds) {
+              links.push({ itemId: createdItems[itemIndex].id, tagId });
+            }
+          }
+
+          if (links.length > 0) {
+            await tx.insert(itemTags).values(links);
+          }
+        }
+
+        created.push(createdList);
+      }
+
+      return created;
+    });
+
+    // Start each restored list's weight history from its contents
+    for (const list of restoredLists) {
+      await recordWeightSnapshot(list.id);
+    }
+
+    return NextResponse.json(
+      {
+        message: "Backup restored successfully",
+        lists: restoredLists,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Restore backup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  resetTwoFactorStore,
+  twoFactorStore,
+} from "@/__tests__/mock-two-factor-db";
+import {
+  RECOVERY_CODE_COUNT,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+} from "@/lib/totp";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock database with in-memory users, recovery codes and challenges
+vi.mock("@/db", async () => ({
+  db: (await import("@/__tests__/mock-two-factor-db")).mockTwoFactorDb,
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+
+let userId: string;
+let pendingSecret: string;
+
+function createRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/account/two-factor/enable", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/account/two-factor/enable", () => {
+  beforeEach(() => {
+    resetTwoFactorStore();
+    userId = crypto.randomUUID();
+    pendingSecret = generateTotpSecret();
+    twoFactorStore.users.push({
+      id: userId,
+      username: "hiker",
+      email: "hiker@example.com",
+      totpSecret: null,
+      totpPendingSecret: pendingSecret,
+      totpLastUsedStep: null,
+    });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 without a code", async () => {
+    const response = await POST(createRequest({ code: "  " }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+    expect(data.details.code).toBeDefined();
+  });
+
+  it("returns 401 for anonymous sessions", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: "anon-1" };
+
+    const response = await POST(createRequest({ code: "123456" }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 400 when setup was not started", async () => {
+    twoFactorStore.users[0].totpPendingSecret = null;
+
+    const response = await POST(createRequest({ code: "123456" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Start two-factor setup first");
+  });
+
+  it("returns 409 when two-factor is already enabled", async () => {
+    twoFactorStore.users[0].totpSecret = generateTotpSecret();
+
+    const response = await POST(
+      createRequest({ code: generateTotp(pendingSecret, getTotpStep()) })
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it("keeps two-factor off for a wrong code", async () => {
+    const response = await POST(createRequest({ code: "000000" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid code");
+    expect(twoFactorStore.users[0].totpSecret).toBeNull();
+    expect(twoFactorStore.recoveryCodes).toHaveLength(0);
+  });
+
+  it("confirms the pending secret and returns recovery codes", async () => {
+    const step = getTotpStep();
+    const response = await POST(
+      createRequest({ code: generateTotp(pendingSecret, step) })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(twoFactorStore.users[0]).toMatchObject({
+      totpSecret: pendingSecret,
+      totpPendingSecret: null,
+      totpLastUsedStep: step,
+    });
+  });
+
+  it("stores only hashes of the recovery codes", async () => {
+    const response = await POST(
+      createRequest({ code: generateTotp(pendingSecret, getTotpStep()) })
+    );
+    const data = await response.json();
+
+    expect(twoFactorStore.recoveryCodes.map((c) => c.codeHash)).toEqual(
+      data.recoveryCodes.map(hashRecoveryCode)
+    );
+    expect(JSON.stringify(twoFactorStore.recoveryCodes)).not.toContain(
+      data.recoveryCodes[0]
+    );
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await POST(createRequest({ code: "123456" }));
+
+    expect(response.status).toBe(500);
+  });
+});
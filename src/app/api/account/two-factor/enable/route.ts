@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { verifyTotp } from "@/lib/totp";
+import { replaceRecoveryCodes } from "@/lib/two-factor";
+import { twoFactorCodeSchema } from "@/lib/validations/auth";
+import { getCurrentSession } from "@/lib/session";
+import { eq } from "drizzle-orm";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = twoFactorCodeSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({
+        id: users.id,
+        totpSecret: users.totpSecret,
+        totpPendingSecret: users.totpPendingSecret,
+      })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.totpSecret) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    if (!user.totpPendingSecret) {
+      return NextResponse.json(
+        { error: "Start two-factor setup first" },
+        { status: 400 }
+      );
+    }
+
+    // A valid code proves the authenticator app saved the secret
+    const step = verifyTotp(user.totpPendingSecret, result.data.code);
+    if (step === null) {
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+
+    await db
+      .update(users)
+      .set({
+        totpSecret: user.totpPendingSecret,
+        totpPendingSecret: null,
+        totpLastUsedStep: step,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+
+    const codes = await replaceRecoveryCodes(user.id);
+
+    return NextResponse.json({
+      message: "Two-factor authentication enabled",
+      recoveryCodes: codes,
+    });
+  } catch (error) {
+    console.error("Enable two-factor error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
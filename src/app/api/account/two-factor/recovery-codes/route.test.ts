@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  resetTwoFactorStore,
+  twoFactorStore,
+} from "@/__tests__/mock-two-factor-db";
+import {
+  RECOVERY_CODE_COUNT,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+} from "@/lib/totp";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock database with in-memory users, recovery codes and challenges
+vi.mock("@/db", async () => ({
+  db: (await import("@/__tests__/mock-two-factor-db")).mockTwoFactorDb,
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+
+const RECOVERY_CODE = "abcd-2345";
+
+let userId: string;
+let secret: string;
+
+function createRequest(body: object) {
+  return new NextRequest(
+    "http://localhost:3000/api/account/two-factor/recovery-codes",
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+    }
+  );
+}
+
+describe("POST /api/account/two-factor/recovery-codes", () => {
+  beforeEach(() => {
+    resetTwoFactorStore();
+    userId = crypto.randomUUID();
+    secret = generateTotpSecret();
+    twoFactorStore.users.push({
+      id: userId,
+      username: "hiker",
+      email: "hiker@example.com",
+      totpSecret: secret,
+      totpPendingSecret: null,
+      totpLastUsedStep: null,
+    });
+    twoFactorStore.recoveryCodes.push({
+      id: crypto.randomUUID(),
+      userId,
+      codeHash: hashRecoveryCode(RECOVERY_CODE),
+      usedAt: null,
+    });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 without a code", async () => {
+    const response = await POST(createRequest({}));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 401 without a session", async () => {
+    currentSession = null;
+
+    const response = await POST(createRequest({ code: "123456" }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 400 when two-factor is not enabled", async () => {
+    twoFactorStore.users[0].totpSecret = null;
+
+    const response = await POST(createRequest({ code: "123456" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Two-factor authentication is not enabled");
+  });
+
+  it("keeps the old codes for a wrong code", async () => {
+    const response = await POST(createRequest({ code: "000000" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid code");
+    expect(twoFactorStore.recoveryCodes).toHaveLength(1);
+  });
+
+  it("replaces the recovery codes", async () => {
+    const response = await POST(
+      createRequest({ code: generateTotp(secret, getTotpStep()) })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(twoFactorStore.recoveryCodes.map((c) => c.codeHash)).toEqual(
+      data.recoveryCodes.map(hashRecoveryCode)
+    );
+    expect(
+      twoFactorStore.recoveryCodes.some(
+        (c) => c.codeHash === hashRecoveryCode(RECOVERY_CODE)
+      )
+    ).toBe(false);
+  });
+
+  it("accepts a recovery code", async () => {
+    const response = await POST(createRequest({ code: RECOVERY_CODE }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await POST(createRequest({ code: "123456" }));
+
+    expect(response.status).toBe(500);
+  });
+});
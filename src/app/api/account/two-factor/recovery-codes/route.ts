@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { replaceRecoveryCodes, verifySecondFactor } from "@/lib/two-factor";
+import { twoFactorCodeSchema } from "@/lib/validations/auth";
+import { getCurrentSession } from "@/lib/session";
+import { eq } from "drizzle-orm";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = twoFactorCodeSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({
+        id: users.id,
+        totpSecret: users.totpSecret,
+        totpLastUsedStep: users.totpLastUsedStep,
+      })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, result.data.code))) {
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+
+    // The old codes stop working as soon as the new ones are issued
+    const codes = await replaceRecoveryCodes(user.id);
+
+    return NextResponse.json({
+      message: "Recovery codes regenerated",
+      recoveryCodes: codes,
+    });
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
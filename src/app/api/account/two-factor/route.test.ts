@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  resetTwoFactorStore,
+  twoFactorStore,
+} from "@/__tests__/mock-two-factor-db";
+import {
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+} from "@/lib/totp";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock database with in-memory users, recovery codes and challenges
+vi.mock("@/db", async () => ({
+  db: (await import("@/__tests__/mock-two-factor-db")).mockTwoFactorDb,
+}));
+
+// Import after mocking
+import { DELETE, GET, POST } from "./route";
+import { db } from "@/db";
+
+const RECOVERY_CODE = "abcd-2345";
+
+let userId: string;
+
+function createDeleteRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/account/two-factor", {
+    method: "DELETE",
+    body: JSON.stringify(body),
+  });
+}
+
+// Turn two-factor on for the signed-in user, with one recovery code
+function enableTwoFactor() {
+  const secret = generateTotpSecret();
+  twoFactorStore.users[0].totpSecret = secret;
+  twoFactorStore.recoveryCodes.push({
+    id: crypto.randomUUID(),
+    userId,
+    codeHash: hashRecoveryCode(RECOVERY_CODE),
+    usedAt: null,
+  });
+  return secret;
+}
+
+describe("/api/account/two-factor", () => {
+  beforeEach(() => {
+    resetTwoFactorStore();
+    userId = crypto.randomUUID();
+    twoFactorStore.users.push({
+      id: userId,
+      username: "hiker",
+      email: "hiker@example.com",
+      totpSecret: null,
+      totpPendingSecret: null,
+      totpLastUsedStep: null,
+    });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("GET", () => {
+    it("returns 401 for anonymous sessions", async () => {
+      currentSession = { type: "anonymous", anonymousSessionId: "anon-1" };
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+    });
+
+    it("reports two-factor as off", async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+    });
+
+    it("counts the unused recovery codes", async () => {
+      enableTwoFactor();
+      twoFactorStore.recoveryCodes.push({
+        id: crypto.randomUUID(),
+        userId,
+        codeHash: hashRecoveryCode("used-code"),
+        usedAt: new Date(),
+      });
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data).toEqual({ enabled: true, recoveryCodesRemaining: 1 });
+    });
+
+    it("returns 500 when the lookup fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.mocked(db.select).mockImplementationOnce(() => {
+        throw new Error("DB error");
+      });
+
+      const response = await GET();
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe("POST", () => {
+    it("returns 401 without a session", async () => {
+      currentSession = null;
+
+      const response = await POST();
+
+      expect(response.status).toBe(401);
+    });
+
+    it("stores a pending secret and returns the otpauth URI", async () => {
+      const response = await POST();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(data.otpauthUri).toContain("otpauth://totp/Ultralight:hiker%40example.com");
+      expect(data.otpauthUri).toContain(`secret=${data.secret}`);
+      expect(twoFactorStore.users[0].totpPendingSecret).toBe(data.secret);
+      expect(twoFactorStore.users[0].totpSecret).toBeNull();
+    });
+
+    it("returns 409 when two-factor is already enabled", async () => {
+      enableTwoFactor();
+
+      const response = await POST();
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("DELETE", () => {
+    it("returns 400 without a code", async () => {
+      const response = await DELETE(createDeleteRequest({}));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details.code).toBeDefined();
+    });
+
+    it("returns 401 for anonymous sessions", async () => {
+      currentSession = { type: "anonymous", anonymousSessionId: "anon-1" };
+
+      const response = await DELETE(createDeleteRequest({ code: "123456" }));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("returns 400 when two-factor is not enabled", async () => {
+      const response = await DELETE(createDeleteRequest({ code: "123456" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Two-factor authentication is not enabled");
+    });
+
+    it("keeps two-factor on for a wrong code", async () => {
+      const secret = enableTwoFactor();
+
+      const response = await DELETE(createDeleteRequest({ code: "000000" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid code");
+      expect(twoFactorStore.users[0].totpSecret).toBe(secret);
+    });
+
+    it("turns two-factor off with an authenticator code", async () => {
+      const secret = enableTwoFactor();
+
+      const response = await DELETE(
+        createDeleteRequest({ code: generateTotp(secret, getTotpStep()) })
+      );
+
+      expect(response.status).toBe(200);
+      expect(twoFactorStore.users[0].totpSecret).toBeNull();
+      expect(twoFactorStore.users[0].totpLastUsedStep).toBeNull();
+      expect(twoFactorStore.recoveryCodes).toHaveLength(0);
+    });
+
+    it("turns two-factor off with a recovery code", async () => {
+      enableTwoFactor();
+
+      const response = await DELETE(
+        createDeleteRequest({ code: RECOVERY_CODE })
+      );
+
+      expect(response.status).toBe(200);
+      expect(twoFactorStore.users[0].totpSecret).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { recoveryCodes, users } from "@/db/schema";
+import { generateTotpSecret, getTotpUri } from "@/lib/totp";
+import { countUnusedRecoveryCodes, verifySecondFactor } from "@/lib/two-factor";
+import { twoFactorCodeSchema } from "@/lib/validations/auth";
+import { getCurrentSession } from "@/lib/session";
+import { eq } from "drizzle-orm";
+
+const twoFactorColumns = {
+  id: users.id,
+  email: users.email,
+  totpSecret: users.totpSecret,
+  totpLastUsedStep: users.totpLastUsedStep,
+};
+
+export async function GET() {
+  try {
+    // Only accounts have a password to protect
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select(twoFactorColumns)
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const enabled = !!user.totpSecret;
+    return NextResponse.json({
+      enabled,
+      recoveryCodesRemaining: enabled
+        ? await countUnusedRecoveryCodes(user.id)
+        : 0,
+    });
+  } catch (error) {
+    console.error("Get two-factor status error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select(twoFactorColumns)
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.totpSecret) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    // The secret only takes effect once a code from it is confirmed
+    const secret = generateTotpSecret();
+    await db
+      .update(users)
+      .set({ totpPendingSecret: secret, updatedAt: new Date() })
+      .where(eq(users.id, user.id));
+
+    return NextResponse.json({
+      secret,
+      otpauthUri: getTotpUri(secret, user.email),
+    });
+  } catch (error) {
+    console.error("Start two-factor setup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = twoFactorCodeSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select(twoFactorColumns)
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    // Turning it off needs the second factor, not just the session
+    if (!(await verifySecondFactor(user, result.data.code))) {
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+
+    await db
+      .update(users)
+      .set({
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpLastUsedStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, user.id));
+
+    return NextResponse.json({
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    console.error("Disable two-factor error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
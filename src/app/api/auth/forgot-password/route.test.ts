@@ -5,6 +5,7 @@ import { NextRequest } from "next/server";
 let mockUsers: Array<{
   id: string;
   email: string;
+  emailVerifiedAt: Date | null;
 }> = [];
 
 let mockPasswordResetTokens: Array<{
@@ -93,6 +94,7 @@ describe("POST /api/auth/forgot-password", () => {
       {
         id: crypto.randomUUID(),
         email: "test@example.com",
+        emailVerifiedAt: new Date(),
       },
     ];
     mockPasswordResetTokens = [];
@@ -203,6 +205,30 @@ describe("POST /api/auth/forgot-password", () => {
 
       expect(emailsSent.length).toBe(0);
     });
+
+    it("does not send email to an unverified address", async () => {
+      mockUsers[0].emailVerifiedAt = null;
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/auth/forgot-password",
+        {
+          method: "POST",
+          body: JSON.stringify({
+            email: "test@example.com",
+          }),
+        }
+      );
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe(
+        "If an account with that email exists, a password reset link has been sent."
+      );
+      expect(emailsSent.length).toBe(0);
+      expect(insertedTokens.length).toBe(0);
+    });
   });
 
   describe("rate limiting", () => {
@@ -26,13 +26,18 @@ export async function POST(request: NextRequest) {
 
     // Find user by email
     const [user] = await db
-      .select({ id: users.id, email: users.email })
+      .select({
+        id: users.id,
+        email: users.email,
+        emailVerifiedAt: users.emailVerifiedAt,
+      })
       .from(users)
       .where(eq(users.email, email))
       .limit(1);
 
-    // Always return success to prevent email enumeration attacks
-    if (!user) {
+    // Always return success to prevent email enumeration attacks. Reset
+    // links only go to addresses the owner has confirmed.
+    if (!user || !user.emailVerifiedAt) {
       return NextResponse.json({
         message:
           "If an account with that email exists, a password reset link has been sent.",
@@ -0,0 +1,451 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import {
+  startMockOidcIssuer,
+  type MockOidcIssuer,
+} from "@/__tests__/mock-oidc-issuer";
+
+let mockUsers: Array<{
+  id: string;
+  username: string;
+  email: string;
+  emailVerifiedAt?: Date | null;
+  totpSecret?: string | null;
+}> = [];
+let mockIdentities: Array<{ userId: string; provider: string; subject: string }> =
+  [];
+
+// Subject of the identity being signed in, for identity lookups
+let currentSubject: string | null = null;
+let currentEmail: string | null = null;
+
+let createdSessions: string[] = [];
+let currentAnonymousSession: { id: string; sessionToken: string } | null = null;
+
+// Query results that can be awaited directly or through limit/returning
+function rows<T>(result: T[]) {
+  return Object.assign(Promise.resolve(result), {
+    limit: vi.fn().mockImplementation(() => Promise.resolve(result)),
+    returning: vi.fn().mockImplementation(() => Promise.resolve(result)),
+  });
+}
+
+// Mock database: route lookups by table
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation((fields: Record<string, unknown>) => ({
+      from: vi.fn().mockImplementation((table: PgTable) => ({
+        where: vi.fn().mockImplementation(() => {
+          if (getTableName(table) === "user_identities") {
+            return rows(
+              mockIdentities.filter((i) => i.subject === currentSubject)
+            );
+          }
+          // The two-factor check looks up the account the identity is linked to
+          if ("totpSecret" in fields) {
+            return rows(
+              mockUsers.filter((u) =>
+                mockIdentities.some(
+                  (i) => i.userId === u.id && i.subject === currentSubject
+                )
+              )
+            );
+          }
+          // Username lookups select only the username
+          return "username" in fields
+            ? rows(mockUsers.map(({ username }) => ({ username })))
+            : rows(mockUsers.filter((u) => u.email === currentEmail));
+        }),
+      })),
+    })),
+    insert: vi.fn().mockImplementation((table: PgTable) => ({
+      values: vi.fn().mockImplementation((data) => {
+        if (getTableName(table) === "users") {
+          const user = { id: crypto.randomUUID(), ...data };
+          mockUsers.push(user);
+          return rows([{ id: user.id }]);
+        }
+        mockIdentities.push(data);
+        return rows([]);
+      }),
+    })),
+  },
+}));
+
+vi.mock("@/lib/session", () => ({
+  getAnonymousSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentAnonymousSession);
+  }),
+  deleteAnonymousSession: vi.fn().mockImplementation(() => {
+    currentAnonymousSession = null;
+    return Promise.resolve();
+  }),
+  createSession: vi.fn().mockImplementation((userId: string) => {
+    createdSessions.push(userId);
+    return Promise.resolve("mock-session-token");
+  }),
+}));
+
+vi.mock("@/lib/anonymous-data", () => ({
+  migrateAnonymousData: vi.fn().mockImplementation(() =>
+    Promise.resolve({ migratedLists: 1, renamedLists: [] })
+  ),
+}));
+
+vi.mock("@/lib/two-factor", () => ({
+  createTwoFactorChallenge: vi.fn().mockImplementation(() =>
+    Promise.resolve("challenge-token")
+  ),
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { GET as startSignIn } from "../route";
+import { db } from "@/db";
+import { migrateAnonymousData } from "@/lib/anonymous-data";
+import { createTwoFactorChallenge } from "@/lib/two-factor";
+
+let issuer: MockOidcIssuer;
+
+/**
+ * Run the sign-in up to the provider's redirect back to us, logging in at the
+ * mock issuer as a user with the given claims
+ */
+async function createCallbackRequest(
+  claims: Record<string, unknown>,
+  tamper: { state?: string; code?: string } = {}
+) {
+  const context = { params: Promise.resolve({ provider: "acme" }) };
+  const start = await startSignIn(
+    new NextRequest("http://localhost:3000/api/auth/oauth/acme"),
+    context
+  );
+  const authorizationUrl = start.headers.get("location")!;
+  const code = issuer.authorize(authorizationUrl, claims);
+  const state = new URL(authorizationUrl).searchParams.get("state")!;
+
+  currentSubject = (claims.sub as string) ?? null;
+  currentEmail = (claims.email as string) ?? null;
+
+  const query = new URLSearchParams({
+    code: tamper.code ?? code,
+    state: tamper.state ?? state,
+  });
+  return {
+    request: new NextRequest(
+      `http://localhost:3000/api/auth/oauth/acme/callback?${query}`,
+      {
+        headers: {
+          cookie: `oauth_state=${start.cookies.get("oauth_state")!.value}`,
+        },
+      }
+    ),
+    context,
+  };
+}
+
+function expectSignInError(response: Response, error: string) {
+  expect(response.status).toBe(307);
+  expect(response.headers.get("location")).toBe(
+    `http://localhost:3000/signin?error=${error}`
+  );
+  expect(createdSessions).toEqual([]);
+}
+
+describe("GET /api/auth/oauth/[provider]/callback", () => {
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("OAUTH_PROVIDERS", "acme");
+    vi.stubEnv("OAUTH_ACME_ISSUER", issuer.issuer);
+    vi.stubEnv("OAUTH_ACME_CLIENT_ID", "ultralight");
+    mockUsers = [];
+    mockIdentities = [];
+    currentSubject = null;
+    currentEmail = null;
+    createdSessions = [];
+    currentAnonymousSession = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns 404 for providers that aren't configured", async () => {
+    const response = await GET(
+      new NextRequest("http://localhost:3000/api/auth/oauth/other/callback"),
+      { params: Promise.resolve({ provider: "other" }) }
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("creates an account for a new identity and signs it in", async () => {
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+      preferred_username: "hiker",
+    });
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("http://localhost:3000/");
+    expect(mockUsers).toEqual([
+      expect.objectContaining({
+        username: "hiker",
+        email: "hiker@example.com",
+        passwordHash: null,
+        emailVerifiedAt: null,
+      }),
+    ]);
+    expect(mockIdentities).toEqual([
+      expect.objectContaining({
+        userId: mockUsers[0].id,
+        provider: "acme",
+        subject: "user-1",
+      }),
+    ]);
+    expect(createdSessions).toEqual([mockUsers[0].id]);
+  });
+
+  it("marks the address verified when the provider has", async () => {
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+      email_verified: true,
+      preferred_username: "hiker",
+    });
+    await GET(request, context);
+
+    expect(mockUsers[0].emailVerifiedAt).toBeInstanceOf(Date);
+  });
+
+  it("clears the flow state cookie", async () => {
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+    });
+    const response = await GET(request, context);
+
+    expect(response.cookies.get("oauth_state")?.value).toBe("");
+  });
+
+  it("picks a free username when the preferred one is taken", async () => {
+    mockUsers.push({
+      id: crypto.randomUUID(),
+      username: "hiker",
+      email: "someone@example.com",
+    });
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+      preferred_username: "hiker",
+    });
+    await GET(request, context);
+
+    expect(mockUsers[1].username).toBe("hiker-1");
+  });
+
+  it("signs returning identities in to their linked account", async () => {
+    const userId = crypto.randomUUID();
+    mockIdentities.push({ userId, provider: "acme", subject: "user-1" });
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "changed@example.com",
+    });
+    await GET(request, context);
+
+    expect(createdSessions).toEqual([userId]);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("links a verified email to the existing account", async () => {
+    const user = {
+      id: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+      emailVerifiedAt: new Date(),
+    };
+    mockUsers.push(user);
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+      email_verified: true,
+    });
+    await GET(request, context);
+
+    expect(mockUsers).toHaveLength(1);
+    expect(mockIdentities).toEqual([
+      expect.objectContaining({ userId: user.id, subject: "user-1" }),
+    ]);
+    expect(createdSessions).toEqual([user.id]);
+  });
+
+  it("asks for a two-factor code instead of signing in", async () => {
+    const user = {
+      id: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+      totpSecret: "JBSWY3DPEHPK3PXP",
+    };
+    mockUsers.push(user);
+    mockIdentities.push({ userId: user.id, provider: "acme", subject: "user-1" });
+    currentAnonymousSession = { id: "anon-1", sessionToken: "anon-token" };
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+    });
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe(
+      "http://localhost:3000/signin?challenge=challenge-token"
+    );
+    expect(createTwoFactorChallenge).toHaveBeenCalledWith(user.id);
+    expect(createdSessions).toEqual([]);
+    expect(migrateAnonymousData).not.toHaveBeenCalled();
+  });
+
+  it("asks for a two-factor code after linking an existing account", async () => {
+    const user = {
+      id: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+      emailVerifiedAt: new Date(),
+      totpSecret: "JBSWY3DPEHPK3PXP",
+    };
+    mockUsers.push(user);
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+      email_verified: true,
+    });
+    const response = await GET(request, context);
+
+    expect(response.headers.get("location")).toBe(
+      "http://localhost:3000/signin?challenge=challenge-token"
+    );
+    expect(createdSessions).toEqual([]);
+  });
+
+  it("refuses to link an unverified email to an existing account", async () => {
+    mockUsers.push({
+      id: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+    });
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+    });
+    const response = await GET(request, context);
+
+    expectSignInError(response, "oauth_email");
+    expect(mockIdentities).toEqual([]);
+  });
+
+  it("refuses to link to an account that never verified its email", async () => {
+    mockUsers.push({
+      id: crypto.randomUUID(),
+      username: "squatter",
+      email: "hiker@example.com",
+      emailVerifiedAt: null,
+    });
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+      email_verified: true,
+    });
+    const response = await GET(request, context);
+
+    expectSignInError(response, "oauth_unverified");
+    expect(mockIdentities).toEqual([]);
+  });
+
+  it("requires an email for new accounts", async () => {
+    const { request, context } = await createCallbackRequest({ sub: "user-1" });
+    const response = await GET(request, context);
+
+    expectSignInError(response, "oauth_email");
+  });
+
+  it("rejects a callback with the wrong state", async () => {
+    const { request, context } = await createCallbackRequest(
+      { sub: "user-1", email: "hiker@example.com" },
+      { state: "forged" }
+    );
+    const response = await GET(request, context);
+
+    expectSignInError(response, "oauth");
+  });
+
+  it("rejects a callback without the flow state cookie", async () => {
+    const response = await GET(
+      new NextRequest(
+        "http://localhost:3000/api/auth/oauth/acme/callback?code=abc&state=xyz"
+      ),
+      { params: Promise.resolve({ provider: "acme" }) }
+    );
+
+    expectSignInError(response, "oauth");
+  });
+
+  it("rejects codes the issuer didn't hand out", async () => {
+    const { request, context } = await createCallbackRequest(
+      { sub: "user-1", email: "hiker@example.com" },
+      { code: "made-up" }
+    );
+    const response = await GET(request, context);
+
+    expectSignInError(response, "oauth");
+  });
+
+  it("moves an anonymous session's lists into the account", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentAnonymousSession = { id: anonymousSessionId, sessionToken: "anon" };
+
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+    });
+    await GET(request, context);
+
+    expect(migrateAnonymousData).toHaveBeenCalledWith(
+      anonymousSessionId,
+      mockUsers[0].id
+    );
+    expect(currentAnonymousSession).toBeNull();
+  });
+
+  it("redirects to sign-in when something fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { request, context } = await createCallbackRequest({
+      sub: "user-1",
+      email: "hiker@example.com",
+    });
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await GET(request, context);
+
+    expectSignInError(response, "oauth");
+  });
+});
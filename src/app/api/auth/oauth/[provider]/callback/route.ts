@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { userIdentities, users } from "@/db/schema";
+import {
+  OAUTH_STATE_COOKIE_NAME,
+  decodeOAuthFlowState,
+  discoverOidcIssuer,
+  exchangeAuthorizationCode,
+  getOAuthProvider,
+  getOAuthUsernameBase,
+  verifyIdToken,
+} from "@/lib/auth";
+import { migrateAnonymousData } from "@/lib/anonymous-data";
+import {
+  getAnonymousSession,
+  deleteAnonymousSession,
+  createSession,
+} from "@/lib/session";
+import { makeSlugUnique } from "@/lib/slug";
+import { createTwoFactorChallenge } from "@/lib/two-factor";
+import { and, eq, like } from "drizzle-orm";
+
+type RouteParams = {
+  params: Promise<{ provider: string }>;
+};
+
+/**
+ * Redirect to a page of the app, clearing the flow state so a retry starts
+ * fresh
+ */
+function redirectClearingFlow(request: NextRequest, path: string) {
+  const response = NextResponse.redirect(new URL(path, request.url));
+  response.cookies.delete({
+    name: OAUTH_STATE_COOKIE_NAME,
+    path: "/api/auth/oauth",
+  });
+  return response;
+}
+
+/**
+ * Send the user back to the sign-in page with a reason it failed
+ */
+function redirectToSignIn(request: NextRequest, error: string) {
+  return redirectClearingFlow(request, `/signin?error=${error}`);
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { provider: providerId } = await params;
+    const { searchParams } = request.nextUrl;
+
+    const provider = getOAuthProvider(providerId);
+    if (!provider) {
+      return NextResponse.json({ error: "Unknown provider" }, { status: 404 });
+    }
+
+    // The callback must answer the sign-in started from this browser
+    const flow = decodeOAuthFlowState(
+      request.cookies.get(OAUTH_STATE_COOKIE_NAME)?.value
+    );
+    const code = searchParams.get("code");
+    if (
+      !flow ||
+      flow.provider !== provider.id ||
+      flow.state !== searchParams.get("state") ||
+      !code
+    ) {
+      return redirectToSignIn(request, "oauth");
+    }
+
+    const metadata = await discoverOidcIssuer(provider.issuer);
+    const idToken =
+      metadata &&
+      (await exchangeAuthorizationCode(provider, metadata, {
+        code,
+        codeVerifier: flow.codeVerifier,
+      }));
+    const claims =
+      metadata &&
+      idToken &&
+      (await verifyIdToken(idToken, {
+        metadata,
+        clientId: provider.clientId,
+        nonce: flow.nonce,
+      }));
+
+    if (!claims) {
+      return redirectToSignIn(request, "oauth");
+    }
+
+    // Returning users are found by their identity at the provider
+    const [identity] = await db
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(
+        and(
+          eq(userIdentities.provider, provider.id),
+          eq(userIdentities.subject, claims.sub)
+        )
+      )
+      .limit(1);
+
+    let userId = identity?.userId;
+
+    if (!userId) {
+      if (!claims.email) {
+        return redirectToSignIn(request, "oauth_email");
+      }
+
+      const [existingUser] = await db
+        .select({ id: users.id, emailVerifiedAt: users.emailVerifiedAt })
+        .from(users)
+        .where(eq(users.email, claims.email))
+        .limit(1);
+
+      if (existingUser) {
+        // Only link to an existing account when the provider vouches for
+        // the email, otherwise anyone could claim someone else's account
+        if (claims.email_verified !== true) {
+          return redirectToSignIn(request, "oauth_email");
+        }
+        // Nor when the account never proved it owns the address: someone
+        // could have signed up with it first to take over the real owner
+        if (!existingUser.emailVerifiedAt) {
+          return redirectToSignIn(request, "oauth_unverified");
+        }
+        userId = existingUser.id;
+      } else {
+        const baseUsername = getOAuthUsernameBase(claims);
+        const takenUsernames = await db
+          .select({ username: users.username })
+          .from(users)
+          .where(like(users.username, `${baseUsername}%`));
+
+        const [newUser] = await db
+          .insert(users)
+          .values({
+            username: makeSlugUnique(
+              baseUsername,
+              takenUsernames.map((user) => user.username)
+            ),
+            email: claims.email,
+            passwordHash: null,
+            // Trust the provider's check of the address
+            emailVerifiedAt: claims.email_verified === true ? new Date() : null,
+          })
+          .returning({ id: users.id });
+        userId = newUser.id;
+      }
+
+      await db.insert(userIdentities).values({
+        userId,
+        provider: provider.id,
+        subject: claims.sub,
+        email: claims.email,
+      });
+    }
+
+    // Accounts with two-factor on still need a code from the sign-in page;
+    // the anonymous data moves over once it's entered
+    const [account] = await db
+      .select({ totpSecret: users.totpSecret })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (account?.totpSecret) {
+      const challengeToken = await createTwoFactorChallenge(userId);
+      return redirectClearingFlow(
+        request,
+        `/signin?challenge=${challengeToken}`
+      );
+    }
+
+    // Move anything built before signing in into the account
+    const anonymousSession = await getAnonymousSession();
+    if (anonymousSession) {
+      await migrateAnonymousData(anonymousSession.id, userId);
+
+      // Delete the anonymous session (also clears the cookie)
+      await deleteAnonymousSession();
+    }
+
+    await createSession(userId);
+
+    return redirectClearingFlow(request, "/");
+  } catch (error) {
+    console.error("OAuth callback error:", error);
+    return redirectToSignIn(request, "oauth");
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  startMockOidcIssuer,
+  type MockOidcIssuer,
+} from "@/__tests__/mock-oidc-issuer";
+import { decodeOAuthFlowState, getCodeChallenge } from "@/lib/auth";
+import { GET } from "./route";
+
+let issuer: MockOidcIssuer;
+
+function createRequest(provider: string) {
+  return {
+    request: new NextRequest(`http://localhost:3000/api/auth/oauth/${provider}`),
+    context: { params: Promise.resolve({ provider }) },
+  };
+}
+
+describe("GET /api/auth/oauth/[provider]", () => {
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("OAUTH_PROVIDERS", "acme");
+    vi.stubEnv("OAUTH_ACME_ISSUER", issuer.issuer);
+    vi.stubEnv("OAUTH_ACME_CLIENT_ID", "ultralight");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns 404 for providers that aren't configured", async () => {
+    const { request, context } = createRequest("other");
+    const response = await GET(request, context);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Unknown provider");
+  });
+
+  it("returns 502 when the issuer can't be discovered", async () => {
+    vi.stubEnv("OAUTH_ACME_ISSUER", `${issuer.issuer}/missing`);
+
+    const { request, context } = createRequest("acme");
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(502);
+  });
+
+  it("redirects to the provider with state, nonce and a PKCE challenge", async () => {
+    const { request, context } = createRequest("acme");
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get("location")!);
+    expect(location.origin + location.pathname).toBe(`${issuer.issuer}/authorize`);
+    expect(location.searchParams.get("client_id")).toBe("ultralight");
+    expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+
+    const flow = decodeOAuthFlowState(
+      response.cookies.get("oauth_state")?.value
+    );
+    expect(flow).toMatchObject({ provider: "acme" });
+    expect(location.searchParams.get("state")).toBe(flow!.state);
+    expect(location.searchParams.get("nonce")).toBe(flow!.nonce);
+    expect(location.searchParams.get("code_challenge")).toBe(
+      getCodeChallenge(flow!.codeVerifier)
+    );
+  });
+
+  it("keeps the flow state in a short-lived http-only cookie", async () => {
+    const { request, context } = createRequest("acme");
+    const response = await GET(request, context);
+    const cookie = response.cookies.get("oauth_state");
+
+    expect(cookie).toMatchObject({
+      httpOnly: true,
+      sameSite: "lax",
+      maxAge: 600,
+      path: "/api/auth/oauth",
+    });
+  });
+
+  it("starts a fresh flow on every sign-in", async () => {
+    const first = createRequest("acme");
+    const second = createRequest("acme");
+    const a = await GET(first.request, first.context);
+    const b = await GET(second.request, second.context);
+
+    expect(a.cookies.get("oauth_state")?.value).not.toBe(
+      b.cookies.get("oauth_state")?.value
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  OAUTH_STATE_COOKIE_NAME,
+  OAUTH_STATE_MAX_AGE,
+  buildAuthorizationUrl,
+  discoverOidcIssuer,
+  encodeOAuthFlowState,
+  generateOAuthSecret,
+  getOAuthProvider,
+} from "@/lib/auth";
+
+type RouteParams = {
+  params: Promise<{ provider: string }>;
+};
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { provider: providerId } = await params;
+
+    const provider = getOAuthProvider(providerId);
+    if (!provider) {
+      return NextResponse.json({ error: "Unknown provider" }, { status: 404 });
+    }
+
+    const metadata = await discoverOidcIssuer(provider.issuer);
+    if (!metadata) {
+      return NextResponse.json(
+        { error: "Identity provider unavailable" },
+        { status: 502 }
+      );
+    }
+
+    const flow = {
+      state: generateOAuthSecret(),
+      nonce: generateOAuthSecret(),
+      codeVerifier: generateOAuthSecret(),
+    };
+
+    // The callback checks the returned state and proves the code with the
+    // verifier, so keep both until the provider sends the user back
+    const response = NextResponse.redirect(
+      buildAuthorizationUrl(provider, metadata, flow)
+    );
+    response.cookies.set(
+      OAUTH_STATE_COOKIE_NAME,
+      encodeOAuthFlowState({ provider: provider.id, ...flow }),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: OAUTH_STATE_MAX_AGE,
+        path: "/api/auth/oauth",
+      }
+    );
+
+    return response;
+  } catch (error) {
+    console.error("OAuth start error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { GET } from "./route";
+
+describe("GET /api/auth/oauth", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns no providers by default", async () => {
+    vi.stubEnv("OAUTH_PROVIDERS", "");
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(data.providers).toEqual([]);
+  });
+
+  it("lists configured providers without their secrets", async () => {
+    vi.stubEnv("OAUTH_PROVIDERS", "acme");
+    vi.stubEnv("OAUTH_ACME_ISSUER", "https://id.acme.test");
+    vi.stubEnv("OAUTH_ACME_CLIENT_ID", "ultralight");
+    vi.stubEnv("OAUTH_ACME_CLIENT_SECRET", "secret");
+    vi.stubEnv("OAUTH_ACME_NAME", "Acme SSO");
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(data.providers).toEqual([{ id: "acme", name: "Acme SSO" }]);
+  });
+});
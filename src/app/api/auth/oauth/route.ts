@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getOAuthProviders } from "@/lib/auth";
+
+export async function GET() {
+  // Only what the sign-in page needs for its buttons
+  const providers = getOAuthProviders().map(({ id, name }) => ({ id, name }));
+
+  return NextResponse.json({ providers });
+}
@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+const user = {
+  id: crypto.randomUUID(),
+  username: "hiker",
+  email: "hiker@example.com",
+  passwordHash: "hash",
+};
+
+// Lists and tags already in the account and in the anonymous session
+let accountListSlugs: string[] = [];
+let anonymousLists: Array<{ id: string; name: string; slug: string }> = [];
+let accountTags: Array<{ id: string; name: string }> = [];
+let anonymousTags: Array<{ id: string; name: string }> = [];
+let tagSelects = 0;
+
+// Track database writes
+let updates: Array<{ table: string; data: Record<string, unknown> }> = [];
+let deletes: string[] = [];
+let createdSessions: string[] = [];
+let deletedAnonymousSession = false;
+
+let currentAnonymousSession: { id: string; sessionToken: string } | null = null;
+let isValidPassword = true;
+
+vi.mock("@/lib/auth", () => ({
+  verifyPassword: vi.fn().mockImplementation(() =>
+    Promise.resolve(isValidPassword)
+  ),
+}));
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getAnonymousSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentAnonymousSession);
+  }),
+  deleteAnonymousSession: vi.fn().mockImplementation(() => {
+    deletedAnonymousSession = true;
+    currentAnonymousSession = null;
+    return Promise.resolve();
+  }),
+  createSession: vi.fn().mockImplementation((userId: string) => {
+    createdSessions.push(userId);
+    return Promise.resolve("mock-session-token");
+  }),
+}));
+
+// Query results that can be awaited directly or through limit/returning
+function rows<T>(result: T[]) {
+  return Object.assign(Promise.resolve(result), {
+    limit: vi.fn().mockImplementation(() => Promise.resolve(result)),
+    returning: vi.fn().mockImplementation(() => Promise.resolve(result)),
+  });
+}
+
+// Mock database: route lookups by table
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation((fields: Record<string, unknown>) => ({
+      from: vi.fn().mockImplementation((table: PgTable) => ({
+        where: vi.fn().mockImplementation(() => {
+          switch (getTableName(table)) {
+            case "users":
+              return rows([user]);
+            case "lists":
+              // The anonymous lookup also needs ids and names for renames
+              return "id" in fields
+                ? rows(anonymousLists)
+                : rows(accountListSlugs.map((slug) => ({ slug })));
+            case "tags":
+              // Account tags are looked up before the anonymous ones
+              return rows(tagSelects++ === 0 ? accountTags : anonymousTags);
+            default:
+              return rows([]);
+          }
+        }),
+      })),
+    })),
+    update: vi.fn().mockImplementation((table: PgTable) => ({
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        where: vi.fn().mockImplementation(() => {
+          updates.push({ table: getTableName(table), data });
+          const isListMigration =
+            getTableName(table) === "lists" && data.userId === user.id;
+          return rows(
+            isListMigration ? anonymousLists.map(({ id }) => ({ id })) : []
+          );
+        }),
+      })),
+    })),
+    delete: vi.fn().mockImplementation((table: PgTable) => ({
+      where: vi.fn().mockImplementation(() => {
+        deletes.push(getTableName(table));
+        return Promise.resolve();
+      }),
+    })),
+    // The migration runs its queries on the transaction, i.e. this same mock
+    transaction: vi.fn().mockImplementation(
+      async (callback: (tx: unknown) => Promise<unknown>) =>
+        callback((await import("@/db")).db)
+    ),
+  },
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+
+function createRequest() {
+  return new NextRequest("http://localhost:3000/api/auth/signin", {
+    method: "POST",
+    body: JSON.stringify({ email: user.email, password: "password123" }),
+  });
+}
+
+function startAnonymousSession() {
+  currentAnonymousSession = {
+    id: crypto.randomUUID(),
+    sessionToken: "anon-token",
+  };
+}
+
+function updatesTo(table: string) {
+  return updates.filter((update) => update.table === table);
+}
+
+describe("Anonymous data migration on sign-in", () => {
+  beforeEach(() => {
+    accountListSlugs = [];
+    anonymousLists = [];
+    accountTags = [];
+    anonymousTags = [];
+    tagSelects = 0;
+    updates = [];
+    deletes = [];
+    createdSessions = [];
+    deletedAnonymousSession = false;
+    currentAnonymousSession = null;
+    isValidPassword = true;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("moves the anonymous session's lists into the account", async () => {
+    startAnonymousSession();
+    anonymousLists = [
+      { id: crypto.randomUUID(), name: "Summer Trip", slug: "summer-trip" },
+      { id: crypto.randomUUID(), name: "Day Hike", slug: "day-hike" },
+    ];
+
+    const response = await POST(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(data.migratedLists).toBe(2);
+    expect(data.renamedLists).toEqual([]);
+    expect(updatesTo("lists")).toHaveLength(1);
+    expect(updatesTo("lists")[0].data).toMatchObject({
+      userId: user.id,
+      anonymousSessionId: null,
+    });
+    expect(updatesTo("gear")[0].data.userId).toBe(user.id);
+    expect(updatesTo("tags")[0].data.userId).toBe(user.id);
+    expect(deletedAnonymousSession).toBe(true);
+    expect(createdSessions).toEqual([user.id]);
+  });
+
+  it("renames lists whose slug the account already uses", async () => {
+    startAnonymousSession();
+    accountListSlugs = ["desert-kit", "desert-kit-1"];
+    anonymousLists = [
+      { id: crypto.randomUUID(), name: "Desert Kit", slug: "desert-kit" },
+      { id: crypto.randomUUID(), name: "Day Hike", slug: "day-hike" },
+    ];
+
+    const response = await POST(createRequest());
+    const data = await response.json();
+
+    expect(data.migratedLists).toBe(2);
+    expect(data.renamedLists).toEqual([
+      { name: "Desert Kit", from: "desert-kit", to: "desert-kit-2" },
+    ]);
+    expect(updatesTo("lists").map((update) => update.data.slug)).toContain(
+      "desert-kit-2"
+    );
+  });
+
+  it("keeps renamed slugs clear of the session's other lists", async () => {
+    startAnonymousSession();
+    accountListSlugs = ["kit"];
+    anonymousLists = [
+      { id: crypto.randomUUID(), name: "Kit", slug: "kit" },
+      { id: crypto.randomUUID(), name: "Kit 1", slug: "kit-1" },
+    ];
+
+    const response = await POST(createRequest());
+    const data = await response.json();
+
+    expect(data.renamedLists).toEqual([
+      { name: "Kit", from: "kit", to: "kit-2" },
+    ]);
+  });
+
+  it("merges tags named like one of the account's tags", async () => {
+    startAnonymousSession();
+    accountTags = [{ id: crypto.randomUUID(), name: "shared" }];
+    anonymousTags = [
+      { id: crypto.randomUUID(), name: "shared" },
+      { id: crypto.randomUUID(), name: "food" },
+    ];
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(200);
+    expect(updatesTo("item_tags")).toEqual([
+      { table: "item_tags", data: { tagId: accountTags[0].id } },
+    ]);
+    expect(deletes).toEqual(["tags"]);
+  });
+
+  it("keeps the anonymous session when the migration fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    startAnonymousSession();
+    vi.mocked(db.transaction).mockRejectedValueOnce(new Error("DB error"));
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(500);
+    expect(deletedAnonymousSession).toBe(false);
+    expect(createdSessions).toHaveLength(0);
+  });
+
+  it("returns an empty summary without an anonymous session", async () => {
+    const response = await POST(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.migratedLists).toBe(0);
+    expect(data.renamedLists).toEqual([]);
+    expect(updates).toHaveLength(0);
+    expect(deletedAnonymousSession).toBe(false);
+  });
+
+  it("does not migrate anything for a wrong password", async () => {
+    startAnonymousSession();
+    anonymousLists = [
+      { id: crypto.randomUUID(), name: "Summer Trip", slug: "summer-trip" },
+    ];
+    isValidPassword = false;
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(401);
+    expect(updates).toHaveLength(0);
+    expect(deletedAnonymousSession).toBe(false);
+  });
+});
@@ -11,7 +11,8 @@ let mockUsers: Array<{
   id: string;
   username: string;
   email: string;
-  passwordHash: string;
+  passwordHash: string | null;
+  totpSecret?: string | null;
 }> = [];
 
 // Mock cookie store
@@ -57,6 +58,7 @@ vi.mock("@/db", () => ({
 
 // Import after mocking
 import { POST } from "./route";
+import { db } from "@/db";
 
 describe("POST /api/auth/signin", () => {
   beforeEach(async () => {
@@ -180,6 +182,24 @@ describe("POST /api/auth/signin", () => {
       expect(data.error).toBe("Invalid email or password");
     });
 
+    it("returns 401 for accounts created through an identity provider", async () => {
+      mockUsers[0].passwordHash = null;
+
+      const request = new NextRequest("http://localhost:3000/api/auth/signin", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "password123",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe("Invalid email or password");
+    });
+
     it("returns 200 and user data for correct credentials", async () => {
       const request = new NextRequest("http://localhost:3000/api/auth/signin", {
         method: "POST",
@@ -202,6 +222,49 @@ describe("POST /api/auth/signin", () => {
     });
   });
 
+  describe("two-factor", () => {
+    it("asks for a code instead of signing in when two-factor is enabled", async () => {
+      mockUsers[0].totpSecret = "JBSWY3DPEHPK3PXP";
+
+      const request = new NextRequest("http://localhost:3000/api/auth/signin", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: TEST_PASSWORD,
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.twoFactorRequired).toBe(true);
+      expect(data.challengeToken).toMatch(/^[0-9a-f]{64}$/);
+      expect(data.user).toBeUndefined();
+      expect(mockCookies.has("session_token")).toBe(false);
+      expect(db.insert).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not start a challenge for a wrong password", async () => {
+      mockUsers[0].totpSecret = "JBSWY3DPEHPK3PXP";
+
+      const request = new NextRequest("http://localhost:3000/api/auth/signin", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "wrongpassword",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.challengeToken).toBeUndefined();
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
   describe("security", () => {
     it("does not reveal whether email exists (same error for wrong email vs wrong password)", async () => {
       // Test with non-existent email
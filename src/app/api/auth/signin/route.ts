@@ -2,7 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { users } from "@/db/schema";
 import { verifyPassword } from "@/lib/auth";
-import { createSession } from "@/lib/session";
+import {
+  getAnonymousSession,
+  deleteAnonymousSession,
+  createSession,
+} from "@/lib/session";
+import {
+  migrateAnonymousData,
+  type AnonymousMigrationSummary,
+} from "@/lib/anonymous-data";
+import { createTwoFactorChallenge } from "@/lib/two-factor";
 import { signInSchema } from "@/lib/validations/auth";
 import { eq } from "drizzle-orm";
 
@@ -29,12 +38,14 @@ export async function POST(request: NextRequest) {
         username: users.username,
         email: users.email,
         passwordHash: users.passwordHash,
+        totpSecret: users.totpSecret,
       })
       .from(users)
       .where(eq(users.email, email))
       .limit(1);
 
-    if (!user) {
+    // Accounts created through an identity provider have no password
+    if (!user || !user.passwordHash) {
       return NextResponse.json(
         { error: "Invalid email or password" },
         { status: 401 }
@@ -50,6 +61,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // With two-factor enabled, the session is only created once a code from
+    // the authenticator app or a recovery code is entered
+    if (user.totpSecret) {
+      const challengeToken = await createTwoFactorChallenge(user.id);
+      return NextResponse.json(
+        { twoFactorRequired: true, challengeToken },
+        { status: 200 }
+      );
+    }
+
+    // Move anything built before signing in into the account
+    const anonymousSession = await getAnonymousSession();
+    let migration: AnonymousMigrationSummary = {
+      migratedLists: 0,
+      renamedLists: [],
+    };
+
+    if (anonymousSession) {
+      migration = await migrateAnonymousData(anonymousSession.id, user.id);
+
+      // Delete the anonymous session (also clears the cookie)
+      await deleteAnonymousSession();
+    }
+
     // Create session
     await createSession(user.id);
 
@@ -61,6 +96,8 @@ export async function POST(request: NextRequest) {
           username: user.username,
           email: user.email,
         },
+        migratedLists: migration.migratedLists,
+        renamedLists: migration.renamedLists,
       },
       { status: 200 }
     );
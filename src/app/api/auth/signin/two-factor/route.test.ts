@@ -0,0 +1,315 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  resetTwoFactorStore,
+  twoFactorStore,
+} from "@/__tests__/mock-two-factor-db";
+import {
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+} from "@/lib/totp";
+
+let createdSessions: string[] = [];
+let currentAnonymousSession: { id: string; sessionToken: string } | null = null;
+let deletedAnonymousSession = false;
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getAnonymousSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentAnonymousSession);
+  }),
+  deleteAnonymousSession: vi.fn().mockImplementation(() => {
+    deletedAnonymousSession = true;
+    currentAnonymousSession = null;
+    return Promise.resolve();
+  }),
+  createSession: vi.fn().mockImplementation((userId: string) => {
+    createdSessions.push(userId);
+    return Promise.resolve("mock-session-token");
+  }),
+}));
+
+vi.mock("@/lib/anonymous-data", () => ({
+  migrateAnonymousData: vi.fn().mockImplementation(() =>
+    Promise.resolve({
+      migratedLists: 2,
+      renamedLists: [{ name: "Kit", from: "kit", to: "kit-2" }],
+    })
+  ),
+}));
+
+// Mock database with in-memory users, recovery codes and challenges
+vi.mock("@/db", async () => ({
+  db: (await import("@/__tests__/mock-two-factor-db")).mockTwoFactorDb,
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+import { migrateAnonymousData } from "@/lib/anonymous-data";
+import { MAX_CHALLENGE_ATTEMPTS } from "@/lib/two-factor";
+
+const CHALLENGE_TOKEN = "challenge-token";
+const RECOVERY_CODE = "abcd-2345";
+
+let secret: string;
+let userId: string;
+
+function createRequest(body: Record<string, unknown>) {
+  return new NextRequest("http://localhost:3000/api/auth/signin/two-factor", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+function currentCode() {
+  return generateTotp(secret, getTotpStep());
+}
+
+describe("POST /api/auth/signin/two-factor", () => {
+  beforeEach(() => {
+    resetTwoFactorStore();
+    secret = generateTotpSecret();
+    userId = crypto.randomUUID();
+
+    twoFactorStore.users.push({
+      id: userId,
+      username: "testuser",
+      email: "test@example.com",
+      totpSecret: secret,
+      totpPendingSecret: null,
+      totpLastUsedStep: null,
+    });
+    twoFactorStore.recoveryCodes.push({
+      id: crypto.randomUUID(),
+      userId,
+      codeHash: hashRecoveryCode(RECOVERY_CODE),
+      usedAt: null,
+    });
+    twoFactorStore.challenges.push({
+      id: crypto.randomUUID(),
+      userId,
+      token: CHALLENGE_TOKEN,
+      attempts: 0,
+      expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+    });
+
+    createdSessions = [];
+    currentAnonymousSession = null;
+    deletedAnonymousSession = false;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("validation", () => {
+    it("returns 400 for a missing code", async () => {
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation failed");
+      expect(data.details.code).toBeDefined();
+    });
+
+    it("returns 400 for a missing challenge token", async () => {
+      const response = await POST(createRequest({ code: "123456" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details.challengeToken).toBeDefined();
+    });
+  });
+
+  describe("challenge", () => {
+    it("returns 401 for an unknown challenge", async () => {
+      const response = await POST(
+        createRequest({ challengeToken: "other-token", code: currentCode() })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe(
+        "Sign-in expired, please enter your password again"
+      );
+      expect(createdSessions).toHaveLength(0);
+    });
+
+    it("returns 401 for an expired challenge", async () => {
+      twoFactorStore.challenges[0].expiresAt = new Date(Date.now() - 1000);
+
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+
+      expect(response.status).toBe(401);
+      expect(createdSessions).toHaveLength(0);
+    });
+  });
+
+  describe("authentication", () => {
+    it("signs in with a valid authenticator code", async () => {
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Signed in successfully");
+      expect(data.user).toEqual({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+      expect(data.user.totpSecret).toBeUndefined();
+      expect(createdSessions).toEqual([userId]);
+    });
+
+    it("uses up the challenge and the authenticator code", async () => {
+      const code = currentCode();
+      await POST(createRequest({ challengeToken: CHALLENGE_TOKEN, code }));
+
+      expect(twoFactorStore.challenges).toHaveLength(0);
+      expect(twoFactorStore.users[0].totpLastUsedStep).toBe(getTotpStep());
+    });
+
+    it("rejects an authenticator code that was already used", async () => {
+      twoFactorStore.users[0].totpLastUsedStep = getTotpStep();
+
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe("Invalid code");
+      expect(createdSessions).toHaveLength(0);
+    });
+
+    it("signs in with a recovery code and marks it used", async () => {
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: "ABCD 2345" })
+      );
+
+      expect(response.status).toBe(200);
+      expect(createdSessions).toEqual([userId]);
+      expect(twoFactorStore.recoveryCodes[0].usedAt).toBeInstanceOf(Date);
+    });
+
+    it("rejects a recovery code that was already used", async () => {
+      twoFactorStore.recoveryCodes[0].usedAt = new Date();
+
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: RECOVERY_CODE })
+      );
+
+      expect(response.status).toBe(401);
+      expect(createdSessions).toHaveLength(0);
+    });
+
+    it("counts wrong codes against the challenge", async () => {
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: "000000" })
+      );
+
+      expect(response.status).toBe(401);
+      expect(twoFactorStore.challenges[0].attempts).toBe(1);
+    });
+
+    it("discards the challenge after too many wrong codes", async () => {
+      twoFactorStore.challenges[0].attempts = MAX_CHALLENGE_ATTEMPTS - 1;
+
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: "000000" })
+      );
+      expect(response.status).toBe(401);
+      expect(twoFactorStore.challenges).toHaveLength(0);
+
+      // Even the right code no longer works without the password
+      const retry = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+      expect(retry.status).toBe(401);
+      expect(createdSessions).toHaveLength(0);
+    });
+
+    it("rejects the right code once the attempts are used up", async () => {
+      twoFactorStore.challenges[0].attempts = MAX_CHALLENGE_ATTEMPTS;
+
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe(
+        "Sign-in expired, please enter your password again"
+      );
+      expect(createdSessions).toHaveLength(0);
+    });
+
+    it("limits parallel guesses to the attempt limit", async () => {
+      const responses = await Promise.all(
+        Array.from({ length: MAX_CHALLENGE_ATTEMPTS + 5 }, () =>
+          POST(createRequest({ challengeToken: CHALLENGE_TOKEN, code: "000000" }))
+        )
+      );
+      const errors = await Promise.all(
+        responses.map(async (response) => (await response.json()).error)
+      );
+
+      expect(errors.filter((error) => error === "Invalid code")).toHaveLength(
+        MAX_CHALLENGE_ATTEMPTS
+      );
+      expect(twoFactorStore.challenges).toHaveLength(0);
+    });
+  });
+
+  describe("anonymous data", () => {
+    it("migrates the anonymous session into the account", async () => {
+      currentAnonymousSession = { id: "anon-1", sessionToken: "anon-token" };
+
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+      const data = await response.json();
+
+      expect(migrateAnonymousData).toHaveBeenCalledWith("anon-1", userId);
+      expect(deletedAnonymousSession).toBe(true);
+      expect(data.migratedLists).toBe(2);
+      expect(data.renamedLists).toEqual([
+        { name: "Kit", from: "kit", to: "kit-2" },
+      ]);
+    });
+
+    it("skips migration without an anonymous session", async () => {
+      const response = await POST(
+        createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+      );
+      const data = await response.json();
+
+      expect(migrateAnonymousData).not.toHaveBeenCalled();
+      expect(data.migratedLists).toBe(0);
+      expect(data.renamedLists).toEqual([]);
+    });
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.update).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await POST(
+      createRequest({ challengeToken: CHALLENGE_TOKEN, code: currentCode() })
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { twoFactorChallenges, users } from "@/db/schema";
+import {
+  MAX_CHALLENGE_ATTEMPTS,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import { migrateAnonymousData, type AnonymousMigrationSummary } from "@/lib/anonymous-data";
+import {
+  getAnonymousSession,
+  deleteAnonymousSession,
+  createSession,
+} from "@/lib/session";
+import { twoFactorSignInSchema } from "@/lib/validations/auth";
+import { and, eq, gt, lt, sql } from "drizzle-orm";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = twoFactorSignInSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { challengeToken, code } = result.data;
+
+    // Use up an attempt of the pending sign-in before checking the code, in
+    // one statement so parallel guesses can't go past the limit
+    const [challenge] = await db
+      .update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(
+        and(
+          eq(twoFactorChallenges.token, challengeToken),
+          gt(twoFactorChallenges.expiresAt, new Date()),
+          lt(twoFactorChallenges.attempts, MAX_CHALLENGE_ATTEMPTS)
+        )
+      )
+      .returning({
+        id: twoFactorChallenges.id,
+        userId: twoFactorChallenges.userId,
+        attempts: twoFactorChallenges.attempts,
+      });
+
+    if (!challenge) {
+      return NextResponse.json(
+        { error: "Sign-in expired, please enter your password again" },
+        { status: 401 }
+      );
+    }
+
+    const [user] = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        email: users.email,
+        totpSecret: users.totpSecret,
+        totpLastUsedStep: users.totpLastUsedStep,
+      })
+      .from(users)
+      .where(eq(users.id, challenge.userId))
+      .limit(1);
+
+    if (!user || !(await verifySecondFactor(user, code))) {
+      // Too many wrong codes send the user back to the password step
+      if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        await db
+          .delete(twoFactorChallenges)
+          .where(eq(twoFactorChallenges.id, challenge.id));
+      }
+
+      return NextResponse.json({ error: "Invalid code" }, { status: 401 });
+    }
+
+    // Each challenge signs in once
+    await db
+      .delete(twoFactorChallenges)
+      .where(eq(twoFactorChallenges.id, challenge.id));
+
+    // Move anything built before signing in into the account
+    const anonymousSession = await getAnonymousSession();
+    let migration: AnonymousMigrationSummary = {
+      migratedLists: 0,
+      renamedLists: [],
+    };
+
+    if (anonymousSession) {
+      migration = await migrateAnonymousData(anonymousSession.id, user.id);
+
+      // Delete the anonymous session (also clears the cookie)
+      await deleteAnonymousSession();
+    }
+
+    // Create session
+    await createSession(user.id);
+
+    return NextResponse.json(
+      {
+        message: "Signed in successfully",
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+        },
+        migratedLists: migration.migratedLists,
+        renamedLists: migration.renamedLists,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Two-factor signin error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -79,17 +79,24 @@ vi.mock("@/lib/session", () => ({
   }),
 }));
 
+// Mock verification email
+vi.mock("@/lib/email-verification", () => ({
+  issueEmailVerification: vi.fn().mockImplementation(() =>
+    Promise.resolve(true)
+  ),
+}));
+
 // Mock database
 vi.mock("@/db", () => ({
   db: {
     select: vi.fn().mockImplementation(() => ({
       from: vi.fn().mockImplementation(() => ({
-        where: vi.fn().mockImplementation(() => ({
-          limit: vi.fn().mockImplementation(() => {
-            // Check for existing user - always return empty for tests
-            return Promise.resolve([]);
-          }),
-        })),
+        // Existing user check and slug/tag lookups - always empty for tests
+        where: vi.fn().mockImplementation(() =>
+          Object.assign(Promise.resolve([]), {
+            limit: vi.fn().mockImplementation(() => Promise.resolve([])),
+          })
+        ),
       })),
     })),
     insert: vi.fn().mockImplementation(() => ({
@@ -144,6 +151,11 @@ vi.mock("@/db", () => ({
         })),
       })),
     })),
+    // The migration runs its queries on the transaction, i.e. this same mock
+    transaction: vi.fn().mockImplementation(
+      async (callback: (tx: unknown) => Promise<unknown>) =>
+        callback((await import("@/db")).db)
+    ),
   },
 }));
 
@@ -59,6 +59,13 @@ vi.mock("next/headers", () => ({
   ),
 }));
 
+// Mock verification email
+vi.mock("@/lib/email-verification", () => ({
+  issueEmailVerification: vi.fn().mockImplementation(() =>
+    Promise.resolve(true)
+  ),
+}));
+
 // Mock database
 vi.mock("@/db", () => ({
   db: {
@@ -106,6 +113,7 @@ vi.mock("@/db", () => ({
 
 // Import after mocking
 import { POST } from "./route";
+import { issueEmailVerification } from "@/lib/email-verification";
 
 describe("POST /api/auth/signup", () => {
   beforeEach(() => {
@@ -279,6 +287,42 @@ describe("POST /api/auth/signup", () => {
       expect(response.status).toBe(201);
       expect(data.migratedLists).toBe(0);
     });
+
+    it("sends a verification email to the new address", async () => {
+      const request = new NextRequest("http://localhost:3000/api/auth/signup", {
+        method: "POST",
+        body: JSON.stringify({
+          username: "newuser",
+          email: "newuser@example.com",
+          password: "password123",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(issueEmailVerification).toHaveBeenCalledWith(
+        data.user.id,
+        "newuser@example.com"
+      );
+    });
+
+    it("still creates the account when the verification email fails", async () => {
+      vi.mocked(issueEmailVerification).mockResolvedValueOnce(false);
+
+      const request = new NextRequest("http://localhost:3000/api/auth/signup", {
+        method: "POST",
+        body: JSON.stringify({
+          username: "newuser",
+          email: "newuser@example.com",
+          password: "password123",
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+    });
   });
 
   describe("edge cases", () => {
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { users, lists } from "@/db/schema";
+import { users } from "@/db/schema";
 import { hashPassword } from "@/lib/auth";
 import { signUpSchema } from "@/lib/validations/auth";
+import { getUnitPreferences } from "@/lib/preferences";
+import { migrateAnonymousData } from "@/lib/anonymous-data";
+import { issueEmailVerification } from "@/lib/email-verification";
 import {
   getAnonymousSession,
   deleteAnonymousSession,
@@ -66,23 +69,31 @@ export async function POST(request: NextRequest) {
         createdAt: users.createdAt,
       });
 
+    // Sharing and password reset wait until the address is confirmed; a
+    // failed send doesn't block signing up since the link can be resent
+    await issueEmailVerification(newUser.id, newUser.email);
+
     // Check for anonymous session and migrate data
     const anonymousSession = await getAnonymousSession();
     let migratedListsCount = 0;
 
     if (anonymousSession) {
-      // Transfer all lists from anonymous session to the new user
-      const migratedLists = await db
-        .update(lists)
-        .set({
-          userId: newUser.id,
-          anonymousSessionId: null,
-          updatedAt: new Date(),
-        })
-        .where(eq(lists.anonymousSessionId, anonymousSession.id))
-        .returning({ id: lists.id });
+      // Move the lists, gear and tags built before signing up
+      const summary = await migrateAnonymousData(
+        anonymousSession.id,
+        newUser.id
+      );
+      migratedListsCount = summary.migratedLists;
 
-      migratedListsCount = migratedLists.length;
+      // Keep the weight units picked before signing up
+      const preferences = await getUnitPreferences({
+        type: "anonymous",
+        anonymousSessionId: anonymousSession.id,
+      });
+      await db
+        .update(users)
+        .set(preferences)
+        .where(eq(users.id, newUser.id));
 
       // Delete the anonymous session (also clears the cookie)
       await deleteAnonymousSession();
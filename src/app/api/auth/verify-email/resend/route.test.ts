@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let mockUser: {
+  id: string;
+  email: string;
+  emailVerifiedAt: Date | null;
+} | null = null;
+
+// Tokens created within the cooldown
+let recentTokens: Array<{ id: string }> = [];
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock verification email
+vi.mock("@/lib/email-verification", () => ({
+  issueEmailVerification: vi.fn().mockImplementation(() =>
+    Promise.resolve(true)
+  ),
+}));
+
+// Mock database: route user and token lookups by table
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation((table: PgTable) => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            if (getTableName(table) === "users") {
+              return Promise.resolve(mockUser ? [mockUser] : []);
+            }
+            return Promise.resolve(recentTokens);
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+import { issueEmailVerification } from "@/lib/email-verification";
+
+describe("POST /api/auth/verify-email/resend", () => {
+  beforeEach(() => {
+    const userId = crypto.randomUUID();
+    mockUser = { id: userId, email: "hiker@example.com", emailVerifiedAt: null };
+    recentTokens = [];
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 401 without a session", async () => {
+    currentSession = null;
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 401 for anonymous sessions", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: "anon-1" };
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 when the user no longer exists", async () => {
+    mockUser = null;
+
+    const response = await POST();
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 400 when the address is already verified", async () => {
+    mockUser!.emailVerifiedAt = new Date();
+
+    const response = await POST();
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Email is already verified");
+    expect(issueEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it("returns 429 when an email was just sent", async () => {
+    recentTokens = [{ id: crypto.randomUUID() }];
+
+    const response = await POST();
+
+    expect(response.status).toBe(429);
+    expect(issueEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it("sends a new verification email", async () => {
+    const response = await POST();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe("Verification email sent");
+    expect(issueEmailVerification).toHaveBeenCalledWith(
+      mockUser!.id,
+      "hiker@example.com"
+    );
+  });
+
+  it("returns 502 when the email can't be sent", async () => {
+    vi.mocked(issueEmailVerification).mockResolvedValueOnce(false);
+
+    const response = await POST();
+
+    expect(response.status).toBe(502);
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await POST();
+
+    expect(response.status).toBe(500);
+  });
+});
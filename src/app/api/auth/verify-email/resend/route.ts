@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { users, emailVerificationTokens } from "@/db/schema";
+import { issueEmailVerification } from "@/lib/email-verification";
+import { getCurrentSession } from "@/lib/session";
+import { eq, and, gt } from "drizzle-orm";
+
+// Minimum time between verification emails
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export async function POST() {
+  try {
+    const session = await getCurrentSession();
+    if (!session || session.type !== "authenticated") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        emailVerifiedAt: users.emailVerifiedAt,
+      })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.emailVerifiedAt) {
+      return NextResponse.json(
+        { error: "Email is already verified" },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit: one email per cooldown period
+    const [recentToken] = await db
+      .select({ id: emailVerificationTokens.id })
+      .from(emailVerificationTokens)
+      .where(
+        and(
+          eq(emailVerificationTokens.userId, user.id),
+          gt(
+            emailVerificationTokens.createdAt,
+            new Date(Date.now() - RESEND_COOLDOWN_SECONDS * 1000)
+          )
+        )
+      )
+      .limit(1);
+
+    if (recentToken) {
+      return NextResponse.json(
+        { error: "Please wait a minute before requesting another email" },
+        { status: 429 }
+      );
+    }
+
+    const sent = await issueEmailVerification(user.id, user.email);
+    if (!sent) {
+      return NextResponse.json(
+        { error: "Failed to send verification email" },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Verification email sent",
+    });
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+// Mock data storage
+let mockVerificationTokens: Array<{
+  id: string;
+  userId: string;
+  token: string;
+  expiresAt: Date;
+}> = [];
+
+// Track database operations
+let updatedUsers: Array<Record<string, unknown>> = [];
+let deletedTokenTables: string[] = [];
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockImplementation(() => {
+        // Find valid token
+        const validToken = mockVerificationTokens.find(
+          (t) => t.expiresAt > new Date()
+        );
+        return Promise.resolve(validToken ? [validToken] : []);
+      }),
+    })),
+    update: vi.fn().mockImplementation(() => ({
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        where: vi.fn().mockImplementation(() => {
+          updatedUsers.push(data);
+          return Promise.resolve();
+        }),
+      })),
+    })),
+    delete: vi.fn().mockImplementation((table: PgTable) => ({
+      where: vi.fn().mockImplementation(() => {
+        deletedTokenTables.push(getTableName(table));
+        mockVerificationTokens = [];
+        return Promise.resolve();
+      }),
+    })),
+  },
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+
+function createRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/auth/verify-email", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/auth/verify-email", () => {
+  beforeEach(() => {
+    mockVerificationTokens = [
+      {
+        id: crypto.randomUUID(),
+        userId: crypto.randomUUID(),
+        token: "valid-token",
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    ];
+    updatedUsers = [];
+    deletedTokenTables = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("validation", () => {
+    it("returns 400 for missing token", async () => {
+      const response = await POST(createRequest({}));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation failed");
+      expect(data.details.token).toBeDefined();
+    });
+
+    it("returns 400 for empty token", async () => {
+      const response = await POST(createRequest({ token: "" }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("token verification", () => {
+    it("returns 400 for an unknown token", async () => {
+      mockVerificationTokens = [];
+
+      const response = await POST(createRequest({ token: "unknown-token" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid or expired verification link");
+      expect(updatedUsers).toHaveLength(0);
+    });
+
+    it("returns 400 for an expired token", async () => {
+      mockVerificationTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+      const response = await POST(createRequest({ token: "valid-token" }));
+
+      expect(response.status).toBe(400);
+      expect(updatedUsers).toHaveLength(0);
+    });
+
+    it("marks the email address as verified", async () => {
+      const response = await POST(createRequest({ token: "valid-token" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Email verified successfully");
+      expect(updatedUsers).toHaveLength(1);
+      expect(updatedUsers[0].emailVerifiedAt).toBeInstanceOf(Date);
+    });
+
+    it("deletes the token so the link only works once", async () => {
+      await POST(createRequest({ token: "valid-token" }));
+
+      expect(deletedTokenTables).toEqual(["email_verification_tokens"]);
+
+      const response = await POST(createRequest({ token: "valid-token" }));
+      expect(response.status).toBe(400);
+    });
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await POST(createRequest({ token: "valid-token" }));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { users, emailVerificationTokens } from "@/db/schema";
+import { verifyEmailSchema } from "@/lib/validations/auth";
+import { eq, and, gt } from "drizzle-orm";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = verifyEmailSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { token } = result.data;
+
+    // Find the token and ensure it's not expired
+    const [verificationToken] = await db
+      .select({
+        id: emailVerificationTokens.id,
+        userId: emailVerificationTokens.userId,
+      })
+      .from(emailVerificationTokens)
+      .where(
+        and(
+          eq(emailVerificationTokens.token, token),
+          gt(emailVerificationTokens.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+
+    if (!verificationToken) {
+      return NextResponse.json(
+        { error: "Invalid or expired verification link" },
+        { status: 400 }
+      );
+    }
+
+    await db
+      .update(users)
+      .set({
+        emailVerifiedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, verificationToken.userId));
+
+    // Delete the used token along with any older ones
+    await db
+      .delete(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.userId, verificationToken.userId));
+
+    return NextResponse.json({
+      message: "Email verified successfully",
+    });
+  } catch (error) {
+    console.error("Verify email error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -20,6 +20,7 @@ let mockCategories: Array<{
   name: string;
   description: string | null;
   position: number;
+  baseWeightTarget?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }> = [];
@@ -77,6 +78,10 @@ vi.mock("@/lib/cache", () => ({
   revalidateListCache: vi.fn(),
 }));
 
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
 // Mock database with query count tracking
 vi.mock("@/db", () => ({
   db: {
@@ -215,6 +220,9 @@ vi.mock("@/db", () => ({
                 description: data.description !== undefined
                   ? (data.description as string | null)
                   : category.description,
+                baseWeightTarget: data.baseWeightTarget !== undefined
+                  ? (data.baseWeightTarget as number | null)
+                  : category.baseWeightTarget,
                 updatedAt: data.updatedAt as Date,
               };
               // Update in mock array
@@ -247,6 +255,7 @@ vi.mock("@/db", () => ({
 
 // Import after mocking
 import { PATCH, DELETE } from "./route";
+import { recordWeightSnapshot } from "@/lib/history";
 
 // Helper to set up test and reset query count
 const createParams = (id: string) => {
@@ -575,6 +584,66 @@ describe("PATCH /api/categories/[id]", () => {
       expect(data.category.description).toBe("All shelter-related items");
     });
 
+    it("updates the category's base weight target", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/categories/${categoryId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ baseWeightTarget: 900 }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(categoryId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.category.baseWeightTarget).toBe(900);
+    });
+
     it("updates category for anonymous user", async () => {
       const anonSessionId = crypto.randomUUID();
       const anonToken = "anon-session-token";
@@ -925,6 +994,7 @@ describe("DELETE /api/categories/[id]", () => {
       expect(response.status).toBe(200);
       expect(data.message).toBe("Category deleted successfully");
       expect(mockCategories.length).toBe(0);
+      expect(recordWeightSnapshot).toHaveBeenCalledWith(listId);
     });
 
     it("deletes category for anonymous user", async () => {
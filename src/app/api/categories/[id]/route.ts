@@ -4,6 +4,7 @@ import { lists, categories } from "@/db/schema";
 import { updateCategorySchema } from "@/lib/validations/category";
 import { getCurrentSession } from "@/lib/session";
 import { revalidateListCache } from "@/lib/cache";
+import { recordWeightSnapshot } from "@/lib/history";
 import { eq } from "drizzle-orm";
 
 const UUID_REGEX =
@@ -37,7 +38,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { name, description } = result.data;
+    const { name, description, baseWeightTarget } = result.data;
 
     // Get current session
     const session = await getCurrentSession();
@@ -84,6 +85,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const updateData: {
       name?: string;
       description?: string | null;
+      baseWeightTarget?: number | null;
       updatedAt: Date;
     } = {
       updatedAt: new Date(),
@@ -97,6 +99,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.description = description;
     }
 
+    if (baseWeightTarget !== undefined) {
+      updateData.baseWeightTarget = baseWeightTarget;
+    }
+
     // Update the category
     const [updatedCategory] = await db
       .update(categories)
@@ -108,6 +114,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         name: categories.name,
         description: categories.description,
         position: categories.position,
+        baseWeightTarget: categories.baseWeightTarget,
         createdAt: categories.createdAt,
         updatedAt: categories.updatedAt,
       });
@@ -186,6 +193,7 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
 
     // Delete the category (items will cascade delete)
     await db.delete(categories).where(eq(categories.id, id));
+    await recordWeightSnapshot(list.id);
 
     return NextResponse.json({
       message: "Category deleted successfully",
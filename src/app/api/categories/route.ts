@@ -20,7 +20,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { listId, name, description } = result.data;
+    const { listId, name, description, baseWeightTarget } = result.data;
 
     // Get current session
     const session = await getCurrentSession();
@@ -65,6 +65,7 @@ export async function POST(request: NextRequest) {
         name,
         description: description ?? null,
         position: nextPosition,
+        baseWeightTarget: baseWeightTarget ?? null,
       })
       .returning({
         id: categories.id,
@@ -72,6 +73,7 @@ export async function POST(request: NextRequest) {
         name: categories.name,
         description: categories.description,
         position: categories.position,
+        baseWeightTarget: categories.baseWeightTarget,
         createdAt: categories.createdAt,
         updatedAt: categories.updatedAt,
       });
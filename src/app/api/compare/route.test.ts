@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let mockLists: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  slug: string;
+  isPublic: boolean;
+  waterCarryAmount?: number | null;
+  waterCarryUnit?: string;
+}> = [];
+
+const now = new Date();
+
+function mockItem(categoryId: string, name: string, weightAmount: number) {
+  return {
+    id: crypto.randomUUID(),
+    categoryId,
+    gearId: null,
+    name,
+    description: null,
+    url: null,
+    weightAmount,
+    weightUnit: "g",
+    label: "none",
+    quantity: 1,
+    price: null,
+    currency: "USD",
+    position: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock list content loader: the first list has a heavier tent
+vi.mock("@/lib/lists", () => ({
+  getListCategoriesWithItems: vi.fn().mockImplementation((listId: string) => {
+    const isFirst = mockLists[0]?.id === listId;
+    return Promise.resolve([
+      {
+        id: `shelter-${listId}`,
+        listId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+        items: [
+          mockItem(`shelter-${listId}`, "Tent", isFirst ? 1200 : 800),
+          ...(isFirst ? [] : [mockItem(`shelter-${listId}`, "Stakes", 60)]),
+        ],
+      },
+    ]);
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => Promise.resolve(mockLists)),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { getListCategoriesWithItems } from "@/lib/lists";
+
+function createRequest(a: string, b: string) {
+  return new NextRequest(`http://localhost:3000/api/compare?a=${a}&b=${b}`);
+}
+
+function addList(overrides: Partial<(typeof mockLists)[number]> = {}) {
+  const list = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId: null,
+    name: "Summer",
+    slug: "summer",
+    isPublic: false,
+    ...overrides,
+  };
+  mockLists.push(list);
+  return list;
+}
+
+describe("GET /api/compare", () => {
+  beforeEach(() => {
+    mockLists = [];
+    currentSession = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid list IDs", async () => {
+    const response = await GET(createRequest("not-a-uuid", crypto.randomUUID()));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid list ID");
+  });
+
+  it("returns 400 when a list ID is missing", async () => {
+    const response = await GET(
+      new NextRequest(`http://localhost:3000/api/compare?a=${crypto.randomUUID()}`)
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 404 when a list does not exist", async () => {
+    const list = addList({ isPublic: true });
+    const response = await GET(createRequest(list.id, crypto.randomUUID()));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 for a private list owned by someone else", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    const publicList = addList({ isPublic: true });
+    const privateList = addList({ userId: crypto.randomUUID(), slug: "winter" });
+
+    const response = await GET(createRequest(publicList.id, privateList.id));
+
+    expect(response.status).toBe(403);
+    expect(getListCategoriesWithItems).not.toHaveBeenCalled();
+  });
+
+  it("compares two public lists without a session", async () => {
+    const summer = addList({ isPublic: true });
+    const shoulder = addList({ isPublic: true, name: "Shoulder", slug: "shoulder" });
+
+    const response = await GET(createRequest(summer.id, shoulder.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.a).toEqual({
+      id: summer.id,
+      name: "Summer",
+      slug: "summer",
+      isPublic: true,
+    });
+    expect(data.b.name).toBe("Shoulder");
+    expect(data.comparison.baseWeightDelta).toBe(-340);
+    expect(data.comparison.categories[0].changedItems).toEqual([
+      { name: "Tent", weightA: 1200, weightB: 800, delta: -400 },
+    ]);
+    expect(data.comparison.categories[0].addedItems).toEqual([
+      { name: "Stakes", quantity: 1, weight: 60 },
+    ]);
+  });
+
+  it("includes each list's water carry in the totals", async () => {
+    const summer = addList({ isPublic: true });
+    const shoulder = addList({
+      isPublic: true,
+      waterCarryAmount: 2,
+      waterCarryUnit: "l",
+    });
+
+    const response = await GET(createRequest(summer.id, shoulder.id));
+    const data = await response.json();
+
+    expect(data.comparison.waterWeightB).toBe(2000);
+    expect(data.comparison.totalWeightA).toBe(1200);
+    expect(data.comparison.totalWeightB).toBe(2860);
+    expect(data.comparison.baseWeightDelta).toBe(-340);
+  });
+
+  it("compares the owner's private lists", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const summer = addList({ anonymousSessionId });
+    const shoulder = addList({ anonymousSessionId, slug: "shoulder" });
+
+    const response = await GET(createRequest(summer.id, shoulder.id));
+
+    expect(response.status).toBe(200);
+    expect(getListCategoriesWithItems).toHaveBeenCalledWith(summer.id);
+    expect(getListCategoriesWithItems).toHaveBeenCalledWith(shoulder.id);
+  });
+
+  it("returns 500 when loading fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const summer = addList({ isPublic: true });
+    const shoulder = addList({ isPublic: true });
+    vi.mocked(getListCategoriesWithItems).mockRejectedValueOnce(
+      new Error("DB error")
+    );
+
+    const response = await GET(createRequest(summer.id, shoulder.id));
+
+    expect(response.status).toBe(500);
+  });
+});
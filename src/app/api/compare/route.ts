@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { lists } from "@/db/schema";
+import { getCurrentSession } from "@/lib/session";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import { compareLists } from "@/lib/compare";
+import { getListTripSettings, getListWaterCarry } from "@/lib/weight";
+import { inArray } from "drizzle-orm";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const idA = searchParams.get("a") ?? "";
+    const idB = searchParams.get("b") ?? "";
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(idA) || !UUID_REGEX.test(idB)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    // Get current session (anonymous visitors may still compare public lists)
+    const session = await getCurrentSession();
+
+    const found = await db
+      .select()
+      .from(lists)
+      .where(inArray(lists.id, [idA, idB]));
+
+    const listA = found.find((l) => l.id === idA);
+    const listB = found.find((l) => l.id === idB);
+
+    if (!listA || !listB) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    // Check access: each list must be public or owned by the user
+    for (const list of [listA, listB]) {
+      const isOwner =
+        session &&
+        ((session.type === "authenticated" && list.userId === session.userId) ||
+          (session.type === "anonymous" &&
+            list.anonymousSessionId === session.anonymousSessionId));
+
+      if (!list.isPublic && !isOwner) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const [categoriesA, categoriesB] = await Promise.all([
+      getListCategoriesWithItems(listA.id),
+      getListCategoriesWithItems(listB.id),
+    ]);
+
+    const toSummary = (list: typeof listA) => ({
+      id: list.id,
+      name: list.name,
+      slug: list.slug,
+      isPublic: list.isPublic,
+    });
+
+    return NextResponse.json({
+      a: toSummary(listA),
+      b: toSummary(listB),
+      comparison: compareLists(
+        categoriesA,
+        categoriesB,
+        { trip: getListTripSettings(listA), water: getListWaterCarry(listA) },
+        { trip: getListTripSettings(listB), water: getListWaterCarry(listB) }
+      ),
+    });
+  } catch (error) {
+    console.error("Compare lists error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// Mock data storage
+let mockGear: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  description: string | null;
+  url: string | null;
+  weightAmount: number;
+  weightUnit: string;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let currentGearId: string | null = null;
+let deletedGearIds: string[] = [];
+let affectedListIds: string[] = [];
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock gear updates and their propagation
+vi.mock("@/lib/gear", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/gear")>();
+  return {
+    ...actual,
+    propagateGearUpdate: vi
+      .fn()
+      .mockImplementation((gearId: string, fields: Record<string, unknown>) => {
+        const found = mockGear.find((g) => g.id === gearId);
+        if (found) Object.assign(found, fields);
+        return Promise.resolve({ gear: found, listIds: affectedListIds });
+      }),
+  };
+});
+
+// Mock cache revalidation
+vi.mock("@/lib/cache", () => ({
+  revalidateListCache: vi.fn(),
+}));
+
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            const found = mockGear.find((g) => g.id === currentGearId);
+            return Promise.resolve(found ? [found] : []);
+          }),
+        })),
+      })),
+    })),
+    delete: vi.fn().mockImplementation(() => ({
+      where: vi.fn().mockImplementation(() => {
+        if (currentGearId) {
+          deletedGearIds.push(currentGearId);
+          mockGear = mockGear.filter((g) => g.id !== currentGearId);
+        }
+        return Promise.resolve();
+      }),
+    })),
+  },
+}));
+
+// Import after mocking
+import { PATCH, DELETE } from "./route";
+import { propagateGearUpdate } from "@/lib/gear";
+import { revalidateListCache } from "@/lib/cache";
+import { recordWeightSnapshot } from "@/lib/history";
+
+function createGear(overrides: Partial<(typeof mockGear)[number]> = {}) {
+  const gearEntry = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId: null,
+    name: "Zpacks Duplex",
+    description: null,
+    url: null,
+    weightAmount: 539,
+    weightUnit: "g",
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+  mockGear.push(gearEntry);
+  currentGearId = gearEntry.id;
+  return gearEntry;
+}
+
+function createParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe("PATCH /api/gear/[id]", () => {
+  beforeEach(() => {
+    mockGear = [];
+    currentSession = null;
+    currentGearId = null;
+    deletedGearIds = [];
+    affectedListIds = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid gear ID", async () => {
+    const request = new NextRequest("http://localhost:3000/api/gear/bad", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "Tent" }),
+    });
+
+    const response = await PATCH(request, createParams("not-a-uuid"));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid gear ID");
+  });
+
+  it("returns 400 for invalid input", async () => {
+    const gearEntry = createGear();
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ weightAmount: -10 }),
+    });
+
+    const response = await PATCH(request, createParams(gearEntry.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.weightAmount).toBeDefined();
+  });
+
+  it("returns 401 without a session", async () => {
+    const gearEntry = createGear();
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "Tent" }),
+    });
+
+    const response = await PATCH(request, createParams(gearEntry.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 when gear does not exist", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "Tent" }),
+    });
+
+    const response = await PATCH(request, createParams(crypto.randomUUID()));
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Gear not found");
+  });
+
+  it("returns 403 when gear belongs to another user", async () => {
+    const gearEntry = createGear({ userId: crypto.randomUUID() });
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "testuser",
+      email: "test@example.com",
+    };
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "Tent" }),
+    });
+
+    const response = await PATCH(request, createParams(gearEntry.id));
+
+    expect(response.status).toBe(403);
+    expect(propagateGearUpdate).not.toHaveBeenCalled();
+  });
+
+  it("updates gear and propagates to linked items", async () => {
+    const userId = crypto.randomUUID();
+    const gearEntry = createGear({ userId });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+    const listA = crypto.randomUUID();
+    const listB = crypto.randomUUID();
+    affectedListIds = [listA, listB];
+
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ weightAmount: 510, name: "Duplex (seam sealed)" }),
+    });
+
+    const response = await PATCH(request, createParams(gearEntry.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear.weightAmount).toBe(510);
+    expect(data.gear.name).toBe("Duplex (seam sealed)");
+    expect(propagateGearUpdate).toHaveBeenCalledWith(gearEntry.id, {
+      name: "Duplex (seam sealed)",
+      weightAmount: 510,
+    });
+    expect(revalidateListCache).toHaveBeenCalledWith(listA);
+    expect(revalidateListCache).toHaveBeenCalledWith(listB);
+    expect(recordWeightSnapshot).toHaveBeenCalledWith(listA);
+    expect(recordWeightSnapshot).toHaveBeenCalledWith(listB);
+  });
+
+  it("updates gear saved from an item measured by volume", async () => {
+    const userId = crypto.randomUUID();
+    const gearEntry = createGear({
+      userId,
+      name: "Water",
+      weightAmount: 1000,
+      weightUnit: "ml",
+    });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ weightAmount: 2, weightUnit: "l" }),
+    });
+
+    const response = await PATCH(request, createParams(gearEntry.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear.weightAmount).toBe(2);
+    expect(data.gear.weightUnit).toBe("l");
+  });
+
+  it("allows anonymous owners to update their gear", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    const gearEntry = createGear({ anonymousSessionId });
+    currentSession = { type: "anonymous", anonymousSessionId };
+
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "PATCH",
+      body: JSON.stringify({ url: "https://example.com/tent" }),
+    });
+
+    const response = await PATCH(request, createParams(gearEntry.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear.url).toBe("https://example.com/tent");
+  });
+});
+
+describe("DELETE /api/gear/[id]", () => {
+  beforeEach(() => {
+    mockGear = [];
+    currentSession = null;
+    currentGearId = null;
+    deletedGearIds = [];
+    affectedListIds = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid gear ID", async () => {
+    const request = new NextRequest("http://localhost:3000/api/gear/bad", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams("bad"));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 401 without a session", async () => {
+    const gearEntry = createGear();
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams(gearEntry.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 403 when gear belongs to another session", async () => {
+    const gearEntry = createGear({ anonymousSessionId: crypto.randomUUID() });
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams(gearEntry.id));
+
+    expect(response.status).toBe(403);
+    expect(deletedGearIds).toHaveLength(0);
+  });
+
+  it("deletes owned gear", async () => {
+    const userId = crypto.randomUUID();
+    const gearEntry = createGear({ userId });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+    const request = new NextRequest("http://localhost:3000/api/gear/x", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams(gearEntry.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe("Gear deleted successfully");
+    expect(deletedGearIds).toEqual([gearEntry.id]);
+  });
+});
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { gear } from "@/db/schema";
+import { updateGearSchema } from "@/lib/validations/gear";
+import { getCurrentSession } from "@/lib/session";
+import { pickGearFields, propagateGearUpdate } from "@/lib/gear";
+import { revalidateListCache } from "@/lib/cache";
+import { recordWeightSnapshot } from "@/lib/history";
+import { eq } from "drizzle-orm";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid gear ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const result = updateGearSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the gear and verify ownership
+    const [existingGear] = await db
+      .select()
+      .from(gear)
+      .where(eq(gear.id, id))
+      .limit(1);
+
+    if (!existingGear) {
+      return NextResponse.json({ error: "Gear not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" &&
+        existingGear.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        existingGear.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const fields = pickGearFields(result.data);
+
+    // Update the gear and mirror the changes onto every list item using it
+    const { gear: updatedGear, listIds: affectedListIds } =
+      await propagateGearUpdate(id, fields);
+    for (const listId of affectedListIds) {
+      revalidateListCache(listId);
+      await recordWeightSnapshot(listId);
+    }
+
+    return NextResponse.json({
+      message: "Gear updated successfully",
+      gear: updatedGear,
+    });
+  } catch (error) {
+    console.error("Update gear error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid gear ID" }, { status: 400 });
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the gear and verify ownership
+    const [existingGear] = await db
+      .select()
+      .from(gear)
+      .where(eq(gear.id, id))
+      .limit(1);
+
+    if (!existingGear) {
+      return NextResponse.json({ error: "Gear not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" &&
+        existingGear.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        existingGear.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Delete the gear (linked items are kept and simply unlinked)
+    await db.delete(gear).where(eq(gear.id, id));
+
+    return NextResponse.json({
+      message: "Gear deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete gear error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
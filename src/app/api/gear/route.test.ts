@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// Mock data storage
+let mockGear: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  description: string | null;
+  url: string | null;
+  weightAmount: number;
+  weightUnit: string;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let createdAnonymousSessionId: string | null = null;
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+  getOrCreateAnonymousSession: vi.fn().mockImplementation(() => {
+    createdAnonymousSessionId = crypto.randomUUID();
+    return Promise.resolve({
+      id: createdAnonymousSessionId,
+      sessionToken: "new-anon-token",
+    });
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          orderBy: vi.fn().mockImplementation(() => {
+            const owned = mockGear.filter((g) =>
+              currentSession?.type === "authenticated"
+                ? g.userId === currentSession.userId
+                : g.anonymousSessionId ===
+                  (currentSession?.type === "anonymous"
+                    ? currentSession.anonymousSessionId
+                    : null)
+            );
+            return Promise.resolve(
+              [...owned].sort((a, b) => a.name.localeCompare(b.name))
+            );
+          }),
+        })),
+      })),
+    })),
+    insert: vi.fn().mockImplementation(() => ({
+      values: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        returning: vi.fn().mockImplementation(() => {
+          const newGear = {
+            id: crypto.randomUUID(),
+            userId: data.userId as string | null,
+            anonymousSessionId: data.anonymousSessionId as string | null,
+            name: data.name as string,
+            description: data.description as string | null,
+            url: data.url as string | null,
+            weightAmount: data.weightAmount as number,
+            weightUnit: data.weightUnit as string,
+            createdAt: now,
+            updatedAt: now,
+          };
+          mockGear.push(newGear);
+          return Promise.resolve([newGear]);
+        }),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET, POST } from "./route";
+
+describe("GET /api/gear", () => {
+  beforeEach(() => {
+    mockGear = [];
+    currentSession = null;
+    createdAnonymousSessionId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns empty array when no session exists", async () => {
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear).toEqual([]);
+  });
+
+  it("returns gear for authenticated user sorted by name", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    for (const name of ["Tent", "Quilt", "Stove"]) {
+      mockGear.push({
+        id: crypto.randomUUID(),
+        userId,
+        anonymousSessionId: null,
+        name,
+        description: null,
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear.map((g: { name: string }) => g.name)).toEqual([
+      "Quilt",
+      "Stove",
+      "Tent",
+    ]);
+  });
+
+  it("returns gear for anonymous session", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+
+    mockGear.push({
+      id: crypto.randomUUID(),
+      userId: null,
+      anonymousSessionId,
+      name: "Headlamp",
+      description: null,
+      url: null,
+      weightAmount: 30,
+      weightUnit: "g",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear).toHaveLength(1);
+    expect(data.gear[0].name).toBe("Headlamp");
+  });
+
+  it("does not return gear from other users", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    mockGear.push({
+      id: crypto.randomUUID(),
+      userId: crypto.randomUUID(),
+      anonymousSessionId: null,
+      name: "Someone else's tent",
+      description: null,
+      url: null,
+      weightAmount: 900,
+      weightUnit: "g",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.gear).toHaveLength(0);
+  });
+});
+
+describe("POST /api/gear", () => {
+  beforeEach(() => {
+    mockGear = [];
+    currentSession = null;
+    createdAnonymousSessionId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for missing name", async () => {
+    const request = new NextRequest("http://localhost:3000/api/gear", {
+      method: "POST",
+      body: JSON.stringify({ weightAmount: 100 }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+    expect(data.details.name).toBeDefined();
+  });
+
+  it("returns 400 for invalid weight unit", async () => {
+    const request = new NextRequest("http://localhost:3000/api/gear", {
+      method: "POST",
+      body: JSON.stringify({ name: "Tent", weightUnit: "stone" }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.weightUnit).toBeDefined();
+  });
+
+  it("creates gear for authenticated user", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    const request = new NextRequest("http://localhost:3000/api/gear", {
+      method: "POST",
+      body: JSON.stringify({
+        name: "Zpacks Duplex",
+        url: "https://zpacks.com/products/duplex-tent",
+        weightAmount: 19,
+        weightUnit: "oz",
+      }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.message).toBe("Gear created successfully");
+    expect(data.gear.name).toBe("Zpacks Duplex");
+    expect(data.gear.weightAmount).toBe(19);
+    expect(data.gear.weightUnit).toBe("oz");
+    expect(mockGear[0].userId).toBe(userId);
+    expect(mockGear[0].anonymousSessionId).toBeNull();
+  });
+
+  it("accepts water measured by volume", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    const request = new NextRequest("http://localhost:3000/api/gear", {
+      method: "POST",
+      body: JSON.stringify({ name: "Water", weightAmount: 1.5, weightUnit: "l" }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.gear.weightUnit).toBe("l");
+  });
+
+  it("applies default weight and unit", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    const request = new NextRequest("http://localhost:3000/api/gear", {
+      method: "POST",
+      body: JSON.stringify({ name: "Spork" }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.gear.weightAmount).toBe(0);
+    expect(data.gear.weightUnit).toBe("g");
+    expect(data.gear.description).toBeNull();
+    expect(data.gear.url).toBeNull();
+  });
+
+  it("creates an anonymous session when none exists", async () => {
+    const request = new NextRequest("http://localhost:3000/api/gear", {
+      method: "POST",
+      body: JSON.stringify({ name: "Tent" }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(201);
+    expect(createdAnonymousSessionId).not.toBeNull();
+    expect(mockGear[0].userId).toBeNull();
+    expect(mockGear[0].anonymousSessionId).toBe(createdAnonymousSessionId);
+  });
+});
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { gear } from "@/db/schema";
+import { createGearSchema } from "@/lib/validations/gear";
+import {
+  getCurrentSession,
+  getOrCreateAnonymousSession,
+} from "@/lib/session";
+import { eq, asc } from "drizzle-orm";
+
+export async function GET() {
+  try {
+    // Get current session - support both authenticated and anonymous users
+    const session = await getCurrentSession();
+
+    // If no session exists, the closet is empty
+    if (!session) {
+      return NextResponse.json({ gear: [] }, { status: 200 });
+    }
+
+    const whereClause =
+      session.type === "authenticated"
+        ? eq(gear.userId, session.userId)
+        : eq(gear.anonymousSessionId, session.anonymousSessionId);
+
+    const closet = await db
+      .select({
+        id: gear.id,
+        name: gear.name,
+        description: gear.description,
+        url: gear.url,
+        weightAmount: gear.weightAmount,
+        weightUnit: gear.weightUnit,
+        createdAt: gear.createdAt,
+        updatedAt: gear.updatedAt,
+      })
+      .from(gear)
+      .where(whereClause)
+      .orderBy(asc(gear.name));
+
+    return NextResponse.json({ gear: closet }, { status: 200 });
+  } catch (error) {
+    console.error("Get gear error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = createGearSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, url, weightAmount, weightUnit } = result.data;
+
+    // Get current session - support both authenticated and anonymous users
+    let session = await getCurrentSession();
+
+    // If no session exists, create an anonymous session for the user
+    if (!session) {
+      const anonymousSession = await getOrCreateAnonymousSession();
+      session = {
+        type: "anonymous",
+        anonymousSessionId: anonymousSession.id,
+      };
+    }
+
+    const [newGear] = await db
+      .insert(gear)
+      .values({
+        userId: session.type === "authenticated" ? session.userId : null,
+        anonymousSessionId:
+          session.type === "anonymous" ? session.anonymousSessionId : null,
+        name,
+        description: description ?? null,
+        url: url ?? null,
+        weightAmount,
+        weightUnit,
+      })
+      .returning({
+        id: gear.id,
+        name: gear.name,
+        description: gear.description,
+        url: gear.url,
+        weightAmount: gear.weightAmount,
+        weightUnit: gear.weightUnit,
+        createdAt: gear.createdAt,
+        updatedAt: gear.updatedAt,
+      });
+
+    return NextResponse.json(
+      {
+        message: "Gear created successfully",
+        gear: newGear,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create gear error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -34,6 +34,9 @@ let mockItems: Array<{
   weightUnit: string;
   label: string;
   quantity: number;
+  servingWeight?: number | null;
+  price?: number | null;
+  currency?: string;
   position: number;
   createdAt: Date;
   updatedAt: Date;
@@ -87,11 +90,37 @@ vi.mock("next/headers", () => ({
   ),
 }));
 
+// Mock item tag helpers
+let mockOwnedTags: Array<{ id: string; name: string }> = [];
+let setItemTagsCalls: Array<{ itemId: string; tagIds: string[] }> = [];
+
+vi.mock("@/lib/tags", () => ({
+  resolveOwnedTags: vi.fn().mockImplementation((tagIds: string[]) => {
+    const found = mockOwnedTags.filter((t) => tagIds.includes(t.id));
+    return Promise.resolve(
+      found.length === new Set(tagIds).size ? found : null
+    );
+  }),
+  setItemTags: vi.fn().mockImplementation((itemId: string, tagIds: string[]) => {
+    setItemTagsCalls.push({ itemId, tagIds });
+    return Promise.resolve();
+  }),
+  getItemTags: vi.fn().mockImplementation((itemIds: string[]) => {
+    return Promise.resolve(
+      new Map(itemIds.map((id) => [id, mockOwnedTags]))
+    );
+  }),
+}));
+
 // Mock cache revalidation
 vi.mock("@/lib/cache", () => ({
   revalidateListCache: vi.fn(),
 }));
 
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
 // Mock database with query count tracking
 vi.mock("@/db", () => ({
   db: {
@@ -277,6 +306,18 @@ vi.mock("@/db", () => ({
                   data.quantity !== undefined
                     ? (data.quantity as number)
                     : item.quantity,
+                servingWeight:
+                  data.servingWeight !== undefined
+                    ? (data.servingWeight as number | null)
+                    : item.servingWeight,
+                price:
+                  data.price !== undefined
+                    ? (data.price as number | null)
+                    : item.price,
+                currency:
+                  data.currency !== undefined
+                    ? (data.currency as string)
+                    : item.currency,
                 updatedAt: data.updatedAt as Date,
               };
               // Update in mock array
@@ -305,6 +346,7 @@ vi.mock("@/db", () => ({
 
 // Import after mocking
 import { PATCH, DELETE } from "./route";
+import { recordWeightSnapshot } from "@/lib/history";
 
 // Helper to set up test and reset query count
 const createParams = (id: string) => {
@@ -324,6 +366,8 @@ describe("PATCH /api/items/[id]", () => {
     mockCookies.clear();
     currentItemId = null;
     queryCallCount = 0;
+    mockOwnedTags = [];
+    setItemTagsCalls = [];
     vi.clearAllMocks();
   });
 
@@ -1002,6 +1046,166 @@ describe("PATCH /api/items/[id]", () => {
       expect(data.item.weightUnit).toBe("g");
     });
 
+    it("converts the serving weight when the unit changes", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Food",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Granola",
+        description: null,
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        label: "consumable",
+        quantity: 1,
+        servingWeight: 100,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/items/${itemId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ weightAmount: 0.5, weightUnit: "kg" }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(itemId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.item.weightUnit).toBe("kg");
+      expect(data.item.servingWeight).toBeCloseTo(0.1);
+    });
+
+    it("keeps a serving weight given with the new unit", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Food",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Granola",
+        description: null,
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        label: "consumable",
+        quantity: 1,
+        servingWeight: 100,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/items/${itemId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({
+            weightAmount: 0.5,
+            weightUnit: "kg",
+            servingWeight: 0.05,
+          }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(itemId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.item.weightUnit).toBe("kg");
+      expect(data.item.servingWeight).toBe(0.05);
+    });
+
     it("updates item label", async () => {
       const userId = crypto.randomUUID();
       const sessionToken = "test-session-token";
@@ -1154,6 +1358,318 @@ describe("PATCH /api/items/[id]", () => {
       expect(data.item.quantity).toBe(8);
     });
 
+    it("updates item price and currency", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Tent Stakes",
+        description: null,
+        url: null,
+        weightAmount: 10,
+        weightUnit: "g",
+        label: "none",
+        quantity: 6,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/items/${itemId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ price: 24.99, currency: "EUR" }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(itemId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.item.price).toBe(24.99);
+      expect(data.item.currency).toBe("EUR");
+      expect(data.item.quantity).toBe(6);
+    });
+
+    it("replaces item tags", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Tent Stakes",
+        description: null,
+        url: null,
+        weightAmount: 10,
+        weightUnit: "g",
+        label: "none",
+        quantity: 6,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      const tagId = crypto.randomUUID();
+      mockOwnedTags = [{ id: tagId, name: "shared" }];
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/items/${itemId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ tagIds: [tagId] }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(itemId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.item.tags).toEqual([{ id: tagId, name: "shared" }]);
+      expect(setItemTagsCalls).toEqual([{ itemId, tagIds: [tagId] }]);
+    });
+
+    it("keeps existing tags when tagIds is omitted", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Tent Stakes",
+        description: null,
+        url: null,
+        weightAmount: 10,
+        weightUnit: "g",
+        label: "none",
+        quantity: 6,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      mockOwnedTags = [{ id: crypto.randomUUID(), name: "rental" }];
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/items/${itemId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ quantity: 2 }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(itemId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.item.tags).toEqual(mockOwnedTags);
+      expect(setItemTagsCalls).toHaveLength(0);
+    });
+
+    it("returns 404 when a tag is not owned by the list owner", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Tent Stakes",
+        description: null,
+        url: null,
+        weightAmount: 10,
+        weightUnit: "g",
+        label: "none",
+        quantity: 6,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/items/${itemId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ tagIds: [crypto.randomUUID()] }),
+        }
+      );
+
+      const response = await PATCH(request, {
+        params: createParams(itemId),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("Tag not found");
+      expect(setItemTagsCalls).toHaveLength(0);
+    });
+
     it("updates item for anonymous user", async () => {
       const anonSessionId = crypto.randomUUID();
       const anonToken = "anon-session-token";
@@ -1505,6 +2021,8 @@ describe("DELETE /api/items/[id]", () => {
     mockCookies.clear();
     currentItemId = null;
     queryCallCount = 0;
+    mockOwnedTags = [];
+    setItemTagsCalls = [];
     vi.clearAllMocks();
   });
 
@@ -1645,6 +2163,7 @@ describe("DELETE /api/items/[id]", () => {
       expect(response.status).toBe(200);
       expect(data.message).toBe("Item deleted successfully");
       expect(mockItems.length).toBe(0);
+      expect(recordWeightSnapshot).toHaveBeenCalledWith(listId);
     });
 
     it("deletes item for anonymous user", async () => {
@@ -3,7 +3,16 @@ import { db } from "@/db";
 import { lists, categories, items } from "@/db/schema";
 import { updateItemSchema } from "@/lib/validations/item";
 import { getCurrentSession } from "@/lib/session";
+import { pickGearFields, propagateGearUpdate } from "@/lib/gear";
 import { revalidateListCache } from "@/lib/cache";
+import { recordWeightSnapshot } from "@/lib/history";
+import { convertServingWeight } from "@/lib/food";
+import {
+  getItemTags,
+  resolveOwnedTags,
+  setItemTags,
+  type TagSummary,
+} from "@/lib/tags";
 import { eq } from "drizzle-orm";
 
 const UUID_REGEX =
@@ -34,8 +43,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { name, description, url, weightAmount, weightUnit, label, quantity } =
-      result.data;
+    const {
+      name,
+      description,
+      url,
+      weightAmount,
+      weightUnit,
+      label,
+      quantity,
+      perDay,
+      calories,
+      protein,
+      fat,
+      carbs,
+      servingWeight,
+      price,
+      currency,
+      tagIds,
+    } = result.data;
 
     // Get current session
     const session = await getCurrentSession();
@@ -89,6 +114,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Tags are owned by the same user or session as the list
+    let itemTagList: TagSummary[] | null = null;
+    if (tagIds !== undefined) {
+      itemTagList = await resolveOwnedTags(tagIds, list);
+      if (!itemTagList) {
+        return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+      }
+    }
+
     // Build update object
     const updateData: {
       name?: string;
@@ -98,6 +132,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       weightUnit?: string;
       label?: string;
       quantity?: number;
+      perDay?: boolean;
+      calories?: number | null;
+      protein?: number | null;
+      fat?: number | null;
+      carbs?: number | null;
+      servingWeight?: number | null;
+      price?: number | null;
+      currency?: string;
       updatedAt: Date;
     } = {
       updatedAt: new Date(),
@@ -131,6 +173,48 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.quantity = quantity;
     }
 
+    if (perDay !== undefined) {
+      updateData.perDay = perDay;
+    }
+
+    if (calories !== undefined) {
+      updateData.calories = calories;
+    }
+
+    if (protein !== undefined) {
+      updateData.protein = protein;
+    }
+
+    if (fat !== undefined) {
+      updateData.fat = fat;
+    }
+
+    if (carbs !== undefined) {
+      updateData.carbs = carbs;
+    }
+
+    if (servingWeight !== undefined) {
+      updateData.servingWeight = servingWeight;
+    } else if (
+      weightUnit !== undefined &&
+      existingItem.servingWeight !== null
+    ) {
+      // The serving weight is stored in the item's unit, so follow a unit change
+      updateData.servingWeight = convertServingWeight(
+        existingItem.servingWeight,
+        existingItem.weightUnit,
+        weightUnit
+      );
+    }
+
+    if (price !== undefined) {
+      updateData.price = price;
+    }
+
+    if (currency !== undefined) {
+      updateData.currency = currency;
+    }
+
     // Update the item
     const [updatedItem] = await db
       .update(items)
@@ -139,6 +223,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       .returning({
         id: items.id,
         categoryId: items.categoryId,
+        gearId: items.gearId,
         name: items.name,
         description: items.description,
         url: items.url,
@@ -146,17 +231,54 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         weightUnit: items.weightUnit,
         label: items.label,
         quantity: items.quantity,
+        perDay: items.perDay,
+        calories: items.calories,
+        protein: items.protein,
+        fat: items.fat,
+        carbs: items.carbs,
+        servingWeight: items.servingWeight,
+        price: items.price,
+        currency: items.currency,
         position: items.position,
+        packedCount: items.packedCount,
         createdAt: items.createdAt,
         updatedAt: items.updatedAt,
       });
 
-    // Invalidate cache for the parent list
+    if (itemTagList) {
+      await setItemTags(
+        id,
+        itemTagList.map((t) => t.id)
+      );
+    } else {
+      itemTagList = (await getItemTags([id])).get(id) ?? [];
+    }
+
+    // Invalidate cache for the parent list and record its new weight
     revalidateListCache(list.id);
+    await recordWeightSnapshot(list.id);
+
+    // Edits to a closet-backed item apply to the gear and every list using it
+    if (existingItem.gearId) {
+      const gearFields = pickGearFields(updateData);
+
+      if (Object.keys(gearFields).length > 0) {
+        const { listIds } = await propagateGearUpdate(
+          existingItem.gearId,
+          gearFields
+        );
+        for (const listId of listIds) {
+          if (listId !== list.id) {
+            revalidateListCache(listId);
+            await recordWeightSnapshot(listId);
+          }
+        }
+      }
+    }
 
     return NextResponse.json({
       message: "Item updated successfully",
-      item: updatedItem,
+      item: { ...updatedItem, tags: itemTagList },
     });
   } catch (error) {
     console.error("Update item error:", error);
@@ -233,6 +355,7 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
 
     // Delete the item
     await db.delete(items).where(eq(items.id, id));
+    await recordWeightSnapshot(list.id);
 
     return NextResponse.json({
       message: "Item deleted successfully",
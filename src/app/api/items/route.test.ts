@@ -87,11 +87,37 @@ vi.mock("next/headers", () => ({
   ),
 }));
 
+// Mock item tag helpers
+let mockOwnedTags: Array<{ id: string; name: string }> = [];
+let setItemTagsCalls: Array<{ itemId: string; tagIds: string[] }> = [];
+
+vi.mock("@/lib/tags", () => ({
+  resolveOwnedTags: vi.fn().mockImplementation((tagIds: string[]) => {
+    const found = mockOwnedTags.filter((t) => tagIds.includes(t.id));
+    return Promise.resolve(
+      found.length === new Set(tagIds).size ? found : null
+    );
+  }),
+  setItemTags: vi.fn().mockImplementation((itemId: string, tagIds: string[]) => {
+    setItemTagsCalls.push({ itemId, tagIds });
+    return Promise.resolve();
+  }),
+  getItemTags: vi.fn().mockImplementation((itemIds: string[]) => {
+    return Promise.resolve(
+      new Map(itemIds.map((id) => [id, mockOwnedTags]))
+    );
+  }),
+}));
+
 // Mock cache revalidation
 vi.mock("@/lib/cache", () => ({
   revalidateListCache: vi.fn(),
 }));
 
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
 // Mock database with query count tracking
 vi.mock("@/db", () => ({
   db: {
@@ -252,6 +278,8 @@ vi.mock("@/db", () => ({
             weightUnit: (data.weightUnit as string) ?? "g",
             label: (data.label as string) ?? "none",
             quantity: (data.quantity as number) ?? 1,
+            price: (data.price as number | null) ?? null,
+            currency: (data.currency as string) ?? "USD",
             position: data.position as number,
             createdAt: now,
             updatedAt: now,
@@ -284,6 +312,8 @@ describe("POST /api/items", () => {
     mockCookies.clear();
     currentCategoryId = null;
     queryCallCount = 0;
+    mockOwnedTags = [];
+    setItemTagsCalls = [];
     vi.clearAllMocks();
   });
 
@@ -1191,6 +1221,196 @@ describe("POST /api/items", () => {
       expect(data.item.quantity).toBe(8);
     });
 
+    it("creates item with price and currency", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      setupTest(categoryId);
+
+      const request = new NextRequest("http://localhost:3000/api/items", {
+        method: "POST",
+        body: JSON.stringify({
+          categoryId,
+          name: "Tent Stakes",
+          quantity: 8,
+          price: 2.5,
+          currency: "CAD",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.item.price).toBe(2.5);
+      expect(data.item.currency).toBe("CAD");
+    });
+
+    it("creates item with tags", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      setupTest(categoryId);
+      const tagId = crypto.randomUUID();
+      mockOwnedTags = [{ id: tagId, name: "electronics" }];
+
+      const request = new NextRequest("http://localhost:3000/api/items", {
+        method: "POST",
+        body: JSON.stringify({
+          categoryId,
+          name: "Headlamp",
+          tagIds: [tagId],
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.item.tags).toEqual([{ id: tagId, name: "electronics" }]);
+      expect(setItemTagsCalls).toEqual([
+        { itemId: data.item.id, tagIds: [tagId] },
+      ]);
+    });
+
+    it("returns 404 when a tag is not owned by the list owner", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Accessories",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      setupTest(categoryId);
+
+      const request = new NextRequest("http://localhost:3000/api/items", {
+        method: "POST",
+        body: JSON.stringify({
+          categoryId,
+          name: "Headlamp",
+          tagIds: [crypto.randomUUID()],
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("Tag not found");
+      expect(mockItems).toHaveLength(0);
+      expect(setItemTagsCalls).toHaveLength(0);
+    });
+
     it("assigns correct position when category already has items", async () => {
       const userId = crypto.randomUUID();
       const sessionToken = "test-session-token";
@@ -1280,6 +1500,67 @@ describe("POST /api/items", () => {
       expect(response.status).toBe(201);
       expect(data.item.position).toBe(2);
     });
+
+    it("returns 404 when the referenced gear does not exist", async () => {
+      const userId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack List",
+        slug: "my-pack-list",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      setupTest(categoryId);
+
+      const request = new NextRequest("http://localhost:3000/api/items", {
+        method: "POST",
+        body: JSON.stringify({
+          categoryId,
+          gearId: crypto.randomUUID(),
+          name: "Tent",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("Gear not found");
+      expect(mockItems).toHaveLength(0);
+    });
   });
 
   describe("authorization", () => {
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { lists, categories, items } from "@/db/schema";
+import { lists, categories, items, gear } from "@/db/schema";
 import { createItemSchema } from "@/lib/validations/item";
 import { getCurrentSession } from "@/lib/session";
 import { revalidateListCache } from "@/lib/cache";
+import { recordWeightSnapshot } from "@/lib/history";
+import { resolveOwnedTags, setItemTags } from "@/lib/tags";
 import { eq, sql } from "drizzle-orm";
 
 export async function POST(request: NextRequest) {
@@ -22,14 +24,21 @@ export async function POST(request: NextRequest) {
 
     const {
       categoryId,
-      name,
-      description,
-      url,
-      weightAmount,
-      weightUnit,
+      gearId,
+      saveToCloset,
       label,
       quantity,
+      perDay,
+      calories,
+      protein,
+      fat,
+      carbs,
+      servingWeight,
+      price,
+      currency,
+      tagIds,
     } = result.data;
+    let { name, description, url, weightAmount, weightUnit } = result.data;
 
     // Get current session
     const session = await getCurrentSession();
@@ -72,6 +81,60 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Tags are owned by the same user or session as the list
+    const itemTagList = await resolveOwnedTags(tagIds, list);
+    if (!itemTagList) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    // Resolve the gear closet entry backing this item, if any
+    let linkedGearId: string | null = null;
+
+    if (gearId) {
+      const [existingGear] = await db
+        .select()
+        .from(gear)
+        .where(eq(gear.id, gearId))
+        .limit(1);
+
+      if (!existingGear) {
+        return NextResponse.json({ error: "Gear not found" }, { status: 404 });
+      }
+
+      const ownsGear =
+        (session.type === "authenticated" &&
+          existingGear.userId === session.userId) ||
+        (session.type === "anonymous" &&
+          existingGear.anonymousSessionId === session.anonymousSessionId);
+
+      if (!ownsGear) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      // The closet entry is the source of truth for shared fields
+      name = existingGear.name;
+      description = existingGear.description;
+      url = existingGear.url;
+      weightAmount = existingGear.weightAmount;
+      weightUnit = existingGear.weightUnit as typeof weightUnit;
+      linkedGearId = existingGear.id;
+    } else if (saveToCloset) {
+      const [newGear] = await db
+        .insert(gear)
+        .values({
+          userId: list.userId,
+          anonymousSessionId: list.anonymousSessionId,
+          name,
+          description: description ?? null,
+          url: url ?? null,
+          weightAmount,
+          weightUnit,
+        })
+        .returning({ id: gear.id });
+
+      linkedGearId = newGear.id;
+    }
+
     // Get the highest position in the category to place new item at the end
     const [maxPositionResult] = await db
       .select({
@@ -87,6 +150,7 @@ export async function POST(request: NextRequest) {
       .insert(items)
       .values({
         categoryId,
+        gearId: linkedGearId,
         name,
         description: description ?? null,
         url: url ?? null,
@@ -94,11 +158,20 @@ export async function POST(request: NextRequest) {
         weightUnit,
         label,
         quantity,
+        perDay,
+        calories: calories ?? null,
+        protein: protein ?? null,
+        fat: fat ?? null,
+        carbs: carbs ?? null,
+        servingWeight: servingWeight ?? null,
+        price: price ?? null,
+        currency,
         position: nextPosition,
       })
       .returning({
         id: items.id,
         categoryId: items.categoryId,
+        gearId: items.gearId,
         name: items.name,
         description: items.description,
         url: items.url,
@@ -106,18 +179,35 @@ export async function POST(request: NextRequest) {
         weightUnit: items.weightUnit,
         label: items.label,
         quantity: items.quantity,
+        perDay: items.perDay,
+        calories: items.calories,
+        protein: items.protein,
+        fat: items.fat,
+        carbs: items.carbs,
+        servingWeight: items.servingWeight,
+        price: items.price,
+        currency: items.currency,
         position: items.position,
+        packedCount: items.packedCount,
         createdAt: items.createdAt,
         updatedAt: items.updatedAt,
       });
 
-    // Invalidate cache for the parent list
+    if (itemTagList.length > 0) {
+      await setItemTags(
+        newItem.id,
+        itemTagList.map((t) => t.id)
+      );
+    }
+
+    // Invalidate cache for the parent list and record its new weight
     revalidateListCache(list.id);
+    await recordWeightSnapshot(list.id);
 
     return NextResponse.json(
       {
         message: "Item created successfully",
-        item: newItem,
+        item: { ...newItem, tags: itemTagList },
       },
       { status: 201 }
     );
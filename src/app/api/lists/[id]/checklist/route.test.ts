@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let mockLists: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+}> = [];
+
+let mockCategories: Array<{ id: string; listId: string }> = [];
+
+let mockItems: Array<{
+  id: string;
+  categoryId: string;
+  quantity: number;
+  packedCount: number;
+}> = [];
+
+let queriedListId: string | null = null;
+let queriedItemId: string | null = null;
+let updatedValues: Array<{ packedCount: number }> = [];
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation((fields?: object) => ({
+      from: vi.fn().mockImplementation(() => ({
+        // Item lookup, scoped to the list's categories
+        innerJoin: vi.fn().mockImplementation(() => ({
+          where: vi.fn().mockImplementation(() => ({
+            limit: vi.fn().mockImplementation(() => {
+              const item = mockItems.find(
+                (i) =>
+                  i.id === queriedItemId &&
+                  mockCategories.some(
+                    (c) => c.id === i.categoryId && c.listId === queriedListId
+                  )
+              );
+              return Promise.resolve(item ? [item] : []);
+            }),
+          })),
+        })),
+        where: vi.fn().mockImplementation(() => {
+          // Category ids of the list
+          if (fields) {
+            return Promise.resolve(
+              mockCategories
+                .filter((c) => c.listId === queriedListId)
+                .map((c) => ({ id: c.id }))
+            );
+          }
+          // List lookup
+          return {
+            limit: vi.fn().mockImplementation(() => {
+              const list = mockLists.find((l) => l.id === queriedListId);
+              return Promise.resolve(list ? [list] : []);
+            }),
+          };
+        }),
+      })),
+    })),
+    update: vi.fn().mockImplementation(() => ({
+      set: vi.fn().mockImplementation((values: { packedCount: number }) => {
+        updatedValues.push(values);
+        return {
+          where: vi.fn().mockImplementation(() =>
+            Object.assign(Promise.resolve(), {
+              returning: vi.fn().mockImplementation(() =>
+                Promise.resolve([
+                  { id: queriedItemId, packedCount: values.packedCount },
+                ])
+              ),
+            })
+          ),
+        };
+      }),
+    })),
+  },
+}));
+
+// Import after mocking
+import { PATCH, DELETE } from "./route";
+import { db } from "@/db";
+
+function createPatchRequest(id: string, body: Record<string, unknown>) {
+  queriedListId = id;
+  queriedItemId = typeof body.itemId === "string" ? body.itemId : null;
+  return [
+    new NextRequest(`http://localhost:3000/api/lists/${id}/checklist`, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    }),
+    { params: Promise.resolve({ id }) },
+  ] as const;
+}
+
+function createDeleteRequest(id: string) {
+  queriedListId = id;
+  return [
+    new NextRequest(`http://localhost:3000/api/lists/${id}/checklist`, {
+      method: "DELETE",
+    }),
+    { params: Promise.resolve({ id }) },
+  ] as const;
+}
+
+function addOwnedList() {
+  const anonymousSessionId = crypto.randomUUID();
+  currentSession = { type: "anonymous", anonymousSessionId };
+  const list = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId,
+    name: "PCT 2024",
+  };
+  mockLists.push(list);
+  const category = { id: crypto.randomUUID(), listId: list.id };
+  mockCategories.push(category);
+  return { list, category };
+}
+
+function addItem(categoryId: string, quantity = 1) {
+  const item = {
+    id: crypto.randomUUID(),
+    categoryId,
+    quantity,
+    packedCount: 0,
+  };
+  mockItems.push(item);
+  return item;
+}
+
+beforeEach(() => {
+  mockLists = [];
+  mockCategories = [];
+  mockItems = [];
+  currentSession = null;
+  queriedListId = null;
+  queriedItemId = null;
+  updatedValues = [];
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("PATCH /api/lists/[id]/checklist", () => {
+  it("returns 400 for invalid list ID", async () => {
+    const response = await PATCH(
+      ...createPatchRequest("not-a-uuid", {
+        itemId: crypto.randomUUID(),
+        packedCount: 1,
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid list ID");
+  });
+
+  it("returns 400 for a negative packed count", async () => {
+    const { list, category } = addOwnedList();
+    const item = addItem(category.id);
+
+    const response = await PATCH(
+      ...createPatchRequest(list.id, { itemId: item.id, packedCount: -1 })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.packedCount).toBeDefined();
+  });
+
+  it("returns 401 without a session", async () => {
+    const { list, category } = addOwnedList();
+    const item = addItem(category.id);
+    currentSession = null;
+
+    const response = await PATCH(
+      ...createPatchRequest(list.id, { itemId: item.id, packedCount: 1 })
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 when list does not exist", async () => {
+    currentSession = {
+      type: "anonymous",
+      anonymousSessionId: crypto.randomUUID(),
+    };
+
+    const response = await PATCH(
+      ...createPatchRequest(crypto.randomUUID(), {
+        itemId: crypto.randomUUID(),
+        packedCount: 1,
+      })
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 for a list owned by someone else", async () => {
+    const { list, category } = addOwnedList();
+    const item = addItem(category.id);
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+
+    const response = await PATCH(
+      ...createPatchRequest(list.id, { itemId: item.id, packedCount: 1 })
+    );
+
+    expect(response.status).toBe(403);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an item on another list", async () => {
+    const { list } = addOwnedList();
+    const item = addItem(crypto.randomUUID());
+
+    const response = await PATCH(
+      ...createPatchRequest(list.id, { itemId: item.id, packedCount: 1 })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Item not found");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("stores the packed count", async () => {
+    const { list, category } = addOwnedList();
+    const item = addItem(category.id, 4);
+
+    const response = await PATCH(
+      ...createPatchRequest(list.id, { itemId: item.id, packedCount: 2 })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(updatedValues).toEqual([{ packedCount: 2 }]);
+    expect(data.item).toEqual({ id: item.id, packedCount: 2 });
+  });
+
+  it("caps the packed count at the item quantity", async () => {
+    const { list, category } = addOwnedList();
+    const item = addItem(category.id, 2);
+
+    const response = await PATCH(
+      ...createPatchRequest(list.id, { itemId: item.id, packedCount: 5 })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.item.packedCount).toBe(2);
+  });
+});
+
+describe("DELETE /api/lists/[id]/checklist", () => {
+  it("returns 400 for invalid list ID", async () => {
+    const response = await DELETE(...createDeleteRequest("not-a-uuid"));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 401 without a session", async () => {
+    const { list } = addOwnedList();
+    currentSession = null;
+
+    const response = await DELETE(...createDeleteRequest(list.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 403 for a list owned by someone else", async () => {
+    const { list } = addOwnedList();
+    currentSession = {
+      type: "anonymous",
+      anonymousSessionId: crypto.randomUUID(),
+    };
+
+    const response = await DELETE(...createDeleteRequest(list.id));
+
+    expect(response.status).toBe(403);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("unpacks every item on the list", async () => {
+    const { list, category } = addOwnedList();
+    addItem(category.id, 3);
+
+    const response = await DELETE(...createDeleteRequest(list.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe("Checklist reset successfully");
+    expect(updatedValues).toEqual([{ packedCount: 0 }]);
+  });
+
+  it("skips the update for a list without categories", async () => {
+    const { list } = addOwnedList();
+    mockCategories = [];
+
+    const response = await DELETE(...createDeleteRequest(list.id));
+
+    expect(response.status).toBe(200);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+});
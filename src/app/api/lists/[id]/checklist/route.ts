@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { categories, items, lists } from "@/db/schema";
+import { getCurrentSession } from "@/lib/session";
+import { packItemSchema } from "@/lib/validations/item";
+import { and, eq, inArray } from "drizzle-orm";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Mark units of an item packed. Packing state is private to the owner, so
+ * it neither bumps the list's updatedAt nor refreshes the public page.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const result = packItemSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { itemId, packedCount } = result.data;
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the list and verify ownership
+    const [list] = await db
+      .select()
+      .from(lists)
+      .where(eq(lists.id, id))
+      .limit(1);
+
+    if (!list) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" && list.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        list.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // The item must belong to one of this list's categories
+    const [item] = await db
+      .select({ id: items.id, quantity: items.quantity })
+      .from(items)
+      .innerJoin(categories, eq(items.categoryId, categories.id))
+      .where(and(eq(items.id, itemId), eq(categories.listId, list.id)))
+      .limit(1);
+
+    if (!item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    const [updatedItem] = await db
+      .update(items)
+      .set({ packedCount: Math.min(packedCount, item.quantity) })
+      .where(eq(items.id, item.id))
+      .returning({ id: items.id, packedCount: items.packedCount });
+
+    return NextResponse.json({ item: updatedItem });
+  } catch (error) {
+    console.error("Pack item error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reset the checklist, unpacking every item on the list
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the list and verify ownership
+    const [list] = await db
+      .select()
+      .from(lists)
+      .where(eq(lists.id, id))
+      .limit(1);
+
+    if (!list) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" && list.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        list.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const listCategories = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.listId, list.id));
+
+    if (listCategories.length > 0) {
+      await db
+        .update(items)
+        .set({ packedCount: 0 })
+        .where(
+          inArray(
+            items.categoryId,
+            listCategories.map((c) => c.id)
+          )
+        );
+    }
+
+    return NextResponse.json({ message: "Checklist reset successfully" });
+  } catch (error) {
+    console.error("Reset checklist error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let sourceList: Record<string, unknown> | null = null;
+let existingSlugs: string[] = [];
+let mockItemTags = new Map<string, { id: string; name: string }[]>();
+let insertedLists: Array<Record<string, unknown>> = [];
+let insertedCategories: Array<Record<string, unknown>> = [];
+let insertedItems: Array<Record<string, unknown>> = [];
+let insertedItemTags: Array<Record<string, unknown>> = [];
+
+const now = new Date();
+const gearId = crypto.randomUUID();
+const newAnonymousSessionId = crypto.randomUUID();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+  getOrCreateAnonymousSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve({ id: newAnonymousSessionId });
+  }),
+}));
+
+// Mock list content loader
+vi.mock("@/lib/lists", () => ({
+  getListCategoriesWithItems: vi.fn().mockImplementation(() => {
+    const item = (id: string, name: string, position: number) => ({
+      id,
+      categoryId: "cat-1",
+      gearId,
+      name,
+      description: null,
+      url: null,
+      weightAmount: 500,
+      weightUnit: "g",
+      label: "none",
+      quantity: 1,
+      price: 350,
+      currency: "USD",
+      position,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return Promise.resolve([
+      {
+        id: "cat-1",
+        listId: sourceList?.id,
+        name: "Shelter",
+        description: "Sleep system",
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+        items: [item("item-1", "Tent", 0), item("item-2", "Stakes", 1)],
+      },
+      {
+        id: "cat-2",
+        listId: sourceList?.id,
+        name: "Kitchen",
+        description: null,
+        position: 1,
+        createdAt: now,
+        updatedAt: now,
+        items: [],
+      },
+    ]);
+  }),
+}));
+
+// Mock tag lookup
+vi.mock("@/lib/tags", () => ({
+  getItemTags: vi.fn().mockImplementation(() => Promise.resolve(mockItemTags)),
+}));
+
+// Mock weight history
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
+// Insert handler used inside the transaction
+const mockInsert = vi.fn().mockImplementation(() => ({
+  values: vi.fn().mockImplementation(
+    (data: Record<string, unknown> | Array<Record<string, unknown>>) => {
+      if (Array.isArray(data) && "tagId" in data[0]) {
+        insertedItemTags.push(...data);
+        return Promise.resolve();
+      }
+
+      return {
+        returning: vi.fn().mockImplementation(() => {
+          if (Array.isArray(data)) {
+            const rows = data.map((row) => ({ id: crypto.randomUUID(), ...row }));
+            insertedItems.push(...rows);
+            return Promise.resolve(rows.map((row) => ({ id: row.id })));
+          }
+
+          const row = { id: crypto.randomUUID(), ...data };
+          if ("slug" in data) {
+            insertedLists.push(row);
+            return Promise.resolve([row]);
+          }
+          insertedCategories.push(row);
+          return Promise.resolve([{ id: row.id }]);
+        }),
+      };
+    }
+  ),
+}));
+
+// Mock database: the source lookup ends in limit(), the slug lookup in where()
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() =>
+          Object.assign(
+            Promise.resolve(existingSlugs.map((slug) => ({ slug }))),
+            {
+              limit: vi.fn().mockImplementation(() =>
+                Promise.resolve(sourceList ? [sourceList] : [])
+              ),
+            }
+          )
+        ),
+      })),
+    })),
+    transaction: vi.fn().mockImplementation(
+      async (callback: (tx: unknown) => Promise<unknown>) => {
+        return callback({ insert: (...args: unknown[]) => mockInsert(...args) });
+      }
+    ),
+  },
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { recordWeightSnapshot } from "@/lib/history";
+import { getItemTags } from "@/lib/tags";
+
+function createRequest(id: string) {
+  return [
+    new NextRequest(`http://localhost:3000/api/lists/${id}/duplicate`, {
+      method: "POST",
+    }),
+    { params: Promise.resolve({ id }) },
+  ] as const;
+}
+
+function setSource(overrides: Record<string, unknown> = {}) {
+  sourceList = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId: null,
+    name: "PCT 2024",
+    slug: "pct-2024",
+    description: "Thru-hike kit",
+    isPublic: false,
+    hidePrices: false,
+    forkedFromListId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+  return sourceList;
+}
+
+const authenticatedSession = (userId = crypto.randomUUID()) => ({
+  type: "authenticated" as const,
+  userId,
+  username: "hiker",
+  email: "hiker@example.com",
+});
+
+describe("POST /api/lists/[id]/duplicate", () => {
+  beforeEach(() => {
+    currentSession = null;
+    sourceList = null;
+    existingSlugs = [];
+    mockItemTags = new Map();
+    insertedLists = [];
+    insertedCategories = [];
+    insertedItems = [];
+    insertedItemTags = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid list ID", async () => {
+    const response = await POST(...createRequest("not-a-uuid"));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid list ID");
+  });
+
+  it("returns 404 when list does not exist", async () => {
+    currentSession = authenticatedSession();
+    const response = await POST(...createRequest(crypto.randomUUID()));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 for a private list owned by someone else", async () => {
+    currentSession = authenticatedSession();
+    const source = setSource({ userId: crypto.randomUUID() });
+
+    const response = await POST(...createRequest(source.id as string));
+
+    expect(response.status).toBe(403);
+    expect(insertedLists).toHaveLength(0);
+  });
+
+  it("duplicates an owned list with positions, gear and tags", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = authenticatedSession(userId);
+    const source = setSource({ userId, displayUnit: "oz" });
+    existingSlugs = ["pct-2024", "pct-2024-copy"];
+    mockItemTags = new Map([["item-1", [{ id: "tag-1", name: "Summer" }]]]);
+
+    const response = await POST(...createRequest(source.id as string));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.list.name).toBe("PCT 2024 (copy)");
+    expect(data.list.slug).toBe("pct-2024-copy-1");
+    expect(insertedLists[0]).toMatchObject({
+      userId,
+      anonymousSessionId: null,
+      isPublic: false,
+      displayUnit: "oz",
+      forkedFromListId: null,
+    });
+    expect(insertedCategories.map((c) => [c.name, c.position])).toEqual([
+      ["Shelter", 0],
+      ["Kitchen", 1],
+    ]);
+    expect(insertedItems.map((i) => [i.name, i.position])).toEqual([
+      ["Tent", 0],
+      ["Stakes", 1],
+    ]);
+    expect(insertedItems[0].gearId).toBe(gearId);
+    expect(insertedItems[0].price).toBe(350);
+    expect(insertedItemTags).toEqual([
+      { itemId: insertedItems[0].id, tagId: "tag-1" },
+    ]);
+    expect(recordWeightSnapshot).toHaveBeenCalledWith(data.list.id);
+  });
+
+  it("forks a public list into the current session and tracks its source", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const source = setSource({ userId: crypto.randomUUID(), isPublic: true });
+
+    const response = await POST(...createRequest(source.id as string));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.list.name).toBe("PCT 2024");
+    expect(data.list.slug).toBe("pct-2024");
+    expect(insertedLists[0]).toMatchObject({
+      userId: null,
+      anonymousSessionId,
+      forkedFromListId: source.id,
+    });
+    expect(insertedItems).toHaveLength(2);
+    expect(insertedItems.every((i) => i.gearId === null)).toBe(true);
+    expect(getItemTags).not.toHaveBeenCalled();
+    expect(insertedItemTags).toHaveLength(0);
+  });
+
+  it("creates an anonymous session for visitors forking a public list", async () => {
+    const source = setSource({ userId: crypto.randomUUID(), isPublic: true });
+
+    const response = await POST(...createRequest(source.id as string));
+
+    expect(response.status).toBe(201);
+    expect(insertedLists[0].anonymousSessionId).toBe(newAnonymousSessionId);
+  });
+
+  it("drops prices when forking a list that hides them", async () => {
+    currentSession = authenticatedSession();
+    const source = setSource({
+      userId: crypto.randomUUID(),
+      isPublic: true,
+      hidePrices: true,
+    });
+
+    const response = await POST(...createRequest(source.id as string));
+
+    expect(response.status).toBe(201);
+    expect(insertedItems.every((i) => i.price === null)).toBe(true);
+  });
+
+  it("returns 500 when the copy fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const userId = crypto.randomUUID();
+    currentSession = authenticatedSession(userId);
+    const source = setSource({ userId });
+    mockInsert.mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await POST(...createRequest(source.id as string));
+
+    expect(response.status).toBe(500);
+    expect(recordWeightSnapshot).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { lists, categories, items, itemTags } from "@/db/schema";
+import {
+  getCurrentSession,
+  getOrCreateAnonymousSession,
+} from "@/lib/session";
+import { generateSlug, makeSlugUnique } from "@/lib/slug";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import { getItemTags } from "@/lib/tags";
+import { recordWeightSnapshot } from "@/lib/history";
+import { eq } from "drizzle-orm";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    // Fetch the source list
+    const [source] = await db
+      .select()
+      .from(lists)
+      .where(eq(lists.id, id))
+      .limit(1);
+
+    if (!source) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    // Get current session - visitors forking a public list get an anonymous one
+    let session = await getCurrentSession();
+
+    const isOwner =
+      session &&
+      ((session.type === "authenticated" && source.userId === session.userId) ||
+        (session.type === "anonymous" &&
+          source.anonymousSessionId === session.anonymousSessionId));
+
+    // Owners can duplicate any of their lists; anyone can fork a public list
+    if (!source.isPublic && !isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!session) {
+      const anonymousSession = await getOrCreateAnonymousSession();
+      session = {
+        type: "anonymous",
+        anonymousSessionId: anonymousSession.id,
+      };
+    }
+
+    // Determine ownership of the copy
+    const userId =
+      session.type === "authenticated" ? session.userId : null;
+    const anonymousSessionId =
+      session.type === "anonymous" ? session.anonymousSessionId : null;
+
+    // Get existing slugs for this user/session to ensure uniqueness
+    const existingLists = await db
+      .select({ slug: lists.slug })
+      .from(lists)
+      .where(
+        userId
+          ? eq(lists.userId, userId)
+          : eq(lists.anonymousSessionId, anonymousSessionId!)
+      );
+    const existingSlugs = existingLists.map((l) => l.slug);
+
+    const name = isOwner ? `${source.name} (copy)` : source.name;
+    const slug = makeSlugUnique(generateSlug(name), existingSlugs);
+
+    const sourceCategories = await getListCategoriesWithItems(source.id);
+
+    // Tags and closet gear belong to the source owner, so only own copies keep them
+    const tagsByItem = isOwner
+      ? await getItemTags(
+          sourceCategories.flatMap((c) => c.items.map((i) => i.id))
+        )
+      : new Map<string, { id: string }[]>();
+
+    // Copy everything in one transaction so a failure leaves no partial list
+    const newList = await db.transaction(async (tx) => {
+      const [createdList] = await tx
+        .insert(lists)
+        .values({
+          userId,
+          anonymousSessionId,
+          name,
+          slug,
+          description: source.description,
+          isPublic: false,
+          hidePrices: source.hidePrices,
+          displayUnit: source.displayUnit,
+          tripDays: source.tripDays,
+          resupplyDays: source.resupplyDays,
+          caloriesPerDay: source.caloriesPerDay,
+          waterCarryAmount: source.waterCarryAmount,
+          waterCarryUnit: source.waterCarryUnit,
+          baseWeightTarget: source.baseWeightTarget,
+          forkedFromListId: isOwner ? source.forkedFromListId : source.id,
+        })
+        .returning({
+          id: lists.id,
+          name: lists.name,
+          slug: lists.slug,
+          description: lists.description,
+          isPublic: lists.isPublic,
+          createdAt: lists.createdAt,
+          updatedAt: lists.updatedAt,
+        });
+
+      for (const category of sourceCategories) {
+        const [createdCategory] = await tx
+          .insert(categories)
+          .values({
+            listId: createdList.id,
+            name: category.name,
+            description: category.description,
+            position: category.position,
+            baseWeightTarget: category.baseWeightTarget,
+          })
+          .returning({ id: categories.id });
+
+        if (category.items.length === 0) {
+          continue;
+        }
+
+        const createdItems = await tx
+          .insert(items)
+          .values(
+            category.items.map((item) => ({
+              categoryId: createdCategory.id,
+              gearId: isOwner ? item.gearId : null,
+              name: item.name,
+              description: item.description,
+              url: item.url,
+              weightAmount: item.weightAmount,
+              weightUnit: item.weightUnit,
+              label: item.label,
+              quantity: item.quantity,
+              perDay: item.perDay,
+              calories: item.calories,
+              protein: item.protein,
+              fat: item.fat,
+              carbs: item.carbs,
+              servingWeight: item.servingWeight,
+              // Respect the source's choice to keep its prices private
+              price: isOwner || !source.hidePrices ? item.price : null,
+              currency: item.currency,
+              position: item.position,
+            }))
+          )
+          .returning({ id: items.id });
+
+        const tagLinks = category.items.flatMap((item, index) =>
+          (tagsByItem.get(item.id) ?? []).map((tag) => ({
+            itemId: createdItems[index].id,
+            tagId: tag.id,
+          }))
+        );
+
+        if (tagLinks.length > 0) {
+          await tx.insert(itemTags).values(tagLinks);
+        }
+      }
+
+      return createdList;
+    });
+
+    // Start the copy's weight history from its current contents
+    await recordWeightSnapshot(newList.id);
+
+    return NextResponse.json(
+      {
+        message: "List duplicated successfully",
+        list: newList,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Duplicate list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
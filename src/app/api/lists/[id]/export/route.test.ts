@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let mockLists: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  displayUnit?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+let queriedListId: string | null = null;
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock list content loader
+vi.mock("@/lib/lists", () => ({
+  getListCategoriesWithItems: vi.fn().mockImplementation(() => {
+    return Promise.resolve([
+      {
+        id: "cat-1",
+        listId: queriedListId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+        items: [
+          {
+            id: "item-1",
+            categoryId: "cat-1",
+            gearId: null,
+            name: "Tent",
+            description: null,
+            url: null,
+            weightAmount: 500,
+            weightUnit: "g",
+            label: "none",
+            quantity: 1,
+            price: null,
+            currency: "USD",
+            position: 0,
+            createdAt: now,
+            updatedAt: now,
+          },
+        ],
+      },
+    ]);
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            const list = mockLists.find((l) => l.id === queriedListId);
+            return Promise.resolve(list ? [list] : []);
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { getListCategoriesWithItems } from "@/lib/lists";
+
+function createRequest(id: string, format?: string) {
+  queriedListId = id;
+  const query = format ? `?format=${format}` : "";
+  return [
+    new NextRequest(`http://localhost:3000/api/lists/${id}/export${query}`),
+    { params: Promise.resolve({ id }) },
+  ] as const;
+}
+
+function addList(overrides: Partial<(typeof mockLists)[number]> = {}) {
+  const list = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId: null,
+    name: "PCT 2024",
+    slug: "pct-2024",
+    description: null,
+    isPublic: false,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+  mockLists.push(list);
+  return list;
+}
+
+describe("GET /api/lists/[id]/export", () => {
+  beforeEach(() => {
+    mockLists = [];
+    currentSession = null;
+    queriedListId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid list ID", async () => {
+    const response = await GET(...createRequest("not-a-uuid"));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid list ID");
+  });
+
+  it("returns 400 for unsupported format", async () => {
+    const response = await GET(...createRequest(crypto.randomUUID(), "xml"));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Unsupported export format");
+  });
+
+  it("returns 401 without a session", async () => {
+    const list = addList();
+    const response = await GET(...createRequest(list.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 when list does not exist", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    const response = await GET(...createRequest(crypto.randomUUID()));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 for a list owned by someone else, even if public", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    const list = addList({ userId: crypto.randomUUID(), isPublic: true });
+
+    const response = await GET(...createRequest(list.id));
+
+    expect(response.status).toBe(403);
+    expect(getListCategoriesWithItems).not.toHaveBeenCalled();
+  });
+
+  it("exports JSON by default for the owner", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const list = addList({ anonymousSessionId });
+
+    const response = await GET(...createRequest(list.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="pct-2024.json"'
+    );
+    expect(data.list.name).toBe("PCT 2024");
+    expect(data.list).not.toHaveProperty("anonymousSessionId");
+    expect(data.categories[0].items[0].name).toBe("Tent");
+    expect(data.summary.totalBaseWeight).toBe(500);
+    expect(getListCategoriesWithItems).toHaveBeenCalledWith(list.id);
+  });
+
+  it("exports LighterPack CSV for the owner", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    const list = addList({ userId });
+
+    const response = await GET(...createRequest(list.id, "csv"));
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/csv");
+    expect(text.split("\r\n")[1]).toBe("Tent,Shelter,,1,500,gram,,,,");
+  });
+
+  it("exports Markdown in the list's display unit", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const list = addList({ anonymousSessionId, displayUnit: "kg" });
+
+    const response = await GET(...createRequest(list.id, "md"));
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/markdown");
+    expect(text).toContain("## Shelter");
+    expect(text).toContain("| Tent | 1 | 0.5 kg |");
+  });
+
+  it("returns 500 when loading fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const list = addList({ anonymousSessionId });
+    vi.mocked(getListCategoriesWithItems).mockRejectedValueOnce(
+      new Error("DB error")
+    );
+
+    const response = await GET(...createRequest(list.id));
+
+    expect(response.status).toBe(500);
+  });
+});
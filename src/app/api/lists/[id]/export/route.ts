@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { lists } from "@/db/schema";
+import { getCurrentSession } from "@/lib/session";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import { createExportResponse, parseExportFormat } from "@/lib/export";
+import {
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { eq } from "drizzle-orm";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const format = parseExportFormat(request.nextUrl.searchParams.get("format"));
+    if (!format) {
+      return NextResponse.json(
+        { error: "Unsupported export format" },
+        { status: 400 }
+      );
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the list and verify ownership
+    const [list] = await db
+      .select()
+      .from(lists)
+      .where(eq(lists.id, id))
+      .limit(1);
+
+    if (!list) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" && list.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        list.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const listCategories = await getListCategoriesWithItems(list.id);
+
+    return createExportResponse(list, listCategories, format, {
+      displayUnit: resolveDisplayUnit(
+        request.nextUrl.searchParams.get("unit"),
+        list.displayUnit
+      ),
+      trip: getListTripSettings(list),
+      water: getListWaterCarry(list),
+    });
+  } catch (error) {
+    console.error("Export list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
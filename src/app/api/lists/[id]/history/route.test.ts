@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let mockLists: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  slug: string;
+  isPublic: boolean;
+}> = [];
+
+let queriedListId: string | null = null;
+
+const earlier = new Date("2024-05-01T10:00:00Z");
+const later = new Date("2024-05-02T10:00:00Z");
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock weight history loader
+vi.mock("@/lib/history", () => ({
+  getWeightHistory: vi.fn().mockImplementation(() => {
+    return Promise.resolve([
+      {
+        baseWeight: 5000,
+        wornWeight: 800,
+        consumableWeight: 1200,
+        totalWeight: 7000,
+        itemCount: 20,
+        createdAt: earlier,
+      },
+      {
+        baseWeight: 4500,
+        wornWeight: 800,
+        consumableWeight: 1200,
+        totalWeight: 6500,
+        itemCount: 19,
+        createdAt: later,
+      },
+    ]);
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            const list = mockLists.find((l) => l.id === queriedListId);
+            return Promise.resolve(list ? [list] : []);
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { getWeightHistory } from "@/lib/history";
+
+function createRequest(id: string) {
+  queriedListId = id;
+  return [
+    new NextRequest(`http://localhost:3000/api/lists/${id}/history`),
+    { params: Promise.resolve({ id }) },
+  ] as const;
+}
+
+function addList(overrides: Partial<(typeof mockLists)[number]> = {}) {
+  const list = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId: null,
+    name: "PCT 2024",
+    slug: "pct-2024",
+    isPublic: false,
+    ...overrides,
+  };
+  mockLists.push(list);
+  return list;
+}
+
+describe("GET /api/lists/[id]/history", () => {
+  beforeEach(() => {
+    mockLists = [];
+    currentSession = null;
+    queriedListId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid list ID", async () => {
+    const response = await GET(...createRequest("not-a-uuid"));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid list ID");
+  });
+
+  it("returns 401 without a session", async () => {
+    const list = addList();
+    const response = await GET(...createRequest(list.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 when list does not exist", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    const response = await GET(...createRequest(crypto.randomUUID()));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 403 for a list owned by someone else, even if public", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    const list = addList({ userId: crypto.randomUUID(), isPublic: true });
+
+    const response = await GET(...createRequest(list.id));
+
+    expect(response.status).toBe(403);
+    expect(getWeightHistory).not.toHaveBeenCalled();
+  });
+
+  it("returns the weight history for the owner", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const list = addList({ anonymousSessionId });
+
+    const response = await GET(...createRequest(list.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getWeightHistory).toHaveBeenCalledWith(list.id);
+    expect(data.history).toHaveLength(2);
+    expect(data.history[0].totalWeight).toBe(7000);
+    expect(data.history[1].baseWeight).toBe(4500);
+    expect(data.history[1].createdAt).toBe(later.toISOString());
+  });
+
+  it("returns 500 when loading fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "hiker",
+      email: "hiker@example.com",
+    };
+    const list = addList({ userId });
+    vi.mocked(getWeightHistory).mockRejectedValueOnce(new Error("DB error"));
+
+    const response = await GET(...createRequest(list.id));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -10,6 +10,14 @@ let mockLists: Array<{
   slug: string;
   description: string | null;
   isPublic: boolean;
+  hidePrices?: boolean;
+  displayUnit?: string | null;
+  tripDays?: number | null;
+  resupplyDays?: number[];
+  caloriesPerDay?: number | null;
+  waterCarryAmount?: number | null;
+  waterCarryUnit?: string;
+  baseWeightTarget?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }> = [];
@@ -34,6 +42,8 @@ let mockItems: Array<{
   weightUnit: string;
   label: string;
   quantity: number;
+  price?: number | null;
+  currency?: string;
   position: number;
   createdAt: Date;
   updatedAt: Date;
@@ -91,6 +101,20 @@ vi.mock("@/lib/cache", () => ({
   revalidateListCache: vi.fn(),
 }));
 
+// Mock weight history
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
+// Mock email verification status of the signed-in user
+let emailVerified = true;
+
+vi.mock("@/lib/email-verification", () => ({
+  isEmailVerified: vi.fn().mockImplementation(() =>
+    Promise.resolve(emailVerified)
+  ),
+}));
+
 // Helper to get current session
 function _getCurrentSessionFromMock(): {
   type: "authenticated" | "anonymous";
@@ -127,6 +151,24 @@ function _getCurrentSessionFromMock(): {
 // Query call counter to distinguish between different queries in the same request
 let queryCallCount = 0;
 
+// Mock item tag lookup
+let mockItemTags = new Map<string, Array<{ id: string; name: string }>>();
+
+vi.mock("@/lib/tags", () => ({
+  withItemTags: vi.fn().mockImplementation(
+    (categories: Array<{ items: Array<{ id: string }> }>) =>
+      Promise.resolve(
+        categories.map((category) => ({
+          ...category,
+          items: category.items.map((item) => ({
+            ...item,
+            tags: mockItemTags.get(item.id) ?? [],
+          })),
+        }))
+      )
+  ),
+}));
+
 // Mock database - simplified approach focusing on key flows
 vi.mock("@/db", () => ({
   db: {
@@ -135,7 +177,7 @@ vi.mock("@/db", () => ({
       const currentCallCount = queryCallCount;
 
       return {
-        from: vi.fn().mockImplementation(() => ({
+        from: vi.fn().mockImplementation((table: object) => ({
           where: vi.fn().mockImplementation(() => ({
             limit: vi.fn().mockImplementation(() => {
               // Determine query type by checking if we have session cookies
@@ -196,6 +238,12 @@ vi.mock("@/db", () => ({
               }
             }),
             orderBy: vi.fn().mockImplementation(() => {
+              // For items lookup
+              if ("categoryId" in table) {
+                return Promise.resolve(
+                  [...mockItems].sort((a, b) => a.position - b.position)
+                );
+              }
               // For categories lookup
               if (queryListId) {
                 return Promise.resolve(
@@ -238,6 +286,14 @@ vi.mock("@/db", () => ({
                 slug: updatedList.slug,
                 description: updatedList.description,
                 isPublic: updatedList.isPublic,
+                hidePrices: updatedList.hidePrices,
+                displayUnit: updatedList.displayUnit,
+                tripDays: updatedList.tripDays,
+                resupplyDays: updatedList.resupplyDays,
+                caloriesPerDay: updatedList.caloriesPerDay,
+                waterCarryAmount: updatedList.waterCarryAmount,
+                waterCarryUnit: updatedList.waterCarryUnit,
+                baseWeightTarget: updatedList.baseWeightTarget,
                 createdAt: updatedList.createdAt,
                 updatedAt: updatedList.updatedAt,
               },
@@ -262,6 +318,8 @@ vi.mock("@/db", () => ({
 
 // Import after mocking
 import { GET, PATCH, DELETE } from "./route";
+import { recordWeightSnapshot } from "@/lib/history";
+import { isEmailVerified } from "@/lib/email-verification";
 
 // Helper to create params and reset query count
 const createParams = (id: string) => {
@@ -272,6 +330,8 @@ const createParams = (id: string) => {
 
 describe("GET /api/lists/[id]", () => {
   beforeEach(() => {
+    emailVerified = true;
+    mockItemTags = new Map();
     mockLists = [];
     mockCategories = [];
     mockItems = [];
@@ -357,6 +417,121 @@ describe("GET /api/lists/[id]", () => {
       expect(data.isOwner).toBe(false);
     });
 
+    it("hides prices from non-owners when the list hides prices", async () => {
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockLists.push({
+        id: listId,
+        userId: crypto.randomUUID(),
+        anonymousSessionId: null,
+        name: "Public Pack",
+        slug: "public-pack",
+        description: null,
+        isPublic: true,
+        hidePrices: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: crypto.randomUUID(),
+        categoryId,
+        name: "Tent",
+        description: null,
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        label: "none",
+        quantity: 1,
+        price: 599,
+        currency: "USD",
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/lists/${listId}`
+      );
+
+      const response = await GET(request, { params: createParams(listId) });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.hidePrices).toBe(true);
+      expect(data.categories[0].items[0].name).toBe("Tent");
+      expect(data.categories[0].items[0].price).toBeNull();
+    });
+
+    it("includes item tags", async () => {
+      const listId = crypto.randomUUID();
+      const categoryId = crypto.randomUUID();
+
+      mockLists.push({
+        id: listId,
+        userId: crypto.randomUUID(),
+        anonymousSessionId: null,
+        name: "Public Pack",
+        slug: "public-pack",
+        description: null,
+        isPublic: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: categoryId,
+        listId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const itemId = crypto.randomUUID();
+      mockItemTags.set(itemId, [{ id: crypto.randomUUID(), name: "shared" }]);
+
+      mockItems.push({
+        id: itemId,
+        categoryId,
+        name: "Tent",
+        description: null,
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        label: "none",
+        quantity: 1,
+        price: 599,
+        currency: "USD",
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/lists/${listId}`
+      );
+
+      const response = await GET(request, { params: createParams(listId) });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.categories[0].items[0].tags).toHaveLength(1);
+      expect(data.categories[0].items[0].tags[0].name).toBe("shared");
+    });
+
     it("returns private list for authenticated owner", async () => {
       const userId = crypto.randomUUID();
       const listId = crypto.randomUUID();
@@ -406,6 +581,7 @@ describe("GET /api/lists/[id]", () => {
 
 describe("PATCH /api/lists/[id]", () => {
   beforeEach(() => {
+    mockItemTags = new Map();
     mockLists = [];
     mockCategories = [];
     mockItems = [];
@@ -635,11 +811,444 @@ describe("PATCH /api/lists/[id]", () => {
       expect(response.status).toBe(200);
       expect(data.list.isPublic).toBe(true);
     });
+
+    it("returns 403 when an unverified user makes a list public", async () => {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      emailVerified = false;
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/lists/${listId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ isPublic: true }),
+        }
+      );
+
+      const response = await PATCH(request, { params: createParams(listId) });
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe("Verify your email address before sharing lists");
+      expect(isEmailVerified).toHaveBeenCalledWith(userId);
+      expect(mockLists[0].isPublic).toBe(false);
+    });
+
+    it("allows an unverified user to make a list private", async () => {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+      emailVerified = false;
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/lists/${listId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ isPublic: false }),
+        }
+      );
+
+      const response = await PATCH(request, { params: createParams(listId) });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.isPublic).toBe(false);
+    });
+
+    it("allows owner to hide prices", async () => {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "test-session-token";
+
+      mockAuthenticatedUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+      });
+
+      mockSessions.push({
+        id: crypto.randomUUID(),
+        userId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("session_token", sessionToken);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/lists/${listId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ hidePrices: true }),
+        }
+      );
+
+      const response = await PATCH(request, { params: createParams(listId) });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.hidePrices).toBe(true);
+      expect(data.list.isPublic).toBe(false);
+    });
+
+    it("allows anonymous owner to set and clear the display unit", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const setResponse = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ displayUnit: "oz" }),
+        }),
+        { params: createParams(listId) }
+      );
+      expect(setResponse.status).toBe(200);
+      expect((await setResponse.json()).list.displayUnit).toBe("oz");
+
+      const clearResponse = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ displayUnit: null }),
+        }),
+        { params: createParams(listId) }
+      );
+      expect(clearResponse.status).toBe(200);
+      expect((await clearResponse.json()).list.displayUnit).toBeNull();
+    });
+
+    it("sets the trip length and keeps resupplies inside the trip", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        tripDays: null,
+        resupplyDays: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const response = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ tripDays: 10, resupplyDays: [12, 6, 3, 6] }),
+        }),
+        { params: createParams(listId) }
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.tripDays).toBe(10);
+      expect(data.list.resupplyDays).toEqual([3, 6]);
+      expect(recordWeightSnapshot).toHaveBeenCalledWith(listId);
+    });
+
+    it("clears resupplies when the trip length is removed", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        tripDays: 5,
+        resupplyDays: [2],
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const response = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ tripDays: null }),
+        }),
+        { params: createParams(listId) }
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.tripDays).toBeNull();
+      expect(data.list.resupplyDays).toEqual([]);
+    });
+
+    it("sets the daily calorie target", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const response = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ caloriesPerDay: 3200 }),
+        }),
+        { params: createParams(listId) }
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.caloriesPerDay).toBe(3200);
+      expect(recordWeightSnapshot).not.toHaveBeenCalled();
+    });
+
+    it("sets the water carry and records the new weight", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        waterCarryAmount: null,
+        waterCarryUnit: "l",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const response = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ waterCarryAmount: 64, waterCarryUnit: "floz" }),
+        }),
+        { params: createParams(listId) }
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.waterCarryAmount).toBe(64);
+      expect(data.list.waterCarryUnit).toBe("floz");
+      expect(recordWeightSnapshot).toHaveBeenCalledWith(listId);
+    });
+
+    it("sets a base weight target", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        baseWeightTarget: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const response = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ baseWeightTarget: 4500 }),
+        }),
+        { params: createParams(listId) }
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.baseWeightTarget).toBe(4500);
+    });
+
+    it("does not record a weight snapshot for renames", async () => {
+      const anonymousSessionId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const sessionToken = "anon-session-token";
+
+      mockAnonymousSessions.push({
+        id: anonymousSessionId,
+        sessionToken,
+        expiresAt: futureDate,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId: null,
+        anonymousSessionId,
+        name: "My Pack",
+        slug: "my-pack",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCookies.set("anonymous_session_token", sessionToken);
+
+      const response = await PATCH(
+        new NextRequest(`http://localhost:3000/api/lists/${listId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ description: "Summer kit" }),
+        }),
+        { params: createParams(listId) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(recordWeightSnapshot).not.toHaveBeenCalled();
+    });
   });
 });
 
 describe("DELETE /api/lists/[id]", () => {
   beforeEach(() => {
+    mockItemTags = new Map();
     mockLists = [];
     mockCategories = [];
     mockItems = [];
@@ -5,6 +5,12 @@ import { updateListSchema } from "@/lib/validations/list";
 import { getCurrentSession } from "@/lib/session";
 import { generateSlug, makeSlugUnique } from "@/lib/slug";
 import { revalidateListCache } from "@/lib/cache";
+import { stripPrices } from "@/lib/cost";
+import { stripPackedCounts } from "@/lib/checklist";
+import { withItemTags } from "@/lib/tags";
+import { recordWeightSnapshot } from "@/lib/history";
+import { isEmailVerified } from "@/lib/email-verification";
+import { normalizeResupplyDays } from "@/lib/weight";
 import { eq, and, ne, asc, inArray } from "drizzle-orm";
 
 const UUID_REGEX =
@@ -67,13 +73,15 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         .orderBy(asc(items.position));
     }
 
-    // Group items by category
-    const categoriesWithItems = listCategories.map((category) => ({
-      ...category,
-      items: listItems
-        .filter((item) => item.categoryId === category.id)
-        .sort((a, b) => a.position - b.position),
-    }));
+    // Group items by category and attach each item's tags
+    const categoriesWithItems = await withItemTags(
+      listCategories.map((category) => ({
+        ...category,
+        items: listItems
+          .filter((item) => item.categoryId === category.id)
+          .sort((a, b) => a.position - b.position),
+      }))
+    );
 
     return NextResponse.json({
       list: {
@@ -82,10 +90,24 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         slug: list.slug,
         description: list.description,
         isPublic: list.isPublic,
+        hidePrices: list.hidePrices,
+        tripDays: list.tripDays,
+        resupplyDays: list.resupplyDays,
+        caloriesPerDay: list.caloriesPerDay,
+        waterCarryAmount: list.waterCarryAmount,
+        waterCarryUnit: list.waterCarryUnit,
+        baseWeightTarget: list.baseWeightTarget,
         createdAt: list.createdAt,
         updatedAt: list.updatedAt,
       },
-      categories: categoriesWithItems,
+      // Visitors see neither hidden prices nor the owner's packing progress
+      categories: isOwner
+        ? categoriesWithItems
+        : stripPackedCounts(
+            list.hidePrices
+              ? stripPrices(categoriesWithItems)
+              : categoriesWithItems
+          ),
       isOwner: !!isOwner,
       isAuthenticated: session?.type === "authenticated",
     });
@@ -119,7 +141,19 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { name, description, isPublic } = result.data;
+    const {
+      name,
+      description,
+      isPublic,
+      hidePrices,
+      displayUnit,
+      tripDays,
+      resupplyDays,
+      caloriesPerDay,
+      waterCarryAmount,
+      waterCarryUnit,
+      baseWeightTarget,
+    } = result.data;
 
     // Get current session
     const session = await getCurrentSession();
@@ -155,6 +189,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       slug?: string;
       description?: string | null;
       isPublic?: boolean;
+      hidePrices?: boolean;
+      displayUnit?: string | null;
+      tripDays?: number | null;
+      resupplyDays?: number[];
+      caloriesPerDay?: number | null;
+      waterCarryAmount?: number | null;
+      waterCarryUnit?: string;
+      baseWeightTarget?: number | null;
       updatedAt: Date;
     } = {
       updatedAt: new Date(),
@@ -201,9 +243,53 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
           { status: 403 }
         );
       }
+      // Sharing needs a confirmed address
+      if (isPublic && !(await isEmailVerified(session.userId))) {
+        return NextResponse.json(
+          { error: "Verify your email address before sharing lists" },
+          { status: 403 }
+        );
+      }
       updateData.isPublic = isPublic;
     }
 
+    if (hidePrices !== undefined) {
+      updateData.hidePrices = hidePrices;
+    }
+
+    if (displayUnit !== undefined) {
+      updateData.displayUnit = displayUnit;
+    }
+
+    if (caloriesPerDay !== undefined) {
+      updateData.caloriesPerDay = caloriesPerDay;
+    }
+
+    const isWaterChange =
+      waterCarryAmount !== undefined || waterCarryUnit !== undefined;
+    if (waterCarryAmount !== undefined) {
+      updateData.waterCarryAmount = waterCarryAmount;
+    }
+
+    if (waterCarryUnit !== undefined) {
+      updateData.waterCarryUnit = waterCarryUnit;
+    }
+
+    if (baseWeightTarget !== undefined) {
+      updateData.baseWeightTarget = baseWeightTarget;
+    }
+
+    // Resupplies only make sense inside the trip, so re-check them whenever
+    // either setting changes
+    const isTripChange = tripDays !== undefined || resupplyDays !== undefined;
+    if (isTripChange) {
+      const days = tripDays !== undefined ? tripDays : existingList.tripDays;
+      updateData.tripDays = days;
+      updateData.resupplyDays = days
+        ? normalizeResupplyDays(resupplyDays ?? existingList.resupplyDays, days)
+        : [];
+    }
+
     // Update the list
     const [updatedList] = await db
       .update(lists)
@@ -215,6 +301,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         slug: lists.slug,
         description: lists.description,
         isPublic: lists.isPublic,
+        hidePrices: lists.hidePrices,
+        displayUnit: lists.displayUnit,
+        tripDays: lists.tripDays,
+        resupplyDays: lists.resupplyDays,
+        caloriesPerDay: lists.caloriesPerDay,
+        waterCarryAmount: lists.waterCarryAmount,
+        waterCarryUnit: lists.waterCarryUnit,
+        baseWeightTarget: lists.baseWeightTarget,
         createdAt: lists.createdAt,
         updatedAt: lists.updatedAt,
       });
@@ -222,6 +316,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     // Invalidate cache for this list
     revalidateListCache(id);
 
+    // Trip length and water carry change the consumable weight
+    if (isTripChange || isWaterChange) {
+      await recordWeightSnapshot(id);
+    }
+
     return NextResponse.json({
       message: "List updated successfully",
       list: updatedList,
@@ -0,0 +1,331 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// Mock data storage
+let mockLists: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+let mockCategories: Array<{
+  id: string;
+  listId: string;
+  name: string;
+  position: number;
+}> = [];
+
+let mockItems: Array<Record<string, unknown>> = [];
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let createdAnonymousSessionId: string | null = null;
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+  getOrCreateAnonymousSession: vi.fn().mockImplementation(() => {
+    createdAnonymousSessionId = crypto.randomUUID();
+    return Promise.resolve({
+      id: createdAnonymousSessionId,
+      sessionToken: "new-anon-token",
+    });
+  }),
+}));
+
+// Mock weight history
+vi.mock("@/lib/history", () => ({
+  recordWeightSnapshot: vi.fn(),
+}));
+
+// Insert handler shared by db and transaction
+const mockInsert = vi.fn().mockImplementation(() => ({
+  values: vi.fn().mockImplementation((data: Record<string, unknown> | Array<Record<string, unknown>>) => {
+    if (Array.isArray(data)) {
+      // Item bulk insert
+      mockItems.push(...data);
+      return Promise.resolve();
+    }
+
+    return {
+      returning: vi.fn().mockImplementation(() => {
+        if ("slug" in data) {
+          const newList = {
+            id: crypto.randomUUID(),
+            userId: data.userId as string | null,
+            anonymousSessionId: data.anonymousSessionId as string | null,
+            name: data.name as string,
+            slug: data.slug as string,
+            description: data.description as string | null,
+            isPublic: data.isPublic as boolean,
+            createdAt: now,
+            updatedAt: now,
+          };
+          mockLists.push(newList);
+          return Promise.resolve([newList]);
+        }
+
+        const newCategory = {
+          id: crypto.randomUUID(),
+          listId: data.listId as string,
+          name: data.name as string,
+          position: data.position as number,
+        };
+        mockCategories.push(newCategory);
+        return Promise.resolve([{ id: newCategory.id }]);
+      }),
+    };
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => {
+          // Existing slugs for the current owner
+          const owned = mockLists.filter((l) =>
+            currentSession?.type === "authenticated"
+              ? l.userId === currentSession.userId
+              : l.anonymousSessionId ===
+                (currentSession?.type === "anonymous"
+                  ? currentSession.anonymousSessionId
+                  : createdAnonymousSessionId)
+          );
+          return Promise.resolve(owned.map((l) => ({ slug: l.slug })));
+        }),
+      })),
+    })),
+    insert: (...args: unknown[]) => mockInsert(...args),
+    transaction: vi.fn().mockImplementation(
+      async (callback: (tx: unknown) => Promise<unknown>) => {
+        return callback({ insert: (...args: unknown[]) => mockInsert(...args) });
+      }
+    ),
+  },
+}));
+
+// Import after mocking
+import { POST } from "./route";
+import { db } from "@/db";
+import { recordWeightSnapshot } from "@/lib/history";
+
+const HEADER = "Item Name,Category,desc,qty,weight,unit,url,price,worn,consumable";
+
+function createImportRequest(body: object) {
+  return new NextRequest("http://localhost:3000/api/lists/import", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/lists/import", () => {
+  beforeEach(() => {
+    mockLists = [];
+    mockCategories = [];
+    mockItems = [];
+    currentSession = null;
+    createdAnonymousSessionId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("validation", () => {
+    it("returns 400 for missing name", async () => {
+      const response = await POST(createImportRequest({ csv: HEADER }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation failed");
+      expect(data.details.name).toBeDefined();
+    });
+
+    it("returns 400 for missing CSV", async () => {
+      const response = await POST(createImportRequest({ name: "PCT" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details.csv).toBeDefined();
+    });
+
+    it("returns per-row errors and creates nothing", async () => {
+      const csv = [
+        HEADER,
+        "Tent,Shelter,,1,500,g,,,,",
+        "Stove,Kitchen,,1,-1,g,,,,",
+        ",Kitchen,,1,10,g,,,,",
+      ].join("\n");
+
+      const response = await POST(createImportRequest({ name: "PCT", csv }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid CSV rows");
+      expect(data.rowErrors).toHaveLength(2);
+      expect(data.rowErrors[0].row).toBe(3);
+      expect(data.rowErrors[0].errors.weightAmount).toBeDefined();
+      expect(data.rowErrors[1].row).toBe(4);
+      expect(data.rowErrors[1].errors.name).toBeDefined();
+      expect(mockLists).toHaveLength(0);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 when header is missing required columns", async () => {
+      const response = await POST(
+        createImportRequest({ name: "PCT", csv: "foo,bar\n1,2" })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.rowErrors[0].row).toBe(1);
+      expect(data.rowErrors[0].errors.header).toBeDefined();
+    });
+
+    it("returns 400 when CSV has no items", async () => {
+      const response = await POST(createImportRequest({ name: "PCT", csv: HEADER }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("CSV file does not contain any items");
+    });
+  });
+
+  describe("import", () => {
+    it("creates list, categories and items for authenticated user", async () => {
+      const userId = crypto.randomUUID();
+      currentSession = {
+        type: "authenticated",
+        userId,
+        username: "hiker",
+        email: "hiker@example.com",
+      };
+
+      const csv = [
+        HEADER,
+        "Duplex,Shelter,DCF tent,1,19,ounce,https://zpacks.com/duplex,,,",
+        "Stove,Kitchen,,1,50,gram,,,,",
+        "Stakes,Shelter,,8,0.2,ounce,,,,",
+        "Shoes,Clothing,,1,1.2,pound,,,Worn,",
+        "Snacks,Food,,3,200,gram,,,,Consumable",
+      ].join("\n");
+
+      const response = await POST(
+        createImportRequest({ name: "PCT 2024", description: "Thru-hike", csv })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.message).toBe("List imported successfully");
+      expect(data.list.name).toBe("PCT 2024");
+      expect(data.list.slug).toBe("pct-2024");
+      expect(data.list.description).toBe("Thru-hike");
+      expect(data.importedCategories).toBe(4);
+      expect(data.importedItems).toBe(5);
+
+      expect(mockLists[0].userId).toBe(userId);
+      expect(mockCategories.map((c) => [c.name, c.position])).toEqual([
+        ["Shelter", 0],
+        ["Kitchen", 1],
+        ["Clothing", 2],
+        ["Food", 3],
+      ]);
+
+      const shelterId = mockCategories[0].id;
+      const shelterItems = mockItems.filter((i) => i.categoryId === shelterId);
+      expect(shelterItems.map((i) => [i.name, i.position])).toEqual([
+        ["Duplex", 0],
+        ["Stakes", 1],
+      ]);
+      expect(shelterItems[1]).toMatchObject({
+        quantity: 8,
+        weightAmount: 0.2,
+        weightUnit: "oz",
+      });
+
+      const shoes = mockItems.find((i) => i.name === "Shoes");
+      expect(shoes).toMatchObject({ label: "worn", weightUnit: "lbs" });
+      const snacks = mockItems.find((i) => i.name === "Snacks");
+      expect(snacks).toMatchObject({ label: "consumable", quantity: 3 });
+      expect(recordWeightSnapshot).toHaveBeenCalledWith(data.list.id);
+    });
+
+    it("generates a unique slug", async () => {
+      const userId = crypto.randomUUID();
+      currentSession = {
+        type: "authenticated",
+        userId,
+        username: "hiker",
+        email: "hiker@example.com",
+      };
+      mockLists.push({
+        id: crypto.randomUUID(),
+        userId,
+        anonymousSessionId: null,
+        name: "PCT 2024",
+        slug: "pct-2024",
+        description: null,
+        isPublic: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const response = await POST(
+        createImportRequest({
+          name: "PCT 2024",
+          csv: `${HEADER}\nTent,Shelter,,1,500,g,,,,`,
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.list.slug).toBe("pct-2024-1");
+    });
+
+    it("creates an anonymous session when none exists", async () => {
+      const response = await POST(
+        createImportRequest({
+          name: "Weekend",
+          csv: `${HEADER}\nTent,Shelter,,1,500,g,,,,`,
+        })
+      );
+
+      expect(response.status).toBe(201);
+      expect(createdAnonymousSessionId).not.toBeNull();
+      expect(mockLists[0].userId).toBeNull();
+      expect(mockLists[0].anonymousSessionId).toBe(createdAnonymousSessionId);
+    });
+
+    it("returns 500 when the transaction fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.mocked(db.transaction).mockRejectedValueOnce(new Error("DB error"));
+
+      const response = await POST(
+        createImportRequest({
+          name: "Weekend",
+          csv: `${HEADER}\nTent,Shelter,,1,500,g,,,,`,
+        })
+      );
+
+      expect(response.status).toBe(500);
+      expect(recordWeightSnapshot).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { lists, categories, items } from "@/db/schema";
+import { importListSchema } from "@/lib/validations/list";
+import {
+  getCurrentSession,
+  getOrCreateAnonymousSession,
+} from "@/lib/session";
+import { generateSlug, makeSlugUnique } from "@/lib/slug";
+import { parseLighterPackCsv } from "@/lib/lighterpack";
+import { recordWeightSnapshot } from "@/lib/history";
+import { eq } from "drizzle-orm";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = importListSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, csv } = result.data;
+
+    // Parse and validate every row before touching the database
+    const parsed = parseLighterPackCsv(csv);
+    if (parsed.errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid CSV rows", rowErrors: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    const itemCount = parsed.categories.reduce(
+      (sum, c) => sum + c.items.length,
+      0
+    );
+    if (itemCount === 0) {
+      return NextResponse.json(
+        { error: "CSV file does not contain any items" },
+        { status: 400 }
+      );
+    }
+
+    // Get current session - support both authenticated and anonymous users
+    let session = await getCurrentSession();
+
+    // If no session exists, create an anonymous session for the user
+    if (!session) {
+      const anonymousSession = await getOrCreateAnonymousSession();
+      session = {
+        type: "anonymous",
+        anonymousSessionId: anonymousSession.id,
+      };
+    }
+
+    // Determine user ownership
+    const userId =
+      session.type === "authenticated" ? session.userId : null;
+    const anonymousSessionId =
+      session.type === "anonymous" ? session.anonymousSessionId : null;
+
+    // Get existing slugs for this user/session to ensure uniqueness
+    const existingLists = await db
+      .select({ slug: lists.slug })
+      .from(lists)
+      .where(
+        userId
+          ? eq(lists.userId, userId)
+          : eq(lists.anonymousSessionId, anonymousSessionId!)
+      );
+
+    const slug = makeSlugUnique(
+      generateSlug(name),
+      existingLists.map((l) => l.slug)
+    );
+
+    // Create the list, categories and items together
+    const newList = await db.transaction(async (tx) => {
+      const [createdList] = await tx
+        .insert(lists)
+        .values({
+          userId,
+          anonymousSessionId,
+          name,
+          slug,
+          description: description ?? null,
+          isPublic: false,
+        })
+        .returning({
+          id: lists.id,
+          name: lists.name,
+          slug: lists.slug,
+          description: lists.description,
+          isPublic: lists.isPublic,
+          createdAt: lists.createdAt,
+          updatedAt: lists.updatedAt,
+        });
+
+      for (const [categoryIndex, category] of parsed.categories.entries()) {
+        const [createdCategory] = await tx
+          .insert(categories)
+          .values({
+            listId: createdList.id,
+            name: category.name,
+            position: categoryIndex,
+          })
+          .returning({ id: categories.id });
+
+        await tx.insert(items).values(
+          category.items.map((item, itemIndex) => ({
+            ...item,
+            categoryId: createdCategory.id,
+            position: itemIndex,
+          }))
+        );
+      }
+
+      return createdList;
+    });
+
+    // Start the imported list's weight history from its contents
+    await recordWeightSnapshot(newList.id);
+
+    return NextResponse.json(
+      {
+        message: "List imported successfully",
+        list: newList,
+        importedCategories: parsed.categories.length,
+        importedItems: itemCount,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Import list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
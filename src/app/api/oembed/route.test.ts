@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+let mockUsers: Array<{ id: string; username: string }> = [];
+
+let mockLists: Array<{
+  id: string;
+  userId: string;
+  name: string;
+  slug: string;
+  isPublic: boolean;
+}> = [];
+
+let queryUsername: string | null = null;
+let querySlug: string | null = null;
+
+// Mock database: route user and list lookups by table
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation((table: PgTable) => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            if (getTableName(table) === "users") {
+              return Promise.resolve(
+                mockUsers.filter((u) => u.username === queryUsername)
+              );
+            }
+            const user = mockUsers.find((u) => u.username === queryUsername);
+            return Promise.resolve(
+              mockLists.filter(
+                (l) => l.userId === user?.id && l.slug === querySlug
+              )
+            );
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { db } from "@/db";
+
+function createRequest(url: string | null, extraQuery = "") {
+  const match = url?.match(/\/([^/?]+)\/([^/?]+)(\?|$)/);
+  queryUsername = match?.[1] ?? null;
+  querySlug = match?.[2] ?? null;
+  const query = url ? `url=${encodeURIComponent(url)}` : "";
+  return new NextRequest(
+    `http://localhost:3000/api/oembed?${query}${extraQuery}`
+  );
+}
+
+function addUserWithList(isPublic: boolean) {
+  const user = { id: crypto.randomUUID(), username: "hiker" };
+  mockUsers.push(user);
+  mockLists.push({
+    id: crypto.randomUUID(),
+    userId: user.id,
+    name: "Desert Kit",
+    slug: "desert-kit",
+    isPublic,
+  });
+  return user;
+}
+
+describe("GET /api/oembed", () => {
+  beforeEach(() => {
+    mockUsers = [];
+    mockLists = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 without a url", async () => {
+    const response = await GET(createRequest(null));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Missing url parameter");
+  });
+
+  it("returns 501 for formats other than JSON", async () => {
+    addUserWithList(true);
+    const response = await GET(
+      createRequest("http://localhost:3000/hiker/desert-kit", "&format=xml")
+    );
+
+    expect(response.status).toBe(501);
+  });
+
+  it("returns 404 for URLs on other sites", async () => {
+    const response = await GET(
+      createRequest("https://example.com/hiker/desert-kit")
+    );
+
+    expect(response.status).toBe(404);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for unknown lists", async () => {
+    addUserWithList(true);
+    const response = await GET(
+      createRequest("http://localhost:3000/hiker/other-list")
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 404 for private lists", async () => {
+    addUserWithList(false);
+    const response = await GET(
+      createRequest("http://localhost:3000/hiker/desert-kit")
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns a rich embed for a public list", async () => {
+    addUserWithList(true);
+    const response = await GET(
+      createRequest("http://localhost:3000/hiker/desert-kit", "&format=json")
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.type).toBe("rich");
+    expect(data.title).toBe("Desert Kit");
+    expect(data.author_name).toBe("hiker");
+    expect(data.html).toContain(
+      'src="http://localhost:3000/embed/hiker/desert-kit"'
+    );
+  });
+
+  it("honours maxwidth and maxheight", async () => {
+    addUserWithList(true);
+    const response = await GET(
+      createRequest(
+        "http://localhost:3000/embed/hiker/desert-kit",
+        "&maxwidth=320&maxheight=480"
+      )
+    );
+    const data = await response.json();
+
+    expect(data.width).toBe(320);
+    expect(data.height).toBe(480);
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const response = await GET(
+      createRequest("http://localhost:3000/hiker/desert-kit")
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
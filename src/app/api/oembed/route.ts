@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { users, lists } from "@/db/schema";
+import {
+  buildOEmbedResponse,
+  parseEmbedDimension,
+  parseListUrl,
+} from "@/lib/embed";
+import { eq, and } from "drizzle-orm";
+
+/**
+ * oEmbed provider endpoint for public lists
+ * @see https://oembed.com/#section2.2
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const url = searchParams.get("url");
+
+    if (!url) {
+      return NextResponse.json(
+        { error: "Missing url parameter" },
+        { status: 400 }
+      );
+    }
+
+    // Only JSON is supported; the spec asks for 501 on other formats
+    const format = searchParams.get("format");
+    if (format && format !== "json") {
+      return NextResponse.json(
+        { error: "Unsupported format" },
+        { status: 501 }
+      );
+    }
+
+    const listPath = parseListUrl(url);
+    if (!listPath) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    // Find the user by username
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.username, listPath.username))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    // Find the list by user ID and slug
+    const [list] = await db
+      .select()
+      .from(lists)
+      .where(and(eq(lists.userId, user.id), eq(lists.slug, listPath.slug)))
+      .limit(1);
+
+    // Private lists can't be embedded, so don't reveal that they exist
+    if (!list || !list.isPublic) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      buildOEmbedResponse(
+        { username: user.username, slug: list.slug, name: list.name },
+        {
+          maxWidth: parseEmbedDimension(searchParams.get("maxwidth")),
+          maxHeight: parseEmbedDimension(searchParams.get("maxheight")),
+        }
+      )
+    );
+  } catch (error) {
+    console.error("oEmbed error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
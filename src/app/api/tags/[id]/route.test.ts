@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// Mock data storage
+let mockTags: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let currentTagId: string | null = null;
+let deletedTagIds: string[] = [];
+let affectedListIds: string[] = [];
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock tagged list lookup
+vi.mock("@/lib/tags", () => ({
+  getTaggedListIds: vi.fn().mockImplementation(() => {
+    return Promise.resolve(affectedListIds);
+  }),
+}));
+
+// Mock cache revalidation
+vi.mock("@/lib/cache", () => ({
+  revalidateListCache: vi.fn(),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            const found = mockTags.find((t) => t.id === currentTagId);
+            return Promise.resolve(found ? [found] : []);
+          }),
+        })),
+      })),
+    })),
+    update: vi.fn().mockImplementation(() => ({
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        where: vi.fn().mockImplementation(() => ({
+          returning: vi.fn().mockImplementation(() => {
+            const found = mockTags.find((t) => t.id === currentTagId);
+            if (!found) return Promise.resolve([]);
+            Object.assign(found, data);
+            return Promise.resolve([found]);
+          }),
+        })),
+      })),
+    })),
+    delete: vi.fn().mockImplementation(() => ({
+      where: vi.fn().mockImplementation(() => {
+        if (currentTagId) {
+          deletedTagIds.push(currentTagId);
+          mockTags = mockTags.filter((t) => t.id !== currentTagId);
+        }
+        return Promise.resolve();
+      }),
+    })),
+  },
+}));
+
+// Import after mocking
+import { PATCH, DELETE } from "./route";
+import { revalidateListCache } from "@/lib/cache";
+
+function createTag(overrides: Partial<(typeof mockTags)[number]> = {}) {
+  const tag = {
+    id: crypto.randomUUID(),
+    userId: null,
+    anonymousSessionId: null,
+    name: "shared",
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+  mockTags.push(tag);
+  currentTagId = tag.id;
+  return tag;
+}
+
+function createParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe("PATCH /api/tags/[id]", () => {
+  beforeEach(() => {
+    mockTags = [];
+    currentSession = null;
+    currentTagId = null;
+    deletedTagIds = [];
+    affectedListIds = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid tag ID", async () => {
+    const request = new NextRequest("http://localhost:3000/api/tags/bad", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "group" }),
+    });
+
+    const response = await PATCH(request, createParams("not-a-uuid"));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid tag ID");
+  });
+
+  it("returns 400 for empty name", async () => {
+    const tag = createTag();
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "" }),
+    });
+
+    const response = await PATCH(request, createParams(tag.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details.name).toBeDefined();
+  });
+
+  it("returns 401 without a session", async () => {
+    const tag = createTag();
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "group" }),
+    });
+
+    const response = await PATCH(request, createParams(tag.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 404 when tag does not exist", async () => {
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "group" }),
+    });
+
+    const response = await PATCH(request, createParams(crypto.randomUUID()));
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Tag not found");
+  });
+
+  it("returns 403 when tag belongs to another user", async () => {
+    const tag = createTag({ userId: crypto.randomUUID() });
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "testuser",
+      email: "test@example.com",
+    };
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "group" }),
+    });
+
+    const response = await PATCH(request, createParams(tag.id));
+
+    expect(response.status).toBe(403);
+    expect(tag.name).toBe("shared");
+  });
+
+  it("renames tag and revalidates lists using it", async () => {
+    const userId = crypto.randomUUID();
+    const tag = createTag({ userId });
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+    const listId = crypto.randomUUID();
+    affectedListIds = [listId];
+
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "PATCH",
+      body: JSON.stringify({ name: "group gear" }),
+    });
+
+    const response = await PATCH(request, createParams(tag.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe("Tag updated successfully");
+    expect(data.tag.name).toBe("group gear");
+    expect(revalidateListCache).toHaveBeenCalledWith(listId);
+  });
+});
+
+describe("DELETE /api/tags/[id]", () => {
+  beforeEach(() => {
+    mockTags = [];
+    currentSession = null;
+    currentTagId = null;
+    deletedTagIds = [];
+    affectedListIds = [];
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for invalid tag ID", async () => {
+    const request = new NextRequest("http://localhost:3000/api/tags/bad", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams("bad"));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 401 without a session", async () => {
+    const tag = createTag();
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams(tag.id));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("returns 403 when tag belongs to another session", async () => {
+    const tag = createTag({ anonymousSessionId: crypto.randomUUID() });
+    currentSession = { type: "anonymous", anonymousSessionId: crypto.randomUUID() };
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams(tag.id));
+
+    expect(response.status).toBe(403);
+    expect(deletedTagIds).toHaveLength(0);
+  });
+
+  it("deletes owned tag and revalidates lists using it", async () => {
+    const anonymousSessionId = crypto.randomUUID();
+    const tag = createTag({ anonymousSessionId });
+    currentSession = { type: "anonymous", anonymousSessionId };
+    const listId = crypto.randomUUID();
+    affectedListIds = [listId];
+
+    const request = new NextRequest("http://localhost:3000/api/tags/x", {
+      method: "DELETE",
+    });
+
+    const response = await DELETE(request, createParams(tag.id));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe("Tag deleted successfully");
+    expect(deletedTagIds).toEqual([tag.id]);
+    expect(revalidateListCache).toHaveBeenCalledWith(listId);
+  });
+});
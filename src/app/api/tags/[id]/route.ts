@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { tags } from "@/db/schema";
+import { updateTagSchema } from "@/lib/validations/tag";
+import { getCurrentSession } from "@/lib/session";
+import { getTaggedListIds } from "@/lib/tags";
+import { revalidateListCache } from "@/lib/cache";
+import { eq } from "drizzle-orm";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid tag ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const result = updateTagSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the tag and verify ownership
+    const [existingTag] = await db
+      .select()
+      .from(tags)
+      .where(eq(tags.id, id))
+      .limit(1);
+
+    if (!existingTag) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" &&
+        existingTag.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        existingTag.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [updatedTag] = await db
+      .update(tags)
+      .set({ name: result.data.name, updatedAt: new Date() })
+      .where(eq(tags.id, id))
+      .returning({
+        id: tags.id,
+        name: tags.name,
+        createdAt: tags.createdAt,
+        updatedAt: tags.updatedAt,
+      });
+
+    // Renaming changes how tagged items render on every list using the tag
+    const affectedListIds = await getTaggedListIds(id);
+    for (const listId of affectedListIds) {
+      revalidateListCache(listId);
+    }
+
+    return NextResponse.json({
+      message: "Tag updated successfully",
+      tag: updatedTag,
+    });
+  } catch (error) {
+    console.error("Update tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Validate UUID format
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid tag ID" }, { status: 400 });
+    }
+
+    // Get current session
+    const session = await getCurrentSession();
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Fetch the tag and verify ownership
+    const [existingTag] = await db
+      .select()
+      .from(tags)
+      .where(eq(tags.id, id))
+      .limit(1);
+
+    if (!existingTag) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    const isOwner =
+      (session.type === "authenticated" &&
+        existingTag.userId === session.userId) ||
+      (session.type === "anonymous" &&
+        existingTag.anonymousSessionId === session.anonymousSessionId);
+
+    if (!isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Look up affected lists before the item links cascade away
+    const affectedListIds = await getTaggedListIds(id);
+
+    // Delete the tag (item links cascade delete, items are kept)
+    await db.delete(tags).where(eq(tags.id, id));
+
+    for (const listId of affectedListIds) {
+      revalidateListCache(listId);
+    }
+
+    return NextResponse.json({
+      message: "Tag deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// Mock data storage
+let mockTags: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+let createdAnonymousSessionId: string | null = null;
+
+const now = new Date();
+
+function ownedTags() {
+  return mockTags.filter((t) =>
+    currentSession?.type === "authenticated"
+      ? t.userId === currentSession.userId
+      : t.anonymousSessionId ===
+        (currentSession?.type === "anonymous"
+          ? currentSession.anonymousSessionId
+          : null)
+  );
+}
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+  getOrCreateAnonymousSession: vi.fn().mockImplementation(() => {
+    createdAnonymousSessionId = crypto.randomUUID();
+    return Promise.resolve({
+      id: createdAnonymousSessionId,
+      sessionToken: "new-anon-token",
+    });
+  }),
+}));
+
+// Mock database
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation(() => ({
+        where: vi.fn().mockImplementation(() => ({
+          orderBy: vi.fn().mockImplementation(() =>
+            Promise.resolve(
+              [...ownedTags()].sort((a, b) => a.name.localeCompare(b.name))
+            )
+          ),
+          // Duplicate-name lookup: tests only seed owned tags with the same name
+          limit: vi.fn().mockImplementation(() =>
+            Promise.resolve(ownedTags().slice(0, 1))
+          ),
+        })),
+      })),
+    })),
+    insert: vi.fn().mockImplementation(() => ({
+      values: vi.fn().mockImplementation((data: Record<string, unknown>) => ({
+        returning: vi.fn().mockImplementation(() => {
+          const newTag = {
+            id: crypto.randomUUID(),
+            userId: data.userId as string | null,
+            anonymousSessionId: data.anonymousSessionId as string | null,
+            name: data.name as string,
+            createdAt: now,
+            updatedAt: now,
+          };
+          mockTags.push(newTag);
+          return Promise.resolve([newTag]);
+        }),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET, POST } from "./route";
+
+describe("GET /api/tags", () => {
+  beforeEach(() => {
+    mockTags = [];
+    currentSession = null;
+    createdAnonymousSessionId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns empty array when no session exists", async () => {
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.tags).toEqual([]);
+  });
+
+  it("returns tags for authenticated user sorted by name", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    for (const name of ["shared", "electronics", "rental"]) {
+      mockTags.push({
+        id: crypto.randomUUID(),
+        userId,
+        anonymousSessionId: null,
+        name,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.tags.map((t: { name: string }) => t.name)).toEqual([
+      "electronics",
+      "rental",
+      "shared",
+    ]);
+  });
+
+  it("does not return tags from other users", async () => {
+    currentSession = {
+      type: "authenticated",
+      userId: crypto.randomUUID(),
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    mockTags.push({
+      id: crypto.randomUUID(),
+      userId: crypto.randomUUID(),
+      anonymousSessionId: null,
+      name: "optional",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.tags).toHaveLength(0);
+  });
+});
+
+describe("POST /api/tags", () => {
+  beforeEach(() => {
+    mockTags = [];
+    currentSession = null;
+    createdAnonymousSessionId = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for missing name", async () => {
+    const request = new NextRequest("http://localhost:3000/api/tags", {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation failed");
+    expect(data.details.name).toBeDefined();
+  });
+
+  it("creates tag for authenticated user", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    const request = new NextRequest("http://localhost:3000/api/tags", {
+      method: "POST",
+      body: JSON.stringify({ name: " shared " }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.message).toBe("Tag created successfully");
+    expect(data.tag.name).toBe("shared");
+    expect(mockTags[0].userId).toBe(userId);
+    expect(mockTags[0].anonymousSessionId).toBeNull();
+  });
+
+  it("returns 409 when the tag already exists", async () => {
+    const userId = crypto.randomUUID();
+    currentSession = {
+      type: "authenticated",
+      userId,
+      username: "testuser",
+      email: "test@example.com",
+    };
+
+    mockTags.push({
+      id: crypto.randomUUID(),
+      userId,
+      anonymousSessionId: null,
+      name: "Shared",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const request = new NextRequest("http://localhost:3000/api/tags", {
+      method: "POST",
+      body: JSON.stringify({ name: "shared" }),
+    });
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe("Tag already exists");
+    expect(mockTags).toHaveLength(1);
+  });
+
+  it("creates an anonymous session when none exists", async () => {
+    const request = new NextRequest("http://localhost:3000/api/tags", {
+      method: "POST",
+      body: JSON.stringify({ name: "rental" }),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(201);
+    expect(createdAnonymousSessionId).not.toBeNull();
+    expect(mockTags[0].userId).toBeNull();
+    expect(mockTags[0].anonymousSessionId).toBe(createdAnonymousSessionId);
+  });
+});
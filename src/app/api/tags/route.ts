@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { tags } from "@/db/schema";
+import { createTagSchema } from "@/lib/validations/tag";
+import {
+  getCurrentSession,
+  getOrCreateAnonymousSession,
+} from "@/lib/session";
+import { and, eq, asc, sql } from "drizzle-orm";
+
+export async function GET() {
+  try {
+    // Get current session - support both authenticated and anonymous users
+    const session = await getCurrentSession();
+
+    // If no session exists, there are no tags yet
+    if (!session) {
+      return NextResponse.json({ tags: [] }, { status: 200 });
+    }
+
+    const whereClause =
+      session.type === "authenticated"
+        ? eq(tags.userId, session.userId)
+        : eq(tags.anonymousSessionId, session.anonymousSessionId);
+
+    const userTags = await db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        createdAt: tags.createdAt,
+        updatedAt: tags.updatedAt,
+      })
+      .from(tags)
+      .where(whereClause)
+      .orderBy(asc(tags.name));
+
+    return NextResponse.json({ tags: userTags }, { status: 200 });
+  } catch (error) {
+    console.error("Get tags error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const result = createTagSchema.safeParse(body);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      return NextResponse.json(
+        { error: "Validation failed", details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { name } = result.data;
+
+    // Get current session - support both authenticated and anonymous users
+    let session = await getCurrentSession();
+
+    // If no session exists, create an anonymous session for the user
+    if (!session) {
+      const anonymousSession = await getOrCreateAnonymousSession();
+      session = {
+        type: "anonymous",
+        anonymousSessionId: anonymousSession.id,
+      };
+    }
+
+    const ownerCondition =
+      session.type === "authenticated"
+        ? eq(tags.userId, session.userId)
+        : eq(tags.anonymousSessionId, session.anonymousSessionId);
+
+    // Tag names are unique per owner (case-insensitive)
+    const [existingTag] = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(
+        and(ownerCondition, eq(sql`lower(${tags.name})`, name.toLowerCase()))
+      )
+      .limit(1);
+
+    if (existingTag) {
+      return NextResponse.json(
+        { error: "Tag already exists" },
+        { status: 409 }
+      );
+    }
+
+    const [newTag] = await db
+      .insert(tags)
+      .values({
+        userId: session.type === "authenticated" ? session.userId : null,
+        anonymousSessionId:
+          session.type === "anonymous" ? session.anonymousSessionId : null,
+        name,
+      })
+      .returning({
+        id: tags.id,
+        name: tags.name,
+        createdAt: tags.createdAt,
+        updatedAt: tags.updatedAt,
+      });
+
+    return NextResponse.json(
+      {
+        message: "Tag created successfully",
+        tag: newTag,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create tag error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
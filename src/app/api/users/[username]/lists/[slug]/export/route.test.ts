@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+type MockSession =
+  | { type: "authenticated"; userId: string; username: string; email: string }
+  | { type: "anonymous"; anonymousSessionId: string }
+  | null;
+
+let currentSession: MockSession = null;
+
+let mockUsers: Array<{
+  id: string;
+  username: string;
+  displayUnit?: string;
+}> = [];
+
+let mockLists: Array<{
+  id: string;
+  userId: string | null;
+  anonymousSessionId: string | null;
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  hidePrices: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}> = [];
+
+let queryUsername: string | null = null;
+let querySlug: string | null = null;
+
+const now = new Date();
+
+// Mock session functions
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: vi.fn().mockImplementation(() => {
+    return Promise.resolve(currentSession);
+  }),
+}));
+
+// Mock list content loader
+vi.mock("@/lib/lists", () => ({
+  getListCategoriesWithItems: vi.fn().mockResolvedValue([
+    {
+      id: "cat-1",
+      listId: "list-1",
+      name: "Kitchen",
+      description: null,
+      position: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      items: [
+        {
+          id: "item-1",
+          categoryId: "cat-1",
+          gearId: null,
+          name: "Stove",
+          description: null,
+          url: null,
+          weightAmount: 2,
+          weightUnit: "oz",
+          label: "none",
+          quantity: 1,
+          price: 40,
+          currency: "USD",
+          position: 0,
+          packedCount: 1,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ],
+    },
+  ]),
+}));
+
+// Mock database: route user and list lookups by table
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation((table: PgTable) => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() => {
+            if (getTableName(table) === "users") {
+              return Promise.resolve(
+                mockUsers.filter((u) => u.username === queryUsername)
+              );
+            }
+            const user = mockUsers.find((u) => u.username === queryUsername);
+            return Promise.resolve(
+              mockLists.filter(
+                (l) => l.userId === user?.id && l.slug === querySlug
+              )
+            );
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Import after mocking
+import { GET } from "./route";
+
+function createRequest(username: string, slug: string, format?: string) {
+  queryUsername = username;
+  querySlug = slug;
+  const query = format ? `?format=${format}` : "";
+  return [
+    new NextRequest(
+      `http://localhost:3000/api/users/${username}/lists/${slug}/export${query}`
+    ),
+    { params: Promise.resolve({ username, slug }) },
+  ] as const;
+}
+
+function addUserWithList(isPublic: boolean, hidePrices = false) {
+  const user = { id: crypto.randomUUID(), username: "hiker", displayUnit: "oz" };
+  mockUsers.push(user);
+  mockLists.push({
+    id: crypto.randomUUID(),
+    userId: user.id,
+    anonymousSessionId: null,
+    name: "Desert Kit",
+    slug: "desert-kit",
+    description: null,
+    isPublic,
+    hidePrices,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return user;
+}
+
+describe("GET /api/users/[username]/lists/[slug]/export", () => {
+  beforeEach(() => {
+    mockUsers = [];
+    mockLists = [];
+    currentSession = null;
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 400 for unsupported format", async () => {
+    addUserWithList(true);
+    const response = await GET(...createRequest("hiker", "desert-kit", "pdf"));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 404 for unknown user", async () => {
+    const response = await GET(...createRequest("nobody", "desert-kit"));
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("User not found");
+  });
+
+  it("returns 404 for unknown list", async () => {
+    addUserWithList(true);
+    const response = await GET(...createRequest("hiker", "missing"));
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("List not found");
+  });
+
+  it("returns 403 for a private list when not the owner", async () => {
+    addUserWithList(false);
+    const response = await GET(...createRequest("hiker", "desert-kit"));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("allows the owner to export a private list", async () => {
+    const user = addUserWithList(false);
+    currentSession = {
+      type: "authenticated",
+      userId: user.id,
+      username: user.username,
+      email: "hiker@example.com",
+    };
+
+    const response = await GET(...createRequest("hiker", "desert-kit"));
+
+    expect(response.status).toBe(200);
+  });
+
+  it("exports a public list as JSON", async () => {
+    addUserWithList(true);
+    const response = await GET(...createRequest("hiker", "desert-kit", "json"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="desert-kit.json"'
+    );
+    expect(data.list.name).toBe("Desert Kit");
+    expect(data.list).not.toHaveProperty("userId");
+    expect(data.summary.totalItemCount).toBe(1);
+  });
+
+  it("exports a public list as LighterPack CSV", async () => {
+    addUserWithList(true);
+    const response = await GET(...createRequest("hiker", "desert-kit", "csv"));
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="desert-kit.csv"'
+    );
+    expect(text.split("\r\n")[1]).toBe("Stove,Kitchen,,1,2,ounce,,40,,");
+  });
+
+  it("exports Markdown in the owner's unit", async () => {
+    addUserWithList(true);
+    const response = await GET(...createRequest("hiker", "desert-kit", "md"));
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/markdown");
+    expect(text).toContain("## Kitchen");
+    expect(text).toContain("| Stove | 1 | 2.0 oz |");
+    expect(text).toContain("| Total pack weight | 2.0 oz |");
+  });
+
+  it("exports BBCode in the viewer's unit", async () => {
+    addUserWithList(true);
+    const response = await GET(
+      ...createRequest("hiker", "desert-kit", "bbcode&unit=g")
+    );
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="desert-kit.txt"'
+    );
+    expect(text).toContain("[tr][td]Stove[/td][td]1[/td][td]57 g[/td][/tr]");
+  });
+
+  it("strips prices when the owner hides them", async () => {
+    addUserWithList(true, true);
+    const response = await GET(...createRequest("hiker", "desert-kit", "json"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.categories[0].items[0].price).toBeNull();
+  });
+
+  it("keeps hidden prices in the owner's own export", async () => {
+    const user = addUserWithList(true, true);
+    currentSession = {
+      type: "authenticated",
+      userId: user.id,
+      username: user.username,
+      email: "hiker@example.com",
+    };
+
+    const response = await GET(...createRequest("hiker", "desert-kit", "json"));
+    const data = await response.json();
+
+    expect(data.categories[0].items[0].price).toBe(40);
+  });
+
+  it("resets packed state in visitors' exports", async () => {
+    addUserWithList(true);
+    const response = await GET(...createRequest("hiker", "desert-kit", "json"));
+    const data = await response.json();
+
+    expect(data.categories[0].items[0].packedCount).toBe(0);
+  });
+
+  it("keeps packed state in the owner's own export", async () => {
+    const user = addUserWithList(true);
+    currentSession = {
+      type: "authenticated",
+      userId: user.id,
+      username: user.username,
+      email: "hiker@example.com",
+    };
+
+    const response = await GET(...createRequest("hiker", "desert-kit", "json"));
+    const data = await response.json();
+
+    expect(data.categories[0].items[0].packedCount).toBe(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { users, lists } from "@/db/schema";
+import { getCurrentSession } from "@/lib/session";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import { createExportResponse, parseExportFormat } from "@/lib/export";
+import { stripPrices } from "@/lib/cost";
+import { stripPackedCounts } from "@/lib/checklist";
+import {
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { eq, and } from "drizzle-orm";
+
+type RouteParams = {
+  params: Promise<{ username: string; slug: string }>;
+};
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { username, slug } = await params;
+
+    const format = parseExportFormat(request.nextUrl.searchParams.get("format"));
+    if (!format) {
+      return NextResponse.json(
+        { error: "Unsupported export format" },
+        { status: 400 }
+      );
+    }
+
+    // Find the user by username
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.username, username))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Find the list by user ID and slug
+    const [list] = await db
+      .select()
+      .from(lists)
+      .where(and(eq(lists.userId, user.id), eq(lists.slug, slug)))
+      .limit(1);
+
+    if (!list) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    // Check access: either the list is public, or the user owns it
+    const session = await getCurrentSession();
+    const isOwner =
+      session?.type === "authenticated" && list.userId === session.userId;
+
+    if (!list.isPublic && !isOwner) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const listCategories = await getListCategoriesWithItems(list.id);
+
+    return createExportResponse(
+      list,
+      isOwner
+        ? listCategories
+        : stripPackedCounts(
+            list.hidePrices ? stripPrices(listCategories) : listCategories
+          ),
+      format,
+      {
+        // Viewers can override the list's and the owner's unit with ?unit=oz
+        displayUnit: resolveDisplayUnit(
+          request.nextUrl.searchParams.get("unit"),
+          list.displayUnit,
+          user.displayUnit
+        ),
+        trip: getListTripSettings(list),
+        water: getListWaterCarry(list),
+      }
+    );
+  } catch (error) {
+    console.error("Export public list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
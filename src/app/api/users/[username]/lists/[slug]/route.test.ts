@@ -19,6 +19,7 @@ let mockLists: Array<{
   slug: string;
   description: string | null;
   isPublic: boolean;
+  hidePrices?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }> = [];
@@ -43,7 +44,10 @@ let mockItems: Array<{
   weightUnit: string;
   label: string;
   quantity: number;
+  price?: number | null;
+  currency?: string;
   position: number;
+  packedCount?: number;
   createdAt: Date;
   updatedAt: Date;
 }> = [];
@@ -99,6 +103,24 @@ let foundListId: string | null = null;
 // Track which query type we're in
 let currentQueryType: "user" | "list" | "session" | "categories" | "items" | null = null;
 
+// Mock item tag lookup
+let mockItemTags = new Map<string, Array<{ id: string; name: string }>>();
+
+vi.mock("@/lib/tags", () => ({
+  withItemTags: vi.fn().mockImplementation(
+    (categories: Array<{ items: Array<{ id: string }> }>) =>
+      Promise.resolve(
+        categories.map((category) => ({
+          ...category,
+          items: category.items.map((item) => ({
+            ...item,
+            tags: mockItemTags.get(item.id) ?? [],
+          })),
+        }))
+      )
+  ),
+}));
+
 // Mock database
 vi.mock("@/db", () => ({
   db: {
@@ -274,6 +296,7 @@ const createParams = (username: string, slug: string) => {
 
 describe("GET /api/users/[username]/lists/[slug]", () => {
   beforeEach(() => {
+    mockItemTags = new Map();
     mockUsers = [];
     mockLists = [];
     mockCategories = [];
@@ -1286,6 +1309,215 @@ describe("GET /api/users/[username]/lists/[slug]", () => {
       expect(item).toHaveProperty("position", 0);
     });
 
+    it("hides item prices when the list hides prices", async () => {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const catId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+        passwordHash: "hash",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "Test Pack",
+        slug: "test-pack",
+        description: null,
+        isPublic: true,
+        hidePrices: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: catId,
+        listId,
+        name: "Gear",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: itemId,
+        categoryId: catId,
+        name: "Backpack",
+        description: "Ultralight backpack",
+        url: "https://example.com/backpack",
+        weightAmount: 450,
+        weightUnit: "g",
+        label: "worn",
+        quantity: 1,
+        price: 249,
+        currency: "USD",
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/users/testuser/lists/test-pack"
+      );
+
+      const response = await GET(request, {
+        params: createParams("testuser", "test-pack"),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.list.hidePrices).toBe(true);
+      expect(data.categories[0].items[0].name).toBe("Backpack");
+      expect(data.categories[0].items[0].price).toBeNull();
+    });
+
+    it("hides packed state from visitors", async () => {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const catId = crypto.randomUUID();
+
+      mockUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+        passwordHash: "hash",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "Test Pack",
+        slug: "test-pack",
+        description: null,
+        isPublic: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: catId,
+        listId,
+        name: "Gear",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: crypto.randomUUID(),
+        categoryId: catId,
+        name: "Stakes",
+        description: null,
+        url: null,
+        weightAmount: 6,
+        weightUnit: "g",
+        label: "none",
+        quantity: 8,
+        position: 0,
+        packedCount: 5,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/users/testuser/lists/test-pack"
+      );
+
+      const response = await GET(request, {
+        params: createParams("testuser", "test-pack"),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.categories[0].items[0].packedCount).toBe(0);
+    });
+
+    it("includes item tags", async () => {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const catId = crypto.randomUUID();
+      const itemId = crypto.randomUUID();
+
+      mockUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+        passwordHash: "hash",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "Test Pack",
+        slug: "test-pack",
+        description: null,
+        isPublic: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: catId,
+        listId,
+        name: "Gear",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItemTags.set(itemId, [
+        { id: crypto.randomUUID(), name: "optional" },
+        { id: crypto.randomUUID(), name: "shared" },
+      ]);
+
+      mockItems.push({
+        id: itemId,
+        categoryId: catId,
+        name: "Backpack",
+        description: "Ultralight backpack",
+        url: "https://example.com/backpack",
+        weightAmount: 450,
+        weightUnit: "g",
+        label: "worn",
+        quantity: 1,
+        price: 249,
+        currency: "USD",
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/users/testuser/lists/test-pack"
+      );
+
+      const response = await GET(request, {
+        params: createParams("testuser", "test-pack"),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(
+        data.categories[0].items[0].tags.map((t: { name: string }) => t.name)
+      ).toEqual(["optional", "shared"]);
+    });
+
     it("handles items with different labels correctly", async () => {
       const userId = crypto.randomUUID();
       const listId = crypto.randomUUID();
@@ -1384,4 +1616,95 @@ describe("GET /api/users/[username]/lists/[slug]", () => {
       expect(items[2].label).toBe("consumable");
     });
   });
+
+  describe("export formats", () => {
+    function addPublicListWithItem() {
+      const userId = crypto.randomUUID();
+      const listId = crypto.randomUUID();
+      const catId = crypto.randomUUID();
+
+      mockUsers.push({
+        id: userId,
+        username: "testuser",
+        email: "test@example.com",
+        passwordHash: "hash",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockLists.push({
+        id: listId,
+        userId,
+        anonymousSessionId: null,
+        name: "Test Pack",
+        slug: "test-pack",
+        description: null,
+        isPublic: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockCategories.push({
+        id: catId,
+        listId,
+        name: "Shelter",
+        description: null,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      mockItems.push({
+        id: crypto.randomUUID(),
+        categoryId: catId,
+        name: "Tent",
+        description: null,
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        label: "none",
+        quantity: 1,
+        position: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    it("returns Markdown for ?format=md", async () => {
+      addPublicListWithItem();
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/users/testuser/lists/test-pack?format=md&unit=kg"
+      );
+
+      const response = await GET(request, {
+        params: createParams("testuser", "test-pack"),
+      });
+      const markdown = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toContain("text/markdown");
+      expect(response.headers.get("Content-Disposition")).toBe(
+        'attachment; filename="test-pack.md"'
+      );
+      expect(markdown).toContain("# Test Pack");
+      expect(markdown).toContain("| Tent | 1 | 0.5 kg |");
+    });
+
+    it("returns 400 for an unsupported format", async () => {
+      addPublicListWithItem();
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/users/testuser/lists/test-pack?format=xml"
+      );
+
+      const response = await GET(request, {
+        params: createParams("testuser", "test-pack"),
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Unsupported export format");
+    });
+  });
 });
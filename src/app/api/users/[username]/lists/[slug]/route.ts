@@ -1,17 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { users, lists, categories, items } from "@/db/schema";
+import { users, lists } from "@/db/schema";
 import { getCurrentSession } from "@/lib/session";
-import { eq, and, asc, inArray } from "drizzle-orm";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import { stripPrices } from "@/lib/cost";
+import { stripPackedCounts } from "@/lib/checklist";
+import { withItemTags } from "@/lib/tags";
+import { createExportResponse, parseExportFormat } from "@/lib/export";
+import {
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { eq, and } from "drizzle-orm";
 
 type RouteParams = {
   params: Promise<{ username: string; slug: string }>;
 };
 
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { username, slug } = await params;
 
+    // ?format=md (or any export format) returns the list as a file, the same
+    // as the export route
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.has("format")
+      ? parseExportFormat(searchParams.get("format"))
+      : null;
+    if (searchParams.has("format") && !format) {
+      return NextResponse.json(
+        { error: "Unsupported export format" },
+        { status: 400 }
+      );
+    }
+
     // Find the user by username
     const [user] = await db
       .select()
@@ -47,33 +70,31 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Fetch categories for this list, ordered by position
-    const listCategories = await db
-      .select()
-      .from(categories)
-      .where(eq(categories.listId, list.id))
-      .orderBy(asc(categories.position));
+    // Fetch categories with their items in order and attach each item's tags
+    const categoriesWithItems = await withItemTags(
+      await getListCategoriesWithItems(list.id)
+    );
 
-    // Fetch all items for these categories
-    const categoryIds = listCategories.map((c) => c.id);
-    let listItems: (typeof items.$inferSelect)[] = [];
+    // Visitors see neither hidden prices nor the owner's packing progress
+    const visibleCategories = isOwner
+      ? categoriesWithItems
+      : stripPackedCounts(
+          list.hidePrices ? stripPrices(categoriesWithItems) : categoriesWithItems
+        );
 
-    if (categoryIds.length > 0) {
-      listItems = await db
-        .select()
-        .from(items)
-        .where(inArray(items.categoryId, categoryIds))
-        .orderBy(asc(items.position));
+    if (format) {
+      return createExportResponse(list, visibleCategories, format, {
+        // Viewers can override the list's and the owner's unit with ?unit=oz
+        displayUnit: resolveDisplayUnit(
+          searchParams.get("unit"),
+          list.displayUnit,
+          user.displayUnit
+        ),
+        trip: getListTripSettings(list),
+        water: getListWaterCarry(list),
+      });
     }
 
-    // Group items by category
-    const categoriesWithItems = listCategories.map((category) => ({
-      ...category,
-      items: listItems
-        .filter((item) => item.categoryId === category.id)
-        .sort((a, b) => a.position - b.position),
-    }));
-
     return NextResponse.json({
       list: {
         id: list.id,
@@ -81,10 +102,11 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
         slug: list.slug,
         description: list.description,
         isPublic: list.isPublic,
+        hidePrices: list.hidePrices,
         createdAt: list.createdAt,
         updatedAt: list.updatedAt,
       },
-      categories: categoriesWithItems,
+      categories: visibleCategories,
       isOwner: !!isOwner,
       username: user.username,
     });
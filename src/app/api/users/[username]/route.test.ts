@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+let mockUsers: Array<{
+  id: string;
+  username: string;
+  displayUnit: string;
+  bio: string | null;
+  avatarUrl: string | null;
+  createdAt: Date;
+}> = [];
+
+let mockLists: Array<{
+  id: string;
+  userId: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  updatedAt: Date;
+}> = [];
+
+// Latest item change per list slug, for lists edited without a list update
+let itemUpdatedAt: Record<string, Date> = {};
+
+let queryUsername: string | null = null;
+
+// Run cached fetches directly, recording their tags
+vi.mock("next/cache", () => ({
+  unstable_cache: vi.fn().mockImplementation(
+    (fn: () => Promise<unknown>) => fn
+  ),
+}));
+
+// Mock database: route user and list lookups by table
+vi.mock("@/db", () => ({
+  db: {
+    select: vi.fn().mockImplementation(() => ({
+      from: vi.fn().mockImplementation((table: PgTable) => ({
+        where: vi.fn().mockImplementation(() => ({
+          limit: vi.fn().mockImplementation(() =>
+            Promise.resolve(
+              mockUsers.filter((u) => u.username === queryUsername)
+            )
+          ),
+          orderBy: vi.fn().mockImplementation(() => {
+            expect(getTableName(table)).toBe("lists");
+            const user = mockUsers.find((u) => u.username === queryUsername);
+            return Promise.resolve(
+              mockLists
+                .filter((l) => l.userId === user?.id && l.isPublic)
+                .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+            );
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+// Every list holds a worn jacket and a 500 g tent
+vi.mock("@/lib/lists", () => ({
+  getCategoriesWithItemsByList: vi.fn().mockImplementation((listIds: string[]) =>
+    Promise.resolve(
+      new Map(
+        listIds.map((listId) => {
+          const list = mockLists.find((l) => l.id === listId)!;
+          const updatedAt = itemUpdatedAt[list.slug] ?? list.updatedAt;
+          return [
+            listId,
+            [
+              {
+                id: `category-${listId}`,
+                name: "Shelter",
+                updatedAt: list.updatedAt,
+                items: [
+                  { weightAmount: 500, weightUnit: "g", quantity: 1, label: "none", updatedAt },
+                  { weightAmount: 300, weightUnit: "g", quantity: 1, label: "worn", updatedAt },
+                ],
+              },
+            ],
+          ];
+        })
+      )
+    )
+  ),
+}));
+
+// Import after mocking
+import { GET } from "./route";
+import { db } from "@/db";
+import { unstable_cache } from "next/cache";
+import { getCategoriesWithItemsByList } from "@/lib/lists";
+
+function createRequest(username: string) {
+  queryUsername = username;
+  return {
+    request: new NextRequest(`http://localhost:3000/api/users/${username}`),
+    context: { params: Promise.resolve({ username }) },
+  };
+}
+
+function addUser(username = "hiker") {
+  const user = {
+    id: crypto.randomUUID(),
+    username,
+    displayUnit: "oz",
+    bio: "Thru-hiker",
+    avatarUrl: "https://example.com/me.png",
+    createdAt: new Date("2024-01-01"),
+  };
+  mockUsers.push(user);
+  return user;
+}
+
+function addList(userId: string, slug: string, isPublic: boolean, updatedAt: string) {
+  mockLists.push({
+    id: crypto.randomUUID(),
+    userId,
+    name: slug,
+    slug,
+    description: null,
+    isPublic,
+    updatedAt: new Date(updatedAt),
+  });
+}
+
+describe("GET /api/users/[username]", () => {
+  beforeEach(() => {
+    mockUsers = [];
+    mockLists = [];
+    itemUpdatedAt = {};
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns 404 for unknown users", async () => {
+    const { request, context } = createRequest("nobody");
+    const response = await GET(request, context);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("User not found");
+  });
+
+  it("returns 404 for users without public lists", async () => {
+    const user = addUser();
+    addList(user.id, "private-kit", false, "2024-05-01");
+
+    const { request, context } = createRequest("hiker");
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns the profile with public lists only, newest first", async () => {
+    const user = addUser();
+    addList(user.id, "old-kit", true, "2024-02-01");
+    addList(user.id, "private-kit", false, "2024-05-01");
+    addList(user.id, "new-kit", true, "2024-04-01");
+
+    const { request, context } = createRequest("hiker");
+    const response = await GET(request, context);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.profile).toMatchObject({
+      username: "hiker",
+      bio: "Thru-hiker",
+      avatarUrl: "https://example.com/me.png",
+      displayUnit: "oz",
+    });
+    expect(data.profile.lists.map((l: { slug: string }) => l.slug)).toEqual([
+      "new-kit",
+      "old-kit",
+    ]);
+  });
+
+  it("includes base weight and item count per list", async () => {
+    const user = addUser();
+    addList(user.id, "desert-kit", true, "2024-02-01");
+
+    const { request, context } = createRequest("hiker");
+    const response = await GET(request, context);
+    const data = await response.json();
+
+    expect(data.profile.lists[0]).toMatchObject({
+      baseWeight: 500,
+      itemCount: 2,
+      updatedAt: "2024-02-01T00:00:00.000Z",
+    });
+  });
+
+  it("dates and orders lists by their latest item change", async () => {
+    const user = addUser();
+    addList(user.id, "old-kit", true, "2024-02-01");
+    addList(user.id, "new-kit", true, "2024-04-01");
+    itemUpdatedAt["old-kit"] = new Date("2024-06-01");
+
+    const { request, context } = createRequest("hiker");
+    const response = await GET(request, context);
+    const data = await response.json();
+
+    expect(data.profile.lists.map((l: { slug: string }) => l.slug)).toEqual([
+      "old-kit",
+      "new-kit",
+    ]);
+    expect(data.profile.lists[0].updatedAt).toBe("2024-06-01T00:00:00.000Z");
+  });
+
+  it("loads every list's contents in one cached batch", async () => {
+    const user = addUser();
+    addList(user.id, "old-kit", true, "2024-02-01");
+    addList(user.id, "new-kit", true, "2024-04-01");
+    const listIds = mockLists.map((l) => l.id).reverse();
+
+    const { request, context } = createRequest("hiker");
+    await GET(request, context);
+
+    expect(getCategoriesWithItemsByList).toHaveBeenCalledTimes(1);
+    expect(getCategoriesWithItemsByList).toHaveBeenCalledWith(listIds);
+    expect(unstable_cache).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.any(Array),
+      expect.objectContaining({ tags: listIds.map((id) => `list-${id}`) })
+    );
+  });
+
+  it("does not expose private account fields", async () => {
+    const user = addUser();
+    addList(user.id, "desert-kit", true, "2024-02-01");
+
+    const { request, context } = createRequest("hiker");
+    const response = await GET(request, context);
+    const data = await response.json();
+
+    expect(data.profile).not.toHaveProperty("id");
+    expect(data.profile).not.toHaveProperty("email");
+  });
+
+  it("returns 500 when the lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error("DB error");
+    });
+
+    const { request, context } = createRequest("hiker");
+    const response = await GET(request, context);
+
+    expect(response.status).toBe(500);
+  });
+});
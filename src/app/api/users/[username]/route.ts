@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPublicProfile } from "@/lib/profile";
+
+type RouteParams = {
+  params: Promise<{ username: string }>;
+};
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { username } = await params;
+
+    // Same rule as the profile page: no public lists, no profile
+    const profile = await getPublicProfile(username);
+    if (!profile) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Get user profile error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ThemeProvider } from "@/components/theme-provider";
+import { ToastProvider } from "@/components/ui/toast";
+import { PublicListClient } from "@/app/(app)/[username]/[slug]/public-list-client";
+import { parseEmbedTheme } from "@/lib/embed";
+import { getPublicListData } from "@/lib/public-list";
+import { resolveDisplayUnit } from "@/lib/weight";
+
+type PageProps = {
+  params: Promise<{ username: string; slug: string }>;
+  searchParams: Promise<{ unit?: string; theme?: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { username, slug } = await params;
+  const data = await getPublicListData(username, slug);
+
+  return {
+    title: data ? `${data.list.name} by ${data.username}` : "List Not Found",
+    // The list page itself is the canonical, indexable copy
+    robots: { index: false },
+  };
+}
+
+/**
+ * Iframe version of a public list, outside the app chrome. Shares the public
+ * page's cached data so it is refreshed whenever the list changes.
+ */
+export default async function EmbedListPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { username, slug } = await params;
+  // The embedding page picks the unit and theme, e.g. ?unit=oz&theme=dark
+  const { unit, theme } = await searchParams;
+  const data = await getPublicListData(username, slug);
+
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <ThemeProvider forcedTheme={parseEmbedTheme(theme)}>
+      <ToastProvider>
+        <PublicListClient
+          list={data.list}
+          categories={data.categories}
+          username={data.username}
+          forkedFrom={data.forkedFrom}
+          displayUnit={resolveDisplayUnit(unit, data.displayUnit)}
+          trip={data.trip}
+          water={data.water}
+          baseWeightTarget={data.baseWeightTarget}
+          weightClassThresholds={data.weightClassThresholds}
+          caloriesPerDay={data.caloriesPerDay}
+          embed
+        />
+      </ToastProvider>
+    </ThemeProvider>
+  );
+}
@@ -1,21 +1,5 @@
 import type { Metadata } from "next";
-import { cookies } from "next/headers";
 import { Geist, Geist_Mono } from "next/font/google";
-import { ThemeProvider } from "@/components/theme-provider";
-import { ToastProvider } from "@/components/ui/toast";
-import {
-  SidebarProvider,
-  Sidebar,
-  SidebarHeader,
-  SidebarContent,
-  SidebarLayout,
-  SidebarTrigger,
-  ListsSidebarContent,
-} from "@/components/sidebar";
-import { NewListButtonClient } from "@/components/new-list-button";
-import { ThemeToggle } from "@/components/theme-toggle";
-import { AuthButtons } from "@/components/auth-buttons";
-import { getSessionUser } from "@/lib/session";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -33,59 +17,18 @@ export const metadata: Metadata = {
   description: "Track your backpacking gear weight and optimize your pack",
 };
 
-export default async function RootLayout({
+export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  const cookieStore = await cookies();
-  const sidebarCookie = cookieStore.get("sidebar-open");
-  const defaultOpen = sidebarCookie?.value === "true";
-
   return (
     <html lang="en" suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ThemeProvider>
-          <ToastProvider>
-            <SidebarProvider defaultOpen={defaultOpen}>
-              <Sidebar>
-                <SidebarHeader>
-                  <span className="font-semibold text-zinc-900 dark:text-zinc-100">
-                    Ultralight
-                  </span>
-                </SidebarHeader>
-                <SidebarContent>
-                  <ListsSidebarContent />
-                </SidebarContent>
-              </Sidebar>
-              <SidebarLayout>
-                <AppHeader />
-                {children}
-              </SidebarLayout>
-            </SidebarProvider>
-          </ToastProvider>
-        </ThemeProvider>
+        {children}
       </body>
     </html>
   );
 }
-
-async function AppHeader() {
-  const user = await getSessionUser();
-
-  return (
-    <header className="sticky top-0 z-30 flex h-14 items-center gap-4 border-b border-zinc-200 bg-white/80 px-4 backdrop-blur-sm dark:border-zinc-800 dark:bg-zinc-950/80">
-      <SidebarTrigger />
-      <div className="flex-1" />
-      <AuthButtons user={user} />
-      <ThemeToggle />
-      <NewListButton />
-    </header>
-  );
-}
-
-function NewListButton() {
-  return <NewListButtonClient />;
-}
@@ -1,169 +0,0 @@
-"use client";
-
-import * as React from "react";
-import Link from "next/link";
-import { useRouter } from "next/navigation";
-import { signInSchema } from "@/lib/validations/auth";
-
-interface FieldErrors {
-  email?: string[];
-  password?: string[];
-}
-
-export default function SignInPage() {
-  const router = useRouter();
-  const [email, setEmail] = React.useState("");
-  const [password, setPassword] = React.useState("");
-  const [isSubmitting, setIsSubmitting] = React.useState(false);
-  const [error, setError] = React.useState<string | null>(null);
-  const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
-    setFieldErrors({});
-
-    const validationResult = signInSchema.safeParse({ email, password });
-
-    if (!validationResult.success) {
-      const errors = validationResult.error.flatten().fieldErrors;
-      setFieldErrors({
-        email: errors.email,
-        password: errors.password,
-      });
-      return;
-    }
-
-    setIsSubmitting(true);
-
-    try {
-      const response = await fetch("/api/auth/signin", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        if (result.details) {
-          setFieldErrors(result.details);
-        } else {
-          setError(result.error || "An error occurred");
-        }
-        return;
-      }
-
-      // Redirect to home page on success
-      router.push("/");
-      router.refresh();
-    } catch {
-      setError("Failed to sign in. Please try again.");
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
-
-  return (
-    <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 dark:bg-neutral-950">
-      <div className="w-full max-w-md space-y-6">
-        <div className="space-y-2 text-center">
-          <h1 className="text-2xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100">
-            Welcome back
-          </h1>
-          <p className="text-sm text-neutral-500 dark:text-neutral-400">
-            Sign in to your account to continue
-          </p>
-        </div>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          {error && (
-            <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
-              {error}
-            </div>
-          )}
-
-          <div className="space-y-2">
-            <label
-              htmlFor="email"
-              className="text-sm font-medium leading-none text-neutral-900 dark:text-neutral-100"
-            >
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="you@example.com"
-              disabled={isSubmitting}
-              className={`flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
-                fieldErrors.email
-                  ? "border-red-500 dark:border-red-500"
-                  : "border-neutral-200 dark:border-neutral-800"
-              }`}
-            />
-            {fieldErrors.email && (
-              <p className="text-sm text-red-600 dark:text-red-400">
-                {fieldErrors.email[0]}
-              </p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <label
-              htmlFor="password"
-              className="text-sm font-medium leading-none text-neutral-900 dark:text-neutral-100"
-            >
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter your password"
-              disabled={isSubmitting}
-              className={`flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
-                fieldErrors.password
-                  ? "border-red-500 dark:border-red-500"
-                  : "border-neutral-200 dark:border-neutral-800"
-              }`}
-            />
-            {fieldErrors.password && (
-              <p className="text-sm text-red-600 dark:text-red-400">
-                {fieldErrors.password[0]}
-              </p>
-            )}
-          </div>
-
-          <button
-            type="submit"
-            disabled={isSubmitting}
-            className="inline-flex h-10 w-full items-center justify-center rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-neutral-50 ring-offset-white transition-colors hover:bg-neutral-900/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 dark:bg-neutral-50 dark:text-neutral-900 dark:ring-offset-neutral-950 dark:hover:bg-neutral-50/90 dark:focus-visible:ring-neutral-300"
-          >
-            {isSubmitting ? "Signing in..." : "Sign in"}
-          </button>
-        </form>
-
-        <div className="space-y-2 text-center">
-          <Link
-            href="/forgot-password"
-            className="text-sm text-neutral-600 underline-offset-4 hover:underline dark:text-neutral-400"
-          >
-            Forgot your password?
-          </Link>
-          <p className="text-sm text-neutral-500 dark:text-neutral-400">
-            Don&apos;t have an account?{" "}
-            <Link
-              href="/signup"
-              className="text-neutral-900 underline-offset-4 hover:underline dark:text-neutral-100"
-            >
-              Sign up
-            </Link>
-          </p>
-        </div>
-      </div>
-    </div>
-  );
-}
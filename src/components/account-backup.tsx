@@ -0,0 +1,117 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/ui/toast";
+
+export function AccountBackup() {
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const router = useRouter();
+  const { showToast } = useToast();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after a failed restore
+    e.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    setIsRestoring(true);
+
+    try {
+      let backup: unknown;
+      try {
+        backup = JSON.parse(await file.text());
+      } catch {
+        showToast("Backup file is not valid JSON", "error");
+        return;
+      }
+
+      const response = await fetch("/api/account/restore", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(backup),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = result.details
+          ? Object.values(result.details as Record<string, string[]>)[0]?.[0]
+          : null;
+        showToast(details || result.error || "Failed to restore backup", "error");
+        return;
+      }
+
+      showToast(`Restored ${result.lists.length} lists`, "success");
+      router.refresh();
+    } catch {
+      showToast("Failed to restore backup", "error");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <a
+        href="/api/account/backup"
+        download
+        className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm text-zinc-600 hover:bg-zinc-50 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800/50 dark:hover:text-zinc-100"
+      >
+        <DownloadIcon className="h-4 w-4" />
+        Download backup
+      </a>
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isRestoring}
+        className="flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm text-zinc-600 hover:bg-zinc-50 hover:text-zinc-900 disabled:opacity-50 dark:text-zinc-400 dark:hover:bg-zinc-800/50 dark:hover:text-zinc-100"
+      >
+        <UploadIcon className="h-4 w-4" />
+        {isRestoring ? "Restoring..." : "Restore backup"}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+        aria-label="Backup file"
+      />
+    </div>
+  );
+}
+
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.955 3.129V2.75z" />
+      <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+    </svg>
+  );
+}
+
+function UploadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M9.25 13.25a.75.75 0 001.5 0V4.636l2.955 3.129a.75.75 0 001.09-1.03l-4.25-4.5a.75.75 0 00-1.09 0l-4.25 4.5a.75.75 0 101.09 1.03L9.25 4.636v8.614z" />
+      <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+    </svg>
+  );
+}
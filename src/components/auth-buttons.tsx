@@ -35,9 +35,18 @@ export function AuthButtons({ user }: AuthButtonsProps) {
   if (user) {
     return (
       <div className="flex items-center gap-2">
-        <span className="text-sm text-zinc-600 dark:text-zinc-400">
+        <Link
+          href={`/${encodeURIComponent(user.username)}`}
+          className="text-sm text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+        >
           {user.username}
-        </span>
+        </Link>
+        <Link
+          href="/settings"
+          className="inline-flex h-9 items-center justify-center rounded-md px-3 text-sm font-medium text-zinc-600 hover:bg-zinc-100 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-100"
+        >
+          Settings
+        </Link>
         <button
           onClick={handleSignOut}
           disabled={isSigningOut}
@@ -19,6 +19,8 @@ import type {
   UpdateCategoryInput,
 } from "@/lib/validations/category";
 import type { Category } from "@/db/schema";
+import { toGrams, type WeightUnit } from "@/lib/weight";
+import { toTargetInput } from "@/lib/weight-class";
 
 interface CategoryFormProps {
   open: boolean;
@@ -26,12 +28,15 @@ interface CategoryFormProps {
   listId: string;
   category?: Category;
   onSuccess?: (category: Category) => void;
+  /** Unit the base weight target is entered in */
+  displayUnit?: WeightUnit;
 }
 
 interface FieldErrors {
   listId?: string[];
   name?: string[];
   description?: string[];
+  baseWeightTarget?: string[];
 }
 
 export function CategoryForm({
@@ -40,6 +45,7 @@ export function CategoryForm({
   listId,
   category,
   onSuccess,
+  displayUnit = "g",
 }: CategoryFormProps) {
   const isEditing = !!category;
 
@@ -47,6 +53,9 @@ export function CategoryForm({
   const [description, setDescription] = React.useState(
     category?.description ?? ""
   );
+  const [baseWeightTarget, setBaseWeightTarget] = React.useState(
+    toTargetInput(category?.baseWeightTarget, displayUnit)
+  );
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
@@ -56,10 +65,11 @@ export function CategoryForm({
     if (open) {
       setName(category?.name ?? "");
       setDescription(category?.description ?? "");
+      setBaseWeightTarget(toTargetInput(category?.baseWeightTarget, displayUnit));
       setError(null);
       setFieldErrors({});
     }
-  }, [open, category]);
+  }, [open, category, displayUnit]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -67,23 +77,28 @@ export function CategoryForm({
     setFieldErrors({});
 
     // Client-side validation
+    const target = baseWeightTarget
+      ? toGrams(Number(baseWeightTarget), displayUnit)
+      : null;
     const data: CreateCategoryInput | UpdateCategoryInput = isEditing
-      ? { name, description: description || null }
-      : { listId, name, description: description || null };
+      ? { name, description: description || null, baseWeightTarget: target }
+      : {
+          listId,
+          name,
+          description: description || null,
+          baseWeightTarget: target,
+        };
 
     const schema = isEditing ? updateCategorySchema : createCategorySchema;
     const validationResult = schema.safeParse(data);
 
     if (!validationResult.success) {
-      const errors = validationResult.error.flatten().fieldErrors as {
-        listId?: string[];
-        name?: string[];
-        description?: string[];
-      };
+      const errors = validationResult.error.flatten().fieldErrors as FieldErrors;
       setFieldErrors({
         listId: errors.listId,
         name: errors.name,
         description: errors.description,
+        baseWeightTarget: errors.baseWeightTarget,
       });
       return;
     }
@@ -208,6 +223,37 @@ export function CategoryForm({
                 </p>
               )}
             </div>
+
+            <div className="grid gap-2">
+              <label
+                htmlFor="baseWeightTarget"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Base weight target ({displayUnit}){" "}
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  (optional)
+                </span>
+              </label>
+              <input
+                id="baseWeightTarget"
+                type="number"
+                min={0}
+                step="any"
+                value={baseWeightTarget}
+                onChange={(e) => setBaseWeightTarget(e.target.value)}
+                disabled={isSubmitting}
+                className={`flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
+                  fieldErrors.baseWeightTarget
+                    ? "border-red-500 dark:border-red-500"
+                    : "border-neutral-200 dark:border-neutral-800"
+                }`}
+              />
+              {fieldErrors.baseWeightTarget && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {fieldErrors.baseWeightTarget[0]}
+                </p>
+              )}
+            </div>
           </div>
 
           <ResponsiveDialogFooter>
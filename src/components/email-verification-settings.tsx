@@ -0,0 +1,64 @@
+"use client";
+
+import * as React from "react";
+import { useToast } from "@/components/ui/toast";
+
+interface EmailVerificationSettingsProps {
+  email: string;
+  verified: boolean;
+}
+
+export function EmailVerificationSettings({
+  email,
+  verified,
+}: EmailVerificationSettingsProps) {
+  const [isSending, setIsSending] = React.useState(false);
+  const { showToast } = useToast();
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      const response = await fetch("/api/auth/verify-email/resend", {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast(data.error || "Failed to send verification email", "error");
+        return;
+      }
+
+      showToast(`Verification email sent to ${email}`, "success");
+    } catch {
+      showToast("Failed to send verification email", "error");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900 sm:p-6">
+      <div>
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+          Email address
+        </h2>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          {verified
+            ? `${email} is verified.`
+            : `${email} isn't verified yet. Follow the link we emailed you to share lists and reset your password.`}
+        </p>
+      </div>
+
+      {!verified && (
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={isSending}
+          className="rounded-md bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {isSending ? "Sending..." : "Resend verification email"}
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import * as React from "react";
+import type { Item } from "@/db/schema";
+import {
+  calculateFoodSummary,
+  sortFoodItems,
+  type FoodSortKey,
+} from "@/lib/food";
+import {
+  fromGrams,
+  formatWeight,
+  type TripSettings,
+  type WeightUnit,
+} from "@/lib/weight";
+
+interface CategoryWithItems {
+  id: string;
+  items: Item[];
+}
+
+interface FoodSummaryProps {
+  categories: CategoryWithItems[];
+  displayUnit?: WeightUnit;
+  trip?: TripSettings | null;
+  caloriesPerDay?: number | null;
+}
+
+const COLUMNS: { key: FoodSortKey; label: string; align: "left" | "right" }[] = [
+  { key: "name", label: "Food", align: "left" },
+  { key: "calories", label: "Calories", align: "right" },
+  { key: "weight", label: "Weight", align: "right" },
+  { key: "caloriesPerOunce", label: "Cal/oz", align: "right" },
+];
+
+const formatCalories = (calories: number) =>
+  Math.round(calories).toLocaleString("en-US");
+
+export function FoodSummary({
+  categories,
+  displayUnit = "g",
+  trip = null,
+  caloriesPerDay = null,
+}: FoodSummaryProps) {
+  const summary = React.useMemo(
+    () => calculateFoodSummary(categories, { trip, caloriesPerDay }),
+    [categories, trip, caloriesPerDay]
+  );
+  // Least calorie-dense food first, so the worst foods to carry stand out
+  const [sortKey, setSortKey] = React.useState<FoodSortKey>("caloriesPerOunce");
+  const [sortDirection, setSortDirection] = React.useState<"asc" | "desc">("asc");
+
+  const sortedItems = React.useMemo(
+    () => sortFoodItems(summary.items, sortKey, sortDirection),
+    [summary.items, sortKey, sortDirection]
+  );
+
+  if (summary.items.length === 0) {
+    return null;
+  }
+
+  const handleSort = (key: FoodSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((d) => (d === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      setSortDirection("asc");
+    }
+  };
+
+  const display = (grams: number) =>
+    formatWeight(fromGrams(grams, displayUnit), displayUnit);
+  const target = summary.targetCaloriesPerDay;
+  const isBelowTarget = target !== null && summary.caloriesPerDay < target;
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="border-b border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4 sm:py-3">
+        <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+          Food Plan
+        </h2>
+      </div>
+
+      {/* Key metrics */}
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2 border-b border-zinc-200 px-3 py-2 text-xs dark:border-zinc-800 sm:grid-cols-4 sm:gap-4 sm:px-4 sm:text-sm">
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">
+            Total Calories
+            {summary.days > 1 && ` (${summary.days} days)`}
+          </div>
+          <div className="font-medium text-zinc-900 dark:text-zinc-100 tabular-nums">
+            {formatCalories(summary.totals.calories)}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Per Day</div>
+          <div
+            className={`font-medium tabular-nums ${
+              isBelowTarget
+                ? "text-red-600 dark:text-red-400"
+                : "text-zinc-900 dark:text-zinc-100"
+            }`}
+          >
+            {formatCalories(summary.caloriesPerDay)}
+            {target !== null && (
+              <span className="font-normal text-zinc-500 dark:text-zinc-500">
+                {" "}
+                / {formatCalories(target)}
+              </span>
+            )}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Density</div>
+          <div className="font-medium text-zinc-900 dark:text-zinc-100 tabular-nums">
+            {summary.caloriesPerOunce === null
+              ? "-"
+              : `${Math.round(summary.caloriesPerOunce)} cal/oz`}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Protein / Fat / Carbs</div>
+          <div className="font-medium text-zinc-900 dark:text-zinc-100 tabular-nums">
+            {Math.round(summary.totals.protein)} / {Math.round(summary.totals.fat)} /{" "}
+            {Math.round(summary.totals.carbs)} g
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-800/50">
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  className={`px-3 py-2 font-medium text-zinc-600 dark:text-zinc-400 sm:px-4 ${
+                    column.align === "left" ? "text-left" : "text-right"
+                  }`}
+                  aria-sort={
+                    column.key === sortKey
+                      ? sortDirection === "asc"
+                        ? "ascending"
+                        : "descending"
+                      : undefined
+                  }
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center gap-1 hover:text-zinc-900 dark:hover:text-zinc-100"
+                  >
+                    {column.label}
+                    {column.key === sortKey && (
+                      <span aria-hidden="true">
+                        {sortDirection === "asc" ? "↑" : "↓"}
+                      </span>
+                    )}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {sortedItems.map((item) => (
+              <tr key={item.itemId}>
+                <td className="px-3 py-2 text-zinc-900 dark:text-zinc-100 sm:px-4">
+                  {item.name}
+                </td>
+                <td className="px-3 py-2 text-right text-zinc-600 tabular-nums dark:text-zinc-400 sm:px-4">
+                  {formatCalories(item.calories)}
+                </td>
+                <td className="px-3 py-2 text-right text-zinc-600 tabular-nums dark:text-zinc-400 sm:px-4">
+                  {display(item.weight)}
+                </td>
+                <td className="px-3 py-2 text-right font-medium text-zinc-900 tabular-nums dark:text-zinc-100 sm:px-4">
+                  {item.caloriesPerOunce === null
+                    ? "-"
+                    : Math.round(item.caloriesPerOunce)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import Link from "next/link";
+import type { ForkSource } from "@/lib/lists";
+
+interface ForkedFromLinkProps {
+  source: ForkSource;
+}
+
+export function ForkedFromLink({ source }: ForkedFromLinkProps) {
+  return (
+    <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-500">
+      forked from{" "}
+      <Link
+        href={`/${encodeURIComponent(source.username)}/${source.slug}`}
+        className="font-medium text-zinc-700 hover:underline dark:text-zinc-300"
+      >
+        @{source.username}/{source.slug}
+      </Link>
+    </p>
+  );
+}
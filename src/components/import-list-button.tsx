@@ -0,0 +1,251 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogHeader,
+  ResponsiveDialogFooter,
+  ResponsiveDialogTitle,
+  ResponsiveDialogDescription,
+  ResponsiveDialogClose,
+} from "@/components/ui/responsive-dialog";
+import { useToast } from "@/components/ui/toast";
+import { importListSchema } from "@/lib/validations/list";
+
+interface RowError {
+  row: number;
+  errors: Record<string, string[] | undefined>;
+}
+
+interface FieldErrors {
+  name?: string[];
+  csv?: string[];
+}
+
+const inputClassName = (hasError: boolean) =>
+  `flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
+    hasError
+      ? "border-red-500 dark:border-red-500"
+      : "border-neutral-200 dark:border-neutral-800"
+  }`;
+
+export function ImportListButton() {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [csv, setCsv] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
+  const [rowErrors, setRowErrors] = React.useState<RowError[]>([]);
+  const router = useRouter();
+  const { showToast } = useToast();
+
+  // Reset form when dialog opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setName("");
+      setCsv("");
+      setError(null);
+      setFieldErrors({});
+      setRowErrors([]);
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRowErrors([]);
+
+    if (!file) {
+      setCsv("");
+      return;
+    }
+
+    setCsv(await file.text());
+    // Default the list name to the file name
+    if (!name) {
+      setName(file.name.replace(/\.csv$/i, ""));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setRowErrors([]);
+
+    const data = { name, csv };
+    const validationResult = importListSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.flatten().fieldErrors;
+      setFieldErrors({ name: errors.name, csv: errors.csv });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/lists/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.rowErrors) {
+          setRowErrors(result.rowErrors);
+        } else if (result.details) {
+          setFieldErrors(result.details);
+        } else {
+          setError(result.error || "An error occurred");
+        }
+        return;
+      }
+
+      showToast(`Imported ${result.importedItems} items`, "success");
+      setIsOpen(false);
+      router.push(`/lists/${result.list.slug}`);
+      router.refresh();
+    } catch {
+      setError("Failed to import list. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="inline-flex h-9 items-center justify-center gap-2 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        aria-label="Import list"
+      >
+        <UploadIcon className="h-4 w-4" />
+        <span className="hidden sm:inline">Import</span>
+      </button>
+      <ResponsiveDialog open={isOpen} onOpenChange={setIsOpen}>
+        <ResponsiveDialogContent>
+          <form onSubmit={handleSubmit}>
+            <ResponsiveDialogHeader>
+              <ResponsiveDialogTitle>Import from LighterPack</ResponsiveDialogTitle>
+              <ResponsiveDialogDescription>
+                Create a new list from a LighterPack CSV export.
+              </ResponsiveDialogDescription>
+            </ResponsiveDialogHeader>
+
+            <div className="grid gap-4 py-4">
+              {error && (
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid gap-2">
+                <label
+                  htmlFor="importFile"
+                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  CSV file
+                </label>
+                <input
+                  id="importFile"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileChange}
+                  disabled={isSubmitting}
+                  className={inputClassName(!!fieldErrors.csv)}
+                />
+                {fieldErrors.csv && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.csv[0]}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid gap-2">
+                <label
+                  htmlFor="importName"
+                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  List name
+                </label>
+                <input
+                  id="importName"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Enter list name"
+                  disabled={isSubmitting}
+                  className={inputClassName(!!fieldErrors.name)}
+                />
+                {fieldErrors.name && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.name[0]}
+                  </p>
+                )}
+              </div>
+
+              {rowErrors.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+                  <p className="mb-1 font-medium">
+                    Fix these rows and try again:
+                  </p>
+                  <ul className="space-y-1">
+                    {rowErrors.map((rowError) => (
+                      <li key={rowError.row}>
+                        Row {rowError.row}:{" "}
+                        {Object.values(rowError.errors)
+                          .flatMap((messages) => messages ?? [])
+                          .join("; ")}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <ResponsiveDialogFooter>
+              <ResponsiveDialogClose asChild>
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  className="inline-flex h-10 items-center justify-center rounded-md border border-neutral-200 bg-white px-4 py-2 text-sm font-medium ring-offset-white transition-colors hover:bg-neutral-100 hover:text-neutral-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:hover:bg-neutral-800 dark:hover:text-neutral-50 dark:focus-visible:ring-neutral-300"
+                >
+                  Cancel
+                </button>
+              </ResponsiveDialogClose>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex h-10 items-center justify-center rounded-md bg-neutral-900 px-4 py-2 text-sm font-medium text-neutral-50 ring-offset-white transition-colors hover:bg-neutral-900/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 dark:bg-neutral-50 dark:text-neutral-900 dark:ring-offset-neutral-950 dark:hover:bg-neutral-50/90 dark:focus-visible:ring-neutral-300"
+              >
+                {isSubmitting ? "Importing..." : "Import List"}
+              </button>
+            </ResponsiveDialogFooter>
+          </form>
+        </ResponsiveDialogContent>
+      </ResponsiveDialog>
+    </>
+  );
+}
+
+function UploadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M9.25 13.25a.75.75 0 001.5 0V4.636l2.955 3.129a.75.75 0 001.09-1.03l-4.25-4.5a.75.75 0 00-1.09 0l-4.25 4.5a.75.75 0 101.09 1.03L9.25 4.636v8.614z" />
+      <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+    </svg>
+  );
+}
@@ -19,19 +19,35 @@ import type {
   UpdateItemInput,
 } from "@/lib/validations/item";
 import type { Item } from "@/db/schema";
-import type { WeightUnit } from "@/lib/weight";
+import { formatUnit, type MeasureUnit, type WeightUnit } from "@/lib/weight";
 import { WeightUnitSelect } from "@/components/ui/weight-unit-select";
+import { DEFAULT_CURRENCY } from "@/lib/cost";
+import type { TagSummary } from "@/lib/tags";
+
+type ItemWithOptionalTags = Item & { tags?: TagSummary[] };
 
 interface ItemFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   categoryId: string;
-  item?: Item;
-  onSuccess?: (item: Item) => void;
+  item?: ItemWithOptionalTags;
+  onSuccess?: (item: ItemWithOptionalTags) => void;
+  /** Unit preselected for new items */
+  defaultWeightUnit?: WeightUnit;
+}
+
+interface GearOption {
+  id: string;
+  name: string;
+  description: string | null;
+  url: string | null;
+  weightAmount: number;
+  weightUnit: string;
 }
 
 interface FieldErrors {
   categoryId?: string[];
+  gearId?: string[];
   name?: string[];
   description?: string[];
   url?: string[];
@@ -39,8 +55,37 @@ interface FieldErrors {
   weightUnit?: string[];
   label?: string[];
   quantity?: string[];
+  price?: string[];
+  currency?: string[];
+  tagIds?: string[];
+  calories?: string[];
+  protein?: string[];
+  fat?: string[];
+  carbs?: string[];
+  servingWeight?: string[];
 }
 
+const NUTRITION_FIELDS = [
+  { key: "calories", label: "Calories", placeholder: "per serving" },
+  { key: "servingWeight", label: "Serving weight", placeholder: "whole item" },
+  { key: "protein", label: "Protein (g)", placeholder: "0" },
+  { key: "fat", label: "Fat (g)", placeholder: "0" },
+  { key: "carbs", label: "Carbs (g)", placeholder: "0" },
+] as const;
+
+type NutritionField = (typeof NUTRITION_FIELDS)[number]["key"];
+
+const toNutritionInputs = (item?: Item): Record<NutritionField, string> => ({
+  calories: item?.calories?.toString() ?? "",
+  servingWeight: item?.servingWeight?.toString() ?? "",
+  protein: item?.protein?.toString() ?? "",
+  fat: item?.fat?.toString() ?? "",
+  carbs: item?.carbs?.toString() ?? "",
+});
+
+const parseOptionalNumber = (value: string) =>
+  value.trim() === "" ? null : parseFloat(value);
+
 const inputClassName = (hasError: boolean) =>
   `flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
     hasError
@@ -61,6 +106,7 @@ export function ItemForm({
   categoryId,
   item,
   onSuccess,
+  defaultWeightUnit = "g",
 }: ItemFormProps) {
   const isEditing = !!item;
 
@@ -72,8 +118,8 @@ export function ItemForm({
   const [weightAmount, setWeightAmount] = React.useState(
     item?.weightAmount?.toString() ?? "0"
   );
-  const [weightUnit, setWeightUnit] = React.useState<WeightUnit>(
-    (item?.weightUnit as WeightUnit) ?? "g"
+  const [weightUnit, setWeightUnit] = React.useState<MeasureUnit>(
+    (item?.weightUnit as MeasureUnit) ?? defaultWeightUnit
   );
   const [label, setLabel] = React.useState<"none" | "worn" | "consumable">(
     (item?.label as "none" | "worn" | "consumable") ?? "none"
@@ -81,6 +127,23 @@ export function ItemForm({
   const [quantity, setQuantity] = React.useState(
     item?.quantity?.toString() ?? "1"
   );
+  const [perDay, setPerDay] = React.useState(item?.perDay ?? false);
+  const [nutrition, setNutrition] = React.useState(() =>
+    toNutritionInputs(item)
+  );
+  const [price, setPrice] = React.useState(item?.price?.toString() ?? "");
+  const [currency, setCurrency] = React.useState(
+    item?.currency ?? DEFAULT_CURRENCY
+  );
+  const [tagIds, setTagIds] = React.useState<string[]>(
+    item?.tags?.map((t) => t.id) ?? []
+  );
+  const [availableTags, setAvailableTags] = React.useState<TagSummary[]>([]);
+  const [newTagName, setNewTagName] = React.useState("");
+  const [isCreatingTag, setIsCreatingTag] = React.useState(false);
+  const [gearId, setGearId] = React.useState<string | null>(null);
+  const [saveToCloset, setSaveToCloset] = React.useState(false);
+  const [closet, setCloset] = React.useState<GearOption[]>([]);
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
@@ -92,13 +155,151 @@ export function ItemForm({
       setDescription(item?.description ?? "");
       setUrl(item?.url ?? "");
       setWeightAmount(item?.weightAmount?.toString() ?? "0");
-      setWeightUnit((item?.weightUnit as WeightUnit) ?? "g");
+      setWeightUnit((item?.weightUnit as MeasureUnit) ?? defaultWeightUnit);
       setLabel((item?.label as "none" | "worn" | "consumable") ?? "none");
       setQuantity(item?.quantity?.toString() ?? "1");
+      setPerDay(item?.perDay ?? false);
+      setNutrition(toNutritionInputs(item));
+      setPrice(item?.price?.toString() ?? "");
+      setCurrency(item?.currency ?? DEFAULT_CURRENCY);
+      setTagIds(item?.tags?.map((t) => t.id) ?? []);
+      setNewTagName("");
+      setGearId(null);
+      setSaveToCloset(false);
       setError(null);
       setFieldErrors({});
     }
-  }, [open, item]);
+  }, [open, item, defaultWeightUnit]);
+
+  // Load the gear closet when adding a new item
+  React.useEffect(() => {
+    if (!open || isEditing) return;
+
+    let cancelled = false;
+
+    async function fetchCloset() {
+      try {
+        const response = await fetch("/api/gear");
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) {
+            setCloset(data.gear);
+          }
+        }
+      } catch {
+        // The closet picker is optional; fall back to manual entry
+      }
+    }
+
+    fetchCloset();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isEditing]);
+
+  // Load the user's tags whenever the dialog opens
+  React.useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+
+    async function fetchTags() {
+      try {
+        const response = await fetch("/api/tags");
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled) {
+            setAvailableTags(data.tags);
+          }
+        }
+      } catch {
+        // Tags are optional; the item can still be saved without them
+      }
+    }
+
+    fetchTags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const toggleTag = (tagId: string) => {
+    setTagIds((prev) =>
+      prev.includes(tagId)
+        ? prev.filter((id) => id !== tagId)
+        : [...prev, tagId]
+    );
+  };
+
+  const handleCreateTag = async () => {
+    const tagName = newTagName.trim();
+    if (!tagName) return;
+
+    // Reuse an existing tag with the same name instead of creating a duplicate
+    const existing = availableTags.find(
+      (t) => t.name.toLowerCase() === tagName.toLowerCase()
+    );
+    if (existing) {
+      setTagIds((prev) =>
+        prev.includes(existing.id) ? prev : [...prev, existing.id]
+      );
+      setNewTagName("");
+      return;
+    }
+
+    setIsCreatingTag(true);
+
+    try {
+      const response = await fetch("/api/tags", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name: tagName }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setFieldErrors((prev) => ({
+          ...prev,
+          tagIds: result.details?.name ?? [result.error || "Failed to create tag"],
+        }));
+        return;
+      }
+
+      setAvailableTags((prev) =>
+        [...prev, result.tag].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setTagIds((prev) => [...prev, result.tag.id]);
+      setNewTagName("");
+    } catch {
+      setFieldErrors((prev) => ({ ...prev, tagIds: ["Failed to create tag"] }));
+    } finally {
+      setIsCreatingTag(false);
+    }
+  };
+
+  const handleGearSelect = (selectedId: string) => {
+    const selected = closet.find((g) => g.id === selectedId);
+    if (!selected) {
+      setGearId(null);
+      return;
+    }
+
+    setGearId(selected.id);
+    setSaveToCloset(false);
+    setName(selected.name);
+    setDescription(selected.description ?? "");
+    setUrl(selected.url ?? "");
+    setWeightAmount(selected.weightAmount.toString());
+    setWeightUnit(selected.weightUnit as MeasureUnit);
+  };
+
+  // Name, weight, URL and description come from the closet for linked items
+  const isLinkedToCloset = !isEditing && gearId !== null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -108,6 +309,14 @@ export function ItemForm({
     // Parse numeric values
     const parsedWeightAmount = parseFloat(weightAmount) || 0;
     const parsedQuantity = parseInt(quantity, 10) || 1;
+    const parsedPrice = price.trim() === "" ? null : parseFloat(price);
+    const parsedNutrition = {
+      calories: parseOptionalNumber(nutrition.calories),
+      servingWeight: parseOptionalNumber(nutrition.servingWeight),
+      protein: parseOptionalNumber(nutrition.protein),
+      fat: parseOptionalNumber(nutrition.fat),
+      carbs: parseOptionalNumber(nutrition.carbs),
+    };
 
     // Client-side validation
     const data: CreateItemInput | UpdateItemInput = isEditing
@@ -119,9 +328,16 @@ export function ItemForm({
           weightUnit,
           label,
           quantity: parsedQuantity,
+          perDay: label === "consumable" && perDay,
+          ...parsedNutrition,
+          price: parsedPrice,
+          currency: currency.toUpperCase(),
+          tagIds,
         }
       : {
           categoryId,
+          gearId,
+          saveToCloset,
           name,
           description: description || null,
           url: url || null,
@@ -129,6 +345,11 @@ export function ItemForm({
           weightUnit,
           label,
           quantity: parsedQuantity,
+          perDay: label === "consumable" && perDay,
+          ...parsedNutrition,
+          price: parsedPrice,
+          currency: currency.toUpperCase(),
+          tagIds,
         };
 
     const schema = isEditing ? updateItemSchema : createItemSchema;
@@ -204,6 +425,53 @@ export function ItemForm({
               </div>
             )}
 
+            {/* Gear closet picker */}
+            {!isEditing && closet.length > 0 && (
+              <div className="grid gap-2">
+                <label
+                  htmlFor="gearId"
+                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  From gear closet{" "}
+                  <span className="text-neutral-500 dark:text-neutral-400">
+                    (optional)
+                  </span>
+                </label>
+                <select
+                  id="gearId"
+                  value={gearId ?? ""}
+                  onChange={(e) => handleGearSelect(e.target.value)}
+                  disabled={isSubmitting}
+                  className={selectClassName(!!fieldErrors.gearId)}
+                >
+                  <option value="">New item</option>
+                  {closet.map((g) => (
+                    <option key={g.id} value={g.id}>
+                      {g.name} ({g.weightAmount} {g.weightUnit})
+                    </option>
+                  ))}
+                </select>
+                {fieldErrors.gearId && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.gearId[0]}
+                  </p>
+                )}
+                {isLinkedToCloset && (
+                  <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                    Name, weight, URL and description are managed in your gear
+                    closet.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isEditing && item.gearId && (
+              <p className="rounded-md bg-neutral-100 p-3 text-sm text-neutral-600 dark:bg-neutral-900 dark:text-neutral-400">
+                This item is in your gear closet. Changes to its name, weight,
+                URL and description apply to every list that uses it.
+              </p>
+            )}
+
             {/* Name */}
             <div className="grid gap-2">
               <label
@@ -218,7 +486,7 @@ export function ItemForm({
                 value={name}
                 onChange={(e) => setName(e.target.value)}
                 placeholder="Enter item name"
-                disabled={isSubmitting}
+                disabled={isSubmitting || isLinkedToCloset}
                 className={inputClassName(!!fieldErrors.name)}
               />
               {fieldErrors.name && (
@@ -245,7 +513,7 @@ export function ItemForm({
                   value={weightAmount}
                   onChange={(e) => setWeightAmount(e.target.value)}
                   placeholder="0"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || isLinkedToCloset}
                   className={inputClassName(!!fieldErrors.weightAmount)}
                 />
                 {fieldErrors.weightAmount && (
@@ -265,7 +533,8 @@ export function ItemForm({
                   id="weightUnit"
                   value={weightUnit}
                   onChange={setWeightUnit}
-                  disabled={isSubmitting}
+                  includeVolume
+                  disabled={isSubmitting || isLinkedToCloset}
                   hasError={!!fieldErrors.weightUnit}
                 />
                 {fieldErrors.weightUnit && (
@@ -330,6 +599,177 @@ export function ItemForm({
               </div>
             </div>
 
+            {/* Per-day consumables scale with the list's trip length */}
+            {label === "consumable" && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={perDay}
+                  onChange={(e) => setPerDay(e.target.checked)}
+                  disabled={isSubmitting}
+                  className="h-4 w-4 rounded border-neutral-300 dark:border-neutral-700"
+                />
+                Weight is per day of the trip
+              </label>
+            )}
+
+            {/* Nutrition for the food plan */}
+            {label === "consumable" && (
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+                {NUTRITION_FIELDS.map((field) => (
+                  <div key={field.key} className="grid gap-2">
+                    <label
+                      htmlFor={field.key}
+                      className="text-sm font-medium leading-none"
+                    >
+                      {field.label}
+                      {field.key === "servingWeight" && ` (${formatUnit(weightUnit)})`}
+                    </label>
+                    <input
+                      id={field.key}
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={nutrition[field.key]}
+                      onChange={(e) =>
+                        setNutrition((prev) => ({
+                          ...prev,
+                          [field.key]: e.target.value,
+                        }))
+                      }
+                      placeholder={field.placeholder}
+                      disabled={isSubmitting}
+                      className={inputClassName(!!fieldErrors[field.key])}
+                    />
+                    {fieldErrors[field.key] && (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        {fieldErrors[field.key]?.[0]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Price and Currency Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <label
+                  htmlFor="price"
+                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  Price{" "}
+                  <span className="text-neutral-500 dark:text-neutral-400">
+                    (optional)
+                  </span>
+                </label>
+                <input
+                  id="price"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  placeholder="0.00"
+                  disabled={isSubmitting}
+                  className={inputClassName(!!fieldErrors.price)}
+                />
+                {fieldErrors.price && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.price[0]}
+                  </p>
+                )}
+              </div>
+              <div className="grid gap-2">
+                <label
+                  htmlFor="currency"
+                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  Currency
+                </label>
+                <input
+                  id="currency"
+                  type="text"
+                  maxLength={3}
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  placeholder={DEFAULT_CURRENCY}
+                  disabled={isSubmitting}
+                  className={inputClassName(!!fieldErrors.currency)}
+                />
+                {fieldErrors.currency && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.currency[0]}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Tags */}
+            <div className="grid gap-2">
+              <span className="text-sm font-medium leading-none">
+                Tags{" "}
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  (optional)
+                </span>
+              </span>
+              {availableTags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {availableTags.map((tag) => {
+                    const selected = tagIds.includes(tag.id);
+                    return (
+                      <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => toggleTag(tag.id)}
+                        disabled={isSubmitting}
+                        aria-pressed={selected}
+                        className={`rounded-full border px-2.5 py-0.5 text-xs font-medium disabled:opacity-50 ${
+                          selected
+                            ? "border-violet-300 bg-violet-100 text-violet-800 dark:border-violet-700 dark:bg-violet-900 dark:text-violet-200"
+                            : "border-neutral-200 bg-white text-neutral-600 hover:bg-neutral-100 dark:border-neutral-800 dark:bg-neutral-950 dark:text-neutral-400 dark:hover:bg-neutral-900"
+                        }`}
+                      >
+                        {tag.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  id="newTag"
+                  type="text"
+                  value={newTagName}
+                  onChange={(e) => setNewTagName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleCreateTag();
+                    }
+                  }}
+                  placeholder="New tag, e.g. shared"
+                  maxLength={50}
+                  disabled={isSubmitting || isCreatingTag}
+                  aria-label="New tag name"
+                  className={inputClassName(!!fieldErrors.tagIds)}
+                />
+                <button
+                  type="button"
+                  onClick={handleCreateTag}
+                  disabled={isSubmitting || isCreatingTag || !newTagName.trim()}
+                  className="inline-flex h-10 shrink-0 items-center justify-center rounded-md border border-neutral-200 bg-white px-3 text-sm font-medium hover:bg-neutral-100 disabled:pointer-events-none disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:hover:bg-neutral-800"
+                >
+                  {isCreatingTag ? "Adding..." : "Add Tag"}
+                </button>
+              </div>
+              {fieldErrors.tagIds && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {fieldErrors.tagIds[0]}
+                </p>
+              )}
+            </div>
+
             {/* URL */}
             <div className="grid gap-2">
               <label
@@ -347,7 +787,7 @@ export function ItemForm({
                 value={url}
                 onChange={(e) => setUrl(e.target.value)}
                 placeholder="https://example.com/product"
-                disabled={isSubmitting}
+                disabled={isSubmitting || isLinkedToCloset}
                 className={inputClassName(!!fieldErrors.url)}
               />
               {fieldErrors.url && (
@@ -374,7 +814,7 @@ export function ItemForm({
                 onChange={(e) => setDescription(e.target.value)}
                 placeholder="Add notes about this item"
                 rows={3}
-                disabled={isSubmitting}
+                disabled={isSubmitting || isLinkedToCloset}
                 className={`flex min-h-[80px] w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
                   fieldErrors.description
                     ? "border-red-500 dark:border-red-500"
@@ -387,6 +827,20 @@ export function ItemForm({
                 </p>
               )}
             </div>
+
+            {/* Save to gear closet */}
+            {!isEditing && !isLinkedToCloset && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={saveToCloset}
+                  onChange={(e) => setSaveToCloset(e.target.checked)}
+                  disabled={isSubmitting}
+                  className="h-4 w-4 rounded border-neutral-300 dark:border-neutral-700"
+                />
+                Save to gear closet for reuse in other lists
+              </label>
+            )}
           </div>
 
           <ResponsiveDialogFooter>
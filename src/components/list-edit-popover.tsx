@@ -9,6 +9,7 @@ interface List {
   slug: string;
   description: string | null;
   isPublic: boolean;
+  hidePrices?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -18,6 +19,8 @@ interface ListEditPopoverProps {
   onEdit: () => void;
   onDelete: () => void;
   onTogglePublic: () => void;
+  onToggleHidePrices?: () => void;
+  onDuplicate?: () => void;
   isUpdating?: boolean;
   canShare?: boolean;
 }
@@ -27,6 +30,8 @@ export function ListEditPopover({
   onEdit,
   onDelete,
   onTogglePublic,
+  onToggleHidePrices,
+  onDuplicate,
   isUpdating,
   canShare = true,
 }: ListEditPopoverProps) {
@@ -46,6 +51,11 @@ export function ListEditPopover({
     onTogglePublic();
   };
 
+  const handleDuplicate = () => {
+    setOpen(false);
+    onDuplicate?.();
+  };
+
   return (
     <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
@@ -67,6 +77,17 @@ export function ListEditPopover({
             <EditIcon className="h-4 w-4" />
             Edit Details
           </button>
+          {onDuplicate && (
+            <button
+              type="button"
+              onClick={handleDuplicate}
+              disabled={isUpdating}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-zinc-700 hover:bg-zinc-100 disabled:opacity-50 dark:text-zinc-300 dark:hover:bg-zinc-800"
+            >
+              <CopyIcon className="h-4 w-4" />
+              Duplicate List
+            </button>
+          )}
           {canShare && (
             <button
               type="button"
@@ -87,6 +108,53 @@ export function ListEditPopover({
               )}
             </button>
           )}
+          {canShare && onToggleHidePrices && (
+            <button
+              type="button"
+              onClick={onToggleHidePrices}
+              disabled={isUpdating}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-zinc-700 hover:bg-zinc-100 disabled:opacity-50 dark:text-zinc-300 dark:hover:bg-zinc-800"
+            >
+              <TagIcon className="h-4 w-4" />
+              {list.hidePrices ? "Show Prices" : "Hide Prices"}
+            </button>
+          )}
+          <div className="my-1 h-px bg-zinc-200 dark:bg-zinc-800" />
+          <a
+            href={`/lists/${list.slug}/print`}
+            onClick={() => setOpen(false)}
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-zinc-700 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            <PrinterIcon className="h-4 w-4" />
+            Print
+          </a>
+          <a
+            href={`/api/lists/${list.id}/export?format=csv`}
+            download
+            onClick={() => setOpen(false)}
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-zinc-700 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            Export CSV
+          </a>
+          <a
+            href={`/api/lists/${list.id}/export?format=json`}
+            download
+            onClick={() => setOpen(false)}
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-zinc-700 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            Export JSON
+          </a>
+          <a
+            href={`/api/lists/${list.id}/export?format=md`}
+            download
+            onClick={() => setOpen(false)}
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-zinc-700 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            Export Markdown
+          </a>
           <div className="my-1 h-px bg-zinc-200 dark:bg-zinc-800" />
           <button
             type="button"
@@ -178,3 +246,65 @@ function LockIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function TagIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M5.5 3A2.5 2.5 0 003 5.5v2.879a2.5 2.5 0 00.732 1.767l6.5 6.5a2.5 2.5 0 003.536 0l2.878-2.878a2.5 2.5 0 000-3.536l-6.5-6.5A2.5 2.5 0 008.38 3H5.5zM6 7a1 1 0 100-2 1 1 0 000 2z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function PrinterIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M5 2.75C5 1.784 5.784 1 6.75 1h6.5c.966 0 1.75.784 1.75 1.75v3.552c.377.046.752.097 1.126.153A2.212 2.212 0 0118 8.653v4.097A2.25 2.25 0 0115.75 15h-.241l.305 1.984A1.75 1.75 0 0114.084 19H5.915a1.75 1.75 0 01-1.73-2.016L4.492 15H4.25A2.25 2.25 0 012 12.75V8.653c0-1.082.775-2.034 1.874-2.198.374-.056.75-.107 1.127-.153L5 6.25v-3.5zm8.5 3.397a41.533 41.533 0 00-7 0V2.75a.25.25 0 01.25-.25h6.5a.25.25 0 01.25.25v3.397zM6.608 12.5a.25.25 0 00-.247.212l-.693 4.5a.25.25 0 00.247.288h8.17a.25.25 0 00.246-.288l-.692-4.5a.25.25 0 00-.247-.212H6.608z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.955 3.129V2.75z" />
+      <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+    </svg>
+  );
+}
+
+function CopyIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path d="M7 3.5A1.5 1.5 0 018.5 2h3.879a1.5 1.5 0 011.06.44l3.122 3.12A1.5 1.5 0 0117 6.622V12.5a1.5 1.5 0 01-1.5 1.5h-1v-3.379a3 3 0 00-.879-2.121L10.5 5.379A3 3 0 008.379 4.5H7v-1z" />
+      <path d="M4.5 6A1.5 1.5 0 003 7.5v9A1.5 1.5 0 004.5 18h7a1.5 1.5 0 001.5-1.5v-5.879a1.5 1.5 0 00-.44-1.06L9.44 6.439A1.5 1.5 0 008.378 6H4.5z" />
+    </svg>
+  );
+}
@@ -12,6 +12,8 @@ import {
 } from "@/components/ui/responsive-dialog";
 import { createListSchema, updateListSchema } from "@/lib/validations/list";
 import type { CreateListInput, UpdateListInput } from "@/lib/validations/list";
+import { toGrams, type WeightUnit } from "@/lib/weight";
+import { toTargetInput } from "@/lib/weight-class";
 
 interface List {
   id: string;
@@ -19,6 +21,10 @@ interface List {
   slug: string;
   description: string | null;
   isPublic: boolean;
+  tripDays?: number | null;
+  resupplyDays?: number[];
+  caloriesPerDay?: number | null;
+  baseWeightTarget?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,18 +34,57 @@ interface ListFormProps {
   onOpenChange: (open: boolean) => void;
   list?: List;
   onSuccess?: (list: List) => void;
+  /** Unit the base weight target is entered in */
+  displayUnit?: WeightUnit;
 }
 
 interface FieldErrors {
   name?: string[];
   description?: string[];
+  tripDays?: string[];
+  resupplyDays?: string[];
+  caloriesPerDay?: string[];
+  baseWeightTarget?: string[];
 }
 
-export function ListForm({ open, onOpenChange, list, onSuccess }: ListFormProps) {
+// "4, 9" -> [4, 9]; anything that is not a number fails validation
+function parseResupplyDays(value: string): number[] {
+  return value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+}
+
+const inputClassName = (hasError: boolean) =>
+  `flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-neutral-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:placeholder:text-neutral-400 dark:focus-visible:ring-neutral-300 ${
+    hasError
+      ? "border-red-500 dark:border-red-500"
+      : "border-neutral-200 dark:border-neutral-800"
+  }`;
+
+export function ListForm({
+  open,
+  onOpenChange,
+  list,
+  onSuccess,
+  displayUnit = "g",
+}: ListFormProps) {
   const isEditing = !!list;
 
   const [name, setName] = React.useState(list?.name ?? "");
   const [description, setDescription] = React.useState(list?.description ?? "");
+  const [tripDays, setTripDays] = React.useState(
+    list?.tripDays ? String(list.tripDays) : ""
+  );
+  const [resupplyDays, setResupplyDays] = React.useState(
+    list?.resupplyDays?.join(", ") ?? ""
+  );
+  const [caloriesPerDay, setCaloriesPerDay] = React.useState(
+    list?.caloriesPerDay ? String(list.caloriesPerDay) : ""
+  );
+  const [baseWeightTarget, setBaseWeightTarget] = React.useState(
+    toTargetInput(list?.baseWeightTarget, displayUnit)
+  );
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
@@ -49,10 +94,14 @@ export function ListForm({ open, onOpenChange, list, onSuccess }: ListFormProps)
     if (open) {
       setName(list?.name ?? "");
       setDescription(list?.description ?? "");
+      setTripDays(list?.tripDays ? String(list.tripDays) : "");
+      setResupplyDays(list?.resupplyDays?.join(", ") ?? "");
+      setCaloriesPerDay(list?.caloriesPerDay ? String(list.caloriesPerDay) : "");
+      setBaseWeightTarget(toTargetInput(list?.baseWeightTarget, displayUnit));
       setError(null);
       setFieldErrors({});
     }
-  }, [open, list]);
+  }, [open, list, displayUnit]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,19 +109,35 @@ export function ListForm({ open, onOpenChange, list, onSuccess }: ListFormProps)
     setFieldErrors({});
 
     // Client-side validation
-    const data: CreateListInput | UpdateListInput = {
-      name,
-      description: description || null,
-    };
+    const data: CreateListInput | UpdateListInput = isEditing
+      ? {
+          name,
+          description: description || null,
+          tripDays: tripDays ? Number(tripDays) : null,
+          resupplyDays: tripDays ? parseResupplyDays(resupplyDays) : [],
+          caloriesPerDay: caloriesPerDay ? Number(caloriesPerDay) : null,
+          baseWeightTarget: baseWeightTarget
+            ? toGrams(Number(baseWeightTarget), displayUnit)
+            : null,
+        }
+      : {
+          name,
+          description: description || null,
+        };
 
     const schema = isEditing ? updateListSchema : createListSchema;
     const validationResult = schema.safeParse(data);
 
     if (!validationResult.success) {
-      const errors = validationResult.error.flatten().fieldErrors;
+      // Trip fields only exist on the update schema
+      const errors: FieldErrors = validationResult.error.flatten().fieldErrors;
       setFieldErrors({
         name: errors.name,
         description: errors.description,
+        tripDays: errors.tripDays,
+        resupplyDays: errors.resupplyDays,
+        caloriesPerDay: errors.caloriesPerDay,
+        baseWeightTarget: errors.baseWeightTarget,
       });
       return;
     }
@@ -189,6 +254,121 @@ export function ListForm({ open, onOpenChange, list, onSuccess }: ListFormProps)
                 </p>
               )}
             </div>
+
+            {isEditing && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <label
+                    htmlFor="tripDays"
+                    className="text-sm font-medium leading-none"
+                  >
+                    Trip days{" "}
+                    <span className="text-neutral-500 dark:text-neutral-400">
+                      (optional)
+                    </span>
+                  </label>
+                  <input
+                    id="tripDays"
+                    type="number"
+                    min={1}
+                    max={365}
+                    step={1}
+                    value={tripDays}
+                    onChange={(e) => setTripDays(e.target.value)}
+                    placeholder="e.g. 7"
+                    disabled={isSubmitting}
+                    className={inputClassName(!!fieldErrors.tripDays)}
+                  />
+                  {fieldErrors.tripDays && (
+                    <p className="text-sm text-red-600 dark:text-red-400">
+                      {fieldErrors.tripDays[0]}
+                    </p>
+                  )}
+                </div>
+                <div className="grid gap-2">
+                  <label
+                    htmlFor="resupplyDays"
+                    className="text-sm font-medium leading-none"
+                  >
+                    Resupply after day
+                  </label>
+                  <input
+                    id="resupplyDays"
+                    type="text"
+                    inputMode="numeric"
+                    value={resupplyDays}
+                    onChange={(e) => setResupplyDays(e.target.value)}
+                    placeholder="e.g. 3, 5"
+                    disabled={isSubmitting || !tripDays}
+                    className={inputClassName(!!fieldErrors.resupplyDays)}
+                  />
+                  {fieldErrors.resupplyDays && (
+                    <p className="text-sm text-red-600 dark:text-red-400">
+                      {fieldErrors.resupplyDays[0]}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {isEditing && (
+              <div className="grid gap-2">
+                <label
+                  htmlFor="caloriesPerDay"
+                  className="text-sm font-medium leading-none"
+                >
+                  Calories per day target{" "}
+                  <span className="text-neutral-500 dark:text-neutral-400">
+                    (optional)
+                  </span>
+                </label>
+                <input
+                  id="caloriesPerDay"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={caloriesPerDay}
+                  onChange={(e) => setCaloriesPerDay(e.target.value)}
+                  placeholder="e.g. 3000"
+                  disabled={isSubmitting}
+                  className={inputClassName(!!fieldErrors.caloriesPerDay)}
+                />
+                {fieldErrors.caloriesPerDay && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.caloriesPerDay[0]}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isEditing && (
+              <div className="grid gap-2">
+                <label
+                  htmlFor="baseWeightTarget"
+                  className="text-sm font-medium leading-none"
+                >
+                  Base weight target ({displayUnit}){" "}
+                  <span className="text-neutral-500 dark:text-neutral-400">
+                    (optional)
+                  </span>
+                </label>
+                <input
+                  id="baseWeightTarget"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={baseWeightTarget}
+                  onChange={(e) => setBaseWeightTarget(e.target.value)}
+                  disabled={isSubmitting}
+                  className={inputClassName(!!fieldErrors.baseWeightTarget)}
+                />
+                {fieldErrors.baseWeightTarget && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {fieldErrors.baseWeightTarget[0]}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <ResponsiveDialogFooter>
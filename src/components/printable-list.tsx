@@ -0,0 +1,195 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useToast } from "@/components/ui/toast";
+import type { CategoryWithItems } from "@/lib/lists";
+import {
+  formatListMarkdown,
+  formatListText,
+  getTotalRows,
+} from "@/lib/list-text";
+import {
+  calculateListWeightSummary,
+  formatWeight,
+  fromGrams,
+  toGrams,
+  type TripSettings,
+  type WaterCarry,
+  type WeightUnit,
+} from "@/lib/weight";
+
+interface PrintableListProps {
+  list: {
+    name: string;
+    description: string | null;
+  };
+  categories: CategoryWithItems[];
+  displayUnit: WeightUnit;
+  trip?: TripSettings | null;
+  water?: WaterCarry | null;
+  username?: string;
+  backHref: string;
+}
+
+/**
+ * Compact, paper-styled rendering of a list for printing or saving as PDF,
+ * with a toolbar to copy it as plain text or Markdown. The toolbar and the
+ * app chrome are hidden when printing.
+ */
+export function PrintableList({
+  list,
+  categories,
+  displayUnit,
+  trip = null,
+  water = null,
+  username,
+  backHref,
+}: PrintableListProps) {
+  const { showToast } = useToast();
+  const summary = React.useMemo(
+    () => calculateListWeightSummary(categories, trip, water),
+    [categories, trip, water]
+  );
+
+  const formatGrams = (grams: number) =>
+    formatWeight(fromGrams(grams, displayUnit), displayUnit);
+
+  const handleCopy = async (format: "text" | "markdown") => {
+    const options = { displayUnit, trip, water };
+    const body =
+      format === "markdown"
+        ? formatListMarkdown(list, categories, options)
+        : formatListText(list, categories, options);
+
+    try {
+      await navigator.clipboard.writeText(body);
+      showToast(
+        format === "markdown" ? "Copied as Markdown" : "Copied as text",
+        "success"
+      );
+    } catch {
+      showToast("Failed to copy list", "error");
+    }
+  };
+
+  const toolbarButtonClassName =
+    "rounded-md border border-zinc-200 bg-white px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700";
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black print:min-h-0 print:bg-white">
+      <div className="mx-auto max-w-3xl px-3 py-4 sm:px-6 sm:py-8 print:max-w-none print:p-0">
+        {/* Toolbar */}
+        <div className="mb-4 flex flex-wrap items-center gap-2 print:hidden">
+          <Link
+            href={backHref}
+            className="mr-auto text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            &larr; Back to list
+          </Link>
+          <button
+            type="button"
+            onClick={() => handleCopy("text")}
+            className={toolbarButtonClassName}
+          >
+            Copy as text
+          </button>
+          <button
+            type="button"
+            onClick={() => handleCopy("markdown")}
+            className={toolbarButtonClassName}
+          >
+            Copy as Markdown
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="rounded-md bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+          >
+            Print
+          </button>
+        </div>
+
+        {/* Sheet - always light so it matches the printed page */}
+        <article className="rounded-lg border border-zinc-200 bg-white p-4 text-sm text-zinc-900 shadow-sm sm:p-8 print:rounded-none print:border-0 print:p-0 print:shadow-none">
+          <header className="mb-4 border-b border-zinc-300 pb-3">
+            <h1 className="text-xl font-bold">{list.name}</h1>
+            {username && <p className="text-zinc-500">by {username}</p>}
+            {list.description && (
+              <p className="mt-1 text-zinc-600">{list.description}</p>
+            )}
+          </header>
+
+          {categories.map((category, i) => (
+            <section key={category.id} className="mb-4 break-inside-avoid">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-zinc-300 text-left">
+                    <th className="w-6 py-1" aria-label="Packed" />
+                    <th className="py-1 font-semibold">{category.name}</th>
+                    <th className="w-12 py-1 text-right font-normal text-zinc-500">
+                      Qty
+                    </th>
+                    <th className="w-20 py-1 text-right font-semibold tabular-nums">
+                      {formatGrams(summary.categories[i].totalWeight)}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {category.items.map((item) => (
+                    <tr key={item.id} className="border-b border-zinc-100 align-top">
+                      <td className="py-1">
+                        <span className="mt-0.5 block h-3.5 w-3.5 rounded-sm border border-zinc-400" />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <span className="font-medium">{item.name}</span>
+                        {item.label !== "none" && (
+                          <span className="ml-1.5 text-xs text-zinc-500">
+                            {item.label}
+                            {item.label === "consumable" && item.perDay && " / day"}
+                          </span>
+                        )}
+                        {item.description && (
+                          <span className="block text-xs text-zinc-500">
+                            {item.description}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right tabular-nums text-zinc-500">
+                        {item.quantity}
+                      </td>
+                      <td className="py-1 text-right tabular-nums">
+                        {formatGrams(
+                          toGrams(item.weightAmount, item.weightUnit) * item.quantity
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          ))}
+
+          {/* Totals */}
+          <table className="ml-auto mt-6 break-inside-avoid">
+            <tbody>
+              {getTotalRows(summary, displayUnit).map(([label, value], i, rows) => (
+                <tr
+                  key={label}
+                  className={
+                    i === rows.length - 1
+                      ? "border-t border-zinc-300 font-semibold"
+                      : undefined
+                  }
+                >
+                  <td className="py-0.5 pr-6">{label}</td>
+                  <td className="py-0.5 text-right tabular-nums">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </article>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useToast } from "@/components/ui/toast";
+
+interface Profile {
+  username: string;
+  bio: string | null;
+  avatarUrl: string | null;
+}
+
+export function ProfileSettings() {
+  const [profile, setProfile] = React.useState<Profile | null>(null);
+  const [bio, setBio] = React.useState("");
+  const [avatarUrl, setAvatarUrl] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { showToast } = useToast();
+
+  React.useEffect(() => {
+    // Anonymous sessions get a 401 and no profile section
+    fetch("/api/account/profile")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setProfile(data?.profile ?? null))
+      .catch(() => setProfile(null));
+  }, []);
+
+  React.useEffect(() => {
+    if (profile) {
+      setBio(profile.bio ?? "");
+      setAvatarUrl(profile.avatarUrl ?? "");
+    }
+  }, [profile]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/account/profile", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ bio, avatarUrl: avatarUrl.trim() || null }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = data.details
+          ? Object.values(data.details as Record<string, string[]>)[0]?.[0]
+          : null;
+        showToast(details || data.error || "Failed to save profile", "error");
+        return;
+      }
+
+      setProfile(data.profile);
+      showToast("Profile saved", "success");
+    } catch {
+      showToast("Failed to save profile", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!profile) {
+    return null;
+  }
+
+  const inputClassName =
+    "w-full rounded-md border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300";
+
+  return (
+    <details className="group px-2 py-1.5 text-sm text-zinc-600 dark:text-zinc-400">
+      <summary className="cursor-pointer select-none">Profile</summary>
+      <form onSubmit={handleSubmit} className="mt-1.5 flex flex-col gap-1.5">
+        <label className="flex flex-col gap-1 text-xs">
+          Avatar URL
+          <input
+            type="url"
+            value={avatarUrl}
+            onChange={(e) => setAvatarUrl(e.target.value)}
+            placeholder="https://"
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs">
+          Bio
+          <textarea
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            maxLength={500}
+            rows={3}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </label>
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <Link
+            href={`/${encodeURIComponent(profile.username)}`}
+            className="underline hover:text-zinc-900 dark:hover:text-zinc-100"
+          >
+            View profile
+          </Link>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-md bg-zinc-900 px-2 py-1 font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </form>
+    </details>
+  );
+}
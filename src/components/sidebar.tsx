@@ -103,7 +103,7 @@ export function Sidebar({ children }: SidebarProps) {
     return (
       <aside
         data-state={isOpen ? "open" : "closed"}
-        className={`fixed inset-y-0 left-0 z-40 flex flex-col border-r border-zinc-200 bg-white transition-all duration-300 ease-in-out dark:border-zinc-800 dark:bg-zinc-950 ${
+        className={`fixed inset-y-0 left-0 z-40 flex flex-col border-r print:hidden border-zinc-200 bg-white transition-all duration-300 ease-in-out dark:border-zinc-800 dark:bg-zinc-950 ${
           isOpen ? "w-64" : "w-0"
         }`}
       >
@@ -190,7 +190,7 @@ export function SidebarLayout({ children }: { children: React.ReactNode }) {
 
   return (
     <div
-      className={`min-h-screen transition-all duration-300 ease-in-out ${
+      className={`min-h-screen transition-all duration-300 ease-in-out print:pl-0 ${
         isDesktop && isOpen ? "pl-64" : "pl-0"
       }`}
     >
@@ -293,6 +293,20 @@ export function ListsSidebarContent() {
           ))}
         </nav>
       )}
+      {lists.length >= 2 && (
+        <Link
+          href="/compare"
+          onClick={handleListClick}
+          className={`mt-2 flex items-center gap-2 rounded-md px-2 py-2 text-sm transition-colors ${
+            pathname === "/compare"
+              ? "bg-zinc-100 font-medium text-zinc-900 dark:bg-zinc-800 dark:text-zinc-100"
+              : "text-zinc-500 hover:bg-zinc-50 hover:text-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800/50 dark:hover:text-zinc-100"
+          }`}
+        >
+          <CompareIcon className="h-4 w-4 shrink-0" />
+          <span>Compare lists</span>
+        </Link>
+      )}
     </div>
   );
 }
@@ -348,3 +362,20 @@ function GlobeIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function CompareIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+      className={className}
+    >
+      <path
+        fillRule="evenodd"
+        d="M13.2 2.24a.75.75 0 00.04 1.06l2.1 1.95H6.75a.75.75 0 000 1.5h8.59l-2.1 1.95a.75.75 0 101.02 1.1l3.5-3.25a.75.75 0 000-1.1l-3.5-3.25a.75.75 0 00-1.06.04zm-6.4 8a.75.75 0 00-1.06-.04l-3.5 3.25a.75.75 0 000 1.1l3.5 3.25a.75.75 0 101.02-1.1l-2.1-1.95h8.59a.75.75 0 000-1.5H4.66l2.1-1.95a.75.75 0 00.04-1.06z"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
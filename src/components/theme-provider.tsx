@@ -2,13 +2,19 @@
 
 import { ThemeProvider as NextThemesProvider } from "next-themes";
 
-export function ThemeProvider({ children }: { children: React.ReactNode }) {
+interface ThemeProviderProps {
+  children: React.ReactNode;
+  forcedTheme?: string; // overrides the stored and system theme, e.g. for embeds
+}
+
+export function ThemeProvider({ children, forcedTheme }: ThemeProviderProps) {
   return (
     <NextThemesProvider
       attribute="class"
       defaultTheme="system"
       enableSystem
       disableTransitionOnChange
+      forcedTheme={forcedTheme}
     >
       {children}
     </NextThemesProvider>
@@ -0,0 +1,276 @@
+"use client";
+
+import * as React from "react";
+import { useToast } from "@/components/ui/toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface PendingSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * First validation or API error message of a failed response
+ */
+function getErrorMessage(data: {
+  error?: string;
+  details?: Record<string, string[]>;
+}): string | null {
+  const details = data.details ? Object.values(data.details)[0]?.[0] : null;
+  return details || data.error || null;
+}
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = React.useState<PendingSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(
+    null
+  );
+  const [code, setCode] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const { showToast } = useToast();
+
+  const loadStatus = React.useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/two-factor");
+      setStatus(response.ok ? await response.json() : null);
+    } catch {
+      setStatus(null);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Send the code field to one of the two-factor endpoints
+  const submitCode = async (
+    url: string,
+    method: "POST" | "DELETE",
+    fallbackError: string
+  ) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast(getErrorMessage(data) || fallbackError, "error");
+        return null;
+      }
+
+      setCode("");
+      return data;
+    } catch {
+      showToast(fallbackError, "error");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/account/two-factor", {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast(data.error || "Failed to start setup", "error");
+        return;
+      }
+
+      setSetup(data);
+      setRecoveryCodes(null);
+    } catch {
+      showToast("Failed to start setup", "error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submitCode(
+      "/api/account/two-factor/enable",
+      "POST",
+      "Failed to enable two-factor authentication"
+    );
+    if (data) {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      showToast("Two-factor authentication enabled", "success");
+      await loadStatus();
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submitCode(
+      "/api/account/two-factor/recovery-codes",
+      "POST",
+      "Failed to regenerate recovery codes"
+    );
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      showToast("New recovery codes generated", "success");
+      await loadStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    const data = await submitCode(
+      "/api/account/two-factor",
+      "DELETE",
+      "Failed to disable two-factor authentication"
+    );
+    if (data) {
+      setRecoveryCodes(null);
+      showToast("Two-factor authentication disabled", "success");
+      await loadStatus();
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="h-40 animate-pulse rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+    );
+  }
+
+  const inputClassName =
+    "w-40 rounded-md border border-zinc-200 bg-white px-3 py-1.5 font-mono text-sm text-zinc-900 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100";
+  const primaryButtonClassName =
+    "rounded-md bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200";
+  const secondaryButtonClassName =
+    "rounded-md border border-zinc-200 px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-100 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800";
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="text"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="123456"
+      aria-label="Authentication code"
+      disabled={isSubmitting}
+      className={inputClassName}
+    />
+  );
+
+  return (
+    <section className="space-y-4 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900 sm:p-6">
+      <div>
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+          Two-factor authentication
+        </h2>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          {status.enabled
+            ? `On. ${status.recoveryCodesRemaining} recovery ${
+                status.recoveryCodesRemaining === 1 ? "code" : "codes"
+              } left.`
+            : "Require a code from an authenticator app when signing in with your password."}
+        </p>
+      </div>
+
+      {recoveryCodes && (
+        <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3 dark:border-amber-900 dark:bg-amber-950">
+          <p className="text-sm text-amber-800 dark:text-amber-200">
+            Save these recovery codes somewhere safe. Each one signs you in
+            once if you lose your authenticator, and they won&apos;t be shown
+            again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm text-zinc-900 dark:text-zinc-100">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!status.enabled && !setup && (
+        <button
+          type="button"
+          onClick={handleStartSetup}
+          disabled={isSubmitting}
+          className={primaryButtonClassName}
+        >
+          Set up two-factor authentication
+        </button>
+      )}
+
+      {!status.enabled && setup && (
+        <form onSubmit={handleEnable} className="space-y-3">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Open the link on a device with an authenticator app, or enter the
+            key by hand. Then type the 6-digit code it shows.
+          </p>
+          <a
+            href={setup.otpauthUri}
+            className="block break-all text-sm text-zinc-900 underline dark:text-zinc-100"
+          >
+            {setup.otpauthUri}
+          </a>
+          <p className="break-all font-mono text-sm text-zinc-900 dark:text-zinc-100">
+            {setup.secret}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {codeInput}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={primaryButtonClassName}
+            >
+              {isSubmitting ? "Checking..." : "Enable"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              disabled={isSubmitting}
+              className={secondaryButtonClassName}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status.enabled && (
+        <form onSubmit={handleRegenerate} className="space-y-3">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Enter a code from your authenticator app or a recovery code to
+            change these settings.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {codeInput}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={primaryButtonClassName}
+            >
+              New recovery codes
+            </button>
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={isSubmitting}
+              className="rounded-md px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50 dark:text-red-400 dark:hover:bg-red-950"
+            >
+              Disable
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -1,10 +1,10 @@
 "use client";
 
 import * as React from "react";
-import type { WeightUnit } from "@/lib/weight";
+import type { MeasureUnit, VolumeUnit, WeightUnit } from "@/lib/weight";
 
-export interface WeightUnitOption {
-  value: WeightUnit;
+export interface WeightUnitOption<T extends MeasureUnit = WeightUnit> {
+  value: T;
   label: string;
   shortLabel: string;
 }
@@ -16,23 +16,32 @@ export const WEIGHT_UNIT_OPTIONS: WeightUnitOption[] = [
   { value: "lbs", label: "Pounds (lbs)", shortLabel: "lbs" },
 ];
 
-export interface WeightUnitSelectProps {
-  value: WeightUnit;
-  onChange: (value: WeightUnit) => void;
+export const VOLUME_UNIT_OPTIONS: WeightUnitOption<VolumeUnit>[] = [
+  { value: "ml", label: "Milliliters (ml)", shortLabel: "ml" },
+  { value: "l", label: "Liters (l)", shortLabel: "l" },
+  { value: "floz", label: "Fluid ounces (fl oz)", shortLabel: "fl oz" },
+];
+
+export interface WeightUnitSelectProps<T extends MeasureUnit = WeightUnit> {
+  value: T;
+  onChange: (value: T) => void;
+  /** Also offer volume units, weighed as water */
+  includeVolume?: boolean;
   disabled?: boolean;
   hasError?: boolean;
   id?: string;
   className?: string;
 }
 
-export function WeightUnitSelect({
+export function WeightUnitSelect<T extends MeasureUnit = WeightUnit>({
   value,
   onChange,
+  includeVolume = false,
   disabled = false,
   hasError = false,
   id,
   className,
-}: WeightUnitSelectProps) {
+}: WeightUnitSelectProps<T>) {
   const baseClassName = `flex h-10 w-full rounded-md border bg-white px-3 py-2 text-sm ring-offset-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-950 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-800 dark:bg-neutral-950 dark:ring-offset-neutral-950 dark:focus-visible:ring-neutral-300 ${
     hasError
       ? "border-red-500 dark:border-red-500"
@@ -43,15 +52,34 @@ export function WeightUnitSelect({
     <select
       id={id}
       value={value}
-      onChange={(e) => onChange(e.target.value as WeightUnit)}
+      onChange={(e) => onChange(e.target.value as T)}
       disabled={disabled}
       className={className ?? baseClassName}
     >
-      {WEIGHT_UNIT_OPTIONS.map((option) => (
-        <option key={option.value} value={option.value}>
-          {option.label}
-        </option>
-      ))}
+      {includeVolume ? (
+        <>
+          <optgroup label="Weight">
+            {WEIGHT_UNIT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Volume (water)">
+            {VOLUME_UNIT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </optgroup>
+        </>
+      ) : (
+        WEIGHT_UNIT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))
+      )}
     </select>
   );
 }
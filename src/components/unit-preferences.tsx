@@ -0,0 +1,189 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/ui/toast";
+import { WEIGHT_UNIT_OPTIONS } from "@/components/ui/weight-unit-select";
+import type { UnitPreferences as Preferences } from "@/lib/preferences";
+import type { UpdatePreferencesInput } from "@/lib/validations/preferences";
+import { toGrams } from "@/lib/weight";
+import {
+  DEFAULT_WEIGHT_CLASS_THRESHOLDS,
+  WEIGHT_CLASS_LABELS,
+  WEIGHT_CLASSES,
+  toTargetInput,
+} from "@/lib/weight-class";
+
+export function UnitPreferences() {
+  const [preferences, setPreferences] = React.useState<Preferences | null>(
+    null
+  );
+  const [isSaving, setIsSaving] = React.useState(false);
+  // Weight class limits as typed, in the display unit
+  const [limits, setLimits] = React.useState<string[]>([]);
+  const router = useRouter();
+  const { showToast } = useToast();
+
+  React.useEffect(() => {
+    fetch("/api/account/preferences")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setPreferences(data?.preferences ?? null))
+      .catch(() => setPreferences(null));
+  }, []);
+
+  React.useEffect(() => {
+    if (preferences) {
+      setLimits(
+        preferences.weightClassThresholds.map((grams) =>
+          toTargetInput(grams, preferences.displayUnit)
+        )
+      );
+    }
+  }, [preferences]);
+
+  const handleChange = async (update: UpdatePreferencesInput) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/account/preferences", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(update),
+      });
+
+      if (response.status === 401) {
+        // Preferences are stored on the session, which starts with the first list
+        showToast("Create a list before setting preferences", "error");
+        return;
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        showToast(
+          data?.details?.weightClassThresholds?.[0] ?? "Failed to save preferences",
+          "error"
+        );
+        // Put the saved weight class limits back into the inputs
+        setPreferences((prev) => prev && { ...prev });
+        return;
+      }
+
+      const data = await response.json();
+      setPreferences(data.preferences);
+      router.refresh();
+    } catch {
+      showToast("Failed to save preferences", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!preferences) {
+    return null;
+  }
+
+  const commitLimits = () => {
+    const grams = limits.map((limit) =>
+      toGrams(Number(limit), preferences.displayUnit)
+    );
+    const isUnchanged = grams.every(
+      (limit, i) =>
+        Math.abs(limit - preferences.weightClassThresholds[i]) < 0.5
+    );
+    if (!isUnchanged) {
+      handleChange({ weightClassThresholds: grams });
+    }
+  };
+
+  const isDefaultLimits = preferences.weightClassThresholds.every(
+    (limit, i) => limit === DEFAULT_WEIGHT_CLASS_THRESHOLDS[i]
+  );
+
+  const selectClassName =
+    "rounded-md border border-zinc-200 bg-white px-1.5 py-1 text-xs text-zinc-700 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300";
+
+  return (
+    <div className="flex flex-col gap-1.5 px-2 py-1.5 text-sm text-zinc-600 dark:text-zinc-400">
+      <label className="flex items-center justify-between gap-2">
+        Display unit
+        <select
+          value={preferences.displayUnit}
+          onChange={(e) =>
+            handleChange({
+              displayUnit: e.target.value as Preferences["displayUnit"],
+            })
+          }
+          disabled={isSaving}
+          className={selectClassName}
+        >
+          {WEIGHT_UNIT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.shortLabel}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        New item unit
+        <select
+          value={preferences.defaultWeightUnit}
+          onChange={(e) =>
+            handleChange({
+              defaultWeightUnit: e.target.value as Preferences["defaultWeightUnit"],
+            })
+          }
+          disabled={isSaving}
+          className={selectClassName}
+        >
+          {WEIGHT_UNIT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.shortLabel}
+            </option>
+          ))}
+        </select>
+      </label>
+      <details className="group">
+        <summary className="cursor-pointer select-none">Weight classes</summary>
+        <div className="mt-1.5 flex flex-col gap-1.5">
+          {limits.map((limit, index) => (
+            <label
+              key={WEIGHT_CLASSES[index]}
+              className="flex items-center justify-between gap-2 text-xs"
+            >
+              {WEIGHT_CLASS_LABELS[WEIGHT_CLASSES[index]]} under
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={limit}
+                  onChange={(e) =>
+                    setLimits((prev) =>
+                      prev.map((value, i) => (i === index ? e.target.value : value))
+                    )
+                  }
+                  onBlur={commitLimits}
+                  disabled={isSaving}
+                  className={`w-16 ${selectClassName}`}
+                />
+                {preferences.displayUnit}
+              </span>
+            </label>
+          ))}
+          {!isDefaultLimits && (
+            <button
+              type="button"
+              onClick={() => handleChange({ weightClassThresholds: null })}
+              disabled={isSaving}
+              className="self-end text-xs underline hover:text-zinc-900 disabled:opacity-50 dark:hover:text-zinc-100"
+            >
+              Reset to 5 / 10 / 20 lbs
+            </button>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
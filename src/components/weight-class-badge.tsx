@@ -0,0 +1,25 @@
+import { WEIGHT_CLASS_LABELS, type WeightClass } from "@/lib/weight-class";
+
+// Literal class names so Tailwind picks them up
+const BADGE_COLORS: Record<WeightClass, string> = {
+  "super-ultralight":
+    "bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300",
+  ultralight: "bg-sky-100 text-sky-800 dark:bg-sky-950 dark:text-sky-300",
+  lightweight:
+    "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300",
+  traditional: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+};
+
+interface WeightClassBadgeProps {
+  weightClass: WeightClass;
+}
+
+export function WeightClassBadge({ weightClass }: WeightClassBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${BADGE_COLORS[weightClass]}`}
+    >
+      {WEIGHT_CLASS_LABELS[weightClass]}
+    </span>
+  );
+}
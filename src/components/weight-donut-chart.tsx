@@ -0,0 +1,172 @@
+"use client";
+
+import * as React from "react";
+import {
+  fromGrams,
+  formatWeight,
+  type WeightUnit,
+  type ListWeightSummary,
+} from "@/lib/weight";
+import { calculateDonutSegments, describeDonutSegment } from "@/lib/chart";
+
+// Literal class names so Tailwind picks them up; cycled for long lists
+const CATEGORY_COLORS = [
+  { fill: "fill-sky-500", bg: "bg-sky-500" },
+  { fill: "fill-emerald-500", bg: "bg-emerald-500" },
+  { fill: "fill-violet-500", bg: "bg-violet-500" },
+  { fill: "fill-rose-500", bg: "bg-rose-500" },
+  { fill: "fill-orange-400", bg: "bg-orange-400" },
+  { fill: "fill-teal-500", bg: "bg-teal-500" },
+  { fill: "fill-indigo-500", bg: "bg-indigo-500" },
+  { fill: "fill-lime-500", bg: "bg-lime-500" },
+  { fill: "fill-pink-500", bg: "bg-pink-500" },
+  { fill: "fill-cyan-500", bg: "bg-cyan-500" },
+];
+
+/**
+ * Color used for a category in the chart, by its position in the list.
+ */
+export function getCategoryColor(index: number) {
+  return CATEGORY_COLORS[index % CATEGORY_COLORS.length];
+}
+
+const SIZE = 200;
+const CENTER = SIZE / 2;
+const OUTER_RING = { outer: 96, inner: 68 };
+const INNER_RING = { outer: 64, inner: 50 };
+
+interface WeightDonutChartProps {
+  summary: ListWeightSummary;
+  displayUnit: WeightUnit;
+  activeCategoryId: string | null;
+  onActiveCategoryChange: (categoryId: string | null) => void;
+}
+
+export function WeightDonutChart({
+  summary,
+  displayUnit,
+  activeCategoryId,
+  onActiveCategoryChange,
+}: WeightDonutChartProps) {
+  const categorySegments = calculateDonutSegments(
+    summary.categories.map((c) => c.totalWeight)
+  );
+  const labelSegments = calculateDonutSegments([
+    summary.totalBaseWeight,
+    summary.totalWornWeight,
+    summary.totalConsumableWeight,
+  ]);
+
+  if (categorySegments.length === 0) {
+    return null;
+  }
+
+  const display = (grams: number) =>
+    formatWeight(fromGrams(grams, displayUnit), displayUnit);
+  const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+  const labelRings = [
+    { name: "Base", className: "fill-zinc-400 dark:fill-zinc-500" },
+    { name: "Worn", className: "fill-blue-500" },
+    { name: "Consumable", className: "fill-amber-500" },
+  ];
+
+  const activeSegment = categorySegments.find(
+    (s) => summary.categories[s.index].categoryId === activeCategoryId
+  );
+  const activeCategory = activeSegment
+    ? summary.categories[activeSegment.index]
+    : null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="h-44 w-44 shrink-0 sm:h-48 sm:w-48"
+      role="img"
+      aria-label="Weight by category"
+      onMouseLeave={() => onActiveCategoryChange(null)}
+    >
+      {categorySegments.map((segment) => {
+        const category = summary.categories[segment.index];
+        const isActive = category.categoryId === activeCategoryId;
+        const isDimmed = activeCategoryId !== null && !isActive;
+
+        return (
+          <path
+            key={category.categoryId}
+            d={describeDonutSegment(
+              CENTER,
+              CENTER,
+              OUTER_RING.outer,
+              OUTER_RING.inner,
+              segment.startAngle,
+              segment.endAngle
+            )}
+            className={`${getCategoryColor(segment.index).fill} cursor-pointer stroke-white transition-opacity dark:stroke-zinc-900 ${
+              isDimmed ? "opacity-30" : ""
+            }`}
+            strokeWidth={1}
+            onMouseEnter={() => onActiveCategoryChange(category.categoryId)}
+            onClick={() =>
+              // Tapping the highlighted segment again clears it on touch screens
+              onActiveCategoryChange(isActive ? null : category.categoryId)
+            }
+          >
+            <title>
+              {`${category.categoryName}: ${display(category.totalWeight)} (${percent(segment.fraction)})`}
+            </title>
+          </path>
+        );
+      })}
+      {labelSegments.map((segment) => (
+        <path
+          key={labelRings[segment.index].name}
+          d={describeDonutSegment(
+            CENTER,
+            CENTER,
+            INNER_RING.outer,
+            INNER_RING.inner,
+            segment.startAngle,
+            segment.endAngle
+          )}
+          className={`${labelRings[segment.index].className} stroke-white dark:stroke-zinc-900`}
+          strokeWidth={1}
+        >
+          <title>
+            {`${labelRings[segment.index].name}: ${display(segment.value)} (${percent(segment.fraction)})`}
+          </title>
+        </path>
+      ))}
+      <text
+        x={CENTER}
+        y={CENTER - 6}
+        textAnchor="middle"
+        className="fill-zinc-500 text-[10px] dark:fill-zinc-400"
+      >
+        {activeCategory
+          ? activeCategory.categoryName.length > 14
+            ? `${activeCategory.categoryName.slice(0, 13)}…`
+            : activeCategory.categoryName
+          : "Total"}
+      </text>
+      <text
+        x={CENTER}
+        y={CENTER + 10}
+        textAnchor="middle"
+        className="fill-zinc-900 text-sm font-semibold dark:fill-zinc-100"
+      >
+        {display(activeCategory ? activeCategory.totalWeight : summary.totalPackWeight)}
+      </text>
+      {activeSegment && (
+        <text
+          x={CENTER}
+          y={CENTER + 24}
+          textAnchor="middle"
+          className="fill-zinc-500 text-[10px] dark:fill-zinc-400"
+        >
+          {percent(activeSegment.fraction)}
+        </text>
+      )}
+    </svg>
+  );
+}
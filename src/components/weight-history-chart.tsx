@@ -0,0 +1,153 @@
+"use client";
+
+import * as React from "react";
+import { fromGrams, formatWeight, type WeightUnit } from "@/lib/weight";
+
+interface WeightHistoryPoint {
+  baseWeight: number;
+  wornWeight: number;
+  consumableWeight: number;
+  totalWeight: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+type SeriesKey = "baseWeight" | "wornWeight" | "consumableWeight" | "totalWeight";
+
+const SERIES: { key: SeriesKey; label: string; stroke: string; swatch: string }[] = [
+  { key: "baseWeight", label: "Base", stroke: "stroke-zinc-400", swatch: "bg-zinc-400" },
+  { key: "wornWeight", label: "Worn", stroke: "stroke-blue-500", swatch: "bg-blue-500" },
+  { key: "consumableWeight", label: "Consumable", stroke: "stroke-amber-500", swatch: "bg-amber-500" },
+  { key: "totalWeight", label: "Total", stroke: "stroke-zinc-900 dark:stroke-zinc-100", swatch: "bg-zinc-900 dark:bg-zinc-100" },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+interface WeightHistoryChartProps {
+  listId: string;
+  /** Changes whenever the list contents change, triggering a refetch */
+  refreshKey: unknown;
+  displayUnit?: WeightUnit;
+}
+
+export function WeightHistoryChart({
+  listId,
+  refreshKey,
+  displayUnit = "g",
+}: WeightHistoryChartProps) {
+  const [history, setHistory] = React.useState<WeightHistoryPoint[]>([]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/lists/${listId}/history`)
+      .then((response) => (response.ok ? response.json() : { history: [] }))
+      .then((data: { history: WeightHistoryPoint[] }) => {
+        if (!cancelled) {
+          setHistory(data.history);
+        }
+      })
+      .catch(() => {
+        // History is supplementary; leave the chart hidden on failure
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listId, refreshKey]);
+
+  // A single snapshot has nothing to compare against
+  if (history.length < 2) {
+    return null;
+  }
+
+  const times = history.map((point) => new Date(point.createdAt).getTime());
+  const firstTime = times[0];
+  const timeSpan = times[times.length - 1] - firstTime || 1;
+  const maxWeight = Math.max(...history.map((point) => point.totalWeight)) || 1;
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const toPoints = (key: SeriesKey) =>
+    history
+      .map((point, index) => {
+        const x = CHART_PADDING + ((times[index] - firstTime) / timeSpan) * plotWidth;
+        const y = CHART_PADDING + plotHeight - (point[key] / maxWeight) * plotHeight;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ");
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+
+  const latest = history[history.length - 1];
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex items-center justify-between border-b border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4 sm:py-3">
+        <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+          Weight History
+        </h2>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {history.length} changes
+        </span>
+      </div>
+      <div className="px-3 py-3 sm:px-4">
+        <div className="mb-1 text-xs text-zinc-500 dark:text-zinc-400">
+          {formatWeight(fromGrams(maxWeight, displayUnit), displayUnit)}
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="h-32 w-full sm:h-40"
+          role="img"
+          aria-label={`Weight history, latest total ${formatWeight(
+            fromGrams(latest.totalWeight, displayUnit),
+            displayUnit
+          )}`}
+        >
+          <line
+            x1={CHART_PADDING}
+            y1={CHART_HEIGHT - CHART_PADDING}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y2={CHART_HEIGHT - CHART_PADDING}
+            className="stroke-zinc-200 dark:stroke-zinc-700"
+            vectorEffect="non-scaling-stroke"
+          />
+          {SERIES.map((series) => (
+            <polyline
+              key={series.key}
+              points={toPoints(series.key)}
+              fill="none"
+              strokeWidth={2}
+              strokeLinejoin="round"
+              className={series.stroke}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+        <div className="mt-1 flex justify-between text-xs text-zinc-500 dark:text-zinc-400">
+          <span>{formatDate(firstTime)}</span>
+          <span>{formatDate(times[times.length - 1])}</span>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+          {SERIES.map((series) => (
+            <span key={series.key} className="inline-flex items-center gap-1.5">
+              <span className={`h-2 w-2 rounded-full ${series.swatch}`} />
+              {series.label}{" "}
+              <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                {formatWeight(fromGrams(latest[series.key], displayUnit), displayUnit)}
+              </span>
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
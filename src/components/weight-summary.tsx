@@ -4,53 +4,144 @@ import * as React from "react";
 import type { Item } from "@/db/schema";
 import {
   calculateListWeightSummary,
+  calculateTagWeights,
   fromGrams,
   formatWeight,
   type WeightUnit,
   type ListWeightSummary,
+  type TagWeight,
+  type TripSettings,
+  type TripWeightSummary,
+  type WaterCarry,
 } from "@/lib/weight";
+import {
+  calculateListCostSummary,
+  formatCostTotals,
+  type CostTotals,
+} from "@/lib/cost";
+import {
+  DEFAULT_WEIGHT_CLASS_THRESHOLDS,
+  calculateTargetProgress,
+  getWeightClass,
+  type TargetProgress,
+  type WeightClassThresholds,
+} from "@/lib/weight-class";
+import { WeightDonutChart, getCategoryColor } from "@/components/weight-donut-chart";
+import { WeightClassBadge } from "@/components/weight-class-badge";
 
 interface CategoryWithItems {
   id: string;
   name: string;
-  items: Item[];
+  baseWeightTarget?: number | null;
+  items: (Item & { tags?: { id: string; name: string }[] })[];
 }
 
 interface WeightSummaryProps {
   categories: CategoryWithItems[];
   displayUnit?: WeightUnit;
+  showCost?: boolean;
+  trip?: TripSettings | null;
+  water?: WaterCarry | null;
+  baseWeightTarget?: number | null;
+  weightClassThresholds?: WeightClassThresholds;
 }
 
 export function WeightSummary({
   categories,
   displayUnit = "g",
+  showCost = true,
+  trip = null,
+  water = null,
+  baseWeightTarget = null,
+  weightClassThresholds = DEFAULT_WEIGHT_CLASS_THRESHOLDS,
 }: WeightSummaryProps) {
   const summary = React.useMemo(
-    () => calculateListWeightSummary(categories),
+    () => calculateListWeightSummary(categories, trip, water),
+    [categories, trip, water]
+  );
+  const costSummary = React.useMemo(
+    () => calculateListCostSummary(categories),
     [categories]
   );
+  // Tags count per-day consumables for the same days as the categories
+  const carriedDays = summary.trip?.legs[0].days;
+  const tagWeights = React.useMemo(
+    () => calculateTagWeights(categories, carriedDays),
+    [categories, carriedDays]
+  );
+  // Only show the cost column once at least one item has a price
+  const hasCost = showCost && costSummary.pricedItemCount > 0;
+  // Category highlighted in both the chart and the table
+  const [activeCategoryId, setActiveCategoryId] = React.useState<string | null>(
+    null
+  );
+  const setCategoryActive = (categoryId: string) => (active: boolean) =>
+    setActiveCategoryId(active ? categoryId : null);
+  // Water carry is not an item, so it gets its own consumable-only row
+  const waterRow = summary.totalWaterWeight
+    ? {
+        categoryId: "water-carry",
+        categoryName: "Water carry",
+        baseWeight: 0,
+        wornWeight: 0,
+        consumableWeight: summary.totalWaterWeight,
+        totalWeight: summary.totalWaterWeight,
+        itemCount: 0,
+      }
+    : null;
 
   if (categories.length === 0 || summary.totalItemCount === 0) {
     return null;
   }
 
+  const categoryTargets = summary.categories.map((category, index) =>
+    calculateTargetProgress(
+      category.baseWeight,
+      categories[index].baseWeightTarget
+    )
+  );
+
   return (
     <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
-      <div className="border-b border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4 sm:py-3">
+      <div className="flex items-center justify-between gap-2 border-b border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4 sm:py-3">
         <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
           Weight Summary
         </h2>
+        <WeightClassBadge
+          weightClass={getWeightClass(
+            summary.totalBaseWeight,
+            weightClassThresholds
+          )}
+        />
+      </div>
+      <div className="flex justify-center border-b border-zinc-200 px-3 py-4 dark:border-zinc-800 sm:px-4">
+        <WeightDonutChart
+          summary={summary}
+          displayUnit={displayUnit}
+          activeCategoryId={activeCategoryId}
+          onActiveCategoryChange={setActiveCategoryId}
+        />
       </div>
       {/* Mobile card layout */}
       <div className="divide-y divide-zinc-100 dark:divide-zinc-800 sm:hidden">
-        {summary.categories.map((category) => (
+        {summary.categories.map((category, index) => (
           <CategoryCard
             key={category.categoryId}
             category={category}
             displayUnit={displayUnit}
+            cost={hasCost ? costSummary.categories[index].totals : undefined}
+            target={categoryTargets[index]}
+            color={getCategoryColor(index).bg}
+            isActive={category.categoryId === activeCategoryId}
+            onActiveChange={setCategoryActive(category.categoryId)}
           />
         ))}
-        <TotalsCard summary={summary} displayUnit={displayUnit} />
+        {waterRow && <CategoryCard category={waterRow} displayUnit={displayUnit} />}
+        <TotalsCard
+          summary={summary}
+          displayUnit={displayUnit}
+          cost={hasCost ? costSummary.totals : undefined}
+        />
       </div>
       {/* Desktop table layout */}
       <div className="hidden overflow-x-auto sm:block">
@@ -84,24 +175,58 @@ export function WeightSummary({
               <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
                 Total
               </th>
+              {hasCost && (
+                <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
+                  Cost
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
-            {summary.categories.map((category) => (
+            {summary.categories.map((category, index) => (
               <CategoryRow
                 key={category.categoryId}
                 category={category}
                 displayUnit={displayUnit}
+                cost={hasCost ? costSummary.categories[index].totals : undefined}
+                target={categoryTargets[index]}
+                color={getCategoryColor(index).bg}
+                isActive={category.categoryId === activeCategoryId}
+                onActiveChange={setCategoryActive(category.categoryId)}
               />
             ))}
+            {waterRow && (
+              <CategoryRow
+                category={waterRow}
+                displayUnit={displayUnit}
+                cost={hasCost ? {} : undefined}
+              />
+            )}
           </tbody>
           <tfoot>
-            <TotalsRow summary={summary} displayUnit={displayUnit} />
+            <TotalsRow
+              summary={summary}
+              displayUnit={displayUnit}
+              cost={hasCost ? costSummary.totals : undefined}
+            />
           </tfoot>
         </table>
       </div>
+      {tagWeights.length > 0 && (
+        <TagWeightSection tagWeights={tagWeights} displayUnit={displayUnit} />
+      )}
+      {summary.trip && (
+        <TripPlanSection trip={summary.trip} displayUnit={displayUnit} />
+      )}
       <div className="border-t border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4">
-        <WeightBreakdown summary={summary} displayUnit={displayUnit} />
+        <WeightBreakdown
+          summary={summary}
+          displayUnit={displayUnit}
+          target={calculateTargetProgress(
+            summary.totalBaseWeight,
+            baseWeightTarget
+          )}
+        />
       </div>
     </div>
   );
@@ -118,24 +243,63 @@ interface CategoryRowProps {
     itemCount: number;
   };
   displayUnit: WeightUnit;
+  cost?: CostTotals;
+  /** Progress of the base weight against the category's target */
+  target?: TargetProgress | null;
+  /** Swatch color linking the row to its chart segment */
+  color?: string;
+  isActive?: boolean;
+  onActiveChange?: (active: boolean) => void;
 }
 
-function CategoryRow({ category, displayUnit }: CategoryRowProps) {
+function CategoryRow({
+  category,
+  displayUnit,
+  cost,
+  target,
+  color,
+  isActive = false,
+  onActiveChange,
+}: CategoryRowProps) {
   const display = (grams: number) => {
     if (grams === 0) return "-";
     return formatWeight(fromGrams(grams, displayUnit), displayUnit);
   };
 
   return (
-    <tr className="hover:bg-zinc-50 dark:hover:bg-zinc-800/50">
+    <tr
+      className={
+        isActive
+          ? "bg-zinc-100 dark:bg-zinc-800"
+          : "hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+      }
+      onMouseEnter={onActiveChange && (() => onActiveChange(true))}
+      onMouseLeave={onActiveChange && (() => onActiveChange(false))}
+    >
       <td className="px-4 py-2 font-medium text-zinc-900 dark:text-zinc-100">
-        {category.categoryName}
+        <span className="inline-flex items-center gap-2">
+          {color && (
+            <span className={`h-2.5 w-2.5 shrink-0 rounded-full ${color}`} />
+          )}
+          {category.categoryName}
+        </span>
       </td>
       <td className="px-4 py-2 text-right tabular-nums text-zinc-600 dark:text-zinc-400">
-        {category.itemCount}
+        {category.itemCount || "-"}
       </td>
       <td className="px-4 py-2 text-right tabular-nums text-zinc-600 dark:text-zinc-400">
         {display(category.baseWeight)}
+        {target && (
+          <div
+            className={`text-xs ${
+              target.remaining < 0
+                ? "text-red-600 dark:text-red-400"
+                : "text-zinc-400 dark:text-zinc-500"
+            }`}
+          >
+            of {display(target.target)}
+          </div>
+        )}
       </td>
       <td className="px-4 py-2 text-right tabular-nums text-blue-600 dark:text-blue-400">
         {display(category.wornWeight)}
@@ -146,6 +310,11 @@ function CategoryRow({ category, displayUnit }: CategoryRowProps) {
       <td className="px-4 py-2 text-right tabular-nums font-medium text-zinc-900 dark:text-zinc-100">
         {display(category.totalWeight)}
       </td>
+      {cost && (
+        <td className="px-4 py-2 text-right tabular-nums text-zinc-600 dark:text-zinc-400">
+          {formatCostTotals(cost)}
+        </td>
+      )}
     </tr>
   );
 }
@@ -153,9 +322,10 @@ function CategoryRow({ category, displayUnit }: CategoryRowProps) {
 interface TotalsRowProps {
   summary: ListWeightSummary;
   displayUnit: WeightUnit;
+  cost?: CostTotals;
 }
 
-function TotalsRow({ summary, displayUnit }: TotalsRowProps) {
+function TotalsRow({ summary, displayUnit, cost }: TotalsRowProps) {
   const display = (grams: number) => {
     if (grams === 0) return "-";
     return formatWeight(fromGrams(grams, displayUnit), displayUnit);
@@ -179,34 +349,62 @@ function TotalsRow({ summary, displayUnit }: TotalsRowProps) {
       <td className="px-4 py-2 text-right tabular-nums text-zinc-900 dark:text-zinc-100">
         {display(summary.totalPackWeight)}
       </td>
+      {cost && (
+        <td className="px-4 py-2 text-right tabular-nums text-zinc-900 dark:text-zinc-100">
+          {formatCostTotals(cost)}
+        </td>
+      )}
     </tr>
   );
 }
 
 // Mobile card components
-function CategoryCard({ category, displayUnit }: CategoryRowProps) {
+function CategoryCard({
+  category,
+  displayUnit,
+  cost,
+  target,
+  color,
+  isActive = false,
+  onActiveChange,
+}: CategoryRowProps) {
   const display = (grams: number) => {
     if (grams === 0) return "-";
     return formatWeight(fromGrams(grams, displayUnit), displayUnit);
   };
 
   return (
-    <div className="px-3 py-2.5">
+    <div
+      className={`px-3 py-2.5 ${isActive ? "bg-zinc-100 dark:bg-zinc-800" : ""}`}
+      onClick={onActiveChange && (() => onActiveChange(!isActive))}
+    >
       <div className="flex items-center justify-between mb-1.5">
-        <span className="font-medium text-zinc-900 dark:text-zinc-100 truncate">
-          {category.categoryName}
+        <span className="flex min-w-0 items-center gap-2 font-medium text-zinc-900 dark:text-zinc-100">
+          {color && (
+            <span className={`h-2.5 w-2.5 shrink-0 rounded-full ${color}`} />
+          )}
+          <span className="truncate">{category.categoryName}</span>
         </span>
         <span className="text-sm tabular-nums font-medium text-zinc-900 dark:text-zinc-100 shrink-0 ml-2">
           {display(category.totalWeight)}
         </span>
       </div>
       <div className="flex items-center gap-3 text-xs">
-        <span className="text-zinc-500 dark:text-zinc-500">
-          {category.itemCount} {category.itemCount === 1 ? "item" : "items"}
-        </span>
-        {category.baseWeight > 0 && (
-          <span className="text-zinc-600 dark:text-zinc-400">
+        {category.itemCount > 0 && (
+          <span className="text-zinc-500 dark:text-zinc-500">
+            {category.itemCount} {category.itemCount === 1 ? "item" : "items"}
+          </span>
+        )}
+        {(category.baseWeight > 0 || target) && (
+          <span
+            className={
+              target && target.remaining < 0
+                ? "text-red-600 dark:text-red-400"
+                : "text-zinc-600 dark:text-zinc-400"
+            }
+          >
             Base: {display(category.baseWeight)}
+            {target && ` / ${display(target.target)}`}
           </span>
         )}
         {category.wornWeight > 0 && (
@@ -219,12 +417,17 @@ function CategoryCard({ category, displayUnit }: CategoryRowProps) {
             Cons: {display(category.consumableWeight)}
           </span>
         )}
+        {cost && Object.keys(cost).length > 0 && (
+          <span className="text-zinc-600 dark:text-zinc-400">
+            Cost: {formatCostTotals(cost)}
+          </span>
+        )}
       </div>
     </div>
   );
 }
 
-function TotalsCard({ summary, displayUnit }: TotalsRowProps) {
+function TotalsCard({ summary, displayUnit, cost }: TotalsRowProps) {
   const display = (grams: number) => {
     if (grams === 0) return "-";
     return formatWeight(fromGrams(grams, displayUnit), displayUnit);
@@ -259,7 +462,141 @@ function TotalsCard({ summary, displayUnit }: TotalsRowProps) {
             Cons: {display(summary.totalConsumableWeight)}
           </span>
         )}
+        {cost && (
+          <span className="text-zinc-600 dark:text-zinc-400">
+            Cost: {formatCostTotals(cost)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TagWeightSectionProps {
+  tagWeights: TagWeight[];
+  displayUnit: WeightUnit;
+}
+
+function TagWeightSection({ tagWeights, displayUnit }: TagWeightSectionProps) {
+  // Tag subtotals share the category row layout; items with several tags
+  // appear under each of them, so these rows do not add up to the total
+  const rows = tagWeights.map((tag) => ({
+    categoryId: tag.tagId,
+    categoryName: tag.tagName,
+    baseWeight: tag.baseWeight,
+    wornWeight: tag.wornWeight,
+    consumableWeight: tag.consumableWeight,
+    totalWeight: tag.totalWeight,
+    itemCount: tag.itemCount,
+  }));
+
+  return (
+    <div className="border-t border-zinc-200 dark:border-zinc-800">
+      <h3 className="px-3 pt-2 text-xs font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-500 sm:px-4">
+        By Tag
+      </h3>
+      {/* Mobile card layout */}
+      <div className="divide-y divide-zinc-100 dark:divide-zinc-800 sm:hidden">
+        {rows.map((row) => (
+          <CategoryCard key={row.categoryId} category={row} displayUnit={displayUnit} />
+        ))}
+      </div>
+      {/* Desktop table layout */}
+      <div className="hidden overflow-x-auto sm:block">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 dark:border-zinc-800">
+              <th className="px-4 py-2 text-left font-medium text-zinc-600 dark:text-zinc-400">
+                Tag
+              </th>
+              <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
+                Items
+              </th>
+              <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
+                Base
+              </th>
+              <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
+                Worn
+              </th>
+              <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
+                Consumable
+              </th>
+              <th className="px-4 py-2 text-right font-medium text-zinc-600 dark:text-zinc-400">
+                Total
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {rows.map((row) => (
+              <CategoryRow key={row.categoryId} category={row} displayUnit={displayUnit} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface TripPlanSectionProps {
+  trip: TripWeightSummary;
+  displayUnit: WeightUnit;
+}
+
+function TripPlanSection({ trip, displayUnit }: TripPlanSectionProps) {
+  const display = (grams: number) =>
+    formatWeight(fromGrams(grams, displayUnit), displayUnit);
+
+  return (
+    <div className="border-t border-zinc-200 px-3 py-2 dark:border-zinc-800 sm:px-4">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-500">
+        Trip Plan · {trip.days} {trip.days === 1 ? "day" : "days"}
+      </h3>
+      <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-2 text-xs sm:grid-cols-4 sm:gap-4 sm:text-sm">
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Per Day</div>
+          <div className="font-medium text-zinc-900 dark:text-zinc-100 tabular-nums">
+            {display(trip.dailyConsumableWeight)}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Starting Consumables</div>
+          <div className="font-medium text-amber-600 dark:text-amber-400 tabular-nums">
+            {display(trip.startingConsumableWeight)}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Average Carried</div>
+          <div className="font-medium text-zinc-900 dark:text-zinc-100 tabular-nums">
+            {display(trip.averageCarriedWeight)}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500 dark:text-zinc-500">Resupplies</div>
+          <div className="font-medium text-zinc-900 dark:text-zinc-100 tabular-nums">
+            {trip.resupplyDays.length}
+          </div>
+        </div>
       </div>
+      {trip.legs.length > 1 && (
+        <ul className="mt-2 divide-y divide-zinc-100 text-xs dark:divide-zinc-800 sm:text-sm">
+          {trip.legs.map((leg) => (
+            <li
+              key={leg.startDay}
+              className="flex items-center justify-between gap-2 py-1"
+            >
+              <span className="text-zinc-600 dark:text-zinc-400">
+                {leg.startDay === 1 ? "Trailhead" : `Resupply, day ${leg.startDay}`}
+                <span className="ml-1 text-zinc-400 dark:text-zinc-500">
+                  ({leg.days} {leg.days === 1 ? "day" : "days"} of food)
+                </span>
+              </span>
+              <span className="tabular-nums text-zinc-900 dark:text-zinc-100">
+                {display(leg.carriedWeight)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -267,9 +604,10 @@ function TotalsCard({ summary, displayUnit }: TotalsRowProps) {
 interface WeightBreakdownProps {
   summary: ListWeightSummary;
   displayUnit: WeightUnit;
+  target?: TargetProgress | null;
 }
 
-function WeightBreakdown({ summary, displayUnit }: WeightBreakdownProps) {
+function WeightBreakdown({ summary, displayUnit, target }: WeightBreakdownProps) {
   const baseWeight = fromGrams(summary.totalBaseWeight, displayUnit);
   const wornWeight = fromGrams(summary.totalWornWeight, displayUnit);
   const consumableWeight = fromGrams(summary.totalConsumableWeight, displayUnit);
@@ -337,6 +675,46 @@ function WeightBreakdown({ summary, displayUnit }: WeightBreakdownProps) {
           </div>
         </div>
       </div>
+
+      {target && <BaseWeightTarget target={target} displayUnit={displayUnit} />}
+    </div>
+  );
+}
+
+interface BaseWeightTargetProps {
+  target: TargetProgress;
+  displayUnit: WeightUnit;
+}
+
+function BaseWeightTarget({ target, displayUnit }: BaseWeightTargetProps) {
+  const display = (grams: number) =>
+    formatWeight(fromGrams(grams, displayUnit), displayUnit);
+  const isOver = target.remaining < 0;
+
+  return (
+    <div className="space-y-1 text-xs sm:text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-zinc-500 dark:text-zinc-500">
+          Base weight target · {display(target.target)}
+        </span>
+        <span
+          className={`font-medium tabular-nums ${
+            isOver
+              ? "text-red-600 dark:text-red-400"
+              : "text-green-700 dark:text-green-400"
+          }`}
+        >
+          {isOver
+            ? `${display(-target.remaining)} over`
+            : `${display(target.remaining)} under`}
+        </span>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+        <div
+          className={`h-full rounded-full ${isOver ? "bg-red-500" : "bg-green-500"}`}
+          style={{ width: `${Math.min(target.fraction, 1) * 100}%` }}
+        />
+      </div>
     </div>
   );
 }
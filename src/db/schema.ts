@@ -7,14 +7,33 @@ import {
   boolean,
   integer,
   real,
+  primaryKey,
+  unique,
+  index,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // Users table
 export const users = pgTable("users", {
   id: uuid("id").defaultRandom().primaryKey(),
   username: varchar("username", { length: 255 }).notNull().unique(),
   email: varchar("email", { length: 255 }).notNull().unique(),
-  passwordHash: text("password_hash").notNull(),
+  // Set once the user follows the link sent to their address (null = unverified)
+  emailVerifiedAt: timestamp("email_verified_at"),
+  passwordHash: text("password_hash"), // null for accounts created through OpenID Connect
+  displayUnit: varchar("display_unit", { length: 10 }).default("g").notNull(), // 'g', 'oz', 'kg', 'lbs'
+  defaultWeightUnit: varchar("default_weight_unit", { length: 10 }).default("g").notNull(), // unit for new items
+  // Base weight limits in grams for super-ultralight, ultralight and lightweight (null = defaults)
+  weightClassThresholds: real("weight_class_thresholds").array(),
+  // Shown on the public profile page
+  bio: text("bio"),
+  avatarUrl: text("avatar_url"),
+  // Two-factor authentication: confirmed TOTP secret (null = off), the secret
+  // being enrolled, and the last time step used so codes can't be replayed
+  totpSecret: text("totp_secret"),
+  totpPendingSecret: text("totp_pending_secret"),
+  totpLastUsedStep: integer("totp_last_used_step"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -23,6 +42,10 @@ export const users = pgTable("users", {
 export const anonymousSessions = pgTable("anonymous_sessions", {
   id: uuid("id").defaultRandom().primaryKey(),
   sessionToken: varchar("session_token", { length: 255 }).notNull().unique(),
+  displayUnit: varchar("display_unit", { length: 10 }).default("g").notNull(), // 'g', 'oz', 'kg', 'lbs'
+  defaultWeightUnit: varchar("default_weight_unit", { length: 10 }).default("g").notNull(), // unit for new items
+  // Base weight limits in grams for super-ultralight, ultralight and lightweight (null = defaults)
+  weightClassThresholds: real("weight_class_thresholds").array(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
 });
@@ -38,6 +61,45 @@ export const sessions = pgTable("sessions", {
   expiresAt: timestamp("expires_at").notNull(),
 });
 
+// Identities at OpenID Connect providers that can sign in to an account
+export const userIdentities = pgTable(
+  "user_identities",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    provider: varchar("provider", { length: 50 }).notNull(), // id from OAUTH_PROVIDERS
+    subject: varchar("subject", { length: 255 }).notNull(), // the provider's `sub` claim
+    email: varchar("email", { length: 255 }), // email claim when the identity was linked
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.provider, table.subject)]
+);
+
+// Hashed one-time recovery codes for two-factor authentication
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(), // SHA-256 hex
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Sign-ins that passed the password check and wait for a second factor
+export const twoFactorChallenges = pgTable("two_factor_challenges", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  token: varchar("token", { length: 255 }).notNull().unique(),
+  attempts: integer("attempts").notNull().default(0), // wrong codes entered
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // Password reset tokens table
 export const passwordResetTokens = pgTable("password_reset_tokens", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -49,6 +111,17 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   expiresAt: timestamp("expires_at").notNull(),
 });
 
+// Email verification tokens table
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  token: varchar("token", { length: 255 }).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // Lists table
 export const lists = pgTable("lists", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -61,6 +134,21 @@ export const lists = pgTable("lists", {
   slug: varchar("slug", { length: 255 }).notNull(),
   description: text("description"),
   isPublic: boolean("is_public").default(false).notNull(),
+  hidePrices: boolean("hide_prices").default(false).notNull(),
+  displayUnit: varchar("display_unit", { length: 10 }), // overrides the owner's preference when set
+  // Public list this one was forked from (null once the source is deleted)
+  forkedFromListId: uuid("forked_from_list_id").references(
+    (): AnyPgColumn => lists.id,
+    { onDelete: "set null" }
+  ),
+  // Trip planning: length in days and the days on which food is resupplied
+  tripDays: integer("trip_days"),
+  resupplyDays: integer("resupply_days").array().notNull().default(sql`'{}'`),
+  caloriesPerDay: integer("calories_per_day"), // food planning target
+  // Most water carried between sources, added to the consumable weight
+  waterCarryAmount: real("water_carry_amount"),
+  waterCarryUnit: varchar("water_carry_unit", { length: 10 }).default("l").notNull(), // 'ml', 'l', 'floz'
+  baseWeightTarget: real("base_weight_target"), // in grams
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -74,6 +162,24 @@ export const categories = pgTable("categories", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   position: integer("position").notNull().default(0),
+  baseWeightTarget: real("base_weight_target"), // in grams
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Gear table (per-user closet of items that can be shared across lists)
+export const gear = pgTable("gear", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+  anonymousSessionId: uuid("anonymous_session_id").references(
+    () => anonymousSessions.id,
+    { onDelete: "cascade" }
+  ),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  url: text("url"),
+  weightAmount: real("weight_amount").notNull().default(0),
+  weightUnit: varchar("weight_unit", { length: 10 }).notNull().default("g"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -84,18 +190,80 @@ export const items = pgTable("items", {
   categoryId: uuid("category_id")
     .references(() => categories.id, { onDelete: "cascade" })
     .notNull(),
+  gearId: uuid("gear_id").references(() => gear.id, { onDelete: "set null" }),
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   url: text("url"),
   weightAmount: real("weight_amount").notNull().default(0),
-  weightUnit: varchar("weight_unit", { length: 10 }).notNull().default("g"),
+  weightUnit: varchar("weight_unit", { length: 10 }).notNull().default("g"), // weight, or volume for water
   label: varchar("label", { length: 20 }).default("none").notNull(),
   quantity: integer("quantity").notNull().default(1),
+  perDay: boolean("per_day").default(false).notNull(), // consumable amount is needed each trip day
+  // Nutrition per serving; without a serving weight it covers one whole item
+  calories: real("calories"),
+  protein: real("protein"), // grams
+  fat: real("fat"), // grams
+  carbs: real("carbs"), // grams
+  servingWeight: real("serving_weight"), // in the item's weight unit
+  price: real("price"),
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
   position: integer("position").notNull().default(0),
+  packedCount: integer("packed_count").notNull().default(0), // units ticked off in checklist mode
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Weight snapshots table (history of a list's weight summary over time)
+export const weightSnapshots = pgTable(
+  "weight_snapshots",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    listId: uuid("list_id")
+      .references(() => lists.id, { onDelete: "cascade" })
+      .notNull(),
+    baseWeight: real("base_weight").notNull(), // in grams
+    wornWeight: real("worn_weight").notNull(), // in grams
+    consumableWeight: real("consumable_weight").notNull(), // in grams
+    totalWeight: real("total_weight").notNull(), // in grams
+    itemCount: integer("item_count").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  // History is always read per list in time order
+  (table) => [
+    index("weight_snapshots_list_id_created_at_idx").on(
+      table.listId,
+      table.createdAt
+    ),
+  ]
+);
+
+// Tags table (user-defined item labels such as "shared" or "electronics")
+export const tags = pgTable("tags", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+  anonymousSessionId: uuid("anonymous_session_id").references(
+    () => anonymousSessions.id,
+    { onDelete: "cascade" }
+  ),
+  name: varchar("name", { length: 50 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Item tags join table (many-to-many between items and tags)
+export const itemTags = pgTable(
+  "item_tags",
+  {
+    itemId: uuid("item_id")
+      .references(() => items.id, { onDelete: "cascade" })
+      .notNull(),
+    tagId: uuid("tag_id")
+      .references(() => tags.id, { onDelete: "cascade" })
+      .notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.itemId, table.tagId] })]
+);
+
 // Type exports for use in application
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -106,14 +274,38 @@ export type NewAnonymousSession = typeof anonymousSessions.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodes.$inferInsert;
+
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+export type NewTwoFactorChallenge = typeof twoFactorChallenges.$inferInsert;
+
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type NewPasswordResetToken = typeof passwordResetTokens.$inferInsert;
 
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type NewEmailVerificationToken = typeof emailVerificationTokens.$inferInsert;
+
 export type List = typeof lists.$inferSelect;
 export type NewList = typeof lists.$inferInsert;
 
 export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
 
+export type Gear = typeof gear.$inferSelect;
+export type NewGear = typeof gear.$inferInsert;
+
 export type Item = typeof items.$inferSelect;
 export type NewItem = typeof items.$inferInsert;
+
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+
+export type ItemTag = typeof itemTags.$inferSelect;
+export type NewItemTag = typeof itemTags.$inferInsert;
+
+export type WeightSnapshot = typeof weightSnapshots.$inferSelect;
+export type NewWeightSnapshot = typeof weightSnapshots.$inferInsert;
@@ -0,0 +1,110 @@
+import { db } from "@/db";
+import { gear, itemTags, lists, tags } from "@/db/schema";
+import { makeSlugUnique } from "@/lib/slug";
+import { eq, sql } from "drizzle-orm";
+
+export interface RenamedList {
+  name: string;
+  from: string; // slug used while anonymous
+  to: string; // slug given to avoid the account's existing lists
+}
+
+export interface AnonymousMigrationSummary {
+  migratedLists: number;
+  renamedLists: RenamedList[];
+}
+
+/**
+ * Move the lists, gear closet and tags of an anonymous session to an account.
+ * Lists whose slug the account already uses get the next free one, and tags
+ * named like one of the account's tags are merged into it.
+ */
+export async function migrateAnonymousData(
+  anonymousSessionId: string,
+  userId: string
+): Promise<AnonymousMigrationSummary> {
+  // Move everything in one transaction so a failure leaves nothing half-owned
+  return db.transaction(async (tx) => {
+    const accountLists = await tx
+      .select({ slug: lists.slug })
+      .from(lists)
+      .where(eq(lists.userId, userId));
+    const anonymousLists = await tx
+      .select({ id: lists.id, name: lists.name, slug: lists.slug })
+      .from(lists)
+      .where(eq(lists.anonymousSessionId, anonymousSessionId));
+
+    // Resolve slug collisions before the lists change owner, keeping clear of
+    // the slugs the session's other lists already use
+    const accountSlugs = accountLists.map((list) => list.slug);
+    const takenSlugs = [
+      ...accountSlugs,
+      ...anonymousLists.map((list) => list.slug),
+    ];
+    const renamedLists: RenamedList[] = [];
+    for (const list of anonymousLists) {
+      if (!accountSlugs.includes(list.slug)) {
+        continue;
+      }
+      const slug = makeSlugUnique(list.slug, takenSlugs);
+      takenSlugs.push(slug);
+      await tx.update(lists).set({ slug }).where(eq(lists.id, list.id));
+      renamedLists.push({ name: list.name, from: list.slug, to: slug });
+    }
+
+    // Transfer all lists from the anonymous session to the user
+    const migratedLists = await tx
+      .update(lists)
+      .set({
+        userId,
+        anonymousSessionId: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(lists.anonymousSessionId, anonymousSessionId))
+      .returning({ id: lists.id });
+
+    // Transfer the gear closet so migrated items stay linked to their gear
+    await tx
+      .update(gear)
+      .set({
+        userId,
+        anonymousSessionId: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(gear.anonymousSessionId, anonymousSessionId));
+
+    // Tag names are unique per owner, so fold duplicates into the account's tag
+    const accountTags = await tx
+      .select({ id: tags.id, name: sql<string>`lower(${tags.name})` })
+      .from(tags)
+      .where(eq(tags.userId, userId));
+    const anonymousTags = await tx
+      .select({ id: tags.id, name: sql<string>`lower(${tags.name})` })
+      .from(tags)
+      .where(eq(tags.anonymousSessionId, anonymousSessionId));
+
+    const accountTagIds = new Map(accountTags.map((tag) => [tag.name, tag.id]));
+    for (const tag of anonymousTags) {
+      const accountTagId = accountTagIds.get(tag.name);
+      if (accountTagId) {
+        await tx
+          .update(itemTags)
+          .set({ tagId: accountTagId })
+          .where(eq(itemTags.tagId, tag.id));
+        await tx.delete(tags).where(eq(tags.id, tag.id));
+      }
+    }
+
+    // Transfer the remaining tags so migrated items keep their labels
+    await tx
+      .update(tags)
+      .set({
+        userId,
+        anonymousSessionId: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(tags.anonymousSessionId, anonymousSessionId));
+
+    return { migratedLists: migratedLists.length, renamedLists };
+  });
+}
@@ -1,5 +1,22 @@
-import { describe, it, expect } from "vitest";
-import { hashPassword, verifyPassword } from "./auth";
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import {
+  buildAuthorizationUrl,
+  decodeOAuthFlowState,
+  discoverOidcIssuer,
+  encodeOAuthFlowState,
+  getCodeChallenge,
+  getOAuthProvider,
+  getOAuthProviders,
+  getOAuthUsernameBase,
+  hashPassword,
+  verifyIdToken,
+  verifyPassword,
+  type OidcMetadata,
+} from "./auth";
+import {
+  startMockOidcIssuer,
+  type MockOidcIssuer,
+} from "@/__tests__/mock-oidc-issuer";
 
 describe("hashPassword", () => {
   it("returns a different hash than the original password", async () => {
@@ -133,3 +150,232 @@ describe("verifyPassword", () => {
     expect(isInvalidTrimmed).toBe(false);
   });
 });
+
+describe("getOAuthProviders", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads enabled providers from the environment", () => {
+    vi.stubEnv("OAUTH_PROVIDERS", "acme, team-sso");
+    vi.stubEnv("OAUTH_ACME_ISSUER", "https://id.acme.test/");
+    vi.stubEnv("OAUTH_ACME_CLIENT_ID", "ultralight");
+    vi.stubEnv("OAUTH_ACME_NAME", "Acme");
+    vi.stubEnv("OAUTH_TEAM_SSO_ISSUER", "https://sso.team.test");
+    vi.stubEnv("OAUTH_TEAM_SSO_CLIENT_ID", "ul");
+    vi.stubEnv("OAUTH_TEAM_SSO_CLIENT_SECRET", "secret");
+
+    expect(getOAuthProviders()).toEqual([
+      {
+        id: "acme",
+        name: "Acme",
+        issuer: "https://id.acme.test",
+        clientId: "ultralight",
+        clientSecret: undefined,
+      },
+      {
+        id: "team-sso",
+        name: "team-sso",
+        issuer: "https://sso.team.test",
+        clientId: "ul",
+        clientSecret: "secret",
+      },
+    ]);
+  });
+
+  it("skips providers missing an issuer or client id", () => {
+    vi.stubEnv("OAUTH_PROVIDERS", "acme");
+    vi.stubEnv("OAUTH_ACME_ISSUER", "https://id.acme.test");
+
+    expect(getOAuthProviders()).toEqual([]);
+    expect(getOAuthProvider("acme")).toBeNull();
+  });
+
+  it("only looks up enabled providers", () => {
+    vi.stubEnv("OAUTH_PROVIDERS", "");
+    vi.stubEnv("OAUTH_ACME_ISSUER", "https://id.acme.test");
+    vi.stubEnv("OAUTH_ACME_CLIENT_ID", "ultralight");
+
+    expect(getOAuthProvider("acme")).toBeNull();
+  });
+});
+
+describe("getCodeChallenge", () => {
+  it("matches the RFC 7636 example", () => {
+    expect(getCodeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk")).toBe(
+      "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM"
+    );
+  });
+});
+
+describe("OAuth flow state", () => {
+  const flow = {
+    provider: "acme",
+    state: "state",
+    nonce: "nonce",
+    codeVerifier: "verifier",
+  };
+
+  it("round-trips through the cookie value", () => {
+    expect(decodeOAuthFlowState(encodeOAuthFlowState(flow))).toEqual(flow);
+  });
+
+  it("rejects missing or malformed cookies", () => {
+    expect(decodeOAuthFlowState(undefined)).toBeNull();
+    expect(decodeOAuthFlowState("not-json")).toBeNull();
+    expect(
+      decodeOAuthFlowState(
+        Buffer.from(JSON.stringify({ provider: "acme" })).toString("base64url")
+      )
+    ).toBeNull();
+  });
+});
+
+describe("getOAuthUsernameBase", () => {
+  const claims = { iss: "", sub: "1", aud: "", exp: 0 };
+
+  it("prefers the provider's username", () => {
+    expect(
+      getOAuthUsernameBase({
+        ...claims,
+        preferred_username: "trail.runner",
+        email: "runner@example.com",
+      })
+    ).toBe("trailrunner");
+  });
+
+  it("falls back to the email's local part", () => {
+    expect(
+      getOAuthUsernameBase({ ...claims, preferred_username: "李", email: "j.muir@example.com" })
+    ).toBe("jmuir");
+  });
+
+  it("leaves room for a suffix within the username limit", () => {
+    expect(
+      getOAuthUsernameBase({ ...claims, preferred_username: "a".repeat(40) })
+    ).toHaveLength(26);
+  });
+
+  it("uses a default when nothing usable is left", () => {
+    expect(getOAuthUsernameBase({ ...claims, email: "x@example.com" })).toBe(
+      "hiker"
+    );
+  });
+});
+
+describe("OpenID Connect against a mock issuer", () => {
+  let issuer: MockOidcIssuer;
+  let metadata: OidcMetadata;
+  const options = () => ({ metadata, clientId: "ultralight", nonce: "nonce-1" });
+  const validClaims = () => ({
+    iss: issuer.issuer,
+    sub: "user-1",
+    aud: "ultralight",
+    exp: Math.floor(Date.now() / 1000) + 300,
+    nonce: "nonce-1",
+    email: "hiker@example.com",
+  });
+
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+    metadata = (await discoverOidcIssuer(issuer.issuer))!;
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  it("discovers the issuer's endpoints", () => {
+    expect(metadata).toMatchObject({
+      issuer: issuer.issuer,
+      token_endpoint: `${issuer.issuer}/token`,
+      jwks_uri: `${issuer.issuer}/jwks`,
+    });
+  });
+
+  it("rejects a discovery document for another issuer", async () => {
+    expect(await discoverOidcIssuer(`${issuer.issuer}/other`)).toBeNull();
+  });
+
+  it("builds an authorization URL with a PKCE challenge", () => {
+    const url = new URL(
+      buildAuthorizationUrl(
+        {
+          id: "acme",
+          name: "Acme",
+          issuer: issuer.issuer,
+          clientId: "ultralight",
+        },
+        metadata,
+        { state: "state-1", nonce: "nonce-1", codeVerifier: "verifier" }
+      )
+    );
+
+    expect(url.origin + url.pathname).toBe(`${issuer.issuer}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: "code",
+      client_id: "ultralight",
+      redirect_uri: "http://localhost:3000/api/auth/oauth/acme/callback",
+      scope: "openid email profile",
+      state: "state-1",
+      nonce: "nonce-1",
+      code_challenge: getCodeChallenge("verifier"),
+      code_challenge_method: "S256",
+    });
+  });
+
+  it("accepts a valid ID token", async () => {
+    const idToken = await issuer.signIdToken(validClaims());
+
+    expect(await verifyIdToken(idToken, options())).toMatchObject({
+      sub: "user-1",
+      email: "hiker@example.com",
+    });
+  });
+
+  it("rejects tokens for another client, nonce or issuer", async () => {
+    for (const claims of [
+      { ...validClaims(), aud: "someone-else" },
+      { ...validClaims(), nonce: "replayed" },
+      { ...validClaims(), iss: "https://evil.test" },
+    ]) {
+      expect(
+        await verifyIdToken(await issuer.signIdToken(claims), options())
+      ).toBeNull();
+    }
+  });
+
+  it("rejects expired tokens", async () => {
+    const idToken = await issuer.signIdToken({
+      ...validClaims(),
+      exp: Math.floor(Date.now() / 1000) - 600,
+    });
+
+    expect(await verifyIdToken(idToken, options())).toBeNull();
+  });
+
+  it("rejects tampered tokens", async () => {
+    const [header, , signature] = (
+      await issuer.signIdToken(validClaims())
+    ).split(".");
+    const payload = Buffer.from(
+      JSON.stringify({ ...validClaims(), sub: "admin" })
+    ).toString("base64url");
+
+    expect(
+      await verifyIdToken(`${header}.${payload}.${signature}`, options())
+    ).toBeNull();
+  });
+
+  it("rejects unsigned tokens", async () => {
+    const header = Buffer.from(JSON.stringify({ alg: "none" })).toString(
+      "base64url"
+    );
+    const payload = Buffer.from(JSON.stringify(validClaims())).toString(
+      "base64url"
+    );
+
+    expect(await verifyIdToken(`${header}.${payload}.`, options())).toBeNull();
+    expect(await verifyIdToken("garbage", options())).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import bcrypt from "bcrypt";
+import { createHash, randomBytes } from "crypto";
 
 const SALT_ROUNDS = 12;
 
@@ -12,3 +13,348 @@ export async function verifyPassword(
 ): Promise<boolean> {
   return bcrypt.compare(password, hash);
 }
+
+// OpenID Connect sign-in (authorization code flow with PKCE)
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+export const OAUTH_STATE_COOKIE_NAME = "oauth_state";
+export const OAUTH_STATE_MAX_AGE = 60 * 10; // 10 minutes to finish signing in
+
+// Leaves room for a "-N" suffix within the 30 character username limit
+const OAUTH_USERNAME_MAX_LENGTH = 26;
+
+// Tolerated clock difference with the provider when checking expiry
+const ID_TOKEN_CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * An OpenID Connect provider configured through the environment:
+ * OAUTH_PROVIDERS lists provider ids, and each id has OAUTH_<ID>_ISSUER,
+ * OAUTH_<ID>_CLIENT_ID, optional OAUTH_<ID>_CLIENT_SECRET and OAUTH_<ID>_NAME.
+ */
+export interface OAuthProvider {
+  id: string; // URL segment under /api/auth/oauth
+  name: string; // shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+}
+
+/**
+ * The parts of an issuer's discovery document the login flow needs
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ */
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  name?: string;
+}
+
+/**
+ * Values tying a callback to the sign-in that started it, kept in a cookie
+ */
+export interface OAuthFlowState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+function getEnabledProviderIds(): string[] {
+  return (process.env.OAUTH_PROVIDERS ?? "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => /^[a-z0-9-]+$/.test(id));
+}
+
+function readProvider(id: string): OAuthProvider | null {
+  const prefix = `OAUTH_${id.toUpperCase().replace(/-/g, "_")}_`;
+  const issuer = process.env[`${prefix}ISSUER`];
+  const clientId = process.env[`${prefix}CLIENT_ID`];
+
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  return {
+    id,
+    name: process.env[`${prefix}NAME`] || id,
+    issuer: issuer.replace(/\/$/, ""),
+    clientId,
+    clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+  };
+}
+
+/**
+ * Every fully configured OpenID Connect provider, in OAUTH_PROVIDERS order
+ */
+export function getOAuthProviders(): OAuthProvider[] {
+  return getEnabledProviderIds()
+    .map(readProvider)
+    .filter((provider): provider is OAuthProvider => provider !== null);
+}
+
+/**
+ * Look up a provider by the id in its sign-in URL.
+ * @returns The provider, or null if it isn't enabled or is missing settings
+ */
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  return getEnabledProviderIds().includes(id) ? readProvider(id) : null;
+}
+
+/**
+ * URL the provider sends users back to, registered with the provider
+ */
+export function getOAuthRedirectUri(provider: Pick<OAuthProvider, "id">): string {
+  return `${APP_URL}/api/auth/oauth/${provider.id}/callback`;
+}
+
+/**
+ * Random URL-safe value for the state, nonce and PKCE code verifier
+ */
+export function generateOAuthSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * PKCE S256 code challenge for a code verifier
+ * @see https://datatracker.ietf.org/doc/html/rfc7636#section-4.2
+ */
+export function getCodeChallenge(codeVerifier: string): string {
+  return createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+export function encodeOAuthFlowState(flow: OAuthFlowState): string {
+  return Buffer.from(JSON.stringify(flow)).toString("base64url");
+}
+
+/**
+ * Read the flow state cookie.
+ * @returns The stored flow, or null when the cookie is missing or malformed
+ */
+export function decodeOAuthFlowState(
+  value: string | undefined
+): OAuthFlowState | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const flow = JSON.parse(Buffer.from(value, "base64url").toString());
+    const isValid = ["provider", "state", "nonce", "codeVerifier"].every(
+      (key) => typeof flow?.[key] === "string"
+    );
+    return isValid ? flow : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch an issuer's discovery document.
+ * @returns The endpoints, or null if the issuer is unreachable or the
+ * document doesn't belong to it
+ */
+export async function discoverOidcIssuer(
+  issuer: string
+): Promise<OidcMetadata | null> {
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    return null;
+  }
+
+  const metadata = await response.json();
+  const hasEndpoints = [
+    "authorization_endpoint",
+    "token_endpoint",
+    "jwks_uri",
+  ].every((key) => typeof metadata?.[key] === "string");
+
+  return metadata?.issuer === issuer && hasEndpoints ? metadata : null;
+}
+
+/**
+ * URL of the provider's login page for a new sign-in
+ */
+export function buildAuthorizationUrl(
+  provider: OAuthProvider,
+  metadata: OidcMetadata,
+  flow: Omit<OAuthFlowState, "provider">
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: getOAuthRedirectUri(provider),
+    scope: "openid email profile",
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: getCodeChallenge(flow.codeVerifier),
+    code_challenge_method: "S256",
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Trade an authorization code for the user's ID token.
+ * @returns The ID token, or null if the provider rejects the code
+ */
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
+  metadata: OidcMetadata,
+  { code, codeVerifier }: { code: string; codeVerifier: string }
+): Promise<string | null> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: getOAuthRedirectUri(provider),
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set("client_secret", provider.clientSecret);
+  }
+
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body,
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    return null;
+  }
+
+  const tokens = await response.json();
+  return typeof tokens?.id_token === "string" ? tokens.id_token : null;
+}
+
+// Signature algorithms accepted on ID tokens, as WebCrypto parameters
+const ID_TOKEN_ALGORITHMS = {
+  RS256: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+function decodeJwtPart(part: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(Buffer.from(part, "base64url").toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an ID token's signature against the issuer's published keys and its
+ * issuer, audience, expiry and nonce against this sign-in.
+ * @returns The token's claims, or null if any check fails
+ */
+export async function verifyIdToken(
+  idToken: string,
+  {
+    metadata,
+    clientId,
+    nonce,
+  }: { metadata: OidcMetadata; clientId: string; nonce: string }
+): Promise<IdTokenClaims | null> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split(".");
+  const header = decodeJwtPart(encodedHeader ?? "");
+  const claims = decodeJwtPart(encodedPayload ?? "") as IdTokenClaims | null;
+
+  if (!header || !claims || !encodedSignature) {
+    return null;
+  }
+
+  const algorithm =
+    ID_TOKEN_ALGORITHMS[header.alg as keyof typeof ID_TOKEN_ALGORITHMS];
+  if (!algorithm) {
+    return null;
+  }
+
+  // Pick the signing key by id, or the only key when the issuer has one
+  const response = await fetch(metadata.jwks_uri, { cache: "no-store" });
+  if (!response.ok) {
+    return null;
+  }
+  const { keys = [] } = (await response.json()) as { keys?: JsonWebKey[] };
+  const candidates = keys.filter(
+    (key) => !header.kid || (key as { kid?: string }).kid === header.kid
+  );
+  if (candidates.length !== 1) {
+    return null;
+  }
+
+  let isValidSignature: boolean;
+  try {
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      candidates[0],
+      algorithm.importParams,
+      false,
+      ["verify"]
+    );
+    isValidSignature = await crypto.subtle.verify(
+      algorithm.verifyParams,
+      key,
+      Buffer.from(encodedSignature, "base64url"),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+  } catch {
+    return null;
+  }
+  if (!isValidSignature) {
+    return null;
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const isValid =
+    claims.iss === metadata.issuer &&
+    audiences.includes(clientId) &&
+    typeof claims.sub === "string" &&
+    claims.sub.length > 0 &&
+    typeof claims.exp === "number" &&
+    claims.exp * 1000 > Date.now() - ID_TOKEN_CLOCK_SKEW_MS &&
+    claims.nonce === nonce;
+
+  return isValid ? claims : null;
+}
+
+/**
+ * Username to start from for an account created by an OpenID Connect
+ * sign-in, trimmed to the characters usernames allow.
+ */
+export function getOAuthUsernameBase(claims: IdTokenClaims): string {
+  const candidates = [claims.preferred_username, claims.email?.split("@")[0]];
+  for (const candidate of candidates) {
+    const username = (candidate ?? "")
+      .replace(/[^a-zA-Z0-9_-]/g, "")
+      .slice(0, OAUTH_USERNAME_MAX_LENGTH);
+    if (username.length >= 3) {
+      return username;
+    }
+  }
+  return "hiker";
+}
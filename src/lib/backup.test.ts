@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildAccountBackup,
+  getBackupFilename,
+  ACCOUNT_BACKUP_VERSION,
+} from "./backup";
+import type { List, Category, Item } from "@/db/schema";
+
+const now = new Date();
+
+function createList(id: string, name: string): List {
+  return {
+    id,
+    userId: "user-1",
+    anonymousSessionId: null,
+    name,
+    slug: name.toLowerCase(),
+    description: null,
+    isPublic: false,
+    hidePrices: false,
+    forkedFromListId: null,
+    displayUnit: null,
+    tripDays: null,
+    resupplyDays: [],
+    caloriesPerDay: null,
+    waterCarryAmount: null,
+    waterCarryUnit: "l",
+    baseWeightTarget: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function createCategory(id: string, listId: string, position: number): Category {
+  return {
+    id,
+    listId,
+    name: `Category ${id}`,
+    description: null,
+    position,
+    baseWeightTarget: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function createItem(id: string, categoryId: string, position: number): Item {
+  return {
+    id,
+    categoryId,
+    gearId: "gear-1",
+    name: `Item ${id}`,
+    description: null,
+    url: null,
+    weightAmount: 100,
+    weightUnit: "g",
+    label: "none",
+    quantity: 1,
+    perDay: false,
+    calories: null,
+    protein: null,
+    fat: null,
+    carbs: null,
+    servingWeight: null,
+    price: 100,
+    currency: "USD",
+    position,
+    packedCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("buildAccountBackup", () => {
+  it("returns an empty versioned backup when there are no lists", () => {
+    const backup = buildAccountBackup([], [], []);
+
+    expect(backup.version).toBe(ACCOUNT_BACKUP_VERSION);
+    expect(backup.lists).toEqual([]);
+  });
+
+  it("nests categories and items under their lists in position order", () => {
+    const backup = buildAccountBackup(
+      [createList("l1", "PCT"), createList("l2", "AT")],
+      [
+        createCategory("c2", "l1", 1),
+        createCategory("c1", "l1", 0),
+        createCategory("c3", "l2", 0),
+      ],
+      [
+        createItem("i2", "c1", 1),
+        createItem("i1", "c1", 0),
+        createItem("i3", "c3", 0),
+      ]
+    );
+
+    expect(backup.lists.map((l) => l.name)).toEqual(["PCT", "AT"]);
+    expect(backup.lists[0].categories.map((c) => c.name)).toEqual([
+      "Category c1",
+      "Category c2",
+    ]);
+    expect(backup.lists[0].categories[0].items.map((i) => i.name)).toEqual([
+      "Item i1",
+      "Item i2",
+    ]);
+    expect(backup.lists[0].categories[1].items).toEqual([]);
+    expect(backup.lists[1].categories[0].items).toHaveLength(1);
+  });
+
+  it("keeps list display and trip settings", () => {
+    const backup = buildAccountBackup(
+      [
+        {
+          ...createList("l1", "PCT"),
+          displayUnit: "oz",
+          tripDays: 5,
+          resupplyDays: [3],
+        },
+      ],
+      [],
+      []
+    );
+
+    expect(backup.lists[0]).toMatchObject({
+      displayUnit: "oz",
+      tripDays: 5,
+      resupplyDays: [3],
+    });
+  });
+
+  it("drops IDs, positions and gear links", () => {
+    const backup = buildAccountBackup(
+      [createList("l1", "PCT")],
+      [createCategory("c1", "l1", 0)],
+      [createItem("i1", "c1", 0)]
+    );
+
+    expect(backup.lists[0]).not.toHaveProperty("id");
+    expect(backup.lists[0]).not.toHaveProperty("userId");
+    expect(backup.lists[0].categories[0]).not.toHaveProperty("id");
+    expect(backup.lists[0].categories[0].items[0]).toEqual({
+      name: "Item i1",
+      description: null,
+      url: null,
+      weightAmount: 100,
+      weightUnit: "g",
+      label: "none",
+      quantity: 1,
+      perDay: false,
+      calories: null,
+      protein: null,
+      fat: null,
+      carbs: null,
+      servingWeight: null,
+      price: 100,
+      currency: "USD",
+      tags: [],
+    });
+  });
+
+  it("keeps item tags by name", () => {
+    const backup = buildAccountBackup(
+      [createList("l1", "PCT")],
+      [createCategory("c1", "l1", 0)],
+      [createItem("i1", "c1", 0), createItem("i2", "c1", 1)],
+      new Map([
+        [
+          "i1",
+          [
+            { id: "t1", name: "electronics" },
+            { id: "t2", name: "shared" },
+          ],
+        ],
+      ])
+    );
+
+    const [tagged, untagged] = backup.lists[0].categories[0].items;
+    expect(tagged.tags).toEqual(["electronics", "shared"]);
+    expect(untagged.tags).toEqual([]);
+  });
+});
+
+describe("getBackupFilename", () => {
+  it("includes the date", () => {
+    expect(getBackupFilename(new Date("2024-06-01T12:00:00Z"))).toBe(
+      "ultralight-backup-2024-06-01.json"
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import type { List, Category, Item } from "@/db/schema";
+import type { TagSummary } from "@/lib/tags";
+
+/**
+ * Version of the account backup format. Bump when the shape changes so
+ * restore can reject archives it does not understand.
+ */
+export const ACCOUNT_BACKUP_VERSION = 1;
+
+export type BackupItem = Pick<
+  Item,
+  | "name"
+  | "description"
+  | "url"
+  | "weightAmount"
+  | "weightUnit"
+  | "label"
+  | "quantity"
+  | "perDay"
+  | "calories"
+  | "protein"
+  | "fat"
+  | "carbs"
+  | "servingWeight"
+  | "price"
+  | "currency"
+> & {
+  tags: string[]; // tag names, matched to the owner's tags on restore
+};
+
+export interface BackupCategory {
+  name: string;
+  description: string | null;
+  baseWeightTarget: number | null;
+  items: BackupItem[];
+}
+
+export interface BackupList {
+  name: string;
+  slug: string;
+  description: string | null;
+  isPublic: boolean;
+  hidePrices: boolean;
+  displayUnit: string | null;
+  tripDays: number | null;
+  resupplyDays: number[];
+  caloriesPerDay: number | null;
+  waterCarryAmount: number | null;
+  waterCarryUnit: string;
+  baseWeightTarget: number | null;
+  categories: BackupCategory[];
+}
+
+export interface AccountBackup {
+  version: number;
+  exportedAt: Date;
+  lists: BackupList[];
+}
+
+const byPosition = (a: { position: number }, b: { position: number }) =>
+  a.position - b.position;
+
+/**
+ * Serialize lists with their categories and items into an account backup.
+ * IDs and gear closet links are dropped; order is kept through array position
+ * and item tags are kept by name.
+ */
+export function buildAccountBackup(
+  lists: List[],
+  categories: Category[],
+  items: Item[],
+  tagsByItem: Map<string, TagSummary[]> = new Map()
+): AccountBackup {
+  return {
+    version: ACCOUNT_BACKUP_VERSION,
+    exportedAt: new Date(),
+    lists: lists.map((list) => ({
+      name: list.name,
+      slug: list.slug,
+      description: list.description,
+      isPublic: list.isPublic,
+      hidePrices: list.hidePrices,
+      displayUnit: list.displayUnit,
+      tripDays: list.tripDays,
+      resupplyDays: list.resupplyDays,
+      caloriesPerDay: list.caloriesPerDay,
+      waterCarryAmount: list.waterCarryAmount,
+      waterCarryUnit: list.waterCarryUnit,
+      baseWeightTarget: list.baseWeightTarget,
+      categories: categories
+        .filter((category) => category.listId === list.id)
+        .sort(byPosition)
+        .map((category) => ({
+          name: category.name,
+          description: category.description,
+          baseWeightTarget: category.baseWeightTarget,
+          items: items
+            .filter((item) => item.categoryId === category.id)
+            .sort(byPosition)
+            .map((item) => ({
+              name: item.name,
+              description: item.description,
+              url: item.url,
+              weightAmount: item.weightAmount,
+              weightUnit: item.weightUnit,
+              label: item.label,
+              quantity: item.quantity,
+              perDay: item.perDay,
+              calories: item.calories,
+              protein: item.protein,
+              fat: item.fat,
+              carbs: item.carbs,
+              servingWeight: item.servingWeight,
+              price: item.price,
+              currency: item.currency,
+              tags: (tagsByItem.get(item.id) ?? []).map((tag) => tag.name),
+            })),
+        })),
+    })),
+  };
+}
+
+/**
+ * File name for a backup download, e.g. "ultralight-backup-2024-06-01.json".
+ */
+export function getBackupFilename(date: Date): string {
+  return `ultralight-backup-${date.toISOString().slice(0, 10)}.json`;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { calculateDonutSegments, describeDonutSegment } from "./chart";
+
+describe("calculateDonutSegments", () => {
+  it("splits the circle proportionally to the values", () => {
+    const segments = calculateDonutSegments([1, 3]);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0].fraction).toBe(0.25);
+    expect(segments[0].startAngle).toBe(0);
+    expect(segments[0].endAngle).toBeCloseTo(Math.PI / 2);
+    expect(segments[1].fraction).toBe(0.75);
+    expect(segments[1].startAngle).toBeCloseTo(Math.PI / 2);
+    expect(segments[1].endAngle).toBeCloseTo(Math.PI * 2);
+  });
+
+  it("skips zero values but keeps the original indexes", () => {
+    const segments = calculateDonutSegments([0, 500, 0, 500]);
+
+    expect(segments.map((s) => s.index)).toEqual([1, 3]);
+    expect(segments[1].startAngle).toBeCloseTo(Math.PI);
+  });
+
+  it("returns no segments when everything is zero", () => {
+    expect(calculateDonutSegments([0, 0])).toEqual([]);
+    expect(calculateDonutSegments([])).toEqual([]);
+  });
+});
+
+describe("describeDonutSegment", () => {
+  it("draws a quarter ring starting at 12 o'clock", () => {
+    expect(describeDonutSegment(50, 50, 40, 20, 0, Math.PI / 2)).toBe(
+      "M 50 10 A 40 40 0 0 1 90 50 L 70 50 A 20 20 0 0 0 50 30 Z"
+    );
+  });
+
+  it("uses the large arc flag for segments over half the ring", () => {
+    const path = describeDonutSegment(50, 50, 40, 20, 0, Math.PI * 1.5);
+
+    expect(path).toContain("A 40 40 0 1 1 10 50");
+    expect(path).toContain("A 20 20 0 1 0 50 30");
+  });
+
+  it("draws a full ring as two halves", () => {
+    const path = describeDonutSegment(50, 50, 40, 20, 0, Math.PI * 2);
+
+    expect(path.match(/Z/g)).toHaveLength(2);
+    expect(path).toContain("M 50 10 A 40 40 0 0 1 50 90");
+  });
+});
@@ -0,0 +1,80 @@
+export interface DonutSegment {
+  index: number; // position of the value in the input array
+  value: number;
+  fraction: number; // share of the total, 0-1
+  startAngle: number; // radians clockwise from 12 o'clock
+  endAngle: number; // radians clockwise from 12 o'clock
+}
+
+const FULL_CIRCLE = Math.PI * 2;
+
+/**
+ * Split a full circle into segments proportional to the given values.
+ * Zero and negative values get no segment but keep their index so callers
+ * can map segments back to their source rows.
+ */
+export function calculateDonutSegments(values: number[]): DonutSegment[] {
+  const total = values.reduce((sum, value) => sum + Math.max(value, 0), 0);
+  if (total <= 0) {
+    return [];
+  }
+
+  const segments: DonutSegment[] = [];
+  let angle = 0;
+
+  values.forEach((value, index) => {
+    if (value <= 0) {
+      return;
+    }
+
+    const fraction = value / total;
+    const endAngle = angle + fraction * FULL_CIRCLE;
+    segments.push({ index, value, fraction, startAngle: angle, endAngle });
+    angle = endAngle;
+  });
+
+  return segments;
+}
+
+function pointOnCircle(
+  cx: number,
+  cy: number,
+  radius: number,
+  angle: number
+): string {
+  const x = cx + radius * Math.sin(angle);
+  const y = cy - radius * Math.cos(angle);
+  return `${Number(x.toFixed(3))} ${Number(y.toFixed(3))}`;
+}
+
+/**
+ * Build the SVG path for one ring segment between two angles.
+ * A segment covering the whole ring is drawn as two halves, since a single
+ * SVG arc cannot start and end at the same point.
+ */
+export function describeDonutSegment(
+  cx: number,
+  cy: number,
+  outerRadius: number,
+  innerRadius: number,
+  startAngle: number,
+  endAngle: number
+): string {
+  if (endAngle - startAngle >= FULL_CIRCLE - 1e-9) {
+    const midAngle = startAngle + Math.PI;
+    return [
+      describeDonutSegment(cx, cy, outerRadius, innerRadius, startAngle, midAngle),
+      describeDonutSegment(cx, cy, outerRadius, innerRadius, midAngle, endAngle),
+    ].join(" ");
+  }
+
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+
+  return [
+    `M ${pointOnCircle(cx, cy, outerRadius, startAngle)}`,
+    `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${pointOnCircle(cx, cy, outerRadius, endAngle)}`,
+    `L ${pointOnCircle(cx, cy, innerRadius, endAngle)}`,
+    `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${pointOnCircle(cx, cy, innerRadius, startAngle)}`,
+    "Z",
+  ].join(" ");
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateChecklistProgress,
+  getPackedCount,
+  isItemPacked,
+  stripPackedCounts,
+} from "./checklist";
+
+describe("getPackedCount", () => {
+  it("returns the packed units", () => {
+    expect(getPackedCount({ quantity: 4, packedCount: 2 })).toBe(2);
+  });
+
+  it("caps packed units at the quantity", () => {
+    expect(getPackedCount({ quantity: 2, packedCount: 5 })).toBe(2);
+  });
+});
+
+describe("isItemPacked", () => {
+  it("is packed once every unit is ticked off", () => {
+    expect(isItemPacked({ quantity: 3, packedCount: 3 })).toBe(true);
+    expect(isItemPacked({ quantity: 3, packedCount: 2 })).toBe(false);
+  });
+});
+
+describe("calculateChecklistProgress", () => {
+  it("counts each unit of multi-quantity items", () => {
+    expect(
+      calculateChecklistProgress([
+        { quantity: 1, packedCount: 1 },
+        { quantity: 4, packedCount: 1 },
+        { quantity: 2, packedCount: 0 },
+      ])
+    ).toEqual({ packed: 2, total: 7 });
+  });
+
+  it("returns zero for no items", () => {
+    expect(calculateChecklistProgress([])).toEqual({ packed: 0, total: 0 });
+  });
+});
+
+describe("stripPackedCounts", () => {
+  it("resets packed units on every item", () => {
+    const categories = [
+      {
+        name: "Shelter",
+        items: [
+          { quantity: 1, packedCount: 1 },
+          { quantity: 4, packedCount: 3 },
+        ],
+      },
+    ];
+
+    expect(stripPackedCounts(categories)).toEqual([
+      {
+        name: "Shelter",
+        items: [
+          { quantity: 1, packedCount: 0 },
+          { quantity: 4, packedCount: 0 },
+        ],
+      },
+    ]);
+    expect(categories[0].items[0].packedCount).toBe(1);
+  });
+});
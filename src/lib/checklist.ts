@@ -0,0 +1,51 @@
+import type { Item } from "@/db/schema";
+
+export interface ChecklistProgress {
+  packed: number; // units packed
+  total: number; // units on the list
+}
+
+type ChecklistItem = Pick<Item, "quantity" | "packedCount">;
+
+/**
+ * Units of an item ticked off, capped at its quantity in case the quantity
+ * was lowered after packing.
+ */
+export function getPackedCount(item: ChecklistItem): number {
+  return Math.max(0, Math.min(item.packedCount, item.quantity));
+}
+
+/**
+ * Whether every unit of an item is packed
+ */
+export function isItemPacked(item: ChecklistItem): boolean {
+  return getPackedCount(item) >= item.quantity;
+}
+
+/**
+ * Count packed units over a set of items, e.g. a category or the whole list.
+ * Each unit of a multi-quantity item counts separately.
+ */
+export function calculateChecklistProgress(
+  items: ChecklistItem[]
+): ChecklistProgress {
+  return items.reduce(
+    (progress, item) => ({
+      packed: progress.packed + getPackedCount(item),
+      total: progress.total + item.quantity,
+    }),
+    { packed: 0, total: 0 }
+  );
+}
+
+/**
+ * Reset packed state on every item, for viewers other than the list owner.
+ */
+export function stripPackedCounts<T extends { items: ChecklistItem[] }>(
+  categories: T[]
+): T[] {
+  return categories.map((category) => ({
+    ...category,
+    items: category.items.map((item) => ({ ...item, packedCount: 0 })),
+  }));
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import type { Item } from "@/db/schema";
+import { compareLists } from "./compare";
+
+function createMockItem(overrides: Partial<Item> = {}): Item {
+  return {
+    id: crypto.randomUUID(),
+    categoryId: "b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+    gearId: null,
+    name: "Test Item",
+    description: null,
+    url: null,
+    weightAmount: 100,
+    weightUnit: "g",
+    label: "none",
+    quantity: 1,
+    perDay: false,
+    calories: null,
+    protein: null,
+    fat: null,
+    carbs: null,
+    servingWeight: null,
+    price: null,
+    currency: "USD",
+    position: 0,
+    packedCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function category(name: string, items: Item[]) {
+  return { id: crypto.randomUUID(), name, items };
+}
+
+describe("compareLists", () => {
+  it("matches categories by name, ignoring case and whitespace", () => {
+    const result = compareLists(
+      [category("Shelter", [createMockItem({ name: "Tent", weightAmount: 1000 })])],
+      [category(" shelter ", [createMockItem({ name: "Tent", weightAmount: 1000 })])]
+    );
+
+    expect(result.categories).toHaveLength(1);
+    expect(result.categories[0].name).toBe("Shelter");
+    expect(result.categories[0].a?.totalWeight).toBe(1000);
+    expect(result.categories[0].b?.totalWeight).toBe(1000);
+    expect(result.categories[0].addedItems).toEqual([]);
+    expect(result.categories[0].removedItems).toEqual([]);
+    expect(result.categories[0].changedItems).toEqual([]);
+  });
+
+  it("lists A's categories first, then categories only in B", () => {
+    const result = compareLists(
+      [category("Shelter", []), category("Kitchen", [])],
+      [category("Sleep", []), category("Shelter", [])]
+    );
+
+    expect(result.categories.map((c) => c.name)).toEqual([
+      "Shelter",
+      "Kitchen",
+      "Sleep",
+    ]);
+    expect(result.categories[1].b).toBeNull();
+    expect(result.categories[2].a).toBeNull();
+  });
+
+  it("reports added, removed and changed items", () => {
+    const result = compareLists(
+      [
+        category("Sleep", [
+          createMockItem({ name: "Quilt", weightAmount: 600 }),
+          createMockItem({ name: "Pillow", weightAmount: 60 }),
+        ]),
+      ],
+      [
+        category("Sleep", [
+          createMockItem({ name: "quilt", weightAmount: 900 }),
+          createMockItem({ name: "Liner", weightAmount: 150, quantity: 2 }),
+        ]),
+      ]
+    );
+
+    const sleep = result.categories[0];
+    expect(sleep.removedItems).toEqual([
+      { name: "Pillow", quantity: 1, weight: 60 },
+    ]);
+    expect(sleep.addedItems).toEqual([
+      { name: "Liner", quantity: 2, weight: 300 },
+    ]);
+    expect(sleep.changedItems).toEqual([
+      { name: "quilt", weightA: 600, weightB: 900, delta: 300 },
+    ]);
+    expect(sleep.totalWeightDelta).toBe(540);
+  });
+
+  it("matches items by gear before name", () => {
+    const gearId = crypto.randomUUID();
+    const result = compareLists(
+      [category("Shelter", [createMockItem({ name: "Tent", gearId, weightAmount: 900 })])],
+      [
+        category("Shelter", [
+          createMockItem({ name: "Tent", weightAmount: 1500 }),
+          createMockItem({ name: "Duplex", gearId, weightAmount: 900 }),
+        ]),
+      ]
+    );
+
+    const shelter = result.categories[0];
+    expect(shelter.changedItems).toEqual([]);
+    expect(shelter.removedItems).toEqual([]);
+    expect(shelter.addedItems).toEqual([
+      { name: "Tent", quantity: 1, weight: 1500 },
+    ]);
+  });
+
+  it("compares weights across units", () => {
+    const result = compareLists(
+      [category("Water", [createMockItem({ name: "Bottle", weightAmount: 1, weightUnit: "kg" })])],
+      [category("Water", [createMockItem({ name: "Bottle", weightAmount: 1000, weightUnit: "g" })])]
+    );
+
+    expect(result.categories[0].changedItems).toEqual([]);
+  });
+
+  it("totals base weight separately from worn and consumable weight", () => {
+    const result = compareLists(
+      [
+        category("Clothing", [
+          createMockItem({ name: "Jacket", weightAmount: 400 }),
+          createMockItem({ name: "Shoes", weightAmount: 700, label: "worn" }),
+        ]),
+      ],
+      [
+        category("Clothing", [
+          createMockItem({ name: "Jacket", weightAmount: 250 }),
+          createMockItem({ name: "Shoes", weightAmount: 700, label: "worn" }),
+        ]),
+        category("Food", [
+          createMockItem({ name: "Snacks", weightAmount: 800, label: "consumable" }),
+        ]),
+      ]
+    );
+
+    expect(result.baseWeightA).toBe(400);
+    expect(result.baseWeightB).toBe(250);
+    expect(result.baseWeightDelta).toBe(-150);
+    expect(result.totalWeightA).toBe(1100);
+    expect(result.totalWeightB).toBe(1750);
+    expect(result.totalWeightDelta).toBe(650);
+    expect(result.categories[0].baseWeightDelta).toBe(-150);
+  });
+
+  it("counts per-day food for each trip and the water carried", () => {
+    const food = () =>
+      category("Food", [
+        createMockItem({
+          name: "Dinner",
+          weightAmount: 200,
+          label: "consumable",
+          perDay: true,
+        }),
+      ]);
+
+    const result = compareLists(
+      [food()],
+      [food()],
+      { trip: { days: 2 } },
+      { trip: { days: 5 }, water: { amount: 1.5, unit: "l" } }
+    );
+
+    expect(result.categories[0].a?.consumableWeight).toBe(400);
+    expect(result.categories[0].b?.consumableWeight).toBe(1000);
+    expect(result.categories[0].changedItems).toEqual([
+      { name: "Dinner", weightA: 400, weightB: 1000, delta: 600 },
+    ]);
+    expect(result.waterWeightA).toBe(0);
+    expect(result.waterWeightB).toBe(1500);
+    expect(result.totalWeightA).toBe(400);
+    expect(result.totalWeightB).toBe(2500);
+    expect(result.totalWeightDelta).toBe(2100);
+  });
+
+  it("handles empty lists", () => {
+    const result = compareLists([], []);
+
+    expect(result.categories).toEqual([]);
+    expect(result.baseWeightDelta).toBe(0);
+    expect(result.totalWeightDelta).toBe(0);
+  });
+});
@@ -0,0 +1,207 @@
+import type { Item } from "@/db/schema";
+import {
+  calculateItemWeights,
+  calculateListWeightSummary,
+  type CategoryWeight,
+  type TripSettings,
+  type WaterCarry,
+} from "@/lib/weight";
+
+interface CategoryWithItems {
+  id: string;
+  name: string;
+  items: Item[];
+}
+
+export interface ComparedItem {
+  name: string;
+  quantity: number;
+  weight: number; // in grams, including quantity
+}
+
+export interface ItemChange {
+  name: string;
+  weightA: number; // in grams, including quantity
+  weightB: number; // in grams, including quantity
+  delta: number; // B - A in grams
+}
+
+export interface CategoryComparison {
+  name: string;
+  a: CategoryWeight | null; // null when the category only exists in list B
+  b: CategoryWeight | null; // null when the category only exists in list A
+  baseWeightDelta: number; // B - A in grams
+  totalWeightDelta: number; // B - A in grams
+  addedItems: ComparedItem[]; // only in list B
+  removedItems: ComparedItem[]; // only in list A
+  changedItems: ItemChange[]; // in both lists with a different weight
+}
+
+/**
+ * Trip length and water carry of a compared list, so totals match the
+ * weight summary shown on the list itself
+ */
+export interface ComparedListSettings {
+  trip?: TripSettings | null;
+  water?: WaterCarry | null;
+}
+
+export interface ListComparison {
+  categories: CategoryComparison[];
+  baseWeightA: number; // in grams
+  baseWeightB: number; // in grams
+  waterWeightA: number; // in grams, list-level water carry
+  waterWeightB: number; // in grams, list-level water carry
+  totalWeightA: number; // in grams, including water
+  totalWeightB: number; // in grams, including water
+  baseWeightDelta: number; // B - A in grams
+  totalWeightDelta: number; // B - A in grams
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function itemWeight(item: Item, days: number): number {
+  const weights = calculateItemWeights(item, days);
+  return weights.baseWeight + weights.wornWeight + weights.consumableWeight;
+}
+
+function toComparedItem(item: Item, days: number): ComparedItem {
+  return {
+    name: item.name,
+    quantity: item.quantity,
+    weight: itemWeight(item, days),
+  };
+}
+
+/**
+ * Find the item in B matching an item in A: the same closet gear when both
+ * are linked to gear, otherwise the same name (case-insensitive).
+ */
+function findMatch(item: Item, candidates: Item[]): Item | undefined {
+  if (item.gearId) {
+    const byGear = candidates.find((c) => c.gearId === item.gearId);
+    if (byGear) {
+      return byGear;
+    }
+  }
+  const name = normalizeName(item.name);
+  return candidates.find((c) => normalizeName(c.name) === name);
+}
+
+function compareItems(
+  itemsA: Item[],
+  itemsB: Item[],
+  daysA: number,
+  daysB: number
+): Pick<CategoryComparison, "addedItems" | "removedItems" | "changedItems"> {
+  const unmatchedB = [...itemsB];
+  const removedItems: ComparedItem[] = [];
+  const changedItems: ItemChange[] = [];
+
+  for (const item of itemsA) {
+    const match = findMatch(item, unmatchedB);
+    if (!match) {
+      removedItems.push(toComparedItem(item, daysA));
+      continue;
+    }
+
+    unmatchedB.splice(unmatchedB.indexOf(match), 1);
+
+    const weightA = itemWeight(item, daysA);
+    const weightB = itemWeight(match, daysB);
+    if (weightA !== weightB) {
+      changedItems.push({
+        name: match.name,
+        weightA,
+        weightB,
+        delta: weightB - weightA,
+      });
+    }
+  }
+
+  return {
+    addedItems: unmatchedB.map((item) => toComparedItem(item, daysB)),
+    removedItems,
+    changedItems,
+  };
+}
+
+/**
+ * Compare two lists category by category. Categories are matched by name
+ * (case-insensitive) and listed in list A's order, followed by categories
+ * only found in list B. All deltas are B minus A. Per-day consumables count
+ * for the days each list carries them, and totals include its water carry.
+ */
+export function compareLists(
+  categoriesA: CategoryWithItems[],
+  categoriesB: CategoryWithItems[],
+  settingsA: ComparedListSettings = {},
+  settingsB: ComparedListSettings = {}
+): ListComparison {
+  const summaryA = calculateListWeightSummary(
+    categoriesA,
+    settingsA.trip,
+    settingsA.water
+  );
+  const summaryB = calculateListWeightSummary(
+    categoriesB,
+    settingsB.trip,
+    settingsB.water
+  );
+  const daysA = summaryA.trip?.legs[0].days ?? 1;
+  const daysB = summaryB.trip?.legs[0].days ?? 1;
+
+  const unmatchedB = [...categoriesB];
+  const pairs: [CategoryWithItems | null, CategoryWithItems | null][] = [];
+
+  for (const category of categoriesA) {
+    const name = normalizeName(category.name);
+    const index = unmatchedB.findIndex((c) => normalizeName(c.name) === name);
+    if (index === -1) {
+      pairs.push([category, null]);
+    } else {
+      pairs.push([category, unmatchedB[index]]);
+      unmatchedB.splice(index, 1);
+    }
+  }
+  for (const category of unmatchedB) {
+    pairs.push([null, category]);
+  }
+
+  const categories = pairs.map(([categoryA, categoryB]): CategoryComparison => {
+    const a = categoryA
+      ? summaryA.categories[categoriesA.indexOf(categoryA)]
+      : null;
+    const b = categoryB
+      ? summaryB.categories[categoriesB.indexOf(categoryB)]
+      : null;
+
+    return {
+      name: (categoryA ?? categoryB)!.name,
+      a,
+      b,
+      baseWeightDelta: (b?.baseWeight ?? 0) - (a?.baseWeight ?? 0),
+      totalWeightDelta: (b?.totalWeight ?? 0) - (a?.totalWeight ?? 0),
+      ...compareItems(
+        categoryA?.items ?? [],
+        categoryB?.items ?? [],
+        daysA,
+        daysB
+      ),
+    };
+  });
+
+  return {
+    categories,
+    baseWeightA: summaryA.totalBaseWeight,
+    baseWeightB: summaryB.totalBaseWeight,
+    waterWeightA: summaryA.totalWaterWeight ?? 0,
+    waterWeightB: summaryB.totalWaterWeight ?? 0,
+    totalWeightA: summaryA.totalPackWeight,
+    totalWeightB: summaryB.totalPackWeight,
+    baseWeightDelta: summaryB.totalBaseWeight - summaryA.totalBaseWeight,
+    totalWeightDelta: summaryB.totalPackWeight - summaryA.totalPackWeight,
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateItemCost,
+  calculateCategoryCost,
+  calculateListCostSummary,
+  formatPrice,
+  formatCostTotals,
+  stripPrices,
+} from "./cost";
+
+function createItem(price: number | null, quantity = 1, currency = "USD") {
+  return { price, quantity, currency };
+}
+
+describe("calculateItemCost", () => {
+  it("multiplies price by quantity", () => {
+    expect(calculateItemCost(createItem(12.5, 4))).toBe(50);
+  });
+
+  it("returns null for items without a price", () => {
+    expect(calculateItemCost(createItem(null))).toBeNull();
+  });
+
+  it("treats a price of 0 as priced", () => {
+    expect(calculateItemCost(createItem(0, 3))).toBe(0);
+  });
+});
+
+describe("calculateCategoryCost", () => {
+  it("sums priced items and skips unpriced ones", () => {
+    const result = calculateCategoryCost({
+      id: "cat-1",
+      name: "Shelter",
+      items: [createItem(500), createItem(2, 8), createItem(null)],
+    });
+
+    expect(result).toEqual({
+      categoryId: "cat-1",
+      categoryName: "Shelter",
+      totals: { USD: 516 },
+      pricedItemCount: 2,
+    });
+  });
+
+  it("keeps separate totals per currency", () => {
+    const result = calculateCategoryCost({
+      id: "cat-1",
+      name: "Shelter",
+      items: [createItem(100), createItem(50, 1, "EUR"), createItem(25)],
+    });
+
+    expect(result.totals).toEqual({ USD: 125, EUR: 50 });
+  });
+
+  it("returns empty totals for a category without prices", () => {
+    const result = calculateCategoryCost({
+      id: "cat-1",
+      name: "Shelter",
+      items: [createItem(null)],
+    });
+
+    expect(result.totals).toEqual({});
+    expect(result.pricedItemCount).toBe(0);
+  });
+});
+
+describe("calculateListCostSummary", () => {
+  it("sums categories into list totals", () => {
+    const result = calculateListCostSummary([
+      { id: "c1", name: "Shelter", items: [createItem(500), createItem(20, 1, "EUR")] },
+      { id: "c2", name: "Kitchen", items: [createItem(60), createItem(null)] },
+    ]);
+
+    expect(result.categories).toHaveLength(2);
+    expect(result.categories[1].totals).toEqual({ USD: 60 });
+    expect(result.totals).toEqual({ USD: 560, EUR: 20 });
+    expect(result.pricedItemCount).toBe(3);
+  });
+
+  it("handles an empty list", () => {
+    expect(calculateListCostSummary([])).toEqual({
+      categories: [],
+      totals: {},
+      pricedItemCount: 0,
+    });
+  });
+});
+
+describe("formatPrice", () => {
+  it("formats with the currency symbol", () => {
+    expect(formatPrice(599, "USD")).toBe("$599.00");
+    expect(formatPrice(12.5, "EUR")).toBe("€12.50");
+  });
+});
+
+describe("formatCostTotals", () => {
+  it("returns a dash when there are no totals", () => {
+    expect(formatCostTotals({})).toBe("-");
+  });
+
+  it("joins multiple currencies", () => {
+    expect(formatCostTotals({ USD: 120, EUR: 45 })).toBe("$120.00 + €45.00");
+  });
+});
+
+describe("stripPrices", () => {
+  it("clears item prices without mutating the input", () => {
+    const categories = [{ id: "c1", items: [createItem(100, 2)] }];
+    const result = stripPrices(categories);
+
+    expect(result[0].items[0]).toEqual({ price: null, quantity: 2, currency: "USD" });
+    expect(categories[0].items[0].price).toBe(100);
+  });
+});
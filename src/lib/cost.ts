@@ -0,0 +1,124 @@
+import type { Item } from "@/db/schema";
+
+export const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Amounts keyed by ISO 4217 currency code. Lists can mix currencies,
+ * so totals are kept per currency instead of being converted.
+ */
+export type CostTotals = Record<string, number>;
+
+export interface CategoryCost {
+  categoryId: string;
+  categoryName: string;
+  totals: CostTotals;
+  pricedItemCount: number;
+}
+
+export interface ListCostSummary {
+  categories: CategoryCost[];
+  totals: CostTotals;
+  pricedItemCount: number;
+}
+
+type PricedItem = Pick<Item, "price" | "currency" | "quantity">;
+
+interface CategoryWithItems {
+  id: string;
+  name: string;
+  items: PricedItem[];
+}
+
+function addTotals(target: CostTotals, source: CostTotals): void {
+  for (const [currency, amount] of Object.entries(source)) {
+    target[currency] = (target[currency] ?? 0) + amount;
+  }
+}
+
+/**
+ * Calculate the cost of an item line (price × quantity).
+ * @returns The cost, or null if the item has no price
+ */
+export function calculateItemCost(item: PricedItem): number | null {
+  if (item.price === null || item.price === undefined) {
+    return null;
+  }
+  return item.price * item.quantity;
+}
+
+/**
+ * Calculate cost totals for a category
+ */
+export function calculateCategoryCost(category: CategoryWithItems): CategoryCost {
+  const totals: CostTotals = {};
+  let pricedItemCount = 0;
+
+  for (const item of category.items) {
+    const cost = calculateItemCost(item);
+    if (cost === null) continue;
+
+    const currency = item.currency || DEFAULT_CURRENCY;
+    totals[currency] = (totals[currency] ?? 0) + cost;
+    pricedItemCount++;
+  }
+
+  return {
+    categoryId: category.id,
+    categoryName: category.name,
+    totals,
+    pricedItemCount,
+  };
+}
+
+/**
+ * Calculate per-category and total cost for a list
+ */
+export function calculateListCostSummary(
+  categories: CategoryWithItems[]
+): ListCostSummary {
+  const categoryCosts = categories.map(calculateCategoryCost);
+  const totals: CostTotals = {};
+
+  for (const category of categoryCosts) {
+    addTotals(totals, category.totals);
+  }
+
+  return {
+    categories: categoryCosts,
+    totals,
+    pricedItemCount: categoryCosts.reduce((sum, c) => sum + c.pricedItemCount, 0),
+  };
+}
+
+/**
+ * Format an amount in the given currency, e.g. "$599.00"
+ */
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).format(amount);
+}
+
+/**
+ * Format per-currency totals, e.g. "$120.00 + €45.00". Returns "-" when empty.
+ */
+export function formatCostTotals(totals: CostTotals): string {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) {
+    return "-";
+  }
+  return entries
+    .map(([currency, amount]) => formatPrice(amount, currency))
+    .join(" + ");
+}
+
+/**
+ * Remove prices from every item, for lists whose owner hides prices publicly.
+ */
+export function stripPrices<T extends { items: PricedItem[] }>(categories: T[]): T[] {
+  return categories.map((category) => ({
+    ...category,
+    items: category.items.map((item) => ({ ...item, price: null })),
+  }));
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, formatCsv, unescapeFormula } from "./csv";
+
+describe("parseCsv", () => {
+  it("parses simple rows", () => {
+    expect(parseCsv("a,b,c\n1,2,3")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("handles trailing newline", () => {
+    expect(parseCsv("a,b\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("handles CRLF line endings", () => {
+    expect(parseCsv("a,b\r\n1,2\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("preserves empty fields", () => {
+    expect(parseCsv("a,,c\n,,")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("parses quoted fields with commas", () => {
+    expect(parseCsv('name,desc\nTent,"2 person, DCF"')).toEqual([
+      ["name", "desc"],
+      ["Tent", "2 person, DCF"],
+    ]);
+  });
+
+  it("parses escaped quotes", () => {
+    expect(parseCsv('name\n"The ""Duplex"""')).toEqual([
+      ["name"],
+      ['The "Duplex"'],
+    ]);
+  });
+
+  it("parses quoted fields with newlines", () => {
+    expect(parseCsv('name,desc\nTent,"line one\nline two"')).toEqual([
+      ["name", "desc"],
+      ["Tent", "line one\nline two"],
+    ]);
+  });
+
+  it("skips blank lines", () => {
+    expect(parseCsv("a,b\n\n1,2\n\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("strips byte order mark", () => {
+    expect(parseCsv("﻿a,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("returns empty array for empty input", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+});
+
+describe("formatCsv", () => {
+  it("formats simple rows with CRLF line endings", () => {
+    expect(
+      formatCsv([
+        ["a", "b"],
+        ["1", "2"],
+      ])
+    ).toBe("a,b\r\n1,2\r\n");
+  });
+
+  it("quotes fields with commas, quotes and newlines", () => {
+    expect(formatCsv([["2 person, DCF", 'The "Duplex"', "line one\nline two"]])).toBe(
+      '"2 person, DCF","The ""Duplex""","line one\nline two"\r\n'
+    );
+  });
+
+  it("escapes fields that start with a formula character", () => {
+    expect(
+      formatCsv([["=HYPERLINK(\"http://evil\")", "+1", "-2", "@SUM(A1)", "a=b"]])
+    ).toBe(`"'=HYPERLINK(""http://evil"")",'+1,'-2,'@SUM(A1),a=b\r\n`);
+  });
+
+  it("escapes fields that start with a tab or carriage return", () => {
+    expect(formatCsv([["\t=1", "\r=1"]])).toBe(`'\t=1,"'\r=1"\r\n`);
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [
+      ["name", "desc"],
+      ["Tent", 'A "light", tent\nwith notes'],
+      ["Stove", ""],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("unescapeFormula", () => {
+  it("removes the apostrophe added before a formula character", () => {
+    expect(unescapeFormula("'=SUM(A1)")).toBe("=SUM(A1)");
+    expect(unescapeFormula("'-2")).toBe("-2");
+    expect(unescapeFormula("'\t=1")).toBe("\t=1");
+  });
+
+  it("keeps other leading apostrophes", () => {
+    expect(unescapeFormula("'Til dawn")).toBe("'Til dawn");
+    expect(unescapeFormula("''=1")).toBe("''=1");
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Parse CSV text into rows of fields (RFC 4180).
+ * Supports quoted fields containing commas, newlines and escaped quotes ("").
+ * Blank lines are skipped.
+ */
+export function parseCsv(input: string): string[][] {
+  // Strip a UTF-8 byte order mark if present
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    field = "";
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char === "\r") {
+      // Treat CRLF as a single line break
+      if (text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the final row if the input doesn't end with a newline
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Prefix fields a spreadsheet would run as a formula with an apostrophe,
+ * so user text such as "=HYPERLINK(...)" opens as plain text.
+ */
+function escapeFormula(field: string): string {
+  return /^[=+\-@\t\r]/.test(field) ? `'${field}` : field;
+}
+
+/**
+ * Undo `escapeFormula`, removing the apostrophe added in front of a formula
+ * character so exported fields import with their original text.
+ */
+export function unescapeFormula(field: string): string {
+  return /^'[=+\-@\t\r]/.test(field) ? field.slice(1) : field;
+}
+
+/**
+ * Format rows of fields as CSV text (RFC 4180).
+ * Fields containing commas, quotes or line breaks are quoted, and fields
+ * starting with a formula character are escaped.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const field = escapeFormula(value);
+          return /[",\r\n]/.test(field)
+            ? `"${field.replace(/"/g, '""')}"`
+            : field;
+        })
+        .join(",")
+    )
+    .join("\r\n")
+    .concat("\r\n");
+}
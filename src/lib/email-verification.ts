@@ -0,0 +1,50 @@
+import { randomBytes } from "crypto";
+import { db } from "@/db";
+import { emailVerificationTokens, users } from "@/db/schema";
+import { sendVerificationEmail } from "@/lib/email";
+import { eq } from "drizzle-orm";
+
+const TOKEN_EXPIRY_HOURS = 24;
+
+/**
+ * Whether the user has confirmed their email address
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const [user] = await db
+    .select({ emailVerifiedAt: users.emailVerifiedAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return !!user?.emailVerifiedAt;
+}
+
+/**
+ * Replace the user's verification link with a new one and email it.
+ * @returns Whether the email was sent
+ */
+export async function issueEmailVerification(
+  userId: string,
+  email: string
+): Promise<boolean> {
+  // Only the latest link works
+  await db
+    .delete(emailVerificationTokens)
+    .where(eq(emailVerificationTokens.userId, userId));
+
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + TOKEN_EXPIRY_HOURS * 60 * 60 * 1000);
+
+  await db.insert(emailVerificationTokens).values({
+    userId,
+    token,
+    expiresAt,
+  });
+
+  const emailResult = await sendVerificationEmail(email, token);
+  if (!emailResult.success) {
+    console.error("Failed to send verification email:", emailResult.error);
+  }
+
+  return emailResult.success;
+}
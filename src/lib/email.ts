@@ -56,3 +56,56 @@ export async function sendPasswordResetEmail(
     };
   }
 }
+
+export async function sendVerificationEmail(
+  email: string,
+  token: string
+): Promise<{ success: boolean; error?: string }> {
+  const verifyUrl = `${APP_URL}/verify-email?token=${token}`;
+
+  try {
+    const { error } = await resend.emails.send({
+      from: "Ultralight Gear Tracker <noreply@ultralightgear.app>",
+      to: email,
+      subject: "Verify your email address",
+      html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 24px;">Verify your email address</h1>
+
+  <p style="margin-bottom: 16px;">Thanks for signing up for Ultralight Gear Tracker.</p>
+
+  <p style="margin-bottom: 24px;">Click the button below to confirm this is your address. You'll need to before sharing lists or resetting your password. This link will expire in 24 hours.</p>
+
+  <a href="${verifyUrl}" style="display: inline-block; background-color: #000; color: #fff; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">Verify Email</a>
+
+  <p style="margin-top: 24px; color: #666; font-size: 14px;">If you didn't create an account, you can safely ignore this email.</p>
+
+  <hr style="border: none; border-top: 1px solid #eee; margin: 32px 0;">
+
+  <p style="color: #999; font-size: 12px;">If the button doesn't work, copy and paste this link into your browser:</p>
+  <p style="color: #999; font-size: 12px; word-break: break-all;">${verifyUrl}</p>
+</body>
+</html>
+      `,
+    });
+
+    if (error) {
+      console.error("Failed to send verification email:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to send verification email:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_EMBED_HEIGHT,
+  DEFAULT_EMBED_WIDTH,
+  buildOEmbedResponse,
+  getEmbedUrl,
+  getOEmbedUrl,
+  parseEmbedDimension,
+  parseEmbedTheme,
+  parseListUrl,
+} from "./embed";
+
+const list = { username: "hiker", slug: "pct-2024", name: "PCT 2024" };
+
+describe("parseEmbedTheme", () => {
+  it("accepts light and dark", () => {
+    expect(parseEmbedTheme("light")).toBe("light");
+    expect(parseEmbedTheme("dark")).toBe("dark");
+  });
+
+  it("follows the system theme otherwise", () => {
+    expect(parseEmbedTheme(undefined)).toBeUndefined();
+    expect(parseEmbedTheme("sepia")).toBeUndefined();
+  });
+});
+
+describe("getEmbedUrl", () => {
+  it("points at the embed route", () => {
+    expect(getEmbedUrl(list)).toBe("http://localhost:3000/embed/hiker/pct-2024");
+  });
+
+  it("passes theme and unit through", () => {
+    expect(getEmbedUrl(list, { theme: "dark", unit: "oz" })).toBe(
+      "http://localhost:3000/embed/hiker/pct-2024?theme=dark&unit=oz"
+    );
+  });
+});
+
+describe("getOEmbedUrl", () => {
+  it("encodes the public list URL", () => {
+    expect(getOEmbedUrl(list)).toBe(
+      "http://localhost:3000/api/oembed?url=http%3A%2F%2Flocalhost%3A3000%2Fhiker%2Fpct-2024"
+    );
+  });
+});
+
+describe("parseListUrl", () => {
+  it("reads public list and embed URLs", () => {
+    expect(parseListUrl("http://localhost:3000/hiker/pct-2024")).toEqual({
+      username: "hiker",
+      slug: "pct-2024",
+    });
+    expect(
+      parseListUrl("http://localhost:3000/embed/hiker/pct-2024?theme=dark")
+    ).toEqual({ username: "hiker", slug: "pct-2024" });
+  });
+
+  it("rejects other sites and paths", () => {
+    expect(parseListUrl("https://example.com/hiker/pct-2024")).toBeNull();
+    expect(parseListUrl("http://localhost:3000/hiker")).toBeNull();
+    expect(parseListUrl("http://localhost:3000/hiker/pct-2024/print")).toBeNull();
+    expect(parseListUrl("not a url")).toBeNull();
+  });
+});
+
+describe("parseEmbedDimension", () => {
+  it("accepts positive integers", () => {
+    expect(parseEmbedDimension("400")).toBe(400);
+  });
+
+  it("ignores missing or invalid limits", () => {
+    expect(parseEmbedDimension(null)).toBeUndefined();
+    expect(parseEmbedDimension("0")).toBeUndefined();
+    expect(parseEmbedDimension("wide")).toBeUndefined();
+  });
+});
+
+describe("buildOEmbedResponse", () => {
+  it("returns a rich iframe embed at the default size", () => {
+    const response = buildOEmbedResponse(list);
+
+    expect(response).toMatchObject({
+      version: "1.0",
+      type: "rich",
+      title: "PCT 2024",
+      author_name: "hiker",
+      width: DEFAULT_EMBED_WIDTH,
+      height: DEFAULT_EMBED_HEIGHT,
+    });
+    expect(response.html).toContain(
+      'src="http://localhost:3000/embed/hiker/pct-2024"'
+    );
+  });
+
+  it("fits within the consumer's limits", () => {
+    const response = buildOEmbedResponse(list, { maxWidth: 400, maxHeight: 2000 });
+
+    expect(response.width).toBe(400);
+    expect(response.height).toBe(DEFAULT_EMBED_HEIGHT);
+    expect(response.html).toContain('width="400"');
+  });
+
+  it("escapes the list name", () => {
+    const response = buildOEmbedResponse({ ...list, name: 'Tarp "& bivy"' });
+
+    expect(response.html).toContain('title="Tarp &quot;&amp; bivy&quot;"');
+  });
+});
@@ -0,0 +1,151 @@
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+export const EMBED_THEMES = ["light", "dark"] as const;
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+// Size of the iframe when the consumer sets no limits
+export const DEFAULT_EMBED_WIDTH = 600;
+export const DEFAULT_EMBED_HEIGHT = 800;
+
+export interface ListPath {
+  username: string;
+  slug: string;
+}
+
+/**
+ * oEmbed "rich" response for a public list
+ * @see https://oembed.com/#section2.3
+ */
+export interface OEmbedResponse {
+  version: "1.0";
+  type: "rich";
+  title: string;
+  author_name: string;
+  provider_name: string;
+  provider_url: string;
+  html: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Parse the `theme` query parameter of an embed.
+ * @returns The theme, or undefined to follow the viewer's system theme
+ */
+export function parseEmbedTheme(
+  value: string | null | undefined
+): EmbedTheme | undefined {
+  return (EMBED_THEMES as readonly (string | null | undefined)[]).includes(value)
+    ? (value as EmbedTheme)
+    : undefined;
+}
+
+function getListPath({ username, slug }: ListPath): string {
+  return `/${encodeURIComponent(username)}/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Absolute URL of a public list page
+ */
+export function getPublicListUrl(list: ListPath): string {
+  return `${APP_URL}${getListPath(list)}`;
+}
+
+/**
+ * Absolute URL of the iframe version of a public list
+ */
+export function getEmbedUrl(
+  list: ListPath,
+  options: { theme?: EmbedTheme; unit?: string } = {}
+): string {
+  const params = new URLSearchParams();
+  if (options.theme) {
+    params.set("theme", options.theme);
+  }
+  if (options.unit) {
+    params.set("unit", options.unit);
+  }
+  const query = params.toString();
+  return `${APP_URL}/embed${getListPath(list)}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Absolute URL of the oEmbed endpoint for a public list, for discovery links
+ */
+export function getOEmbedUrl(list: ListPath): string {
+  return `${APP_URL}/api/oembed?url=${encodeURIComponent(getPublicListUrl(list))}`;
+}
+
+/**
+ * Find the list a public list or embed URL on this site points at.
+ * @returns The owner's username and list slug, or null for any other URL
+ */
+export function parseListUrl(url: string): ListPath | null {
+  let parsed: URL;
+  let segments: string[];
+  try {
+    parsed = new URL(url);
+    segments = parsed.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    return null;
+  }
+
+  if (parsed.origin !== new URL(APP_URL).origin) {
+    return null;
+  }
+  if (segments[0] === "embed") {
+    segments.shift();
+  }
+  if (segments.length !== 2) {
+    return null;
+  }
+
+  const [username, slug] = segments;
+  return { username, slug };
+}
+
+/**
+ * Parse a `maxwidth` / `maxheight` oEmbed parameter.
+ * @returns The limit, or undefined when absent or not a positive integer
+ */
+export function parseEmbedDimension(value: string | null): number | undefined {
+  const dimension = Number(value);
+  return value && Number.isInteger(dimension) && dimension > 0
+    ? dimension
+    : undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Build the oEmbed response for a public list, fitting the iframe within the
+ * consumer's size limits.
+ */
+export function buildOEmbedResponse(
+  list: ListPath & { name: string },
+  limits: { maxWidth?: number; maxHeight?: number } = {}
+): OEmbedResponse {
+  const width = Math.min(DEFAULT_EMBED_WIDTH, limits.maxWidth ?? Infinity);
+  const height = Math.min(DEFAULT_EMBED_HEIGHT, limits.maxHeight ?? Infinity);
+
+  return {
+    version: "1.0",
+    type: "rich",
+    title: list.name,
+    author_name: list.username,
+    provider_name: "Ultralight",
+    provider_url: APP_URL,
+    html: `<iframe src="${escapeHtml(getEmbedUrl(list))}" width="${width}" height="${height}" title="${escapeHtml(list.name)}" style="border:0" loading="lazy"></iframe>`,
+    width,
+    height,
+  };
+}
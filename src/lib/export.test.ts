@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildListExport,
+  createExportResponse,
+  parseExportFormat,
+  LIST_EXPORT_VERSION,
+} from "./export";
+import type { CategoryWithItems } from "./lists";
+
+const now = new Date("2024-06-01T12:00:00Z");
+
+const list = {
+  name: "PCT 2024",
+  slug: "pct-2024",
+  description: "Thru-hike",
+  isPublic: true,
+  hidePrices: false,
+  displayUnit: null,
+  tripDays: null,
+  resupplyDays: [],
+  caloriesPerDay: null,
+  waterCarryAmount: null,
+  waterCarryUnit: "l",
+  baseWeightTarget: null,
+  createdAt: now,
+  updatedAt: now,
+};
+
+const categories: CategoryWithItems[] = [
+  {
+    id: "cat-1",
+    listId: "list-1",
+    name: "Shelter",
+    description: null,
+    position: 0,
+    baseWeightTarget: null,
+    createdAt: now,
+    updatedAt: now,
+    items: [
+      {
+        id: "item-1",
+        categoryId: "cat-1",
+        gearId: null,
+        name: "Duplex",
+        description: "DCF tent",
+        url: null,
+        weightAmount: 500,
+        weightUnit: "g",
+        label: "none",
+        quantity: 1,
+        perDay: false,
+        calories: null,
+        protein: null,
+        fat: null,
+        carbs: null,
+        servingWeight: null,
+        price: null,
+        currency: "USD",
+        position: 0,
+        packedCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        id: "item-2",
+        categoryId: "cat-1",
+        gearId: null,
+        name: "Shoes",
+        description: null,
+        url: null,
+        weightAmount: 300,
+        weightUnit: "g",
+        label: "worn",
+        quantity: 1,
+        perDay: false,
+        calories: null,
+        protein: null,
+        fat: null,
+        carbs: null,
+        servingWeight: null,
+        price: null,
+        currency: "USD",
+        position: 1,
+        packedCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ],
+  },
+];
+
+describe("parseExportFormat", () => {
+  it("defaults to JSON", () => {
+    expect(parseExportFormat(null)).toBe("json");
+    expect(parseExportFormat("")).toBe("json");
+  });
+
+  it("accepts supported formats", () => {
+    expect(parseExportFormat("csv")).toBe("csv");
+    expect(parseExportFormat("json")).toBe("json");
+    expect(parseExportFormat("md")).toBe("md");
+    expect(parseExportFormat("txt")).toBe("txt");
+    expect(parseExportFormat("bbcode")).toBe("bbcode");
+  });
+
+  it("rejects unsupported formats", () => {
+    expect(parseExportFormat("xml")).toBeNull();
+  });
+});
+
+describe("buildListExport", () => {
+  it("includes metadata, categories and weight summary", () => {
+    const result = buildListExport(
+      { ...list, id: "list-1", userId: "user-1" } as typeof list,
+      categories
+    );
+
+    expect(result.version).toBe(LIST_EXPORT_VERSION);
+    expect(result.list).toEqual(list);
+    expect(result.list).not.toHaveProperty("userId");
+    expect(result.categories).toBe(categories);
+    expect(result.summary.totalBaseWeight).toBe(500);
+    expect(result.summary.totalWornWeight).toBe(300);
+    expect(result.summary.totalItemCount).toBe(2);
+  });
+
+  it("keeps trip settings and counts them in the summary", () => {
+    const result = buildListExport(
+      {
+        ...list,
+        displayUnit: "oz",
+        tripDays: 5,
+        resupplyDays: [3],
+        caloriesPerDay: 3000,
+        waterCarryAmount: 2,
+        baseWeightTarget: 4500,
+      },
+      categories
+    );
+
+    expect(result.list).toMatchObject({
+      displayUnit: "oz",
+      tripDays: 5,
+      resupplyDays: [3],
+      caloriesPerDay: 3000,
+      waterCarryAmount: 2,
+      waterCarryUnit: "l",
+      baseWeightTarget: 4500,
+    });
+    expect(result.summary.totalWaterWeight).toBe(2000);
+    expect(result.summary.totalPackWeight).toBe(2800);
+    expect(result.summary.trip?.days).toBe(5);
+    expect(result.summary.trip?.resupplyDays).toEqual([3]);
+  });
+});
+
+describe("createExportResponse", () => {
+  it("returns a JSON attachment", async () => {
+    const response = createExportResponse(list, categories, "json");
+
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="pct-2024.json"'
+    );
+
+    const data = await response.json();
+    expect(data.list.name).toBe("PCT 2024");
+    expect(data.categories[0].items[0].name).toBe("Duplex");
+    expect(data.summary.totalPackWeight).toBe(800);
+  });
+
+  it("returns a LighterPack CSV attachment", async () => {
+    const response = createExportResponse(list, categories, "csv");
+
+    expect(response.headers.get("Content-Type")).toContain("text/csv");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="pct-2024.csv"'
+    );
+
+    const lines = (await response.text()).trim().split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toBe("Duplex,Shelter,DCF tent,1,500,gram,,,,");
+    expect(lines[2]).toBe("Shoes,Shelter,,1,300,gram,,,Worn,");
+  });
+
+  it("returns a Markdown attachment in the display unit", async () => {
+    const response = createExportResponse(list, categories, "md", {
+      displayUnit: "kg",
+    });
+
+    expect(response.headers.get("Content-Type")).toContain("text/markdown");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="pct-2024.md"'
+    );
+
+    const markdown = await response.text();
+    expect(markdown).toContain("# PCT 2024");
+    expect(markdown).toContain("| Duplex | 1 | 0.5 kg |");
+  });
+
+  it("returns a plain-text attachment", async () => {
+    const response = createExportResponse(list, categories, "txt");
+
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+    expect(await response.text()).toContain("- Shoes: 300 g [worn]");
+  });
+
+  it("returns BBCode as a text attachment", async () => {
+    const response = createExportResponse(list, categories, "bbcode");
+
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="pct-2024.txt"'
+    );
+    expect(await response.text()).toContain("[b]Shelter[/b]\n[table]");
+  });
+});
@@ -0,0 +1,153 @@
+import type { List } from "@/db/schema";
+import type { CategoryWithItems } from "@/lib/lists";
+import { formatLighterPackCsv } from "@/lib/lighterpack";
+import {
+  formatListBbcode,
+  formatListMarkdown,
+  formatListText,
+  type ListTextOptions,
+} from "@/lib/list-text";
+import {
+  calculateListWeightSummary,
+  getListTripSettings,
+  getListWaterCarry,
+  type ListWeightSummary,
+} from "@/lib/weight";
+
+export const LIST_EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS = ["csv", "json", "md", "txt", "bbcode"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  bbcode: "text/plain; charset=utf-8",
+};
+
+// BBCode has no registered extension; save it as text
+const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  md: "md",
+  txt: "txt",
+  bbcode: "txt",
+};
+
+export type ExportedList = Pick<
+  List,
+  | "name"
+  | "slug"
+  | "description"
+  | "isPublic"
+  | "hidePrices"
+  | "displayUnit"
+  | "tripDays"
+  | "resupplyDays"
+  | "caloriesPerDay"
+  | "waterCarryAmount"
+  | "waterCarryUnit"
+  | "baseWeightTarget"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+/**
+ * Lossless JSON export of a list: metadata and trip settings, ordered
+ * categories and items, and the computed weight summary.
+ */
+export interface ListExport {
+  version: number;
+  exportedAt: Date;
+  list: ExportedList;
+  categories: CategoryWithItems[];
+  summary: ListWeightSummary;
+}
+
+/**
+ * Parse the `format` query parameter. Defaults to JSON when absent.
+ * @returns The export format, or null if the value is not supported
+ */
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  if (value === null || value === "") {
+    return "json";
+  }
+  return (EXPORT_FORMATS as readonly string[]).includes(value)
+    ? (value as ExportFormat)
+    : null;
+}
+
+export function buildListExport(
+  list: ExportedList,
+  categories: CategoryWithItems[]
+): ListExport {
+  return {
+    version: LIST_EXPORT_VERSION,
+    exportedAt: new Date(),
+    list: {
+      name: list.name,
+      slug: list.slug,
+      description: list.description,
+      isPublic: list.isPublic,
+      hidePrices: list.hidePrices,
+      displayUnit: list.displayUnit,
+      tripDays: list.tripDays,
+      resupplyDays: list.resupplyDays,
+      caloriesPerDay: list.caloriesPerDay,
+      waterCarryAmount: list.waterCarryAmount,
+      waterCarryUnit: list.waterCarryUnit,
+      baseWeightTarget: list.baseWeightTarget,
+      createdAt: list.createdAt,
+      updatedAt: list.updatedAt,
+    },
+    categories,
+    summary: calculateListWeightSummary(
+      categories,
+      getListTripSettings(list),
+      getListWaterCarry(list)
+    ),
+  };
+}
+
+function formatListExport(
+  list: ExportedList,
+  categories: CategoryWithItems[],
+  format: ExportFormat,
+  textOptions: ListTextOptions
+): string {
+  switch (format) {
+    case "csv":
+      return formatLighterPackCsv(categories);
+    case "md":
+      return formatListMarkdown(list, categories, textOptions);
+    case "txt":
+      return formatListText(list, categories, textOptions);
+    case "bbcode":
+      return formatListBbcode(list, categories, textOptions);
+    default:
+      return JSON.stringify(buildListExport(list, categories), null, 2);
+  }
+}
+
+/**
+ * Build a file download response for a list in the requested format.
+ * Markdown, plain text and BBCode show weights in the display unit of the
+ * text options, with totals for the list's trip and water carry.
+ */
+export function createExportResponse(
+  list: ExportedList,
+  categories: CategoryWithItems[],
+  format: ExportFormat,
+  textOptions: ListTextOptions = { displayUnit: "g" }
+): Response {
+  const body = formatListExport(list, categories, format, textOptions);
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${list.slug}.${EXPORT_FILE_EXTENSIONS[format]}"`,
+    },
+  });
+}
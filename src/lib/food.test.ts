@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest";
+import type { Item } from "@/db/schema";
+import {
+  calculateCaloriesPerOunce,
+  calculateFoodSummary,
+  calculateItemNutrition,
+  convertServingWeight,
+  isFoodItem,
+  sortFoodItems,
+} from "./food";
+
+function createMockItem(overrides: Partial<Item> = {}): Item {
+  return {
+    id: crypto.randomUUID(),
+    categoryId: "b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+    gearId: null,
+    name: "Test Item",
+    description: null,
+    url: null,
+    weightAmount: 100,
+    weightUnit: "g",
+    label: "consumable",
+    quantity: 1,
+    perDay: false,
+    calories: null,
+    protein: null,
+    fat: null,
+    carbs: null,
+    servingWeight: null,
+    price: null,
+    currency: "USD",
+    position: 0,
+    packedCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const trailMix = createMockItem({
+  name: "Trail mix",
+  weightAmount: 100,
+  perDay: true,
+  calories: 500,
+  protein: 15,
+  fat: 30,
+  carbs: 45,
+  servingWeight: 50,
+});
+
+const bar = createMockItem({
+  name: "Bar",
+  weightAmount: 60,
+  quantity: 2,
+  calories: 250,
+  protein: 10,
+});
+
+describe("isFoodItem", () => {
+  it("accepts consumables with calories", () => {
+    expect(isFoodItem(bar)).toBe(true);
+  });
+
+  it("ignores consumables without calories and non-consumables", () => {
+    expect(isFoodItem(createMockItem({ name: "Fuel" }))).toBe(false);
+    expect(
+      isFoodItem(createMockItem({ label: "none", calories: 100 }))
+    ).toBe(false);
+  });
+});
+
+describe("calculateCaloriesPerOunce", () => {
+  it("divides calories by weight in ounces", () => {
+    expect(calculateCaloriesPerOunce(100, 28.3495)).toBeCloseTo(100);
+  });
+
+  it("returns null for weightless food", () => {
+    expect(calculateCaloriesPerOunce(100, 0)).toBeNull();
+  });
+});
+
+describe("convertServingWeight", () => {
+  it("converts between weight units", () => {
+    expect(convertServingWeight(100, "g", "kg")).toBeCloseTo(0.1);
+    expect(convertServingWeight(1, "oz", "g")).toBeCloseTo(28.3495);
+  });
+
+  it("converts volumes as water", () => {
+    expect(convertServingWeight(250, "ml", "l")).toBeCloseTo(0.25);
+    expect(convertServingWeight(500, "g", "ml")).toBeCloseTo(500);
+  });
+
+  it("keeps the value when the unit is unchanged", () => {
+    expect(convertServingWeight(40, "oz", "oz")).toBe(40);
+  });
+});
+
+describe("calculateItemNutrition", () => {
+  it("scales nutrition by servings per item", () => {
+    const result = calculateItemNutrition(trailMix);
+
+    expect(result.calories).toBe(1000);
+    expect(result.protein).toBe(30);
+    expect(result.fat).toBe(60);
+    expect(result.carbs).toBe(90);
+    expect(result.weight).toBe(100);
+  });
+
+  it("treats nutrition as per item without a serving weight", () => {
+    const result = calculateItemNutrition(bar);
+
+    expect(result.calories).toBe(500);
+    expect(result.protein).toBe(20);
+    expect(result.fat).toBe(0);
+    expect(result.weight).toBe(120);
+  });
+
+  it("multiplies per-day food by the number of days", () => {
+    const result = calculateItemNutrition(trailMix, 3);
+
+    expect(result.calories).toBe(3000);
+    expect(result.weight).toBe(300);
+  });
+
+  it("compares serving weight in the item's unit", () => {
+    const result = calculateItemNutrition(
+      createMockItem({
+        weightAmount: 1,
+        weightUnit: "lbs",
+        servingWeight: 0.25,
+        calories: 400,
+      })
+    );
+
+    expect(result.calories).toBe(1600);
+    expect(result.weight).toBeCloseTo(453.592);
+  });
+});
+
+describe("calculateFoodSummary", () => {
+  const categories = [
+    {
+      items: [
+        trailMix,
+        bar,
+        createMockItem({ name: "Fuel", weightAmount: 200 }),
+        createMockItem({ name: "Tent", label: "none", weightAmount: 900 }),
+      ],
+    },
+  ];
+
+  it("totals food for a single day without a trip", () => {
+    const summary = calculateFoodSummary(categories);
+
+    expect(summary.items.map((i) => i.name)).toEqual(["Trail mix", "Bar"]);
+    expect(summary.days).toBe(1);
+    expect(summary.totals.calories).toBe(1500);
+    expect(summary.totals.weight).toBe(220);
+    expect(summary.caloriesPerDay).toBe(1500);
+    expect(summary.targetCaloriesPerDay).toBeNull();
+  });
+
+  it("spreads calories over the trip and keeps the target", () => {
+    const summary = calculateFoodSummary(categories, {
+      trip: { days: 4, resupplyDays: [2] },
+      caloriesPerDay: 3000,
+    });
+
+    expect(summary.days).toBe(4);
+    expect(summary.totals.calories).toBe(4500);
+    expect(summary.caloriesPerDay).toBe(1125);
+    expect(summary.targetCaloriesPerDay).toBe(3000);
+    expect(summary.caloriesPerOunce).toBeCloseTo(4500 / (520 / 28.3495));
+  });
+
+  it("returns empty totals when there is no food", () => {
+    const summary = calculateFoodSummary([{ items: [] }]);
+
+    expect(summary.items).toEqual([]);
+    expect(summary.totals.calories).toBe(0);
+    expect(summary.caloriesPerOunce).toBeNull();
+  });
+});
+
+describe("sortFoodItems", () => {
+  const items = calculateFoodSummary([
+    {
+      items: [
+        trailMix,
+        bar,
+        createMockItem({ name: "Water flavor", weightAmount: 0, calories: 10 }),
+      ],
+    },
+  ]).items;
+
+  it("sorts by calorie density with weightless food last", () => {
+    expect(
+      sortFoodItems(items, "caloriesPerOunce", "asc").map((i) => i.name)
+    ).toEqual(["Bar", "Trail mix", "Water flavor"]);
+    expect(
+      sortFoodItems(items, "caloriesPerOunce", "desc").map((i) => i.name)
+    ).toEqual(["Trail mix", "Bar", "Water flavor"]);
+  });
+
+  it("sorts by name", () => {
+    expect(sortFoodItems(items, "name", "asc").map((i) => i.name)).toEqual([
+      "Bar",
+      "Trail mix",
+      "Water flavor",
+    ]);
+  });
+
+  it("does not mutate the input", () => {
+    const names = items.map((i) => i.name);
+    sortFoodItems(items, "calories", "desc");
+    expect(items.map((i) => i.name)).toEqual(names);
+  });
+});
@@ -0,0 +1,185 @@
+import type { Item } from "@/db/schema";
+import { fromGrams, toGrams, type TripSettings } from "@/lib/weight";
+
+export interface Nutrition {
+  calories: number;
+  protein: number; // grams
+  fat: number; // grams
+  carbs: number; // grams
+}
+
+export interface FoodItemSummary extends Nutrition {
+  itemId: string;
+  name: string;
+  weight: number; // in grams, for the whole trip
+  caloriesPerOunce: number | null;
+}
+
+export interface FoodSummary {
+  items: FoodItemSummary[];
+  totals: Nutrition & { weight: number };
+  days: number;
+  caloriesPerDay: number;
+  caloriesPerOunce: number | null;
+  targetCaloriesPerDay: number | null;
+}
+
+export const FOOD_SORT_KEYS = [
+  "name",
+  "calories",
+  "weight",
+  "caloriesPerOunce",
+] as const;
+export type FoodSortKey = (typeof FOOD_SORT_KEYS)[number];
+
+type FoodItem = Pick<
+  Item,
+  | "id"
+  | "name"
+  | "label"
+  | "weightAmount"
+  | "weightUnit"
+  | "quantity"
+  | "perDay"
+  | "calories"
+  | "protein"
+  | "fat"
+  | "carbs"
+  | "servingWeight"
+>;
+
+interface CategoryWithItems {
+  items: FoodItem[];
+}
+
+/**
+ * Whether an item counts toward the food plan: a consumable with calories
+ */
+export function isFoodItem(item: FoodItem): boolean {
+  return item.label === "consumable" && item.calories !== null;
+}
+
+/**
+ * Calories per ounce of food, the usual measure of how efficient it is to carry.
+ * @returns The density, or null for weightless items
+ */
+export function calculateCaloriesPerOunce(
+  calories: number,
+  grams: number
+): number | null {
+  if (grams <= 0) {
+    return null;
+  }
+  return calories / fromGrams(grams, "oz");
+}
+
+/**
+ * Express a serving weight recorded in one item unit in another, so the
+ * servings per item stay the same when the item's unit changes.
+ */
+export function convertServingWeight(
+  servingWeight: number,
+  fromUnit: string,
+  toUnit: string
+): number {
+  if (fromUnit === toUnit) {
+    return servingWeight;
+  }
+  return toGrams(servingWeight, fromUnit) / toGrams(1, toUnit);
+}
+
+/**
+ * Nutrition and weight of an item line for a trip.
+ * Nutrition is recorded per serving; the item weight divided by the serving
+ * weight gives the servings per item (one when no serving weight is set).
+ * Per-day items are multiplied by the number of days.
+ */
+export function calculateItemNutrition(
+  item: FoodItem,
+  days = 1
+): Nutrition & { weight: number } {
+  const servings =
+    item.servingWeight && item.servingWeight > 0
+      ? item.weightAmount / item.servingWeight
+      : 1;
+  const lines = item.quantity * (item.perDay ? days : 1);
+  const scale = servings * lines;
+
+  return {
+    calories: (item.calories ?? 0) * scale,
+    protein: (item.protein ?? 0) * scale,
+    fat: (item.fat ?? 0) * scale,
+    carbs: (item.carbs ?? 0) * scale,
+    weight: toGrams(item.weightAmount, item.weightUnit) * lines,
+  };
+}
+
+/**
+ * Calculate the food plan for a list: calories and macros of each food over
+ * the trip, daily calories against the list's target, and overall density.
+ */
+export function calculateFoodSummary(
+  categories: CategoryWithItems[],
+  options: { trip?: TripSettings | null; caloriesPerDay?: number | null } = {}
+): FoodSummary {
+  const days = options.trip ? Math.max(1, Math.floor(options.trip.days)) : 1;
+  const totals = { calories: 0, protein: 0, fat: 0, carbs: 0, weight: 0 };
+  const items: FoodItemSummary[] = [];
+
+  for (const category of categories) {
+    for (const item of category.items) {
+      if (!isFoodItem(item)) continue;
+
+      const nutrition = calculateItemNutrition(item, days);
+      items.push({
+        itemId: item.id,
+        name: item.name,
+        ...nutrition,
+        caloriesPerOunce: calculateCaloriesPerOunce(
+          nutrition.calories,
+          nutrition.weight
+        ),
+      });
+
+      totals.calories += nutrition.calories;
+      totals.protein += nutrition.protein;
+      totals.fat += nutrition.fat;
+      totals.carbs += nutrition.carbs;
+      totals.weight += nutrition.weight;
+    }
+  }
+
+  return {
+    items,
+    totals,
+    days,
+    caloriesPerDay: totals.calories / days,
+    caloriesPerOunce: calculateCaloriesPerOunce(totals.calories, totals.weight),
+    targetCaloriesPerDay: options.caloriesPerDay ?? null,
+  };
+}
+
+/**
+ * Sort foods for the planner table. Items without a density (weightless)
+ * always sort last so the least efficient real foods stay on top.
+ */
+export function sortFoodItems(
+  items: FoodItemSummary[],
+  key: FoodSortKey,
+  direction: "asc" | "desc"
+): FoodItemSummary[] {
+  const sign = direction === "asc" ? 1 : -1;
+
+  return [...items].sort((a, b) => {
+    if (key === "name") {
+      return sign * a.name.localeCompare(b.name);
+    }
+
+    const valueA = a[key];
+    const valueB = b[key];
+    if (valueA === null || valueB === null) {
+      return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+    }
+    return sign * (valueA - valueB);
+  });
+}
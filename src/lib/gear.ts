@@ -0,0 +1,118 @@
+import { db } from "@/db";
+import { categories, gear, items } from "@/db/schema";
+import type { Gear } from "@/db/schema";
+import { convertServingWeight } from "@/lib/food";
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+
+/**
+ * Fields owned by a gear closet entry. Items linked to the gear mirror these
+ * values, while label, quantity and position stay per-item.
+ */
+export interface GearSharedFields {
+  name?: string;
+  description?: string | null;
+  url?: string | null;
+  weightAmount?: number;
+  weightUnit?: string;
+}
+
+/** A gear closet entry without its owner columns, as returned to clients */
+export type UpdatedGear = Omit<Gear, "userId" | "anonymousSessionId">;
+
+/**
+ * Pick the gear-owned fields that are present (not undefined) in the given data.
+ */
+export function pickGearFields(data: GearSharedFields): GearSharedFields {
+  const fields: GearSharedFields = {};
+
+  if (data.name !== undefined) fields.name = data.name;
+  if (data.description !== undefined) fields.description = data.description;
+  if (data.url !== undefined) fields.url = data.url;
+  if (data.weightAmount !== undefined) fields.weightAmount = data.weightAmount;
+  if (data.weightUnit !== undefined) fields.weightUnit = data.weightUnit;
+
+  return fields;
+}
+
+/**
+ * Update a gear closet entry and copy its fields onto every item linked to it,
+ * in one transaction so the gear and its items never disagree.
+ * @returns The updated gear (undefined if it does not exist) and the IDs of the
+ * lists containing the updated items, so callers can invalidate their caches
+ */
+export async function propagateGearUpdate(
+  gearId: string,
+  fields: GearSharedFields
+): Promise<{ gear: UpdatedGear | undefined; listIds: string[] }> {
+  return db.transaction(async (tx) => {
+    const now = new Date();
+
+    const [updatedGear] = await tx
+      .update(gear)
+      .set({ ...fields, updatedAt: now })
+      .where(eq(gear.id, gearId))
+      .returning({
+        id: gear.id,
+        name: gear.name,
+        description: gear.description,
+        url: gear.url,
+        weightAmount: gear.weightAmount,
+        weightUnit: gear.weightUnit,
+        createdAt: gear.createdAt,
+        updatedAt: gear.updatedAt,
+      });
+
+    if (!updatedGear || Object.keys(fields).length === 0) {
+      return { gear: updatedGear, listIds: [] };
+    }
+
+    // Serving weights are stored in each item's unit, so follow a unit change
+    const newUnit = fields.weightUnit;
+    if (newUnit !== undefined) {
+      const servedItems = await tx
+        .select({
+          id: items.id,
+          weightUnit: items.weightUnit,
+          servingWeight: items.servingWeight,
+        })
+        .from(items)
+        .where(and(eq(items.gearId, gearId), isNotNull(items.servingWeight)));
+
+      for (const item of servedItems) {
+        if (item.servingWeight !== null && item.weightUnit !== newUnit) {
+          await tx
+            .update(items)
+            .set({
+              servingWeight: convertServingWeight(
+                item.servingWeight,
+                item.weightUnit,
+                newUnit
+              ),
+            })
+            .where(eq(items.id, item.id));
+        }
+      }
+    }
+
+    const updatedItems = await tx
+      .update(items)
+      .set({ ...fields, updatedAt: now })
+      .where(eq(items.gearId, gearId))
+      .returning({ categoryId: items.categoryId });
+
+    if (updatedItems.length === 0) {
+      return { gear: updatedGear, listIds: [] };
+    }
+
+    const categoryIds = [...new Set(updatedItems.map((i) => i.categoryId))];
+    const affectedCategories = await tx
+      .select({ listId: categories.listId })
+      .from(categories)
+      .where(inArray(categories.id, categoryIds));
+
+    return {
+      gear: updatedGear,
+      listIds: [...new Set(affectedCategories.map((c) => c.listId))],
+    };
+  });
+}
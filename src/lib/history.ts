@@ -0,0 +1,82 @@
+import { db } from "@/db";
+import { lists, weightSnapshots } from "@/db/schema";
+import type { WeightSnapshot } from "@/db/schema";
+import { getListCategoriesWithItems } from "@/lib/lists";
+import {
+  calculateListWeightSummary,
+  getListTripSettings,
+  getListWaterCarry,
+  isSameWeightSnapshot,
+  toWeightSnapshotValues,
+} from "@/lib/weight";
+import { asc, desc, eq } from "drizzle-orm";
+
+export type WeightHistoryPoint = Omit<WeightSnapshot, "id" | "listId">;
+
+/**
+ * Record the list's current weight summary in its history.
+ * Skipped when the weights match the latest snapshot, so edits that do not
+ * change weight (renames, notes) do not add points. Failures are logged
+ * rather than thrown because history must never block the edit itself.
+ */
+export async function recordWeightSnapshot(listId: string): Promise<void> {
+  try {
+    const [list] = await db
+      .select({
+        tripDays: lists.tripDays,
+        resupplyDays: lists.resupplyDays,
+        waterCarryAmount: lists.waterCarryAmount,
+        waterCarryUnit: lists.waterCarryUnit,
+      })
+      .from(lists)
+      .where(eq(lists.id, listId))
+      .limit(1);
+    if (!list) {
+      return;
+    }
+
+    const listCategories = await getListCategoriesWithItems(listId);
+    const values = toWeightSnapshotValues(
+      calculateListWeightSummary(
+        listCategories,
+        getListTripSettings(list),
+        getListWaterCarry(list)
+      )
+    );
+
+    const [latest] = await db
+      .select()
+      .from(weightSnapshots)
+      .where(eq(weightSnapshots.listId, listId))
+      .orderBy(desc(weightSnapshots.createdAt))
+      .limit(1);
+
+    if (latest && isSameWeightSnapshot(latest, values)) {
+      return;
+    }
+
+    await db.insert(weightSnapshots).values({ listId, ...values });
+  } catch (error) {
+    console.error("Record weight snapshot error:", error);
+  }
+}
+
+/**
+ * Fetch a list's weight history, oldest snapshot first.
+ */
+export async function getWeightHistory(
+  listId: string
+): Promise<WeightHistoryPoint[]> {
+  return db
+    .select({
+      baseWeight: weightSnapshots.baseWeight,
+      wornWeight: weightSnapshots.wornWeight,
+      consumableWeight: weightSnapshots.consumableWeight,
+      totalWeight: weightSnapshots.totalWeight,
+      itemCount: weightSnapshots.itemCount,
+      createdAt: weightSnapshots.createdAt,
+    })
+    .from(weightSnapshots)
+    .where(eq(weightSnapshots.listId, listId))
+    .orderBy(asc(weightSnapshots.createdAt));
+}
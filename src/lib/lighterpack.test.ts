@@ -0,0 +1,336 @@
+import { describe, it, expect } from "vitest";
+import { parseLighterPackCsv, formatLighterPackCsv } from "./lighterpack";
+
+const HEADER = "Item Name,Category,desc,qty,weight,unit,url,price,worn,consumable";
+
+describe("parseLighterPackCsv", () => {
+  describe("header handling", () => {
+    it("reports empty file", () => {
+      const result = parseLighterPackCsv("");
+      expect(result.categories).toEqual([]);
+      expect(result.errors).toEqual([
+        { row: 1, errors: { header: ["CSV file is empty"] } },
+      ]);
+    });
+
+    it("reports missing required columns", () => {
+      const result = parseLighterPackCsv("Item Name,desc\nTent,DCF");
+      expect(result.categories).toEqual([]);
+      expect(result.errors[0].row).toBe(1);
+      expect(result.errors[0].errors.header).toEqual([
+        "Missing required column: Category",
+        "Missing required column: weight",
+      ]);
+    });
+
+    it("matches header names case-insensitively", () => {
+      const result = parseLighterPackCsv(
+        "ITEM NAME,CATEGORY,WEIGHT,UNIT\nTent,Shelter,500,g"
+      );
+      expect(result.errors).toEqual([]);
+      expect(result.categories[0].items[0].name).toBe("Tent");
+    });
+  });
+
+  describe("item mapping", () => {
+    it("maps a full LighterPack row", () => {
+      const result = parseLighterPackCsv(
+        `${HEADER}\nDuplex,Shelter,DCF tent,1,19,ounce,https://zpacks.com/duplex,599,,`
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.categories).toEqual([
+        {
+          name: "Shelter",
+          items: [
+            {
+              name: "Duplex",
+              description: "DCF tent",
+              url: "https://zpacks.com/duplex",
+              weightAmount: 19,
+              weightUnit: "oz",
+              label: "none",
+              quantity: 1,
+              price: 599,
+              currency: "USD",
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("maps LighterPack unit names", () => {
+      const result = parseLighterPackCsv(
+        [
+          HEADER,
+          "A,Misc,,1,1,gram,,,,",
+          "B,Misc,,1,1,ounce,,,,",
+          "C,Misc,,1,1,kilogram,,,,",
+          "D,Misc,,1,1,pound,,,,",
+          "E,Misc,,1,1,lb,,,,",
+        ].join("\n")
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.categories[0].items.map((i) => i.weightUnit)).toEqual([
+        "g",
+        "oz",
+        "kg",
+        "lbs",
+        "lbs",
+      ]);
+    });
+
+    it("maps worn and consumable columns to labels", () => {
+      const result = parseLighterPackCsv(
+        [
+          HEADER,
+          "Shoes,Worn,,1,300,g,,,Worn,",
+          "Food,Food,,1,800,g,,,,Consumable",
+          "Tent,Shelter,,1,500,g,,,,",
+        ].join("\n")
+      );
+
+      const labels = result.categories.flatMap((c) =>
+        c.items.map((i) => i.label)
+      );
+      expect(labels).toEqual(["worn", "consumable", "none"]);
+    });
+
+    it("defaults quantity to 1 and weight to 0 when blank", () => {
+      const result = parseLighterPackCsv(`${HEADER}\nSpork,Kitchen,,,,,,,,`);
+      expect(result.errors).toEqual([]);
+      expect(result.categories[0].items[0]).toMatchObject({
+        quantity: 1,
+        weightAmount: 0,
+        weightUnit: "g",
+        description: null,
+        url: null,
+      });
+    });
+
+    it("uses a default category for rows without one", () => {
+      const result = parseLighterPackCsv(`${HEADER}\nSpork,,,1,10,g,,,,`);
+      expect(result.categories[0].name).toBe("Uncategorized");
+    });
+
+    it("groups items by category in order of first appearance", () => {
+      const result = parseLighterPackCsv(
+        [
+          HEADER,
+          "Tent,Shelter,,1,500,g,,,,",
+          "Stove,Kitchen,,1,50,g,,,,",
+          "Stakes,Shelter,,8,5,g,,,,",
+        ].join("\n")
+      );
+
+      expect(result.categories.map((c) => c.name)).toEqual([
+        "Shelter",
+        "Kitchen",
+      ]);
+      expect(result.categories[0].items.map((i) => i.name)).toEqual([
+        "Tent",
+        "Stakes",
+      ]);
+      expect(result.categories[0].items[1].quantity).toBe(8);
+    });
+  });
+
+  describe("row validation", () => {
+    it("reports non-numeric price", () => {
+      const result = parseLighterPackCsv(`${HEADER}\nTent,Shelter,,1,1,g,,cheap,,`);
+      expect(result.errors[0].errors.price).toBeDefined();
+    });
+
+    it("reports invalid rows with their CSV row number", () => {
+      const result = parseLighterPackCsv(
+        [
+          HEADER,
+          "Tent,Shelter,,1,500,g,,,,",
+          ",Shelter,,1,500,g,,,,",
+          "Stove,Kitchen,,1,-5,g,,,,",
+        ].join("\n")
+      );
+
+      expect(result.categories).toHaveLength(1);
+      expect(result.categories[0].items).toHaveLength(1);
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0].row).toBe(3);
+      expect(result.errors[0].errors.name).toBeDefined();
+      expect(result.errors[1].row).toBe(4);
+      expect(result.errors[1].errors.weightAmount).toBeDefined();
+    });
+
+    it("reports unknown units", () => {
+      const result = parseLighterPackCsv(`${HEADER}\nTent,Shelter,,1,1,stone,,,,`);
+      expect(result.errors[0].errors.weightUnit).toBeDefined();
+    });
+
+    it("reports non-numeric weight", () => {
+      const result = parseLighterPackCsv(`${HEADER}\nTent,Shelter,,1,heavy,g,,,,`);
+      expect(result.errors[0].errors.weightAmount).toBeDefined();
+    });
+
+    it("reports fractional and zero quantity", () => {
+      const result = parseLighterPackCsv(
+        [HEADER, "Tent,Shelter,,1.5,1,g,,,,", "Tarp,Shelter,,0,1,g,,,,"].join(
+          "\n"
+        )
+      );
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0].errors.quantity).toBeDefined();
+      expect(result.errors[1].errors.quantity).toBeDefined();
+    });
+
+    it("reports invalid URLs", () => {
+      const result = parseLighterPackCsv(`${HEADER}\nTent,Shelter,,1,1,g,not a url,,,`);
+      expect(result.errors[0].errors.url).toBeDefined();
+    });
+  });
+});
+
+describe("formatLighterPackCsv", () => {
+  const categories = [
+    {
+      name: "Shelter",
+      items: [
+        {
+          name: "Duplex",
+          description: "DCF tent, 2 person",
+          url: "https://zpacks.com/duplex",
+          weightAmount: 19,
+          weightUnit: "oz",
+          label: "none",
+          quantity: 1,
+          price: 599,
+        },
+        {
+          name: "Stakes",
+          description: null,
+          url: null,
+          weightAmount: 6,
+          weightUnit: "g",
+          label: "none",
+          quantity: 8,
+          price: null,
+        },
+      ],
+    },
+    {
+      name: "Clothing",
+      items: [
+        {
+          name: "Shoes",
+          description: null,
+          url: null,
+          weightAmount: 1.2,
+          weightUnit: "lbs",
+          label: "worn",
+          quantity: 1,
+          price: null,
+        },
+      ],
+    },
+    {
+      name: "Food",
+      items: [
+        {
+          name: "Snacks",
+          description: null,
+          url: null,
+          weightAmount: 0.5,
+          weightUnit: "kg",
+          label: "consumable",
+          quantity: 2,
+          price: 12.5,
+        },
+      ],
+    },
+  ];
+
+  it("writes the LighterPack header and long unit names", () => {
+    const lines = formatLighterPackCsv(categories).trim().split("\r\n");
+
+    expect(lines[0]).toBe(HEADER);
+    expect(lines[1]).toBe(
+      'Duplex,Shelter,"DCF tent, 2 person",1,19,ounce,https://zpacks.com/duplex,599,,'
+    );
+    expect(lines[2]).toBe("Stakes,Shelter,,8,6,gram,,,,");
+    expect(lines[3]).toBe("Shoes,Clothing,,1,1.2,pound,,,Worn,");
+    expect(lines[4]).toBe("Snacks,Food,,2,0.5,kilogram,,12.5,,Consumable");
+  });
+
+  it("exports water volumes as grams", () => {
+    const lines = formatLighterPackCsv([
+      {
+        name: "Water",
+        items: [
+          {
+            name: "Bottle",
+            description: null,
+            url: null,
+            weightAmount: 1.5,
+            weightUnit: "l",
+            label: "consumable",
+            quantity: 1,
+            price: null,
+          },
+        ],
+      },
+    ])
+      .trim()
+      .split("\r\n");
+
+    expect(lines[1]).toBe("Bottle,Water,,1,1500,gram,,,,Consumable");
+  });
+
+  it("writes only the header for an empty list", () => {
+    expect(formatLighterPackCsv([])).toBe(`${HEADER}\r\n`);
+  });
+
+  it("round-trips through parseLighterPackCsv", () => {
+    const result = parseLighterPackCsv(formatLighterPackCsv(categories));
+
+    expect(result.errors).toEqual([]);
+    expect(result.categories).toEqual(
+      categories.map((category) => ({
+        ...category,
+        items: category.items.map((item) => ({ ...item, currency: "USD" })),
+      }))
+    );
+  });
+
+  it("round-trips fields that start with a formula character", () => {
+    const formulaCategories = [
+      {
+        name: "=Shelter",
+        items: [
+          {
+            name: "+1 tent",
+            description: "@home, -ish",
+            url: null,
+            weightAmount: 500,
+            weightUnit: "g",
+            label: "none",
+            quantity: 1,
+            price: null,
+          },
+        ],
+      },
+    ];
+    const csv = formatLighterPackCsv(formulaCategories);
+
+    expect(csv.split("\r\n")[1]).toBe(
+      `'+1 tent,'=Shelter,"'@home, -ish",1,500,gram,,,,`
+    );
+
+    const result = parseLighterPackCsv(csv);
+    expect(result.errors).toEqual([]);
+    expect(result.categories).toEqual(
+      formulaCategories.map((category) => ({
+        ...category,
+        items: category.items.map((item) => ({ ...item, currency: "USD" })),
+      }))
+    );
+  });
+});
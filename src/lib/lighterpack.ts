@@ -0,0 +1,245 @@
+import { z } from "zod";
+import { parseCsv, formatCsv, unescapeFormula } from "@/lib/csv";
+import { createItemSchema } from "@/lib/validations/item";
+import type { Item } from "@/db/schema";
+import { isVolumeUnit, toGrams, type WeightUnit } from "@/lib/weight";
+
+// Item fields that can be imported from a LighterPack row
+const importItemSchema = createItemSchema.omit({
+  categoryId: true,
+  gearId: true,
+  saveToCloset: true,
+  tagIds: true,
+  perDay: true,
+  calories: true,
+  protein: true,
+  fat: true,
+  carbs: true,
+  servingWeight: true,
+});
+
+export type ImportedItem = z.infer<typeof importItemSchema>;
+
+export interface ImportedCategory {
+  name: string;
+  items: ImportedItem[];
+}
+
+export interface ImportRowError {
+  row: number; // 1-based row number in the CSV, including the header
+  errors: Record<string, string[] | undefined>;
+}
+
+export interface LighterPackImport {
+  categories: ImportedCategory[];
+  errors: ImportRowError[];
+}
+
+const DEFAULT_CATEGORY_NAME = "Uncategorized";
+
+// LighterPack exports long unit names; accept both long and short forms
+const LIGHTERPACK_UNITS: Record<string, WeightUnit> = {
+  g: "g",
+  gram: "g",
+  grams: "g",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  kg: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  lb: "lbs",
+  lbs: "lbs",
+  pound: "lbs",
+  pounds: "lbs",
+};
+
+// Unit names written by LighterPack's own CSV export
+const LIGHTERPACK_UNIT_NAMES: Record<string, string> = {
+  g: "gram",
+  oz: "ounce",
+  kg: "kilogram",
+  lbs: "pound",
+};
+
+const LIGHTERPACK_HEADER = [
+  "Item Name",
+  "Category",
+  "desc",
+  "qty",
+  "weight",
+  "unit",
+  "url",
+  "price",
+  "worn",
+  "consumable",
+];
+
+// Header names (lowercased) mapped to the column they represent
+const COLUMN_ALIASES: Record<string, string> = {
+  "item name": "name",
+  name: "name",
+  category: "category",
+  desc: "description",
+  description: "description",
+  qty: "quantity",
+  quantity: "quantity",
+  weight: "weight",
+  unit: "unit",
+  url: "url",
+  price: "price",
+  worn: "worn",
+  consumable: "consumable",
+};
+
+const REQUIRED_COLUMNS: Record<string, string> = {
+  name: "Item Name",
+  category: "Category",
+  weight: "weight",
+};
+
+/**
+ * Whether a LighterPack worn/consumable column is set.
+ * LighterPack writes the column name ("Worn") for flagged items and leaves it empty otherwise.
+ */
+function isFlagSet(value: string | undefined): boolean {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  return normalized !== "" && normalized !== "0" && normalized !== "false" && normalized !== "no";
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const trimmed = value?.trim() ?? "";
+  return trimmed === "" ? fallback : Number(trimmed);
+}
+
+/**
+ * Parse a LighterPack CSV export into categories and items.
+ * Categories keep the order in which they first appear. Each row is validated
+ * with the same rules as item creation; invalid rows are reported in `errors`
+ * and left out of `categories`.
+ */
+export function parseLighterPackCsv(text: string): LighterPackImport {
+  const rows = parseCsv(text);
+
+  if (rows.length === 0) {
+    return {
+      categories: [],
+      errors: [{ row: 1, errors: { header: ["CSV file is empty"] } }],
+    };
+  }
+
+  // Map column keys to their index in the header row
+  const columns: Record<string, number> = {};
+  rows[0].forEach((header, index) => {
+    const key = COLUMN_ALIASES[header.trim().toLowerCase()];
+    if (key && columns[key] === undefined) {
+      columns[key] = index;
+    }
+  });
+
+  const missing = Object.entries(REQUIRED_COLUMNS)
+    .filter(([key]) => columns[key] === undefined)
+    .map(([, label]) => `Missing required column: ${label}`);
+
+  if (missing.length > 0) {
+    return { categories: [], errors: [{ row: 1, errors: { header: missing } }] };
+  }
+
+  const categoriesByName = new Map<string, ImportedCategory>();
+  const errors: ImportRowError[] = [];
+
+  rows.slice(1).forEach((fields, index) => {
+    // Fields from our own exports are escaped against formula injection
+    const cell = (key: string) => {
+      const value = columns[key] === undefined ? undefined : fields[columns[key]];
+      return value === undefined ? undefined : unescapeFormula(value);
+    };
+
+    const rawUnit = cell("unit")?.trim().toLowerCase() ?? "";
+    const description = cell("description")?.trim() ?? "";
+    const url = cell("url")?.trim() ?? "";
+    const price = cell("price")?.trim() ?? "";
+
+    const label = isFlagSet(cell("worn"))
+      ? "worn"
+      : isFlagSet(cell("consumable"))
+        ? "consumable"
+        : "none";
+
+    const result = importItemSchema.safeParse({
+      name: cell("name")?.trim() ?? "",
+      description: description || null,
+      url: url || null,
+      weightAmount: parseNumber(cell("weight"), 0),
+      // Unknown units are passed through so validation reports them
+      weightUnit: rawUnit === "" ? undefined : (LIGHTERPACK_UNITS[rawUnit] ?? rawUnit),
+      label,
+      quantity: parseNumber(cell("quantity"), 1),
+      // LighterPack prices carry no currency, so the schema default applies
+      price: price === "" ? null : Number(price),
+    });
+
+    if (!result.success) {
+      errors.push({
+        row: index + 2,
+        errors: result.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const categoryName = cell("category")?.trim() || DEFAULT_CATEGORY_NAME;
+    let category = categoriesByName.get(categoryName);
+    if (!category) {
+      category = { name: categoryName.slice(0, 255), items: [] };
+      categoriesByName.set(categoryName, category);
+    }
+    category.items.push(result.data);
+  });
+
+  return { categories: [...categoriesByName.values()], errors };
+}
+
+export interface ExportableCategory {
+  name: string;
+  items: Pick<
+    Item,
+    | "name"
+    | "description"
+    | "url"
+    | "weightAmount"
+    | "weightUnit"
+    | "label"
+    | "quantity"
+    | "price"
+  >[];
+}
+
+/**
+ * Format categories and items as a LighterPack-compatible CSV.
+ * Rows follow category order, then item order within each category.
+ */
+export function formatLighterPackCsv(categories: ExportableCategory[]): string {
+  const rows = categories.flatMap((category) =>
+    category.items.map((item) => {
+      // LighterPack has no volume units, so water is exported by weight
+      const [weightAmount, weightUnit] = isVolumeUnit(item.weightUnit)
+        ? [toGrams(item.weightAmount, item.weightUnit), "g"]
+        : [item.weightAmount, item.weightUnit];
+
+      return [
+        item.name,
+        category.name,
+        item.description ?? "",
+        String(item.quantity),
+        String(weightAmount),
+        LIGHTERPACK_UNIT_NAMES[weightUnit] ?? weightUnit,
+        item.url ?? "",
+        item.price === null ? "" : String(item.price),
+        item.label === "worn" ? "Worn" : "",
+        item.label === "consumable" ? "Consumable" : "",
+      ];
+    })
+  );
+
+  return formatCsv([LIGHTERPACK_HEADER, ...rows]);
+}
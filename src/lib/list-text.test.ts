@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import type { Item } from "@/db/schema";
+import type { CategoryWithItems } from "./lists";
+import {
+  formatListBbcode,
+  formatListMarkdown,
+  formatListText,
+  getTotalRows,
+} from "./list-text";
+import { calculateListWeightSummary } from "./weight";
+
+const now = new Date("2024-06-01T12:00:00Z");
+
+function createMockItem(overrides: Partial<Item> = {}): Item {
+  return {
+    id: "item-1",
+    categoryId: "cat-1",
+    gearId: null,
+    name: "Test Item",
+    description: null,
+    url: null,
+    weightAmount: 100,
+    weightUnit: "g",
+    label: "none",
+    quantity: 1,
+    perDay: false,
+    calories: null,
+    protein: null,
+    fat: null,
+    carbs: null,
+    servingWeight: null,
+    price: null,
+    currency: "USD",
+    position: 0,
+    packedCount: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+const categories: CategoryWithItems[] = [
+  {
+    id: "cat-1",
+    listId: "list-1",
+    name: "Shelter",
+    description: null,
+    position: 0,
+    baseWeightTarget: null,
+    createdAt: now,
+    updatedAt: now,
+    items: [
+      createMockItem({
+        name: "Duplex",
+        url: "https://example.com/duplex",
+        weightAmount: 500,
+      }),
+      createMockItem({ id: "item-2", name: "Stakes", weightAmount: 10, quantity: 6 }),
+    ],
+  },
+  {
+    id: "cat-2",
+    listId: "list-1",
+    name: "Clothing",
+    description: null,
+    position: 1,
+    baseWeightTarget: null,
+    createdAt: now,
+    updatedAt: now,
+    items: [
+      createMockItem({
+        id: "item-3",
+        categoryId: "cat-2",
+        name: "Shorts | running",
+        weightAmount: 100,
+        label: "worn",
+      }),
+      createMockItem({
+        id: "item-4",
+        categoryId: "cat-2",
+        name: "Snacks",
+        weightAmount: 400,
+        label: "consumable",
+        perDay: true,
+      }),
+    ],
+  },
+];
+
+const list = { name: "PCT 2024", description: "Thru-hike" };
+
+describe("getTotalRows", () => {
+  it("lists base, worn, consumable and pack weight", () => {
+    const summary = calculateListWeightSummary(categories);
+    expect(getTotalRows(summary, "g")).toEqual([
+      ["Base weight", "560 g"],
+      ["Worn", "100 g"],
+      ["Consumable", "400 g"],
+      ["Total pack weight", "1060 g"],
+    ]);
+  });
+
+  it("adds a water carry row when set", () => {
+    const summary = calculateListWeightSummary(categories, null, {
+      amount: 1,
+      unit: "l",
+    });
+    expect(getTotalRows(summary, "kg")).toContainEqual(["Water carry", "1.0 kg"]);
+  });
+});
+
+describe("formatListText", () => {
+  it("renders categories, items and totals", () => {
+    expect(formatListText(list, categories, { displayUnit: "g" })).toBe(
+      [
+        "PCT 2024",
+        "Thru-hike",
+        "",
+        "Shelter (560 g)",
+        "- Duplex: 500 g",
+        "- Stakes x6: 60 g",
+        "",
+        "Clothing (500 g)",
+        "- Shorts | running: 100 g [worn]",
+        "- Snacks: 400 g [consumable / day]",
+        "",
+        "Base weight: 560 g",
+        "Worn: 100 g",
+        "Consumable: 400 g",
+        "Total pack weight: 1060 g",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("uses the display unit and scales per-day consumables by trip", () => {
+    const text = formatListText(list, categories, {
+      displayUnit: "kg",
+      trip: { days: 3 },
+    });
+    expect(text).toContain("Consumable: 1.2 kg");
+    expect(text).toContain("- Duplex: 0.5 kg");
+  });
+
+  it("omits a missing description", () => {
+    const text = formatListText({ ...list, description: null }, [], {
+      displayUnit: "g",
+    });
+    expect(text.split("\n").slice(0, 2)).toEqual(["PCT 2024", ""]);
+  });
+});
+
+describe("formatListMarkdown", () => {
+  it("renders a table per category with a totals table", () => {
+    const markdown = formatListMarkdown(list, categories, { displayUnit: "g" });
+
+    expect(markdown.startsWith("# PCT 2024\n\nThru-hike\n\n## Shelter")).toBe(true);
+    expect(markdown).toContain(
+      "| [Duplex](https://example.com/duplex) | 1 | 500 g |"
+    );
+    expect(markdown).toContain("| Stakes | 6 | 60 g |");
+    expect(markdown).toContain("| **Total** | | **560 g** |");
+    expect(markdown).toContain("## Totals");
+    expect(markdown).toContain("| Total pack weight | 1060 g |");
+  });
+
+  it("escapes pipes and marks worn and consumable items", () => {
+    const markdown = formatListMarkdown(list, categories, { displayUnit: "g" });
+
+    expect(markdown).toContain("| Shorts \\| running _(worn)_ | 1 | 100 g |");
+    expect(markdown).toContain("| Snacks _(consumable / day)_ | 1 | 400 g |");
+  });
+});
+
+describe("formatListBbcode", () => {
+  it("renders a table per category with a totals table", () => {
+    const bbcode = formatListBbcode(list, categories, { displayUnit: "g" });
+
+    expect(bbcode.startsWith("[b]PCT 2024[/b]\n\nThru-hike\n\n[b]Shelter[/b]\n[table]")).toBe(
+      true
+    );
+    expect(bbcode).toContain(
+      "[tr][td][url=https://example.com/duplex]Duplex[/url][/td][td]1[/td][td]500 g[/td][/tr]"
+    );
+    expect(bbcode).toContain(
+      "[tr][td][b]Total[/b][/td][td][/td][td][b]560 g[/b][/td][/tr]"
+    );
+    expect(bbcode).toContain("[tr][td]Total pack weight[/td][td]1060 g[/td][/tr]");
+  });
+
+  it("marks worn and consumable items", () => {
+    const bbcode = formatListBbcode(list, categories, { displayUnit: "oz" });
+
+    expect(bbcode).toContain("Shorts | running [i](worn)[/i][/td][td]1[/td][td]3.5 oz");
+    expect(bbcode).toContain("Snacks [i](consumable / day)[/i]");
+  });
+});
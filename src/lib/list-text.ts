@@ -0,0 +1,214 @@
+import type { Item, List } from "@/db/schema";
+import type { CategoryWithItems } from "@/lib/lists";
+import {
+  calculateListWeightSummary,
+  formatWeight,
+  fromGrams,
+  toGrams,
+  type ListWeightSummary,
+  type TripSettings,
+  type WaterCarry,
+  type WeightUnit,
+} from "@/lib/weight";
+
+export type TextList = Pick<List, "name" | "description">;
+
+export interface ListTextOptions {
+  displayUnit: WeightUnit;
+  trip?: TripSettings | null;
+  water?: WaterCarry | null;
+}
+
+function formatGrams(grams: number, unit: WeightUnit): string {
+  return formatWeight(fromGrams(grams, unit), unit);
+}
+
+/**
+ * Weight of every unit of an item, in grams
+ */
+function getItemTotalWeight(item: Item): number {
+  return toGrams(item.weightAmount, item.weightUnit) * item.quantity;
+}
+
+/**
+ * Short label for worn and consumable items, or null for base gear
+ */
+function getItemLabel(item: Item): string | null {
+  if (item.label === "worn") {
+    return "worn";
+  }
+  if (item.label === "consumable") {
+    return item.perDay ? "consumable / day" : "consumable";
+  }
+  return null;
+}
+
+/**
+ * Rows of the totals block, shared by every text format
+ */
+export function getTotalRows(
+  summary: ListWeightSummary,
+  unit: WeightUnit
+): [string, string][] {
+  const rows: [string, string][] = [
+    ["Base weight", formatGrams(summary.totalBaseWeight, unit)],
+    ["Worn", formatGrams(summary.totalWornWeight, unit)],
+    ["Consumable", formatGrams(summary.totalConsumableWeight, unit)],
+  ];
+  if (summary.totalWaterWeight) {
+    rows.push(["Water carry", formatGrams(summary.totalWaterWeight, unit)]);
+  }
+  rows.push(["Total pack weight", formatGrams(summary.totalPackWeight, unit)]);
+  return rows;
+}
+
+/**
+ * Plain-text rendering of a list for pasting into trip reports and emails
+ */
+export function formatListText(
+  list: TextList,
+  categories: CategoryWithItems[],
+  { displayUnit, trip, water }: ListTextOptions
+): string {
+  const summary = calculateListWeightSummary(categories, trip, water);
+  const lines = [list.name];
+  if (list.description) {
+    lines.push(list.description);
+  }
+
+  categories.forEach((category, i) => {
+    lines.push(
+      "",
+      `${category.name} (${formatGrams(summary.categories[i].totalWeight, displayUnit)})`
+    );
+    for (const item of category.items) {
+      const label = getItemLabel(item);
+      lines.push(
+        `- ${item.name}${item.quantity > 1 ? ` x${item.quantity}` : ""}: ${formatGrams(
+          getItemTotalWeight(item),
+          displayUnit
+        )}${label ? ` [${label}]` : ""}`
+      );
+    }
+  });
+
+  lines.push("");
+  for (const [label, value] of getTotalRows(summary, displayUnit)) {
+    lines.push(`${label}: ${value}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Markdown rendering of a list: one table per category and a totals table
+ */
+export function formatListMarkdown(
+  list: TextList,
+  categories: CategoryWithItems[],
+  { displayUnit, trip, water }: ListTextOptions
+): string {
+  const summary = calculateListWeightSummary(categories, trip, water);
+  const blocks = [`# ${list.name}`];
+  if (list.description) {
+    blocks.push(list.description);
+  }
+
+  categories.forEach((category, i) => {
+    const rows = [
+      `## ${category.name}`,
+      "",
+      "| Item | Qty | Weight |",
+      "| --- | ---: | ---: |",
+    ];
+    for (const item of category.items) {
+      const name = escapeMarkdownCell(item.name);
+      const label = getItemLabel(item);
+      rows.push(
+        `| ${item.url ? `[${name}](${item.url})` : name}${
+          label ? ` _(${label})_` : ""
+        } | ${item.quantity} | ${formatGrams(getItemTotalWeight(item), displayUnit)} |`
+      );
+    }
+    rows.push(
+      `| **Total** | | **${formatGrams(summary.categories[i].totalWeight, displayUnit)}** |`
+    );
+    blocks.push(rows.join("\n"));
+  });
+
+  blocks.push(
+    [
+      "## Totals",
+      "",
+      "| | Weight |",
+      "| --- | ---: |",
+      ...getTotalRows(summary, displayUnit).map(
+        ([label, value]) => `| ${label} | ${value} |`
+      ),
+    ].join("\n")
+  );
+
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Forum BBCode rendering of a list: one table per category and a totals table
+ */
+export function formatListBbcode(
+  list: TextList,
+  categories: CategoryWithItems[],
+  { displayUnit, trip, water }: ListTextOptions
+): string {
+  const summary = calculateListWeightSummary(categories, trip, water);
+  const blocks = [`[b]${list.name}[/b]`];
+  if (list.description) {
+    blocks.push(list.description);
+  }
+
+  categories.forEach((category, i) => {
+    const rows = [
+      `[b]${category.name}[/b]`,
+      "[table]",
+      "[tr][th]Item[/th][th]Qty[/th][th]Weight[/th][/tr]",
+    ];
+    for (const item of category.items) {
+      const label = getItemLabel(item);
+      rows.push(
+        `[tr][td]${item.url ? `[url=${item.url}]${item.name}[/url]` : item.name}${
+          label ? ` [i](${label})[/i]` : ""
+        }[/td][td]${item.quantity}[/td][td]${formatGrams(
+          getItemTotalWeight(item),
+          displayUnit
+        )}[/td][/tr]`
+      );
+    }
+    rows.push(
+      `[tr][td][b]Total[/b][/td][td][/td][td][b]${formatGrams(
+        summary.categories[i].totalWeight,
+        displayUnit
+      )}[/b][/td][/tr]`,
+      "[/table]"
+    );
+    blocks.push(rows.join("\n"));
+  });
+
+  blocks.push(
+    [
+      "[b]Totals[/b]",
+      "[table]",
+      ...getTotalRows(summary, displayUnit).map(
+        ([label, value]) => `[tr][td]${label}[/td][td]${value}[/td][/tr]`
+      ),
+      "[/table]",
+    ].join("\n")
+  );
+
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,109 @@
+import { db } from "@/db";
+import { categories, items, lists, users } from "@/db/schema";
+import type { Category, Item } from "@/db/schema";
+import { eq, asc, inArray, and } from "drizzle-orm";
+
+export interface CategoryWithItems extends Category {
+  items: Item[];
+}
+
+export interface ForkSource {
+  username: string;
+  slug: string;
+}
+
+/**
+ * Fetch a list's categories with their items, both ordered by position.
+ */
+export async function getListCategoriesWithItems(
+  listId: string
+): Promise<CategoryWithItems[]> {
+  const listCategories = await db
+    .select()
+    .from(categories)
+    .where(eq(categories.listId, listId))
+    .orderBy(asc(categories.position));
+
+  const categoryIds = listCategories.map((c) => c.id);
+  let listItems: Item[] = [];
+
+  if (categoryIds.length > 0) {
+    listItems = await db
+      .select()
+      .from(items)
+      .where(inArray(items.categoryId, categoryIds))
+      .orderBy(asc(items.position));
+  }
+
+  return listCategories.map((category) => ({
+    ...category,
+    items: listItems
+      .filter((item) => item.categoryId === category.id)
+      .sort((a, b) => a.position - b.position),
+  }));
+}
+
+/**
+ * Fetch the categories with items of several lists at once, in two queries.
+ * @returns Map of list ID to its categories (lists without any are omitted)
+ */
+export async function getCategoriesWithItemsByList(
+  listIds: string[]
+): Promise<Map<string, CategoryWithItems[]>> {
+  const byList = new Map<string, CategoryWithItems[]>();
+
+  if (listIds.length === 0) {
+    return byList;
+  }
+
+  const listCategories = await db
+    .select()
+    .from(categories)
+    .where(inArray(categories.listId, listIds))
+    .orderBy(asc(categories.position));
+
+  const categoryIds = listCategories.map((c) => c.id);
+  let listItems: Item[] = [];
+
+  if (categoryIds.length > 0) {
+    listItems = await db
+      .select()
+      .from(items)
+      .where(inArray(items.categoryId, categoryIds))
+      .orderBy(asc(items.position));
+  }
+
+  for (const category of listCategories) {
+    const existing = byList.get(category.listId) ?? [];
+    existing.push({
+      ...category,
+      items: listItems
+        .filter((item) => item.categoryId === category.id)
+        .sort((a, b) => a.position - b.position),
+    });
+    byList.set(category.listId, existing);
+  }
+
+  return byList;
+}
+
+/**
+ * Resolve the public list a fork was copied from, for "forked from" links.
+ * @returns The source's owner and slug, or null if it is gone or no longer public
+ */
+export async function getForkSource(
+  forkedFromListId: string | null
+): Promise<ForkSource | null> {
+  if (!forkedFromListId) {
+    return null;
+  }
+
+  const [source] = await db
+    .select({ username: users.username, slug: lists.slug })
+    .from(lists)
+    .innerJoin(users, eq(lists.userId, users.id))
+    .where(and(eq(lists.id, forkedFromListId), eq(lists.isPublic, true)))
+    .limit(1);
+
+  return source ?? null;
+}
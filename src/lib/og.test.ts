@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { OG_CATEGORY_COLORS, calculateCategoryBar } from "./og";
+import type { CategoryWeight, ListWeightSummary } from "./weight";
+
+function createSummary(weights: number[]): ListWeightSummary {
+  const categories: CategoryWeight[] = weights.map((totalWeight, i) => ({
+    categoryId: `cat-${i}`,
+    categoryName: `Category ${i}`,
+    baseWeight: totalWeight,
+    wornWeight: 0,
+    consumableWeight: 0,
+    totalWeight,
+    itemCount: 1,
+  }));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return {
+    categories,
+    totalBaseWeight: total,
+    totalWornWeight: 0,
+    totalConsumableWeight: 0,
+    totalPackWeight: total,
+    totalItemCount: categories.length,
+  };
+}
+
+describe("calculateCategoryBar", () => {
+  it("splits the bar by category weight", () => {
+    expect(calculateCategoryBar(createSummary([300, 100]))).toEqual([
+      { name: "Category 0", fraction: 0.75, color: OG_CATEGORY_COLORS[0] },
+      { name: "Category 1", fraction: 0.25, color: OG_CATEGORY_COLORS[1] },
+    ]);
+  });
+
+  it("skips empty categories but keeps colors by position", () => {
+    const segments = calculateCategoryBar(createSummary([100, 0, 100]));
+
+    expect(segments.map((s) => s.name)).toEqual(["Category 0", "Category 2"]);
+    expect(segments[1].color).toBe(OG_CATEGORY_COLORS[2]);
+  });
+
+  it("cycles colors for long lists", () => {
+    const segments = calculateCategoryBar(
+      createSummary(Array(OG_CATEGORY_COLORS.length + 1).fill(100))
+    );
+
+    expect(segments[OG_CATEGORY_COLORS.length].color).toBe(OG_CATEGORY_COLORS[0]);
+  });
+
+  it("returns no segments for an empty list", () => {
+    expect(calculateCategoryBar(createSummary([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import type { ListWeightSummary } from "@/lib/weight";
+
+// Hex values of the category palette in weight-donut-chart, for images
+// rendered outside Tailwind; cycled for long lists
+export const OG_CATEGORY_COLORS = [
+  "#0ea5e9", // sky-500
+  "#10b981", // emerald-500
+  "#8b5cf6", // violet-500
+  "#f43f5e", // rose-500
+  "#fb923c", // orange-400
+  "#14b8a6", // teal-500
+  "#6366f1", // indigo-500
+  "#84cc16", // lime-500
+  "#ec4899", // pink-500
+  "#06b6d4", // cyan-500
+];
+
+export interface CategoryBarSegment {
+  name: string;
+  fraction: number; // share of the pack weight, 0-1
+  color: string;
+}
+
+/**
+ * Segments of the stacked category bar in a list's share image. Colors
+ * follow each category's position so they match the weight summary chart.
+ * Empty categories get no segment.
+ */
+export function calculateCategoryBar(
+  summary: ListWeightSummary
+): CategoryBarSegment[] {
+  const total = summary.categories.reduce(
+    (sum, category) => sum + category.totalWeight,
+    0
+  );
+  if (total <= 0) {
+    return [];
+  }
+
+  return summary.categories.flatMap((category, index) =>
+    category.totalWeight > 0
+      ? [
+          {
+            name: category.categoryName,
+            fraction: category.totalWeight / total,
+            color: OG_CATEGORY_COLORS[index % OG_CATEGORY_COLORS.length],
+          },
+        ]
+      : []
+  );
+}
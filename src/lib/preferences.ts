@@ -0,0 +1,67 @@
+import { db } from "@/db";
+import { anonymousSessions, users } from "@/db/schema";
+import type { CurrentSession } from "@/lib/session";
+import { resolveDisplayUnit, type WeightUnit } from "@/lib/weight";
+import {
+  DEFAULT_WEIGHT_CLASS_THRESHOLDS,
+  resolveWeightClassThresholds,
+  type WeightClassThresholds,
+} from "@/lib/weight-class";
+import { eq } from "drizzle-orm";
+
+export interface UnitPreferences {
+  displayUnit: WeightUnit; // unit weights are shown in
+  defaultWeightUnit: WeightUnit; // unit preselected for new items
+  weightClassThresholds: WeightClassThresholds; // base weight class limits in grams
+}
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  displayUnit: "g",
+  defaultWeightUnit: "g",
+  weightClassThresholds: DEFAULT_WEIGHT_CLASS_THRESHOLDS,
+};
+
+/**
+ * Fetch the unit preferences of the current user or anonymous session.
+ * @returns The stored preferences, or the defaults when there is no session
+ */
+export async function getUnitPreferences(
+  session: CurrentSession
+): Promise<UnitPreferences> {
+  if (!session) {
+    return DEFAULT_UNIT_PREFERENCES;
+  }
+
+  const [row] =
+    session.type === "authenticated"
+      ? await db
+          .select({
+            displayUnit: users.displayUnit,
+            defaultWeightUnit: users.defaultWeightUnit,
+            weightClassThresholds: users.weightClassThresholds,
+          })
+          .from(users)
+          .where(eq(users.id, session.userId))
+          .limit(1)
+      : await db
+          .select({
+            displayUnit: anonymousSessions.displayUnit,
+            defaultWeightUnit: anonymousSessions.defaultWeightUnit,
+            weightClassThresholds: anonymousSessions.weightClassThresholds,
+          })
+          .from(anonymousSessions)
+          .where(eq(anonymousSessions.id, session.anonymousSessionId))
+          .limit(1);
+
+  if (!row) {
+    return DEFAULT_UNIT_PREFERENCES;
+  }
+
+  return {
+    displayUnit: resolveDisplayUnit(row.displayUnit),
+    defaultWeightUnit: resolveDisplayUnit(row.defaultWeightUnit),
+    weightClassThresholds: resolveWeightClassThresholds(
+      row.weightClassThresholds
+    ),
+  };
+}
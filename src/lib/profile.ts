@@ -0,0 +1,132 @@
+import { unstable_cache } from "next/cache";
+import { db } from "@/db";
+import { lists, users } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { getListCacheTag } from "@/lib/cache";
+import { getCategoriesWithItemsByList } from "@/lib/lists";
+import {
+  calculateListWeightSummary,
+  resolveDisplayUnit,
+  type WeightUnit,
+} from "@/lib/weight";
+
+export interface PublicProfileList {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  baseWeight: number; // grams
+  itemCount: number;
+  updatedAt: Date; // latest change to the list, its categories or items
+}
+
+export interface PublicProfile {
+  username: string;
+  bio: string | null;
+  avatarUrl: string | null;
+  displayUnit: WeightUnit;
+  createdAt: Date;
+  lists: PublicProfileList[];
+}
+
+interface ListContentSummary {
+  baseWeight: number; // grams
+  itemCount: number;
+  updatedAt: number | null; // ms timestamp of the latest category or item change
+}
+
+/**
+ * Summarize the contents of several lists, keyed by list ID.
+ * Timestamps are numbers so the result survives the data cache.
+ */
+async function fetchListContentSummaries(
+  listIds: string[]
+): Promise<Record<string, ListContentSummary>> {
+  const categoriesByList = await getCategoriesWithItemsByList(listIds);
+  const summaries: Record<string, ListContentSummary> = {};
+
+  for (const listId of listIds) {
+    const listCategories = categoriesByList.get(listId) ?? [];
+    const summary = calculateListWeightSummary(listCategories);
+    const timestamps = listCategories.flatMap((category) => [
+      category.updatedAt.getTime(),
+      ...category.items.map((item) => item.updatedAt.getTime()),
+    ]);
+
+    summaries[listId] = {
+      baseWeight: summary.totalBaseWeight,
+      itemCount: summary.totalItemCount,
+      updatedAt: timestamps.length > 0 ? Math.max(...timestamps) : null,
+    };
+  }
+
+  return summaries;
+}
+
+/**
+ * Fetch a user's profile with their public lists, most recently updated first.
+ * List contents are cached under each list's tag, like public list pages.
+ * @returns The profile, or null when the user doesn't exist or has no public lists
+ */
+export async function getPublicProfile(
+  username: string
+): Promise<PublicProfile | null> {
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.username, username))
+    .limit(1);
+
+  if (!user) {
+    return null;
+  }
+
+  const publicLists = await db
+    .select()
+    .from(lists)
+    .where(and(eq(lists.userId, user.id), eq(lists.isPublic, true)))
+    .orderBy(desc(lists.updatedAt));
+
+  // Users without public lists have no public profile either
+  if (publicLists.length === 0) {
+    return null;
+  }
+
+  const listIds = publicLists.map((list) => list.id);
+  const cachedFetch = unstable_cache(
+    async () => fetchListContentSummaries(listIds),
+    [`public-profile-lists-${listIds.join(",")}`],
+    {
+      tags: listIds.map(getListCacheTag),
+      revalidate: 3600, // Cache for 1 hour
+    }
+  );
+  const summaries = await cachedFetch();
+
+  const profileLists = publicLists
+    .map((list) => {
+      const summary = summaries[list.id];
+      return {
+        id: list.id,
+        name: list.name,
+        slug: list.slug,
+        description: list.description,
+        baseWeight: summary.baseWeight,
+        itemCount: summary.itemCount,
+        // Item and category edits don't touch the list row
+        updatedAt: new Date(
+          Math.max(list.updatedAt.getTime(), summary.updatedAt ?? 0)
+        ),
+      };
+    })
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  return {
+    username: user.username,
+    bio: user.bio,
+    avatarUrl: user.avatarUrl,
+    displayUnit: resolveDisplayUnit(user.displayUnit),
+    createdAt: user.createdAt,
+    lists: profileLists,
+  };
+}
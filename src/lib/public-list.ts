@@ -1,15 +1,18 @@
-import { Metadata } from "next";
-import { notFound } from "next/navigation";
 import { unstable_cache } from "next/cache";
 import { db } from "@/db";
 import { users, lists, categories, items } from "@/db/schema";
 import { eq, and, asc, inArray } from "drizzle-orm";
-import { PublicListClient } from "./public-list-client";
 import { getListCacheTag } from "@/lib/cache";
-
-type PageProps = {
-  params: Promise<{ username: string; slug: string }>;
-};
+import { stripPrices } from "@/lib/cost";
+import { stripPackedCounts } from "@/lib/checklist";
+import { withItemTags } from "@/lib/tags";
+import { getForkSource } from "@/lib/lists";
+import {
+  getListTripSettings,
+  getListWaterCarry,
+  resolveDisplayUnit,
+} from "@/lib/weight";
+import { resolveWeightClassThresholds } from "@/lib/weight-class";
 
 async function fetchListData(username: string, slug: string) {
   // Find the user by username
@@ -58,13 +61,15 @@ async function fetchListData(username: string, slug: string) {
       .orderBy(asc(items.position));
   }
 
-  // Group items by category
-  const categoriesWithItems = listCategories.map((category) => ({
-    ...category,
-    items: listItems
-      .filter((item) => item.categoryId === category.id)
-      .sort((a, b) => a.position - b.position),
-  }));
+  // Group items by category and attach each item's tags
+  const categoriesWithItems = await withItemTags(
+    listCategories.map((category) => ({
+      ...category,
+      items: listItems
+        .filter((item) => item.categoryId === category.id)
+        .sort((a, b) => a.position - b.position),
+    }))
+  );
 
   return {
     listId: list.id,
@@ -74,20 +79,35 @@ async function fetchListData(username: string, slug: string) {
       slug: list.slug,
       description: list.description,
       isPublic: list.isPublic,
+      hidePrices: list.hidePrices,
       createdAt: list.createdAt,
       updatedAt: list.updatedAt,
     },
-    categories: categoriesWithItems,
+    // Public views never show prices the owner hides or their packing progress
+    categories: stripPackedCounts(
+      list.hidePrices ? stripPrices(categoriesWithItems) : categoriesWithItems
+    ),
     username: user.username,
+    // The list's own unit wins over the owner's preferred unit
+    displayUnit: resolveDisplayUnit(list.displayUnit, user.displayUnit),
+    trip: getListTripSettings(list),
+    water: getListWaterCarry(list),
+    caloriesPerDay: list.caloriesPerDay,
+    baseWeightTarget: list.baseWeightTarget,
+    // Classes use the owner's limits
+    weightClassThresholds: resolveWeightClassThresholds(
+      user.weightClassThresholds
+    ),
+    forkedFrom: await getForkSource(list.forkedFromListId),
   };
 }
 
 /**
- * Get list data with caching enabled.
+ * Get a public list's data with caching enabled.
  * First we need to find the list ID to generate the cache tag,
  * then we cache the full data fetch.
  */
-async function getListData(username: string, slug: string) {
+export async function getPublicListData(username: string, slug: string) {
   // First, do a quick uncached lookup to find the list ID for cache tagging
   const [user] = await db
     .select({ id: users.id })
@@ -122,38 +142,6 @@ async function getListData(username: string, slug: string) {
   return cachedFetch();
 }
 
-export async function generateMetadata({
-  params,
-}: PageProps): Promise<Metadata> {
-  const { username, slug } = await params;
-  const data = await getListData(username, slug);
-
-  if (!data) {
-    return {
-      title: "List Not Found",
-    };
-  }
-
-  return {
-    title: `${data.list.name} by ${data.username}`,
-    description:
-      data.list.description || `Gear list by ${data.username}`,
-  };
-}
-
-export default async function PublicListPage({ params }: PageProps) {
-  const { username, slug } = await params;
-  const data = await getListData(username, slug);
-
-  if (!data) {
-    notFound();
-  }
-
-  return (
-    <PublicListClient
-      list={data.list}
-      categories={data.categories}
-      username={data.username}
-    />
-  );
-}
+export type PublicListData = NonNullable<
+  Awaited<ReturnType<typeof getPublicListData>>
+>;
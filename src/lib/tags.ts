@@ -0,0 +1,124 @@
+import { db } from "@/db";
+import { categories, items, itemTags, tags } from "@/db/schema";
+import type { Item, Tag } from "@/db/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+
+export type TagSummary = Pick<Tag, "id" | "name">;
+
+export type ItemWithTags = Item & { tags: TagSummary[] };
+
+/**
+ * Owner of a set of tags: either a registered user or an anonymous session.
+ */
+export interface TagOwner {
+  userId: string | null;
+  anonymousSessionId: string | null;
+}
+
+/**
+ * Fetch the tags attached to each of the given items, ordered by tag name.
+ * @returns Map of item ID to its tags (items without tags are omitted)
+ */
+export async function getItemTags(
+  itemIds: string[]
+): Promise<Map<string, TagSummary[]>> {
+  const tagsByItem = new Map<string, TagSummary[]>();
+
+  if (itemIds.length === 0) {
+    return tagsByItem;
+  }
+
+  const rows = await db
+    .select({ itemId: itemTags.itemId, id: tags.id, name: tags.name })
+    .from(itemTags)
+    .innerJoin(tags, eq(itemTags.tagId, tags.id))
+    .where(inArray(itemTags.itemId, itemIds))
+    .orderBy(asc(tags.name));
+
+  for (const { itemId, id, name } of rows) {
+    const existing = tagsByItem.get(itemId) ?? [];
+    existing.push({ id, name });
+    tagsByItem.set(itemId, existing);
+  }
+
+  return tagsByItem;
+}
+
+/**
+ * Attach each item's tags to a list of categories with items.
+ */
+export async function withItemTags<T extends { items: Item[] }>(
+  categoriesWithItems: T[]
+): Promise<(Omit<T, "items"> & { items: ItemWithTags[] })[]> {
+  const itemIds = categoriesWithItems.flatMap((c) => c.items.map((i) => i.id));
+  const tagsByItem = await getItemTags(itemIds);
+
+  return categoriesWithItems.map((category) => ({
+    ...category,
+    items: category.items.map((item) => ({
+      ...item,
+      tags: tagsByItem.get(item.id) ?? [],
+    })),
+  }));
+}
+
+/**
+ * Look up the given tags, making sure every one belongs to the owner.
+ * @returns The tags ordered by name, or null if any tag is missing or not owned
+ */
+export async function resolveOwnedTags(
+  tagIds: string[],
+  owner: TagOwner
+): Promise<TagSummary[] | null> {
+  const uniqueIds = [...new Set(tagIds)];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const ownerCondition = owner.userId
+    ? eq(tags.userId, owner.userId)
+    : eq(tags.anonymousSessionId, owner.anonymousSessionId!);
+
+  const owned = await db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(inArray(tags.id, uniqueIds), ownerCondition))
+    .orderBy(asc(tags.name));
+
+  return owned.length === uniqueIds.length ? owned : null;
+}
+
+/**
+ * Replace the tags attached to an item.
+ */
+export async function setItemTags(
+  itemId: string,
+  tagIds: string[]
+): Promise<void> {
+  const uniqueIds = [...new Set(tagIds)];
+
+  await db.transaction(async (tx) => {
+    await tx.delete(itemTags).where(eq(itemTags.itemId, itemId));
+
+    if (uniqueIds.length > 0) {
+      await tx
+        .insert(itemTags)
+        .values(uniqueIds.map((tagId) => ({ itemId, tagId })));
+    }
+  });
+}
+
+/**
+ * Find the lists containing items tagged with the given tag.
+ * @returns IDs of the affected lists, so callers can invalidate their caches
+ */
+export async function getTaggedListIds(tagId: string): Promise<string[]> {
+  const rows = await db
+    .select({ listId: categories.listId })
+    .from(itemTags)
+    .innerJoin(items, eq(itemTags.itemId, items.id))
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(eq(itemTags.tagId, tagId));
+
+  return [...new Set(rows.map((r) => r.listId))];
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  RECOVERY_CODE_COUNT,
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  getTotpUri,
+  hashRecoveryCode,
+  verifyTotp,
+} from "./totp";
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = encodeBase32(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("matches the RFC 4648 test vectors", () => {
+    expect(encodeBase32(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(encodeBase32(Buffer.from("f"))).toBe("MY");
+  });
+
+  it("round-trips, ignoring case, spaces and padding", () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253]);
+    const encoded = encodeBase32(bytes);
+
+    expect(decodeBase32(encoded)).toEqual(bytes);
+    expect(decodeBase32(`${encoded.toLowerCase().slice(0, 4)} ${encoded.slice(4)}==`)).toEqual(
+      bytes
+    );
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => decodeBase32("ABC1")).toThrow("Invalid base32 character");
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("returns a 160-bit base32 secret", () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(decodeBase32(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe("generateTotp", () => {
+  it("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000), 8)).toBe("94287082");
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000), 8)).toBe(
+      "07081804"
+    );
+    expect(generateTotp(RFC_SECRET, getTotpStep(20000000000 * 1000), 8)).toBe(
+      "65353130"
+    );
+  });
+
+  it("returns six digits by default", () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe("287082");
+  });
+});
+
+describe("verifyTotp", () => {
+  const time = 1111111109 * 1000;
+  const step = getTotpStep(time);
+
+  it("accepts the current code and returns its step", () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), { time })).toBe(
+      step
+    );
+  });
+
+  it("tolerates one step of clock drift either way", () => {
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { time })
+    ).toBe(step - 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { time })
+    ).toBe(step + 1);
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), { time })
+    ).toBeNull();
+  });
+
+  it("ignores spaces in the code", () => {
+    const code = generateTotp(RFC_SECRET, step);
+
+    expect(
+      verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { time })
+    ).toBe(step);
+  });
+
+  it("rejects codes from steps already used", () => {
+    const code = generateTotp(RFC_SECRET, step);
+
+    expect(verifyTotp(RFC_SECRET, code, { time, after: step })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, code, { time, after: step - 1 })).toBe(step);
+  });
+
+  it("rejects malformed and wrong codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345", { time })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", { time })).toBeNull();
+    const wrong = String((Number(generateTotp(RFC_SECRET, step)) + 1) % 1000000).padStart(
+      6,
+      "0"
+    );
+    expect(verifyTotp(RFC_SECRET, wrong, { time })).toBeNull();
+  });
+});
+
+describe("getTotpUri", () => {
+  it("builds an otpauth URI labelled with the issuer and account", () => {
+    const uri = new URL(getTotpUri("JBSWY3DPEHPK3PXP", "trail hiker"));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.href).toContain("otpauth://totp/Ultralight:trail%20hiker?");
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: "JBSWY3DPEHPK3PXP",
+      issuer: "Ultralight",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes like xxxx-xxxx", () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}$/);
+    }
+  });
+
+  it("hashes codes ignoring case, spaces and dashes", () => {
+    expect(hashRecoveryCode("K3MF 9XQ2")).toBe(hashRecoveryCode("k3mf-9xq2"));
+    expect(hashRecoveryCode("k3mf-9xq2")).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashRecoveryCode("k3mf-9xq3")).not.toBe(hashRecoveryCode("k3mf-9xq2"));
+  });
+});
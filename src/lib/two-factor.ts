@@ -0,0 +1,103 @@
+import { randomBytes } from "crypto";
+import { db } from "@/db";
+import { recoveryCodes, twoFactorChallenges, users } from "@/db/schema";
+import type { User } from "@/db/schema";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  verifyTotp,
+} from "@/lib/totp";
+import { and, count, eq, isNull, lt, or } from "drizzle-orm";
+
+// Time to enter a code after the password was accepted
+const CHALLENGE_DURATION_MINUTES = 5;
+// Wrong codes allowed before the password has to be entered again
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type TwoFactorUser = Pick<User, "id" | "totpSecret" | "totpLastUsedStep">;
+
+/**
+ * Start the second step of a sign-in for a user with two-factor enabled.
+ * @returns The token the client sends back with the code
+ */
+export async function createTwoFactorChallenge(userId: string): Promise<string> {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date();
+  expiresAt.setMinutes(expiresAt.getMinutes() + CHALLENGE_DURATION_MINUTES);
+
+  await db.insert(twoFactorChallenges).values({ userId, token, expiresAt });
+
+  return token;
+}
+
+/**
+ * Check an authenticator or recovery code for a user with two-factor enabled,
+ * using it up so it can't be entered again.
+ * @returns Whether the code was valid
+ */
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  code: string
+): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totpSecret, code, {
+    after: user.totpLastUsedStep,
+  });
+  if (step !== null) {
+    // Only one request can record the step, so a code is never used twice
+    const [updated] = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(
+        and(
+          eq(users.id, user.id),
+          or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    return !!updated;
+  }
+
+  const [recoveryCode] = await db
+    .update(recoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(recoveryCodes.userId, user.id),
+        eq(recoveryCodes.codeHash, hashRecoveryCode(code)),
+        isNull(recoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: recoveryCodes.id });
+  return !!recoveryCode;
+}
+
+/**
+ * Replace a user's recovery codes with a new set.
+ * @returns The new codes; only their hashes are stored
+ */
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  await db
+    .insert(recoveryCodes)
+    .values(codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })));
+
+  return codes;
+}
+
+/**
+ * Number of recovery codes a user has left
+ */
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const [result] = await db
+    .select({ count: count() })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+
+  return result?.count ?? 0;
+}
@@ -4,6 +4,9 @@ import {
   signInSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  twoFactorCodeSchema,
+  twoFactorSignInSchema,
+  verifyEmailSchema,
 } from "./auth";
 
 describe("signUpSchema", () => {
@@ -290,3 +293,65 @@ describe("resetPasswordSchema", () => {
     }
   });
 });
+
+describe("verifyEmailSchema", () => {
+  it("accepts a token", () => {
+    const result = verifyEmailSchema.safeParse({ token: "valid-token" });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects empty token", () => {
+    const result = verifyEmailSchema.safeParse({ token: "" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.token).toContain(
+        "Verification token is required"
+      );
+    }
+  });
+});
+
+describe("twoFactorCodeSchema", () => {
+  it("accepts an authenticator code", () => {
+    const result = twoFactorCodeSchema.safeParse({ code: "123456" });
+    expect(result.success).toBe(true);
+  });
+
+  it("trims the code", () => {
+    const result = twoFactorCodeSchema.safeParse({ code: " k3mf-9xq2 " });
+    expect(result.success && result.data.code).toBe("k3mf-9xq2");
+  });
+
+  it("rejects an empty code", () => {
+    const result = twoFactorCodeSchema.safeParse({ code: "  " });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.code).toContain(
+        "Code is required"
+      );
+    }
+  });
+
+  it("rejects a code longer than 20 characters", () => {
+    const result = twoFactorCodeSchema.safeParse({ code: "1".repeat(21) });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("twoFactorSignInSchema", () => {
+  it("accepts a challenge token and code", () => {
+    const result = twoFactorSignInSchema.safeParse({
+      challengeToken: "token",
+      code: "123456",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a missing challenge token", () => {
+    const result = twoFactorSignInSchema.safeParse({ code: "123456" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.challengeToken).toBeDefined();
+    }
+  });
+});
@@ -40,3 +40,29 @@ export const resetPasswordSchema = z.object({
 });
 
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+
+// Authenticator code or recovery code; both are checked in the route
+const secondFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "Code is required")
+  .max(20, "Code must be at most 20 characters");
+
+export const twoFactorCodeSchema = z.object({
+  code: secondFactorCodeSchema,
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+
+export const twoFactorSignInSchema = z.object({
+  challengeToken: z.string().min(1, "Sign-in token is required"),
+  code: secondFactorCodeSchema,
+});
+
+export type TwoFactorSignInInput = z.infer<typeof twoFactorSignInSchema>;
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { restoreBackupSchema } from "./backup";
+
+const validBackup = {
+  version: 1,
+  exportedAt: "2024-06-01T12:00:00.000Z",
+  lists: [
+    {
+      name: "PCT",
+      slug: "pct",
+      description: null,
+      isPublic: true,
+      categories: [
+        {
+          name: "Shelter",
+          description: null,
+          items: [
+            {
+              name: "Tent",
+              description: null,
+              url: null,
+              weightAmount: 500,
+              weightUnit: "g",
+              label: "none",
+              quantity: 1,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("restoreBackupSchema", () => {
+  it("accepts a valid backup", () => {
+    const result = restoreBackupSchema.safeParse(validBackup);
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts a backup with no lists", () => {
+    const result = restoreBackupSchema.safeParse({ version: 1, lists: [] });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an unsupported version", () => {
+    const result = restoreBackupSchema.safeParse({ ...validBackup, version: 2 });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.version).toBeDefined();
+    }
+  });
+
+  it("rejects a missing lists array", () => {
+    const result = restoreBackupSchema.safeParse({ version: 1 });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects invalid items", () => {
+    const backup = structuredClone(validBackup);
+    backup.lists[0].categories[0].items[0].weightAmount = -1;
+    const result = restoreBackupSchema.safeParse(backup);
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects lists without a name", () => {
+    const backup = structuredClone(validBackup);
+    backup.lists[0].name = "";
+    const result = restoreBackupSchema.safeParse(backup);
+    expect(result.success).toBe(false);
+  });
+
+  it("defaults isPublic to false", () => {
+    const backup = structuredClone(validBackup) as Record<string, unknown> & {
+      lists: Array<Record<string, unknown>>;
+    };
+    delete backup.lists[0].isPublic;
+    const result = restoreBackupSchema.safeParse(backup);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.lists[0].isPublic).toBe(false);
+    }
+  });
+
+  it("defaults item tags to none", () => {
+    const result = restoreBackupSchema.safeParse(validBackup);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.lists[0].categories[0].items[0].tags).toEqual([]);
+    }
+  });
+
+  it("rejects blank tag names", () => {
+    const backup = structuredClone(validBackup);
+    Object.assign(backup.lists[0].categories[0].items[0], { tags: [" "] });
+    const result = restoreBackupSchema.safeParse(backup);
+    expect(result.success).toBe(false);
+  });
+});
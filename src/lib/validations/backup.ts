@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { ACCOUNT_BACKUP_VERSION } from "@/lib/backup";
+import {
+  createListSchema,
+  updateListSchema,
+} from "@/lib/validations/list";
+import { createCategorySchema } from "@/lib/validations/category";
+import { createItemSchema } from "@/lib/validations/item";
+import { createTagSchema } from "@/lib/validations/tag";
+
+const backupItemSchema = createItemSchema
+  .omit({
+    categoryId: true,
+    gearId: true,
+    saveToCloset: true,
+    tagIds: true,
+  })
+  .extend({
+    tags: z.array(createTagSchema.shape.name).optional().default([]),
+  });
+
+const backupCategorySchema = createCategorySchema
+  .omit({ listId: true })
+  .extend({
+    items: z.array(backupItemSchema),
+  });
+
+const backupListSchema = createListSchema.extend({
+  slug: z.string().max(255, "Slug must be at most 255 characters"),
+  isPublic: z.boolean().optional().default(false),
+  hidePrices: z.boolean().optional().default(false),
+  displayUnit: updateListSchema.shape.displayUnit,
+  tripDays: updateListSchema.shape.tripDays,
+  resupplyDays: updateListSchema.shape.resupplyDays.default([]),
+  caloriesPerDay: updateListSchema.shape.caloriesPerDay,
+  waterCarryAmount: updateListSchema.shape.waterCarryAmount,
+  waterCarryUnit: updateListSchema.shape.waterCarryUnit.default("l"),
+  baseWeightTarget: updateListSchema.shape.baseWeightTarget,
+  categories: z.array(backupCategorySchema),
+});
+
+export const restoreBackupSchema = z.object({
+  version: z.literal(ACCOUNT_BACKUP_VERSION, {
+    message: `Unsupported backup version (expected ${ACCOUNT_BACKUP_VERSION})`,
+  }),
+  lists: z.array(backupListSchema),
+});
+
+export type RestoreBackupInput = z.infer<typeof restoreBackupSchema>;
@@ -205,6 +205,23 @@ describe("updateCategorySchema", () => {
     });
   });
 
+  describe("base weight target validation", () => {
+    it("accepts a target in grams", () => {
+      const result = updateCategorySchema.safeParse({ baseWeightTarget: 900 });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null to clear the target", () => {
+      const result = updateCategorySchema.safeParse({ baseWeightTarget: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a zero target", () => {
+      const result = updateCategorySchema.safeParse({ baseWeightTarget: 0 });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("empty update", () => {
     it("accepts empty object", () => {
       const result = updateCategorySchema.safeParse({});
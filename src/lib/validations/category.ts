@@ -1,5 +1,13 @@
 import { z } from "zod";
 
+// Grams, entered in the display unit and converted by the client
+const baseWeightTargetSchema = z
+  .number()
+  .positive("Base weight target must be greater than 0")
+  .max(100000, "Base weight target must be at most 100 kg")
+  .nullable()
+  .optional();
+
 export const createCategorySchema = z.object({
   listId: z.string().uuid("Invalid list ID"),
   name: z
@@ -11,6 +19,7 @@ export const createCategorySchema = z.object({
     .max(5000, "Description must be at most 5000 characters")
     .optional()
     .nullable(),
+  baseWeightTarget: baseWeightTargetSchema,
 });
 
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
@@ -26,6 +35,7 @@ export const updateCategorySchema = z.object({
     .max(5000, "Description must be at most 5000 characters")
     .optional()
     .nullable(),
+  baseWeightTarget: baseWeightTargetSchema,
 });
 
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
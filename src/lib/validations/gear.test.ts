@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { createGearSchema, updateGearSchema } from "./gear";
+
+describe("createGearSchema", () => {
+  describe("name validation", () => {
+    it("accepts valid name", () => {
+      const result = createGearSchema.safeParse({ name: "Tent" });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects empty name", () => {
+      const result = createGearSchema.safeParse({ name: "" });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.name).toBeDefined();
+      }
+    });
+
+    it("rejects name exceeding 255 characters", () => {
+      const result = createGearSchema.safeParse({ name: "a".repeat(256) });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects missing name", () => {
+      const result = createGearSchema.safeParse({});
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("url validation", () => {
+    it("accepts valid URL", () => {
+      const result = createGearSchema.safeParse({
+        name: "Tent",
+        url: "https://example.com/tent",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null URL", () => {
+      const result = createGearSchema.safeParse({ name: "Tent", url: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects invalid URL", () => {
+      const result = createGearSchema.safeParse({
+        name: "Tent",
+        url: "not-a-url",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.url).toBeDefined();
+      }
+    });
+  });
+
+  describe("weight validation", () => {
+    it("defaults weightAmount to 0 and weightUnit to g", () => {
+      const result = createGearSchema.safeParse({ name: "Tent" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.weightAmount).toBe(0);
+        expect(result.data.weightUnit).toBe("g");
+      }
+    });
+
+    it("rejects negative weight", () => {
+      const result = createGearSchema.safeParse({
+        name: "Tent",
+        weightAmount: -1,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("accepts all supported units", () => {
+      for (const weightUnit of ["g", "oz", "kg", "lbs", "ml", "l", "floz"]) {
+        const result = createGearSchema.safeParse({ name: "Tent", weightUnit });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it("rejects unsupported unit", () => {
+      const result = createGearSchema.safeParse({
+        name: "Tent",
+        weightUnit: "stone",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.weightUnit).toBeDefined();
+      }
+    });
+  });
+});
+
+describe("updateGearSchema", () => {
+  it("accepts empty update", () => {
+    const result = updateGearSchema.safeParse({});
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts partial update", () => {
+    const result = updateGearSchema.safeParse({ weightAmount: 850 });
+    expect(result.success).toBe(true);
+  });
+
+  it("does not apply defaults", () => {
+    const result = updateGearSchema.safeParse({ name: "Tent" });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.weightAmount).toBeUndefined();
+      expect(result.data.weightUnit).toBeUndefined();
+    }
+  });
+
+  it("rejects empty name", () => {
+    const result = updateGearSchema.safeParse({ name: "" });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects negative weight", () => {
+    const result = updateGearSchema.safeParse({ weightAmount: -5 });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+export const createGearSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(255, "Name must be at most 255 characters"),
+  description: z
+    .string()
+    .max(5000, "Description must be at most 5000 characters")
+    .optional()
+    .nullable(),
+  url: z
+    .string()
+    .url("Invalid URL format")
+    .max(2000, "URL must be at most 2000 characters")
+    .optional()
+    .nullable(),
+  weightAmount: z
+    .number()
+    .min(0, "Weight cannot be negative")
+    .optional()
+    .default(0),
+  weightUnit: z.enum(["g", "oz", "kg", "lbs", "ml", "l", "floz"], { message: "Weight unit must be 'g', 'oz', 'kg', or 'lbs', or a volume of water in 'ml', 'l', or 'floz'" }).optional().default("g"),
+});
+
+export type CreateGearInput = z.infer<typeof createGearSchema>;
+
+export const updateGearSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(255, "Name must be at most 255 characters")
+    .optional(),
+  description: z
+    .string()
+    .max(5000, "Description must be at most 5000 characters")
+    .optional()
+    .nullable(),
+  url: z
+    .string()
+    .url("Invalid URL format")
+    .max(2000, "URL must be at most 2000 characters")
+    .optional()
+    .nullable(),
+  weightAmount: z.number().min(0, "Weight cannot be negative").optional(),
+  weightUnit: z.enum(["g", "oz", "kg", "lbs", "ml", "l", "floz"], { message: "Weight unit must be 'g', 'oz', 'kg', or 'lbs', or a volume of water in 'ml', 'l', or 'floz'" }).optional(),
+});
+
+export type UpdateGearInput = z.infer<typeof updateGearSchema>;
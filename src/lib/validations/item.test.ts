@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { createItemSchema, updateItemSchema, reorderItemsSchema } from "./item";
+import {
+  createItemSchema,
+  updateItemSchema,
+  reorderItemsSchema,
+  packItemSchema,
+} from "./item";
 
 describe("createItemSchema", () => {
   describe("categoryId validation", () => {
@@ -277,6 +282,17 @@ describe("createItemSchema", () => {
       expect(result.success).toBe(true);
     });
 
+    it("accepts volume units for water", () => {
+      for (const weightUnit of ["ml", "l", "floz"]) {
+        const result = createItemSchema.safeParse({
+          categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+          name: "Water",
+          weightUnit,
+        });
+        expect(result.success).toBe(true);
+      }
+    });
+
     it("rejects invalid weight unit", () => {
       const result = createItemSchema.safeParse({
         categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
@@ -420,6 +436,195 @@ describe("createItemSchema", () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe("gear closet validation", () => {
+    it("accepts valid gearId", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        gearId: "c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Zpacks Duplex",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects invalid gearId format", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        gearId: "not-a-uuid",
+        name: "Zpacks Duplex",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.gearId).toBeDefined();
+      }
+    });
+
+    it("defaults saveToCloset to false", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Zpacks Duplex",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.saveToCloset).toBe(false);
+      }
+    });
+  });
+
+  describe("price validation", () => {
+    it("accepts a price with currency", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        price: 599.99,
+        currency: "EUR",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.price).toBe(599.99);
+        expect(result.data.currency).toBe("EUR");
+      }
+    });
+
+    it("accepts null price and defaults currency to USD", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        price: null,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.price).toBeNull();
+        expect(result.data.currency).toBe("USD");
+      }
+    });
+
+    it("rejects negative price", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        price: -1,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.price).toBeDefined();
+      }
+    });
+
+    it("rejects invalid currency code", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        currency: "usd",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.currency).toBeDefined();
+      }
+    });
+  });
+
+  describe("tagIds validation", () => {
+    it("defaults tagIds to an empty array", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.tagIds).toEqual([]);
+      }
+    });
+
+    it("accepts valid tag IDs", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        tagIds: ["b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12"],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects invalid tag IDs", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        tagIds: ["not-a-uuid"],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.tagIds).toBeDefined();
+      }
+    });
+
+    it("rejects more than 20 tags", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Tent",
+        tagIds: Array.from({ length: 21 }, () => crypto.randomUUID()),
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("perDay validation", () => {
+    it("defaults perDay to false", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Dinner",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.perDay).toBe(false);
+      }
+    });
+
+    it("rejects non-boolean perDay", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Dinner",
+        perDay: "yes",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("nutrition validation", () => {
+    it("accepts calories, macros and serving weight", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Peanut butter",
+        label: "consumable",
+        calories: 190,
+        protein: 7,
+        fat: 16,
+        carbs: 7,
+        servingWeight: 32,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects negative calories", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Peanut butter",
+        calories: -1,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.calories).toBeDefined();
+      }
+    });
+
+    it("rejects a zero serving weight", () => {
+      const result = createItemSchema.safeParse({
+        categoryId: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+        name: "Peanut butter",
+        servingWeight: 0,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
 
 describe("updateItemSchema", () => {
@@ -558,6 +763,82 @@ describe("updateItemSchema", () => {
     });
   });
 
+  describe("price validation", () => {
+    it("accepts price and currency", () => {
+      const result = updateItemSchema.safeParse({
+        price: 25,
+        currency: "GBP",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null price (clear price)", () => {
+      const result = updateItemSchema.safeParse({
+        price: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects negative price", () => {
+      const result = updateItemSchema.safeParse({
+        price: -5,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects invalid currency code", () => {
+      const result = updateItemSchema.safeParse({
+        currency: "DOLLARS",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("tagIds validation", () => {
+    it("accepts an empty array to clear tags", () => {
+      const result = updateItemSchema.safeParse({ tagIds: [] });
+      expect(result.success).toBe(true);
+    });
+
+    it("leaves tagIds undefined when omitted", () => {
+      const result = updateItemSchema.safeParse({ name: "Tent" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.tagIds).toBeUndefined();
+      }
+    });
+
+    it("rejects invalid tag IDs", () => {
+      const result = updateItemSchema.safeParse({ tagIds: ["nope"] });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("perDay validation", () => {
+    it("leaves perDay undefined when omitted", () => {
+      const result = updateItemSchema.safeParse({ name: "Dinner" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.perDay).toBeUndefined();
+      }
+    });
+  });
+
+  describe("nutrition validation", () => {
+    it("accepts null to clear nutrition", () => {
+      const result = updateItemSchema.safeParse({
+        calories: null,
+        servingWeight: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects negative macros", () => {
+      const result = updateItemSchema.safeParse({ fat: -2 });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("empty update", () => {
     it("accepts empty object", () => {
       const result = updateItemSchema.safeParse({});
@@ -736,3 +1017,31 @@ describe("reorderItemsSchema", () => {
     });
   });
 });
+
+describe("packItemSchema", () => {
+  it("accepts a packed unit count", () => {
+    const result = packItemSchema.safeParse({
+      itemId: "b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+      packedCount: 2,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a negative count", () => {
+    const result = packItemSchema.safeParse({
+      itemId: "b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+      packedCount: -1,
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.packedCount).toEqual([
+        "Packed count cannot be negative",
+      ]);
+    }
+  });
+
+  it("rejects an invalid item ID", () => {
+    const result = packItemSchema.safeParse({ itemId: "nope", packedCount: 1 });
+    expect(result.success).toBe(false);
+  });
+});
@@ -2,6 +2,8 @@ import { z } from "zod";
 
 export const createItemSchema = z.object({
   categoryId: z.string().uuid("Invalid category ID"),
+  gearId: z.string().uuid("Invalid gear ID").optional().nullable(),
+  saveToCloset: z.boolean().optional().default(false),
   name: z
     .string()
     .min(1, "Name is required")
@@ -22,7 +24,7 @@ export const createItemSchema = z.object({
     .min(0, "Weight cannot be negative")
     .optional()
     .default(0),
-  weightUnit: z.enum(["g", "oz", "kg", "lbs"], { message: "Weight unit must be 'g', 'oz', 'kg', or 'lbs'" }).optional().default("g"),
+  weightUnit: z.enum(["g", "oz", "kg", "lbs", "ml", "l", "floz"], { message: "Weight unit must be 'g', 'oz', 'kg', or 'lbs', or a volume of water in 'ml', 'l', or 'floz'" }).optional().default("g"),
   label: z
     .enum(["none", "worn", "consumable"], {
       message: "Label must be 'none', 'worn', or 'consumable'",
@@ -35,6 +37,41 @@ export const createItemSchema = z.object({
     .min(1, "Quantity must be at least 1")
     .optional()
     .default(1),
+  // Consumables only: weight is per trip day rather than for the whole trip
+  perDay: z.boolean().optional().default(false),
+  // Food nutrition per serving (see servingWeight); all optional
+  calories: z
+    .number()
+    .min(0, "Calories cannot be negative")
+    .optional()
+    .nullable(),
+  protein: z
+    .number()
+    .min(0, "Protein cannot be negative")
+    .optional()
+    .nullable(),
+  fat: z.number().min(0, "Fat cannot be negative").optional().nullable(),
+  carbs: z.number().min(0, "Carbs cannot be negative").optional().nullable(),
+  servingWeight: z
+    .number()
+    .positive("Serving weight must be greater than 0")
+    .optional()
+    .nullable(),
+  price: z
+    .number()
+    .min(0, "Price cannot be negative")
+    .optional()
+    .nullable(),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code")
+    .optional()
+    .default("USD"),
+  tagIds: z
+    .array(z.string().uuid("Invalid tag ID"))
+    .max(20, "An item can have at most 20 tags")
+    .optional()
+    .default([]),
 });
 
 export type CreateItemInput = z.infer<typeof createItemSchema>;
@@ -57,7 +94,7 @@ export const updateItemSchema = z.object({
     .optional()
     .nullable(),
   weightAmount: z.number().min(0, "Weight cannot be negative").optional(),
-  weightUnit: z.enum(["g", "oz", "kg", "lbs"], { message: "Weight unit must be 'g', 'oz', 'kg', or 'lbs'" }).optional(),
+  weightUnit: z.enum(["g", "oz", "kg", "lbs", "ml", "l", "floz"], { message: "Weight unit must be 'g', 'oz', 'kg', or 'lbs', or a volume of water in 'ml', 'l', or 'floz'" }).optional(),
   label: z
     .enum(["none", "worn", "consumable"], {
       message: "Label must be 'none', 'worn', or 'consumable'",
@@ -68,6 +105,37 @@ export const updateItemSchema = z.object({
     .int("Quantity must be a whole number")
     .min(1, "Quantity must be at least 1")
     .optional(),
+  perDay: z.boolean().optional(),
+  calories: z
+    .number()
+    .min(0, "Calories cannot be negative")
+    .optional()
+    .nullable(),
+  protein: z
+    .number()
+    .min(0, "Protein cannot be negative")
+    .optional()
+    .nullable(),
+  fat: z.number().min(0, "Fat cannot be negative").optional().nullable(),
+  carbs: z.number().min(0, "Carbs cannot be negative").optional().nullable(),
+  servingWeight: z
+    .number()
+    .positive("Serving weight must be greater than 0")
+    .optional()
+    .nullable(),
+  price: z
+    .number()
+    .min(0, "Price cannot be negative")
+    .optional()
+    .nullable(),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code")
+    .optional(),
+  tagIds: z
+    .array(z.string().uuid("Invalid tag ID"))
+    .max(20, "An item can have at most 20 tags")
+    .optional(),
 });
 
 export type UpdateItemInput = z.infer<typeof updateItemSchema>;
@@ -90,3 +158,13 @@ export const reorderItemsSchema = z.object({
 });
 
 export type ReorderItemsInput = z.infer<typeof reorderItemsSchema>;
+
+export const packItemSchema = z.object({
+  itemId: z.string().uuid("Invalid item ID"),
+  packedCount: z
+    .number()
+    .int("Packed count must be a whole number")
+    .min(0, "Packed count cannot be negative"),
+});
+
+export type PackItemInput = z.infer<typeof packItemSchema>;
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { createListSchema, updateListSchema } from "./list";
+import { createListSchema, updateListSchema, importListSchema } from "./list";
 
 describe("createListSchema", () => {
   describe("name validation", () => {
@@ -218,6 +218,139 @@ describe("updateListSchema", () => {
     });
   });
 
+  describe("hidePrices validation", () => {
+    it("accepts boolean value", () => {
+      const result = updateListSchema.safeParse({
+        hidePrices: true,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects non-boolean hidePrices", () => {
+      const result = updateListSchema.safeParse({
+        hidePrices: "yes",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("displayUnit validation", () => {
+    it("accepts a weight unit", () => {
+      const result = updateListSchema.safeParse({ displayUnit: "oz" });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null to clear the override", () => {
+      const result = updateListSchema.safeParse({ displayUnit: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects an unknown unit", () => {
+      const result = updateListSchema.safeParse({ displayUnit: "stone" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("trip validation", () => {
+    it("accepts trip days with resupply days", () => {
+      const result = updateListSchema.safeParse({
+        tripDays: 10,
+        resupplyDays: [4, 7],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null to clear the trip", () => {
+      const result = updateListSchema.safeParse({ tripDays: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects fractional or zero trip days", () => {
+      expect(updateListSchema.safeParse({ tripDays: 2.5 }).success).toBe(false);
+      expect(updateListSchema.safeParse({ tripDays: 0 }).success).toBe(false);
+    });
+
+    it("rejects trips longer than a year", () => {
+      const result = updateListSchema.safeParse({ tripDays: 366 });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects non-positive resupply days", () => {
+      const result = updateListSchema.safeParse({ resupplyDays: [0] });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.resupplyDays).toBeDefined();
+      }
+    });
+  });
+
+  describe("caloriesPerDay validation", () => {
+    it("accepts a daily calorie target", () => {
+      const result = updateListSchema.safeParse({ caloriesPerDay: 3500 });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null to clear the target", () => {
+      const result = updateListSchema.safeParse({ caloriesPerDay: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a zero or fractional target", () => {
+      expect(updateListSchema.safeParse({ caloriesPerDay: 0 }).success).toBe(false);
+      expect(updateListSchema.safeParse({ caloriesPerDay: 2500.5 }).success).toBe(false);
+    });
+  });
+
+  describe("water carry validation", () => {
+    it("accepts an amount with a volume unit", () => {
+      const result = updateListSchema.safeParse({
+        waterCarryAmount: 2.5,
+        waterCarryUnit: "l",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null to clear the water carry", () => {
+      const result = updateListSchema.safeParse({ waterCarryAmount: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects weight units for water", () => {
+      const result = updateListSchema.safeParse({ waterCarryUnit: "kg" });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.waterCarryUnit).toBeDefined();
+      }
+    });
+
+    it("rejects a zero amount", () => {
+      const result = updateListSchema.safeParse({ waterCarryAmount: 0 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("base weight target validation", () => {
+    it("accepts a target in grams", () => {
+      const result = updateListSchema.safeParse({ baseWeightTarget: 4500 });
+      expect(result.success).toBe(true);
+    });
+
+    it("accepts null to clear the target", () => {
+      const result = updateListSchema.safeParse({ baseWeightTarget: null });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a negative target", () => {
+      const result = updateListSchema.safeParse({ baseWeightTarget: -1 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.flatten().fieldErrors.baseWeightTarget).toEqual([
+          "Base weight target must be greater than 0",
+        ]);
+      }
+    });
+  });
+
   describe("empty update", () => {
     it("accepts empty object (no fields to update)", () => {
       const result = updateListSchema.safeParse({});
@@ -225,3 +358,39 @@ describe("updateListSchema", () => {
     });
   });
 });
+
+describe("importListSchema", () => {
+  it("accepts name and CSV", () => {
+    const result = importListSchema.safeParse({
+      name: "PCT 2024",
+      csv: "Item Name,Category,desc,qty,weight,unit\nTent,Shelter,,1,20,ounce",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects missing name", () => {
+    const result = importListSchema.safeParse({
+      csv: "Item Name,Category,desc,qty,weight,unit",
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.name).toBeDefined();
+    }
+  });
+
+  it("rejects empty CSV", () => {
+    const result = importListSchema.safeParse({ name: "PCT 2024", csv: "" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.csv).toBeDefined();
+    }
+  });
+
+  it("rejects CSV larger than 1 MB", () => {
+    const result = importListSchema.safeParse({
+      name: "PCT 2024",
+      csv: "a".repeat(1_000_001),
+    });
+    expect(result.success).toBe(false);
+  });
+});
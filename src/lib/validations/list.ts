@@ -26,6 +26,71 @@ export const updateListSchema = z.object({
     .optional()
     .nullable(),
   isPublic: z.boolean().optional(),
+  hidePrices: z.boolean().optional(),
+  // null clears the override so the owner's preferred unit applies
+  displayUnit: z
+    .enum(["g", "oz", "kg", "lbs"], { message: "Display unit must be 'g', 'oz', 'kg', or 'lbs'" })
+    .nullable()
+    .optional(),
+  // null clears the trip so per-day consumables count for a single day
+  tripDays: z
+    .number()
+    .int("Trip days must be a whole number")
+    .min(1, "Trip must be at least 1 day")
+    .max(365, "Trip must be at most 365 days")
+    .nullable()
+    .optional(),
+  resupplyDays: z
+    .array(
+      z
+        .number()
+        .int("Resupply days must be whole numbers")
+        .min(1, "Resupply days must be at least 1")
+    )
+    .max(50, "A trip can have at most 50 resupplies")
+    .optional(),
+  caloriesPerDay: z
+    .number()
+    .int("Calories per day must be a whole number")
+    .min(1, "Calories per day must be at least 1")
+    .max(20000, "Calories per day must be at most 20000")
+    .nullable()
+    .optional(),
+  // null clears the water carry
+  waterCarryAmount: z
+    .number()
+    .positive("Water carry must be greater than 0")
+    .max(20000, "Water carry must be at most 20000")
+    .nullable()
+    .optional(),
+  waterCarryUnit: z
+    .enum(["ml", "l", "floz"], { message: "Volume unit must be 'ml', 'l', or 'floz'" })
+    .optional(),
+  // Grams, entered in the display unit and converted by the client
+  baseWeightTarget: z
+    .number()
+    .positive("Base weight target must be greater than 0")
+    .max(100000, "Base weight target must be at most 100 kg")
+    .nullable()
+    .optional(),
 });
 
 export type UpdateListInput = z.infer<typeof updateListSchema>;
+
+export const importListSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(255, "Name must be at most 255 characters"),
+  description: z
+    .string()
+    .max(5000, "Description must be at most 5000 characters")
+    .optional()
+    .nullable(),
+  csv: z
+    .string()
+    .min(1, "CSV file is required")
+    .max(1_000_000, "CSV file must be at most 1 MB"),
+});
+
+export type ImportListInput = z.infer<typeof importListSchema>;
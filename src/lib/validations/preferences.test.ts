@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { updatePreferencesSchema } from "./preferences";
+
+describe("updatePreferencesSchema", () => {
+  it("accepts both units", () => {
+    const result = updatePreferencesSchema.safeParse({
+      displayUnit: "oz",
+      defaultWeightUnit: "g",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts a partial update", () => {
+    const result = updatePreferencesSchema.safeParse({ displayUnit: "lbs" });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts an empty object", () => {
+    const result = updatePreferencesSchema.safeParse({});
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an unknown display unit", () => {
+    const result = updatePreferencesSchema.safeParse({ displayUnit: "stone" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.displayUnit).toEqual([
+        "Display unit must be 'g', 'oz', 'kg', or 'lbs'",
+      ]);
+    }
+  });
+
+  it("rejects an unknown default weight unit", () => {
+    const result = updatePreferencesSchema.safeParse({
+      defaultWeightUnit: "grams",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts ascending weight class limits", () => {
+    const result = updatePreferencesSchema.safeParse({
+      weightClassThresholds: [2000, 4500, 9000],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts null to reset the weight class limits", () => {
+    const result = updatePreferencesSchema.safeParse({
+      weightClassThresholds: null,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects weight class limits out of order", () => {
+    const result = updatePreferencesSchema.safeParse({
+      weightClassThresholds: [4500, 2000, 9000],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.weightClassThresholds).toEqual([
+        "Weight class limits must be in ascending order",
+      ]);
+    }
+  });
+
+  it("rejects the wrong number of weight class limits", () => {
+    const result = updatePreferencesSchema.safeParse({
+      weightClassThresholds: [2000, 4500],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects null", () => {
+    const result = updatePreferencesSchema.safeParse({ displayUnit: null });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+const weightUnitSchema = (field: string) =>
+  z.enum(["g", "oz", "kg", "lbs"], {
+    message: `${field} must be 'g', 'oz', 'kg', or 'lbs'`,
+  });
+
+export const updatePreferencesSchema = z.object({
+  displayUnit: weightUnitSchema("Display unit").optional(),
+  defaultWeightUnit: weightUnitSchema("Default weight unit").optional(),
+  // Super-ultralight, ultralight and lightweight limits in grams; null resets
+  weightClassThresholds: z
+    .array(
+      z
+        .number()
+        .positive("Weight class limits must be greater than 0")
+        .max(100000, "Weight class limits must be at most 100 kg")
+    )
+    .length(3, "Exactly three weight class limits are required")
+    .refine(
+      (limits) => limits.every((limit, i) => i === 0 || limit > limits[i - 1]),
+      "Weight class limits must be in ascending order"
+    )
+    .nullable()
+    .optional(),
+});
+
+export type UpdatePreferencesInput = z.infer<typeof updatePreferencesSchema>;
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { updateProfileSchema } from "./profile";
+
+describe("updateProfileSchema", () => {
+  it("accepts a bio and avatar URL", () => {
+    const result = updateProfileSchema.safeParse({
+      bio: "Thru-hiker, tarp enthusiast",
+      avatarUrl: "https://example.com/me.png",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts null to clear fields", () => {
+    const result = updateProfileSchema.safeParse({ bio: null, avatarUrl: null });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts an empty object", () => {
+    const result = updateProfileSchema.safeParse({});
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a bio over 500 characters", () => {
+    const result = updateProfileSchema.safeParse({ bio: "a".repeat(501) });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.bio).toEqual([
+        "Bio must be at most 500 characters",
+      ]);
+    }
+  });
+
+  it("rejects avatar URLs that are not http(s)", () => {
+    expect(updateProfileSchema.safeParse({ avatarUrl: "not a url" }).success).toBe(
+      false
+    );
+    const result = updateProfileSchema.safeParse({
+      avatarUrl: "javascript:alert(1)",
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.avatarUrl).toContain(
+        "Avatar URL must start with http:// or https://"
+      );
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+export const updateProfileSchema = z.object({
+  // null clears the field
+  bio: z
+    .string()
+    .max(500, "Bio must be at most 500 characters")
+    .optional()
+    .nullable(),
+  avatarUrl: z
+    .string()
+    .url("Invalid URL format")
+    .regex(/^https?:\/\//, "Avatar URL must start with http:// or https://")
+    .max(2000, "URL must be at most 2000 characters")
+    .optional()
+    .nullable(),
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { createTagSchema, updateTagSchema } from "./tag";
+
+describe("createTagSchema", () => {
+  it("accepts valid name", () => {
+    const result = createTagSchema.safeParse({ name: "shared" });
+    expect(result.success).toBe(true);
+  });
+
+  it("trims whitespace from name", () => {
+    const result = createTagSchema.safeParse({ name: "  rental  " });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.name).toBe("rental");
+    }
+  });
+
+  it("rejects empty name", () => {
+    const result = createTagSchema.safeParse({ name: "" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.flatten().fieldErrors.name).toBeDefined();
+    }
+  });
+
+  it("rejects whitespace-only name", () => {
+    const result = createTagSchema.safeParse({ name: "   " });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects name exceeding 50 characters", () => {
+    const result = createTagSchema.safeParse({ name: "a".repeat(51) });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects missing name", () => {
+    const result = createTagSchema.safeParse({});
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("updateTagSchema", () => {
+  it("accepts valid name", () => {
+    const result = updateTagSchema.safeParse({ name: "electronics" });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects empty name", () => {
+    const result = updateTagSchema.safeParse({ name: "" });
+    expect(result.success).toBe(false);
+  });
+});
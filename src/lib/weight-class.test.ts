@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_WEIGHT_CLASS_THRESHOLDS,
+  calculateTargetProgress,
+  getWeightClass,
+  resolveWeightClassThresholds,
+  toTargetInput,
+} from "./weight-class";
+
+describe("getWeightClass", () => {
+  it("classifies by the default 5 / 10 / 20 lbs limits", () => {
+    expect(getWeightClass(2000)).toBe("super-ultralight");
+    expect(getWeightClass(4000)).toBe("ultralight");
+    expect(getWeightClass(8000)).toBe("lightweight");
+    expect(getWeightClass(12000)).toBe("traditional");
+  });
+
+  it("puts a base weight on a limit in the heavier class", () => {
+    expect(getWeightClass(DEFAULT_WEIGHT_CLASS_THRESHOLDS[1])).toBe(
+      "lightweight"
+    );
+  });
+
+  it("uses custom thresholds", () => {
+    const thresholds: [number, number, number] = [3000, 6000, 9000];
+    expect(getWeightClass(2500, thresholds)).toBe("super-ultralight");
+    expect(getWeightClass(4000, thresholds)).toBe("ultralight");
+    expect(getWeightClass(9500, thresholds)).toBe("traditional");
+  });
+});
+
+describe("resolveWeightClassThresholds", () => {
+  it("keeps three ascending limits", () => {
+    expect(resolveWeightClassThresholds([1000, 2000, 3000])).toEqual([
+      1000, 2000, 3000,
+    ]);
+  });
+
+  it("falls back to the defaults for missing or invalid limits", () => {
+    expect(resolveWeightClassThresholds(null)).toBe(
+      DEFAULT_WEIGHT_CLASS_THRESHOLDS
+    );
+    expect(resolveWeightClassThresholds([1000, 2000])).toBe(
+      DEFAULT_WEIGHT_CLASS_THRESHOLDS
+    );
+    expect(resolveWeightClassThresholds([3000, 2000, 4000])).toBe(
+      DEFAULT_WEIGHT_CLASS_THRESHOLDS
+    );
+    expect(resolveWeightClassThresholds([0, 2000, 4000])).toBe(
+      DEFAULT_WEIGHT_CLASS_THRESHOLDS
+    );
+  });
+});
+
+describe("calculateTargetProgress", () => {
+  it("reports the fraction and weight left under the target", () => {
+    expect(calculateTargetProgress(3000, 4000)).toEqual({
+      target: 4000,
+      fraction: 0.75,
+      remaining: 1000,
+    });
+  });
+
+  it("goes negative when over the target", () => {
+    const progress = calculateTargetProgress(5000, 4000);
+    expect(progress?.fraction).toBe(1.25);
+    expect(progress?.remaining).toBe(-1000);
+  });
+
+  it("returns null without a target", () => {
+    expect(calculateTargetProgress(3000, null)).toBeNull();
+    expect(calculateTargetProgress(3000, 0)).toBeNull();
+  });
+});
+
+describe("toTargetInput", () => {
+  it("converts grams to the entry unit", () => {
+    expect(toTargetInput(4535.92, "lbs")).toBe("10");
+    expect(toTargetInput(4500, "kg")).toBe("4.5");
+  });
+
+  it("is empty without a target", () => {
+    expect(toTargetInput(null, "g")).toBe("");
+  });
+});
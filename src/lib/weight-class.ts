@@ -0,0 +1,88 @@
+import { fromGrams, toGrams, type WeightUnit } from "@/lib/weight";
+
+export const WEIGHT_CLASSES = [
+  "super-ultralight",
+  "ultralight",
+  "lightweight",
+  "traditional",
+] as const;
+export type WeightClass = (typeof WEIGHT_CLASSES)[number];
+
+export const WEIGHT_CLASS_LABELS: Record<WeightClass, string> = {
+  "super-ultralight": "Super-ultralight",
+  ultralight: "Ultralight",
+  lightweight: "Lightweight",
+  traditional: "Traditional",
+};
+
+// Upper base weight limits in grams for every class but traditional, ascending
+export type WeightClassThresholds = [number, number, number];
+
+// The common 5 / 10 / 20 lbs cut-offs
+export const DEFAULT_WEIGHT_CLASS_THRESHOLDS: WeightClassThresholds = [
+  toGrams(5, "lbs"),
+  toGrams(10, "lbs"),
+  toGrams(20, "lbs"),
+];
+
+export interface TargetProgress {
+  target: number; // in grams
+  fraction: number; // weight / target, above 1 when over
+  remaining: number; // in grams, negative when over
+}
+
+/**
+ * Thresholds stored for a user or session, falling back to the defaults
+ * when none are set or the stored ones are not three ascending limits.
+ */
+export function resolveWeightClassThresholds(
+  stored: number[] | null | undefined
+): WeightClassThresholds {
+  if (
+    !stored ||
+    stored.length !== 3 ||
+    stored.some((limit, i) => !(limit > 0) || (i > 0 && limit <= stored[i - 1]))
+  ) {
+    return DEFAULT_WEIGHT_CLASS_THRESHOLDS;
+  }
+  return [stored[0], stored[1], stored[2]];
+}
+
+/**
+ * Class of a pack by its base weight: the first class whose limit the base
+ * weight is under, or traditional when it exceeds them all.
+ */
+export function getWeightClass(
+  baseWeight: number,
+  thresholds: WeightClassThresholds = DEFAULT_WEIGHT_CLASS_THRESHOLDS
+): WeightClass {
+  const index = thresholds.findIndex((limit) => baseWeight < limit);
+  return WEIGHT_CLASSES[index === -1 ? WEIGHT_CLASSES.length - 1 : index];
+}
+
+/**
+ * Progress of a weight against a target, or null when no target is set
+ */
+export function calculateTargetProgress(
+  weight: number,
+  target: number | null | undefined
+): TargetProgress | null {
+  if (!target || target <= 0) {
+    return null;
+  }
+  return {
+    target,
+    fraction: weight / target,
+    remaining: target - weight,
+  };
+}
+
+/**
+ * A target in grams as a form value in the entry unit, rounded for editing
+ */
+export function toTargetInput(
+  grams: number | null | undefined,
+  unit: WeightUnit
+): string {
+  return grams ? String(Number(fromGrams(grams, unit).toFixed(2))) : "";
+}
@@ -8,6 +8,17 @@ import {
   calculateItemWeights,
   calculateCategoryWeight,
   calculateListWeightSummary,
+  calculateTagWeights,
+  calculateTripWeights,
+  normalizeResupplyDays,
+  getListTripSettings,
+  getListWaterCarry,
+  isVolumeUnit,
+  formatUnit,
+  toWeightSnapshotValues,
+  isSameWeightSnapshot,
+  isWeightUnit,
+  resolveDisplayUnit,
   type WeightUnit,
 } from "./weight";
 
@@ -16,6 +27,7 @@ function createMockItem(overrides: Partial<Item> = {}): Item {
   return {
     id: "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
     categoryId: "b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11",
+    gearId: null,
     name: "Test Item",
     description: null,
     url: null,
@@ -23,7 +35,16 @@ function createMockItem(overrides: Partial<Item> = {}): Item {
     weightUnit: "g",
     label: "none",
     quantity: 1,
+    perDay: false,
+    calories: null,
+    protein: null,
+    fat: null,
+    carbs: null,
+    servingWeight: null,
+    price: null,
+    currency: "USD",
     position: 0,
+    packedCount: 0,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -929,6 +950,395 @@ describe("calculateListWeightSummary", () => {
   });
 });
 
+describe("trip planning", () => {
+  const categories = [
+    {
+      id: "cat-1",
+      name: "Shelter",
+      items: [createMockItem({ name: "Tent", weightAmount: 5000 })],
+    },
+    {
+      id: "cat-2",
+      name: "Food",
+      items: [
+        createMockItem({
+          name: "Daily rations",
+          weightAmount: 700,
+          label: "consumable",
+          perDay: true,
+        }),
+        createMockItem({
+          name: "Fuel",
+          weightAmount: 200,
+          label: "consumable",
+        }),
+      ],
+    },
+    {
+      id: "cat-3",
+      name: "Clothing",
+      items: [createMockItem({ name: "Shoes", weightAmount: 600, label: "worn" })],
+    },
+  ];
+
+  it("multiplies per-day consumables by the number of days", () => {
+    const item = createMockItem({
+      weightAmount: 350,
+      quantity: 2,
+      label: "consumable",
+      perDay: true,
+    });
+
+    expect(calculateItemWeights(item, 5).consumableWeight).toBe(3500);
+    expect(calculateItemWeights(item).consumableWeight).toBe(700);
+  });
+
+  it("ignores days for items that are not per-day consumables", () => {
+    expect(
+      calculateItemWeights(createMockItem({ weightAmount: 200, label: "consumable" }), 5)
+        .consumableWeight
+    ).toBe(200);
+    expect(
+      calculateItemWeights(createMockItem({ weightAmount: 200, perDay: true }), 5)
+        .baseWeight
+    ).toBe(200);
+  });
+
+  it("normalizes resupply days to sorted unique days inside the trip", () => {
+    expect(normalizeResupplyDays([6, 3, 6, 0, 10, 12, 2.5], 10)).toEqual([3, 6]);
+  });
+
+  it("splits the trip into legs between resupplies", () => {
+    const trip = calculateTripWeights(categories, { days: 10, resupplyDays: [4] });
+
+    expect(trip.dailyConsumableWeight).toBe(700);
+    expect(trip.fixedConsumableWeight).toBe(200);
+    expect(trip.startingConsumableWeight).toBe(3000);
+    expect(trip.legs).toEqual([
+      { startDay: 1, days: 4, consumableWeight: 3000, carriedWeight: 8000 },
+      { startDay: 5, days: 6, consumableWeight: 4400, carriedWeight: 9400 },
+    ]);
+  });
+
+  it("averages carried weight as food is eaten through each leg", () => {
+    const trip = calculateTripWeights(categories, { days: 10, resupplyDays: [4] });
+
+    // 5000 base + 200 fuel + (700 * 4² / 2 + 700 * 6² / 2) / 10
+    expect(trip.averageCarriedWeight).toBeCloseTo(7020);
+  });
+
+  it("treats a trip without resupplies as a single leg", () => {
+    const trip = calculateTripWeights(categories, { days: 3 });
+
+    expect(trip.resupplyDays).toEqual([]);
+    expect(trip.legs).toHaveLength(1);
+    expect(trip.startingConsumableWeight).toBe(2300);
+  });
+
+  it("reports starting consumables in the list summary", () => {
+    const summary = calculateListWeightSummary(categories, {
+      days: 10,
+      resupplyDays: [4],
+    });
+
+    expect(summary.totalConsumableWeight).toBe(3000);
+    expect(summary.categories[1].consumableWeight).toBe(3000);
+    expect(summary.totalPackWeight).toBe(8600);
+    expect(summary.trip?.legs).toHaveLength(2);
+  });
+
+  it("carries the water on every leg of the trip", () => {
+    const summary = calculateListWeightSummary(
+      categories,
+      { days: 10, resupplyDays: [4] },
+      { amount: 2, unit: "kg" }
+    );
+
+    expect(summary.trip?.legs).toEqual([
+      { startDay: 1, days: 4, consumableWeight: 5000, carriedWeight: 10000 },
+      { startDay: 5, days: 6, consumableWeight: 6400, carriedWeight: 11400 },
+    ]);
+    expect(summary.trip?.startingConsumableWeight).toBe(
+      summary.totalConsumableWeight
+    );
+    expect(summary.trip?.averageCarriedWeight).toBeCloseTo(9020);
+  });
+
+  it("counts per-day consumables once without a trip", () => {
+    const summary = calculateListWeightSummary(categories);
+
+    expect(summary.totalConsumableWeight).toBe(900);
+    expect(summary).not.toHaveProperty("trip");
+  });
+
+  it("reads trip settings from a list", () => {
+    expect(getListTripSettings({ tripDays: null, resupplyDays: [] })).toBeNull();
+    expect(getListTripSettings({ tripDays: 7, resupplyDays: [3] })).toEqual({
+      days: 7,
+      resupplyDays: [3],
+    });
+  });
+});
+
+describe("water volumes", () => {
+  it("weighs volumes as water", () => {
+    expect(toGrams(500, "ml")).toBe(500);
+    expect(toGrams(2, "l")).toBe(2000);
+    expect(toGrams(16, "floz")).toBeCloseTo(473.176);
+  });
+
+  it("converts volumes into weight units", () => {
+    expect(convertWeight(1, "l", "kg")).toBeCloseTo(1);
+    expect(convertWeight(1, "floz", "oz")).toBeCloseTo(1.0432, 4);
+  });
+
+  it("recognizes volume units", () => {
+    expect(isVolumeUnit("l")).toBe(true);
+    expect(isVolumeUnit("floz")).toBe(true);
+    expect(isVolumeUnit("g")).toBe(false);
+    expect(isVolumeUnit("valueOf")).toBe(false);
+  });
+
+  it("labels fluid ounces readably", () => {
+    expect(formatUnit("floz")).toBe("fl oz");
+    expect(formatUnit("g")).toBe("g");
+  });
+
+  it("counts water items by volume", () => {
+    const bottle = createMockItem({
+      weightAmount: 1.5,
+      weightUnit: "l",
+      label: "consumable",
+    });
+
+    expect(calculateItemWeights(bottle).consumableWeight).toBe(1500);
+  });
+
+  it("folds the water carry into the consumable total", () => {
+    const summary = calculateListWeightSummary(
+      [
+        {
+          id: "cat-1",
+          name: "Food",
+          items: [createMockItem({ weightAmount: 800, label: "consumable" })],
+        },
+      ],
+      null,
+      { amount: 2, unit: "l" }
+    );
+
+    expect(summary.totalWaterWeight).toBe(2000);
+    expect(summary.totalConsumableWeight).toBe(2800);
+    expect(summary.totalPackWeight).toBe(2800);
+    expect(summary.categories[0].consumableWeight).toBe(800);
+  });
+
+  it("omits water from the summary when no carry is set", () => {
+    expect(calculateListWeightSummary([])).not.toHaveProperty("totalWaterWeight");
+  });
+
+  it("reads the water carry from a list", () => {
+    expect(
+      getListWaterCarry({ waterCarryAmount: null, waterCarryUnit: "l" })
+    ).toBeNull();
+    expect(
+      getListWaterCarry({ waterCarryAmount: 64, waterCarryUnit: "floz" })
+    ).toEqual({ amount: 64, unit: "floz" });
+  });
+});
+
+describe("calculateTagWeights", () => {
+  const shared = { id: "tag-shared", name: "shared" };
+  const electronics = { id: "tag-electronics", name: "electronics" };
+
+  it("returns empty array when no items are tagged", () => {
+    const result = calculateTagWeights([
+      { items: [createMockItem({ weightAmount: 500 })] },
+    ]);
+    expect(result).toEqual([]);
+  });
+
+  it("sums item weights per tag across categories", () => {
+    const result = calculateTagWeights([
+      {
+        items: [
+          { ...createMockItem({ weightAmount: 1000 }), tags: [shared] },
+          createMockItem({ weightAmount: 200 }),
+        ],
+      },
+      {
+        items: [{ ...createMockItem({ weightAmount: 300 }), tags: [shared] }],
+      },
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      tagId: "tag-shared",
+      tagName: "shared",
+      baseWeight: 1300,
+      totalWeight: 1300,
+      itemCount: 2,
+    });
+  });
+
+  it("counts items with several tags toward each tag", () => {
+    const result = calculateTagWeights([
+      {
+        items: [
+          {
+            ...createMockItem({ weightAmount: 150 }),
+            tags: [shared, electronics],
+          },
+        ],
+      },
+    ]);
+
+    expect(result.map((t) => t.tagName)).toEqual(["electronics", "shared"]);
+    expect(result[0].totalWeight).toBe(150);
+    expect(result[1].totalWeight).toBe(150);
+  });
+
+  it("keeps worn and consumable weight separate from base weight", () => {
+    const result = calculateTagWeights([
+      {
+        items: [
+          {
+            ...createMockItem({ weightAmount: 100, label: "worn", quantity: 2 }),
+            tags: [shared],
+          },
+          {
+            ...createMockItem({ weightAmount: 400, label: "consumable" }),
+            tags: [shared],
+          },
+        ],
+      },
+    ]);
+
+    expect(result[0]).toMatchObject({
+      baseWeight: 100,
+      wornWeight: 100,
+      consumableWeight: 400,
+      totalWeight: 600,
+      itemCount: 2,
+    });
+  });
+
+  it("scales per-day consumables by the days carried", () => {
+    const result = calculateTagWeights(
+      [
+        {
+          items: [
+            {
+              ...createMockItem({
+                weightAmount: 700,
+                label: "consumable",
+                perDay: true,
+              }),
+              tags: [shared],
+            },
+            {
+              ...createMockItem({ weightAmount: 200, label: "consumable" }),
+              tags: [shared],
+            },
+          ],
+        },
+      ],
+      4
+    );
+
+    expect(result[0].consumableWeight).toBe(3000);
+    expect(result[0].totalWeight).toBe(3000);
+  });
+});
+
+describe("toWeightSnapshotValues", () => {
+  it("maps list totals to snapshot values", () => {
+    const summary = calculateListWeightSummary([
+      {
+        id: "cat-1",
+        name: "Gear",
+        items: [
+          createMockItem({ weightAmount: 1000 }),
+          createMockItem({ weightAmount: 200, label: "worn" }),
+          createMockItem({ weightAmount: 500, label: "consumable" }),
+        ],
+      },
+    ]);
+
+    expect(toWeightSnapshotValues(summary)).toEqual({
+      baseWeight: 1000,
+      wornWeight: 200,
+      consumableWeight: 500,
+      totalWeight: 1700,
+      itemCount: 3,
+    });
+  });
+});
+
+describe("isSameWeightSnapshot", () => {
+  const snapshot = {
+    baseWeight: 4535.92,
+    wornWeight: 200,
+    consumableWeight: 0,
+    totalWeight: 4735.92,
+    itemCount: 5,
+  };
+
+  it("returns true for identical snapshots", () => {
+    expect(isSameWeightSnapshot(snapshot, { ...snapshot })).toBe(true);
+  });
+
+  it("ignores single-precision rounding differences", () => {
+    expect(
+      isSameWeightSnapshot(snapshot, {
+        ...snapshot,
+        baseWeight: Math.fround(snapshot.baseWeight),
+        totalWeight: Math.fround(snapshot.totalWeight),
+      })
+    ).toBe(true);
+  });
+
+  it("returns false when a weight changes", () => {
+    expect(
+      isSameWeightSnapshot(snapshot, { ...snapshot, wornWeight: 250 })
+    ).toBe(false);
+  });
+
+  it("returns false when the item count changes", () => {
+    expect(
+      isSameWeightSnapshot(snapshot, { ...snapshot, itemCount: 6 })
+    ).toBe(false);
+  });
+});
+
+describe("isWeightUnit", () => {
+  it("accepts supported units", () => {
+    expect(["g", "oz", "kg", "lbs"].every(isWeightUnit)).toBe(true);
+  });
+
+  it("rejects unknown values", () => {
+    expect(isWeightUnit("stone")).toBe(false);
+    expect(isWeightUnit("toString")).toBe(false);
+    expect(isWeightUnit(null)).toBe(false);
+    expect(isWeightUnit(undefined)).toBe(false);
+  });
+});
+
+describe("resolveDisplayUnit", () => {
+  it("returns the first supported candidate", () => {
+    expect(resolveDisplayUnit("oz", "kg", "g")).toBe("oz");
+  });
+
+  it("skips missing and unsupported candidates", () => {
+    expect(resolveDisplayUnit(undefined, null, "stone", "lbs")).toBe("lbs");
+  });
+
+  it("falls back to grams", () => {
+    expect(resolveDisplayUnit()).toBe("g");
+    expect(resolveDisplayUnit(null, "")).toBe("g");
+  });
+});
+
 describe("weight calculation integration", () => {
   it("round-trip conversion preserves value", () => {
     const originalGrams = 1000;
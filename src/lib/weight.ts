@@ -2,6 +2,12 @@ import type { Item } from "@/db/schema";
 
 export type WeightUnit = "g" | "oz" | "kg" | "lbs";
 
+// Volume units for water, weighed at 1 g per ml
+export type VolumeUnit = "ml" | "l" | "floz";
+
+// Any unit an item can be entered in
+export type MeasureUnit = WeightUnit | VolumeUnit;
+
 // Conversion factors to grams (base unit for calculations)
 const TO_GRAMS: Record<WeightUnit, number> = {
   g: 1,
@@ -18,26 +24,71 @@ const FROM_GRAMS: Record<WeightUnit, number> = {
   lbs: 1 / 453.592,
 };
 
+// Weight in grams of one unit of water
+const VOLUME_TO_GRAMS: Record<VolumeUnit, number> = {
+  ml: 1,
+  l: 1000,
+  floz: 29.5735,
+};
+
+const UNIT_LABELS: Record<string, string> = {
+  floz: "fl oz",
+};
+
 /**
- * Convert a weight value from one unit to another
+ * Convert a weight value from one unit to another.
+ * Volumes are converted as water.
  */
 export function convertWeight(
   amount: number,
-  fromUnit: WeightUnit,
+  fromUnit: MeasureUnit,
   toUnit: WeightUnit
 ): number {
   if (fromUnit === toUnit) return amount;
-  const grams = amount * TO_GRAMS[fromUnit];
-  return grams * FROM_GRAMS[toUnit];
+  return toGrams(amount, fromUnit) * FROM_GRAMS[toUnit];
+}
+
+/**
+ * Check whether a value is a supported weight unit
+ */
+export function isWeightUnit(value: unknown): value is WeightUnit {
+  return typeof value === "string" && Object.hasOwn(TO_GRAMS, value);
+}
+
+/**
+ * Check whether a value is a supported volume unit
+ */
+export function isVolumeUnit(value: unknown): value is VolumeUnit {
+  return typeof value === "string" && Object.hasOwn(VOLUME_TO_GRAMS, value);
 }
 
 /**
- * Convert weight to grams for consistent calculations
+ * Human-readable unit name, e.g. "fl oz" for "floz"
+ */
+export function formatUnit(unit: string): string {
+  return UNIT_LABELS[unit] ?? unit;
+}
+
+/**
+ * Pick the unit to display weights in from candidates in priority order
+ * (e.g. query string, list override, owner preference), skipping missing
+ * or unsupported values and falling back to grams.
+ */
+export function resolveDisplayUnit(
+  ...candidates: (string | null | undefined)[]
+): WeightUnit {
+  return candidates.find(isWeightUnit) ?? "g";
+}
+
+/**
+ * Convert weight to grams for consistent calculations.
+ * Volumes are weighed as water; unknown units are treated as grams.
  */
 export function toGrams(amount: number, unit: string): number {
-  const weightUnit = (unit === "g" || unit === "oz" || unit === "kg" || unit === "lbs")
-    ? unit as WeightUnit
-    : "g";
+  if (isVolumeUnit(unit)) {
+    return amount * VOLUME_TO_GRAMS[unit];
+  }
+  const weightUnit = isWeightUnit(unit) ? unit : "g";
   return amount * TO_GRAMS[weightUnit];
 }
 
@@ -78,9 +129,46 @@ export interface ListWeightSummary {
   categories: CategoryWeight[];
   totalBaseWeight: number; // in grams
   totalWornWeight: number; // in grams
-  totalConsumableWeight: number; // in grams
+  totalConsumableWeight: number; // in grams, carried at the start of the trip
   totalPackWeight: number; // base + worn + consumable in grams
   totalItemCount: number;
+  totalWaterWeight?: number; // in grams, list-level water carry (part of consumables)
+  trip?: TripWeightSummary;
+}
+
+/**
+ * Most water carried between sources, entered on the list
+ */
+export interface WaterCarry {
+  amount: number;
+  unit: string;
+}
+
+/**
+ * Trip settings used to scale per-day consumables.
+ * A resupply on day N means food for days 1..N is carried from the start
+ * and the next leg begins on day N + 1.
+ */
+export interface TripSettings {
+  days: number;
+  resupplyDays?: number[];
+}
+
+export interface TripLeg {
+  startDay: number; // 1-based day the leg begins on
+  days: number;
+  consumableWeight: number; // in grams, carried at the start of the leg
+  carriedWeight: number; // base + consumable in grams at the start of the leg
+}
+
+export interface TripWeightSummary {
+  days: number;
+  resupplyDays: number[];
+  dailyConsumableWeight: number; // in grams, per-day consumables for one day
+  fixedConsumableWeight: number; // in grams, consumables not scaled by days
+  startingConsumableWeight: number; // in grams
+  averageCarriedWeight: number; // base + consumable in grams, averaged over the trip
+  legs: TripLeg[];
 }
 
 interface CategoryWithItems {
@@ -93,8 +181,12 @@ interface CategoryWithItems {
  * Calculate weight breakdown for a single item.
  * Handles the special case where worn items with quantity > 1
  * have the first one as worn weight and the rest as base weight.
+ * Per-day consumables are multiplied by the number of days carried.
  */
-export function calculateItemWeights(item: Item): {
+export function calculateItemWeights(
+  item: Item,
+  days = 1
+): {
   baseWeight: number;
   wornWeight: number;
   consumableWeight: number;
@@ -115,7 +207,11 @@ export function calculateItemWeights(item: Item): {
   }
 
   if (item.label === "consumable") {
-    return { baseWeight: 0, wornWeight: 0, consumableWeight: totalWeight };
+    return {
+      baseWeight: 0,
+      wornWeight: 0,
+      consumableWeight: item.perDay ? totalWeight * days : totalWeight,
+    };
   }
 
   // Default: all base weight (label === "none" or undefined)
@@ -125,13 +221,16 @@ export function calculateItemWeights(item: Item): {
 /**
  * Calculate weight summary for a category
  */
-export function calculateCategoryWeight(category: CategoryWithItems): CategoryWeight {
+export function calculateCategoryWeight(
+  category: CategoryWithItems,
+  days = 1
+): CategoryWeight {
   let baseWeight = 0;
   let wornWeight = 0;
   let consumableWeight = 0;
 
   for (const item of category.items) {
-    const weights = calculateItemWeights(item);
+    const weights = calculateItemWeights(item, days);
     baseWeight += weights.baseWeight;
     wornWeight += weights.wornWeight;
     consumableWeight += weights.consumableWeight;
@@ -149,16 +248,105 @@ export function calculateCategoryWeight(category: CategoryWithItems): CategoryWe
 }
 
 /**
- * Calculate complete weight summary for a list
+ * Normalize resupply days: whole days strictly inside the trip, sorted and
+ * without duplicates.
+ */
+export function normalizeResupplyDays(
+  resupplyDays: number[],
+  tripDays: number
+): number[] {
+  return [...new Set(resupplyDays)]
+    .filter((day) => Number.isInteger(day) && day > 0 && day < tripDays)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Split a trip into legs between resupplies and calculate the weight carried
+ * on each. Per-day consumables are eaten at a steady rate within a leg, so
+ * the average carried weight is base + fixed consumables + half of each
+ * leg's food, weighted by the leg's length. A water carry is refilled along
+ * the way, so it is carried in full on every leg.
+ */
+export function calculateTripWeights(
+  categories: CategoryWithItems[],
+  trip: TripSettings,
+  water?: WaterCarry | null
+): TripWeightSummary {
+  const days = Math.max(1, Math.floor(trip.days));
+  const resupplyDays = normalizeResupplyDays(trip.resupplyDays ?? [], days);
+
+  let baseWeight = 0;
+  let dailyConsumableWeight = 0;
+  let fixedConsumableWeight = 0;
+
+  for (const category of categories) {
+    for (const item of category.items) {
+      const weights = calculateItemWeights(item);
+      baseWeight += weights.baseWeight;
+      if (item.perDay) {
+        dailyConsumableWeight += weights.consumableWeight;
+      } else {
+        fixedConsumableWeight += weights.consumableWeight;
+      }
+    }
+  }
+
+  const waterWeight = water ? toGrams(water.amount, water.unit) : 0;
+  const boundaries = [0, ...resupplyDays, days];
+  const legs: TripLeg[] = [];
+  let weightedFood = 0;
+
+  for (let i = 1; i < boundaries.length; i++) {
+    const legDays = boundaries[i] - boundaries[i - 1];
+    const consumableWeight =
+      fixedConsumableWeight + dailyConsumableWeight * legDays + waterWeight;
+
+    legs.push({
+      startDay: boundaries[i - 1] + 1,
+      days: legDays,
+      consumableWeight,
+      carriedWeight: baseWeight + consumableWeight,
+    });
+    weightedFood += (dailyConsumableWeight * legDays * legDays) / 2;
+  }
+
+  return {
+    days,
+    resupplyDays,
+    dailyConsumableWeight,
+    fixedConsumableWeight,
+    startingConsumableWeight: legs[0].consumableWeight,
+    averageCarriedWeight:
+      baseWeight + fixedConsumableWeight + waterWeight + weightedFood / days,
+    legs,
+  };
+}
+
+/**
+ * Calculate complete weight summary for a list.
+ * With trip settings, per-day consumables are counted for the first leg
+ * (what is carried out of the trailhead) and a trip breakdown is included.
+ * A water carry is added to the consumable total on top of the items.
  */
 export function calculateListWeightSummary(
-  categories: CategoryWithItems[]
+  categories: CategoryWithItems[],
+  trip?: TripSettings | null,
+  water?: WaterCarry | null
 ): ListWeightSummary {
-  const categoryWeights = categories.map(calculateCategoryWeight);
+  const tripSummary = trip
+    ? calculateTripWeights(categories, trip, water)
+    : undefined;
+  const carriedDays = tripSummary ? tripSummary.legs[0].days : 1;
+  const categoryWeights = categories.map((category) =>
+    calculateCategoryWeight(category, carriedDays)
+  );
 
   const totalBaseWeight = categoryWeights.reduce((sum, c) => sum + c.baseWeight, 0);
   const totalWornWeight = categoryWeights.reduce((sum, c) => sum + c.wornWeight, 0);
-  const totalConsumableWeight = categoryWeights.reduce((sum, c) => sum + c.consumableWeight, 0);
+  const totalWaterWeight = water ? toGrams(water.amount, water.unit) : 0;
+  const totalConsumableWeight =
+    categoryWeights.reduce((sum, c) => sum + c.consumableWeight, 0) +
+    totalWaterWeight;
   const totalItemCount = categoryWeights.reduce((sum, c) => sum + c.itemCount, 0);
 
   return {
@@ -168,5 +356,131 @@ export function calculateListWeightSummary(
     totalConsumableWeight,
     totalPackWeight: totalBaseWeight + totalWornWeight + totalConsumableWeight,
     totalItemCount,
+    ...(water && { totalWaterWeight }),
+    ...(tripSummary && { trip: tripSummary }),
   };
 }
+
+/**
+ * Water carry stored on a list, or null when none is set
+ */
+export function getListWaterCarry(list: {
+  waterCarryAmount: number | null;
+  waterCarryUnit: string;
+}): WaterCarry | null {
+  return list.waterCarryAmount
+    ? { amount: list.waterCarryAmount, unit: list.waterCarryUnit }
+    : null;
+}
+
+/**
+ * Trip settings stored on a list, or null when no trip length is set
+ */
+export function getListTripSettings(list: {
+  tripDays: number | null;
+  resupplyDays: number[];
+}): TripSettings | null {
+  return list.tripDays
+    ? { days: list.tripDays, resupplyDays: list.resupplyDays }
+    : null;
+}
+
+export interface TagWeight {
+  tagId: string;
+  tagName: string;
+  baseWeight: number; // in grams
+  wornWeight: number; // in grams
+  consumableWeight: number; // in grams
+  totalWeight: number; // in grams
+  itemCount: number;
+}
+
+interface TaggedItem extends Item {
+  tags?: { id: string; name: string }[];
+}
+
+/**
+ * Calculate weight subtotals per user-defined tag, sorted by tag name.
+ * Items with several tags count toward each of them, and worn/consumable
+ * labels are split out the same way as in the category totals, with per-day
+ * consumables scaled by the days carried.
+ */
+export function calculateTagWeights(
+  categories: { items: TaggedItem[] }[],
+  days = 1
+): TagWeight[] {
+  const byTag = new Map<string, TagWeight>();
+
+  for (const category of categories) {
+    for (const item of category.items) {
+      if (!item.tags || item.tags.length === 0) continue;
+
+      const weights = calculateItemWeights(item, days);
+      for (const tag of item.tags) {
+        const entry = byTag.get(tag.id) ?? {
+          tagId: tag.id,
+          tagName: tag.name,
+          baseWeight: 0,
+          wornWeight: 0,
+          consumableWeight: 0,
+          totalWeight: 0,
+          itemCount: 0,
+        };
+        entry.baseWeight += weights.baseWeight;
+        entry.wornWeight += weights.wornWeight;
+        entry.consumableWeight += weights.consumableWeight;
+        entry.totalWeight +=
+          weights.baseWeight + weights.wornWeight + weights.consumableWeight;
+        entry.itemCount += 1;
+        byTag.set(tag.id, entry);
+      }
+    }
+  }
+
+  return [...byTag.values()].sort((a, b) => a.tagName.localeCompare(b.tagName));
+}
+
+export interface WeightSnapshotValues {
+  baseWeight: number; // in grams
+  wornWeight: number; // in grams
+  consumableWeight: number; // in grams
+  totalWeight: number; // in grams
+  itemCount: number;
+}
+
+// Snapshots are stored as single-precision reals, so compare with a tolerance
+const SNAPSHOT_TOLERANCE_GRAMS = 0.01;
+
+/**
+ * Extract the values recorded in a weight history snapshot from a list summary
+ */
+export function toWeightSnapshotValues(
+  summary: ListWeightSummary
+): WeightSnapshotValues {
+  return {
+    baseWeight: summary.totalBaseWeight,
+    wornWeight: summary.totalWornWeight,
+    consumableWeight: summary.totalConsumableWeight,
+    totalWeight: summary.totalPackWeight,
+    itemCount: summary.totalItemCount,
+  };
+}
+
+/**
+ * Check whether two snapshots record the same weights and item count
+ */
+export function isSameWeightSnapshot(
+  a: WeightSnapshotValues,
+  b: WeightSnapshotValues
+): boolean {
+  const close = (x: number, y: number) =>
+    Math.abs(x - y) < SNAPSHOT_TOLERANCE_GRAMS;
+
+  return (
+    a.itemCount === b.itemCount &&
+    close(a.baseWeight, b.baseWeight) &&
+    close(a.wornWeight, b.wornWeight) &&
+    close(a.consumableWeight, b.consumableWeight) &&
+    close(a.totalWeight, b.totalWeight)
+  );
+}